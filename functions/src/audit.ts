@@ -0,0 +1,28 @@
+import { DocumentReference, Timestamp, Transaction } from 'firebase-admin/firestore';
+
+// Mirrors AuditEntry in src/types/index.ts. The functions only record the
+// changes they make themselves; the web app records everything else.
+
+export type WorkerAuditAction = 'issue.expire' | 'issue.release' | 'pr.review';
+
+export interface AuditEntryDoc {
+  action: WorkerAuditAction;
+  /** "system" for the expiry worker, "github" for the webhook, or the team that called a function */
+  actor: string;
+  actorRole: 'system' | 'team';
+  target: string;
+  issueId: string | null;
+  teamName: string | null;
+  before: Record<string, unknown> | null;
+  after: Record<string, unknown> | null;
+  createdAt: Timestamp;
+}
+
+/** Record the entry in the caller's transaction, so it exists only if the change does */
+export const appendAuditEntry = (
+  event: DocumentReference,
+  transaction: Transaction,
+  entry: AuditEntryDoc
+): void => {
+  transaction.create(event.collection('audit').doc(), entry);
+};
@@ -0,0 +1,148 @@
+import { randomBytes } from 'crypto';
+import { getAuth, UserRecord } from 'firebase-admin/auth';
+import { DocumentReference, getFirestore, Timestamp } from 'firebase-admin/firestore';
+import { CallableRequest, HttpsError, onCall } from 'firebase-functions/v2/https';
+import { eventRef } from './events';
+
+// Teams sign in with Firebase Auth email/password accounts created here.
+// The web app derives the same email from the event and team name (see
+// teamEmail in src/services/firebaseService.ts).
+// The event is part of the address, so the same team name can play in
+// several events with separate logins.
+const TEAM_EMAIL_DOMAIN = 'teams.contribx.app';
+
+export const teamEmail = (eventSlug: string, teamName: string): string =>
+  `${teamName.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-')}@${eventSlug}.${TEAM_EMAIL_DOMAIN}`;
+
+export interface TeamCredential {
+  teamName: string;
+  email: string;
+  password: string;
+}
+
+interface CredentialRequest {
+  eventSlug?: string;
+  teamName?: string;
+}
+
+interface CredentialTarget {
+  eventSlug: string;
+  event: DocumentReference;
+  teamName: string;
+}
+
+const generatePassword = (): string => randomBytes(9).toString('base64url');
+
+const assertAdmin = (request: CallableRequest<unknown>) => {
+  if (request.auth?.token.role !== 'admin') {
+    throw new HttpsError('permission-denied', 'Only admins can manage team credentials.');
+  }
+};
+
+const requireTarget = async (request: CallableRequest<CredentialRequest>): Promise<CredentialTarget> => {
+  const eventSlug = request.data?.eventSlug?.trim();
+  if (!eventSlug) {
+    throw new HttpsError('invalid-argument', 'Event is required.');
+  }
+  const teamName = request.data?.teamName?.trim();
+  if (!teamName) {
+    throw new HttpsError('invalid-argument', 'Team name is required.');
+  }
+  if (teamName.includes('/')) {
+    throw new HttpsError('invalid-argument', 'Team name cannot contain "/".');
+  }
+
+  const event = eventRef(getFirestore(), eventSlug);
+  if (!(await event.get()).exists) {
+    throw new HttpsError('not-found', `There is no event at /e/${eventSlug}.`);
+  }
+  return { eventSlug, event, teamName };
+};
+
+const findTeamUser = async ({ eventSlug, teamName }: CredentialTarget): Promise<UserRecord | null> => {
+  try {
+    return await getAuth().getUserByEmail(teamEmail(eventSlug, teamName));
+  } catch (error) {
+    if ((error as { code?: string }).code === 'auth/user-not-found') {
+      return null;
+    }
+    throw error;
+  }
+};
+
+const markCredential = async ({ event, teamName }: CredentialTarget, status: 'active' | 'revoked') => {
+  await event.collection('teams').doc(teamName).set({
+    credentialStatus: status,
+    credentialUpdatedAt: Timestamp.now()
+  }, { merge: true });
+};
+
+/**
+ * Create a login for a team of an event (and its team document if missing).
+ * Returns the generated password; it is not stored anywhere else.
+ */
+export const createTeamCredential = onCall<CredentialRequest>(async (request): Promise<TeamCredential> => {
+  assertAdmin(request);
+  const target = await requireTarget(request);
+  const { eventSlug, event, teamName } = target;
+
+  if (await findTeamUser(target)) {
+    throw new HttpsError('already-exists', `${teamName} already has a login. Rotate it instead.`);
+  }
+
+  const email = teamEmail(eventSlug, teamName);
+  const password = generatePassword();
+  const user = await getAuth().createUser({ email, password, displayName: teamName });
+  await getAuth().setCustomUserClaims(user.uid, { role: 'team', team: teamName, event: eventSlug });
+
+  const teamRef = event.collection('teams').doc(teamName);
+  const teamSnap = await teamRef.get();
+  if (!teamSnap.exists) {
+    await teamRef.set({ name: teamName, points: 0, active: false });
+  }
+  await markCredential(target, 'active');
+
+  return { teamName, email, password };
+});
+
+/**
+ * Issue a new password for a team, signing out every existing session.
+ * Also re-enables a revoked login.
+ */
+export const rotateTeamCredential = onCall<CredentialRequest>(async (request): Promise<TeamCredential> => {
+  assertAdmin(request);
+  const target = await requireTarget(request);
+  const { eventSlug, teamName } = target;
+
+  const user = await findTeamUser(target);
+  if (!user) {
+    throw new HttpsError('not-found', `${teamName} has no login yet.`);
+  }
+
+  const password = generatePassword();
+  await getAuth().updateUser(user.uid, { password, disabled: false });
+  await getAuth().revokeRefreshTokens(user.uid);
+  await markCredential(target, 'active');
+
+  return { teamName, email: user.email ?? teamEmail(eventSlug, teamName), password };
+});
+
+/**
+ * Disable a team's login and sign out its sessions. Scores are kept.
+ */
+export const revokeTeamCredential = onCall<CredentialRequest>(async (request): Promise<{ teamName: string }> => {
+  assertAdmin(request);
+  const target = await requireTarget(request);
+  const { teamName } = target;
+
+  const user = await findTeamUser(target);
+  if (!user) {
+    throw new HttpsError('not-found', `${teamName} has no login yet.`);
+  }
+
+  await getAuth().updateUser(user.uid, { disabled: true });
+  await getAuth().revokeRefreshTokens(user.uid);
+  await markCredential(target, 'revoked');
+
+  return { teamName };
+});
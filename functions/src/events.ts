@@ -0,0 +1,31 @@
+import { DocumentReference, DocumentSnapshot, Firestore } from 'firebase-admin/firestore';
+import { toMillis } from './time';
+
+// Every event keeps its teams, repositories, issues, expirations, ledger and
+// config as subcollections of events/{slug}, mirroring eventRef in
+// src/services/firebaseService.ts.
+
+export const eventRef = (db: Firestore, eventSlug: string): DocumentReference =>
+  db.collection('events').doc(eventSlug);
+
+/** Every event, including ones whose document only exists through subcollections */
+export const listEventRefs = (db: Firestore): Promise<DocumentReference[]> =>
+  db.collection('events').listDocuments();
+
+export type EventStatus = 'draft' | 'scheduled' | 'running' | 'paused' | 'ended';
+
+/**
+ * The state the event is in at `now`: a scheduled event runs from startsAt
+ * and a running one ends at endsAt by themselves. Events from before the
+ * lifecycle existed have no status and count as running.
+ */
+export const getEventPhase = (eventSnap: DocumentSnapshot, now: number): EventStatus => {
+  const status = (eventSnap.get('status') as EventStatus | undefined) ?? 'running';
+  const startsAt = toMillis(eventSnap.get('startsAt'));
+  const endsAt = toMillis(eventSnap.get('endsAt'));
+  if (status === 'scheduled' && (startsAt === null || now < startsAt)) return 'scheduled';
+  if (status === 'scheduled' || status === 'running') {
+    return endsAt !== null && now >= endsAt ? 'ended' : 'running';
+  }
+  return status;
+};
@@ -0,0 +1,153 @@
+import { DocumentReference, Firestore, Timestamp } from 'firebase-admin/firestore';
+import * as logger from 'firebase-functions/logger';
+import { getExpiryPenalty, getTimeLimitMs, IssueDoc, loadScoringRules, ScoringRules } from './scoring';
+import { appendEntry, getExpiryEntryId, ledgerEntryRef } from './ledger';
+import { appendAuditEntry } from './audit';
+import { getEventPhase, listEventRefs } from './events';
+import { getFreedIssueUpdate, loadFullTeams } from './waitlist';
+import { toMillis } from './time';
+
+const COLLECTIONS = {
+  TEAMS: 'teams',
+  ISSUES: 'issues',
+  EXPIRATIONS: 'expirations'
+};
+
+export interface SweepResult {
+  checked: number;
+  expired: number;
+}
+
+/**
+ * Release a single expired occupation and deduct its penalty. The issue
+ * goes to the first team on its waitlist with room for it, if any (see
+ * getFreedIssueUpdate).
+ * The expiration document is keyed on the occupation id, so running this
+ * any number of times (or from overlapping sweeps) applies the penalty once.
+ * Nothing expires unless the event is running: timers stand still while it
+ * is paused, and resuming moves occupiedAt forward by the pause.
+ * @returns true when this call performed the expiry
+ */
+export const expireIssue = async (
+  event: DocumentReference,
+  issueId: string,
+  rules: ScoringRules,
+  now: number
+): Promise<boolean> => {
+  const issueRef = event.collection(COLLECTIONS.ISSUES).doc(issueId);
+
+  return event.firestore.runTransaction(async (transaction) => {
+    const eventSnap = await transaction.get(event);
+    if (getEventPhase(eventSnap, now) !== 'running') {
+      return false;
+    }
+
+    const issueSnap = await transaction.get(issueRef);
+    const issue = issueSnap.data() as IssueDoc | undefined;
+    if (!issue || issue.status !== 'occupied' || !issue.assignedTo) {
+      return false;
+    }
+
+    const occupiedAt = toMillis(issue.occupiedAt);
+    if (!occupiedAt || now - occupiedAt < getTimeLimitMs(issue, rules)) {
+      return false;
+    }
+
+    // Occupations created before occupationId existed fall back to a derived key
+    const occupationId = issue.occupationId || `${issueId}_${occupiedAt}`;
+    const expirationRef = event.collection(COLLECTIONS.EXPIRATIONS).doc(occupationId);
+    const teamRef = event.collection(COLLECTIONS.TEAMS).doc(issue.assignedTo);
+
+    const expirationSnap = await transaction.get(expirationRef);
+    if (expirationSnap.exists) {
+      return false;
+    }
+    const teamSnap = await transaction.get(teamRef);
+    const fullTeams = await loadFullTeams(event, transaction, issue, rules, now);
+
+    const penalty = getExpiryPenalty(issue, rules);
+    if (teamSnap.exists) {
+      // Scores never go below zero, so the entry records what was deducted
+      const points = (teamSnap.get('points') as number) || 0;
+      appendEntry(event, transaction, ledgerEntryRef(event, getExpiryEntryId(occupationId)), {
+        teamName: issue.assignedTo,
+        delta: -Math.min(penalty, Math.max(0, points)),
+        reason: 'expiry',
+        issueId,
+        issueTitle: issue.title,
+        actor: 'system',
+        createdAt: Timestamp.fromMillis(now)
+      });
+    }
+
+    const freed = getFreedIssueUpdate(issue, rules, now, fullTeams);
+    transaction.update(issueRef, freed);
+
+    transaction.create(expirationRef, {
+      occupationId,
+      issueId,
+      issueTitle: issue.title,
+      teamName: issue.assignedTo,
+      penalty,
+      occupiedAt: Timestamp.fromMillis(occupiedAt),
+      expiredAt: Timestamp.fromMillis(now)
+    });
+
+    appendAuditEntry(event, transaction, {
+      action: 'issue.expire',
+      actor: 'system',
+      actorRole: 'system',
+      target: issue.title,
+      issueId,
+      teamName: issue.assignedTo,
+      before: { status: 'occupied', assignedTo: issue.assignedTo },
+      after: { status: 'open', assignedTo: null, penalty, offeredTo: freed.offeredTo },
+      createdAt: Timestamp.fromMillis(now)
+    });
+
+    return true;
+  });
+};
+
+/**
+ * Expire every occupied issue whose time limit has passed, in every running
+ * event, using each event's scoring rules in effect at the time of the sweep.
+ */
+export const sweepExpiredIssues = async (db: Firestore, now: number = Date.now()): Promise<SweepResult> => {
+  const result: SweepResult = { checked: 0, expired: 0 };
+
+  for (const event of await listEventRefs(db)) {
+    if (getEventPhase(await event.get(), now) !== 'running') {
+      continue;
+    }
+
+    const snapshot = await event
+      .collection(COLLECTIONS.ISSUES)
+      .where('status', '==', 'occupied')
+      .get();
+    if (snapshot.empty) {
+      continue;
+    }
+
+    const rules = await loadScoringRules(event);
+    result.checked += snapshot.size;
+    for (const issueDoc of snapshot.docs) {
+      const issue = issueDoc.data() as IssueDoc;
+      const occupiedAt = toMillis(issue.occupiedAt);
+      if (!occupiedAt || now - occupiedAt < getTimeLimitMs(issue, rules)) {
+        continue;
+      }
+
+      try {
+        if (await expireIssue(event, issueDoc.id, rules, now)) {
+          result.expired++;
+          logger.info(`Expired "${issue.title}" held by ${issue.assignedTo}`, { event: event.id, issueId: issueDoc.id });
+        }
+      } catch (error) {
+        logger.error(`Failed to expire issue ${issueDoc.id} in ${event.id}`, error);
+      }
+    }
+  }
+
+  return result;
+};
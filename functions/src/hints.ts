@@ -0,0 +1,112 @@
+import { getFirestore, Timestamp } from 'firebase-admin/firestore';
+import { HttpsError, onCall } from 'firebase-functions/v2/https';
+import { eventRef, getEventPhase } from './events';
+import { IssueDoc } from './scoring';
+import { appendEntry, getHintUnlockId, ledgerEntryRef } from './ledger';
+
+// Hint texts live in hints/{issueId}, which only admins can read. A team
+// gets a hint by paying for it here: the text is copied into
+// hintUnlocks/{id}, readable by that team, in the same transaction as the
+// ledger entry that charges for it. Mirrors unlockHint in
+// src/services/memoryService.ts.
+
+interface UnlockHintRequest {
+  eventSlug?: string;
+  issueId?: string;
+  hintIndex?: number;
+}
+
+interface IssueHint {
+  text: string;
+  cost: number;
+}
+
+export interface UnlockHintResult {
+  unlockId: string;
+  cost: number;
+}
+
+/**
+ * Unlock the next hint of an issue the calling team holds. Hints unlock in
+ * order, and each is paid for once per team.
+ */
+export const unlockHint = onCall<UnlockHintRequest>(async (request): Promise<UnlockHintResult> => {
+  const token = request.auth?.token;
+  const eventSlug = request.data?.eventSlug?.trim();
+  const issueId = request.data?.issueId?.trim();
+  const hintIndex = request.data?.hintIndex;
+  if (!eventSlug || !issueId || typeof hintIndex !== 'number' || !Number.isInteger(hintIndex) || hintIndex < 0) {
+    throw new HttpsError('invalid-argument', 'Event, issue and hint are required.');
+  }
+  if (token?.role !== 'team' || token.event !== eventSlug || typeof token.team !== 'string') {
+    throw new HttpsError('permission-denied', 'Only teams can unlock hints.');
+  }
+  const teamName = token.team;
+
+  const event = eventRef(getFirestore(), eventSlug);
+  const issueRef = event.collection('issues').doc(issueId);
+  const unlockId = getHintUnlockId(issueId, hintIndex, teamName);
+  const unlockRef = event.collection('hintUnlocks').doc(unlockId);
+
+  return event.firestore.runTransaction(async (transaction) => {
+    const now = Date.now();
+    const [eventSnap, issueSnap, teamSnap, hintsSnap, unlockSnap, previousSnap] = await Promise.all([
+      transaction.get(event),
+      transaction.get(issueRef),
+      transaction.get(event.collection('teams').doc(teamName)),
+      transaction.get(event.collection('hints').doc(issueId)),
+      transaction.get(unlockRef),
+      hintIndex > 0
+        ? transaction.get(event.collection('hintUnlocks').doc(getHintUnlockId(issueId, hintIndex - 1, teamName)))
+        : null
+    ]);
+
+    if (getEventPhase(eventSnap, now) !== 'running') {
+      throw new HttpsError('failed-precondition', 'Hints can only be unlocked while the event is running.');
+    }
+    const issue = issueSnap.data() as IssueDoc | undefined;
+    if (!issue || issueSnap.get('deletedAt') != null) {
+      throw new HttpsError('not-found', 'Issue not found.');
+    }
+    if (issue.status !== 'occupied' || issue.assignedTo !== teamName) {
+      throw new HttpsError('failed-precondition', 'Only the team holding this issue can unlock its hints.');
+    }
+    const hint = ((hintsSnap.get('hints') as IssueHint[] | undefined) ?? [])[hintIndex];
+    if (!hint) {
+      throw new HttpsError('not-found', 'This hint does not exist.');
+    }
+    if (unlockSnap.exists) {
+      throw new HttpsError('already-exists', 'Your team has already unlocked this hint.');
+    }
+    if (previousSnap && !previousSnap.exists) {
+      throw new HttpsError('failed-precondition', 'Unlock the earlier hints first.');
+    }
+    // Scores never go below zero, so a hint has to be affordable
+    if (((teamSnap.get('points') as number) || 0) < hint.cost) {
+      throw new HttpsError('failed-precondition', `This hint costs ${hint.cost} points, more than your team has.`);
+    }
+
+    const unlockedAt = Timestamp.fromMillis(now);
+    transaction.create(unlockRef, {
+      issueId,
+      issueTitle: issue.title,
+      hintIndex,
+      text: hint.text,
+      cost: hint.cost,
+      teamName,
+      unlockedAt
+    });
+    if (hint.cost > 0) {
+      appendEntry(event, transaction, ledgerEntryRef(event, unlockId), {
+        teamName,
+        delta: -hint.cost,
+        reason: 'hint',
+        issueId,
+        issueTitle: issue.title,
+        actor: teamName,
+        createdAt: unlockedAt
+      });
+    }
+    return { unlockId, cost: hint.cost };
+  });
+});
@@ -0,0 +1,30 @@
+import { initializeApp } from 'firebase-admin/app';
+import { getFirestore } from 'firebase-admin/firestore';
+import { onSchedule } from 'firebase-functions/v2/scheduler';
+import * as logger from 'firebase-functions/logger';
+import { sweepExpiredIssues } from './expiry';
+import { sweepStaleSessions } from './presence';
+
+initializeApp();
+
+export { createTeamCredential, rotateTeamCredential, revokeTeamCredential } from './credentials';
+export { githubWebhook } from './webhook';
+export { unlockHint } from './hints';
+export { occupyIssue } from './occupy';
+export { releaseIssue } from './release';
+export { joinWaitlist } from './waitlist';
+export { closeIssue, reverifyPullRequest } from './verification';
+
+// Single authoritative worker for issue time limits. Browsers no longer
+// expire issues themselves, so penalties apply whether zero or many clients
+// are online.
+export const expireOccupiedIssues = onSchedule('every 1 minutes', async () => {
+  const result = await sweepExpiredIssues(getFirestore());
+  logger.info('Expiry sweep finished', result);
+});
+
+// Keeps Team.active honest when a tab is closed without logging out
+export const releaseStaleSessions = onSchedule('every 1 minutes', async () => {
+  const released = await sweepStaleSessions(getFirestore());
+  logger.info('Presence sweep finished', { released });
+});
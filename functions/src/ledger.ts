@@ -0,0 +1,44 @@
+import { DocumentReference, FieldValue, Timestamp, Transaction } from 'firebase-admin/firestore';
+
+export type PointsReason = 'merge' | 'expiry' | 'release' | 'hint' | 'manual' | 'reversal';
+
+export interface PointsEntryDoc {
+  teamName: string;
+  delta: number;
+  reason: PointsReason;
+  issueId: string | null;
+  issueTitle?: string;
+  note?: string;
+  actor: string;
+  createdAt: Timestamp;
+  reverses?: string;
+}
+
+export const ledgerEntryRef = (event: DocumentReference, entryId: string): DocumentReference =>
+  event.collection('ledger').doc(entryId);
+
+export const getMergeEntryId = (issueId: string, occupationId: string | null | undefined, closedAt: number | null): string =>
+  `merge_${occupationId || `${issueId}_${closedAt ?? 0}`}`;
+
+export const getExpiryEntryId = (occupationId: string): string => `expiry_${occupationId}`;
+
+export const getReleaseEntryId = (occupationId: string): string => `release_${occupationId}`;
+
+export const getHintUnlockId = (issueId: string, hintIndex: number, teamName: string): string =>
+  `hint_${issueId}_${hintIndex}_${teamName}`;
+
+/**
+ * Create the entry and apply its delta to the team in the caller's
+ * transaction, so Team.points always equals the sum of the team's entries.
+ * Uses create(), so a second write of a deterministic id fails the
+ * transaction instead of counting twice.
+ */
+export const appendEntry = (
+  event: DocumentReference,
+  transaction: Transaction,
+  entryRef: DocumentReference,
+  entry: PointsEntryDoc
+): void => {
+  transaction.create(entryRef, entry);
+  transaction.update(event.collection('teams').doc(entry.teamName), { points: FieldValue.increment(entry.delta) });
+};
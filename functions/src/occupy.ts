@@ -0,0 +1,94 @@
+import { getFirestore, Timestamp } from 'firebase-admin/firestore';
+import { HttpsError, onCall } from 'firebase-functions/v2/https';
+import { eventRef, getEventPhase } from './events';
+import { IssueDoc, loadScoringRules } from './scoring';
+import { countHeldIssues, getActiveOffer } from './waitlist';
+
+// The occupation's start and id decide when it expires and key its expiry,
+// release and merge entries, so only the server sets them. Mirrors
+// occupyIssue in src/services/memoryService.ts.
+
+interface OccupyIssueRequest {
+  eventSlug?: string;
+  issueId?: string;
+}
+
+export interface OccupyIssueResult {
+  occupationId: string;
+}
+
+/**
+ * Assign an open issue to the calling team while the event runs, within
+ * the team's concurrent limit (issues held for it on a waitlist count too)
+ * and unless the issue is held for another team.
+ */
+export const occupyIssue = onCall<OccupyIssueRequest>(async (request): Promise<OccupyIssueResult> => {
+  const token = request.auth?.token;
+  const eventSlug = request.data?.eventSlug?.trim();
+  const issueId = request.data?.issueId?.trim();
+  if (!eventSlug || !issueId) {
+    throw new HttpsError('invalid-argument', 'Event and issue are required.');
+  }
+  if (token?.role !== 'team' || token.event !== eventSlug || typeof token.team !== 'string') {
+    throw new HttpsError('permission-denied', 'Only teams can occupy issues.');
+  }
+  const teamName = token.team;
+
+  const event = eventRef(getFirestore(), eventSlug);
+  const issues = event.collection('issues');
+  const issueRef = issues.doc(issueId);
+  const rules = await loadScoringRules(event);
+
+  return event.firestore.runTransaction(async (transaction) => {
+    const now = Date.now();
+    const [eventSnap, issueSnap, occupiedSnap, offeredSnap] = await Promise.all([
+      transaction.get(event),
+      transaction.get(issueRef),
+      transaction.get(issues.where('assignedTo', '==', teamName).where('status', '==', 'occupied')),
+      transaction.get(issues.where('offeredTo', '==', teamName))
+    ]);
+
+    if (getEventPhase(eventSnap, now) !== 'running') {
+      throw new HttpsError('failed-precondition', 'Issues can only be occupied while the event is running.');
+    }
+    const issue = issueSnap.data() as IssueDoc | undefined;
+    if (!issue || issueSnap.get('deletedAt') != null) {
+      throw new HttpsError('not-found', 'Issue not found.');
+    }
+    if (issue.status !== 'open') {
+      throw new HttpsError('failed-precondition', `This issue is already ${issue.status}. Please choose another issue.`);
+    }
+    const heldFor = getActiveOffer(issue, now);
+    if (heldFor && heldFor !== teamName) {
+      throw new HttpsError('failed-precondition', `This issue is held for ${heldFor}, next on its waitlist, for a few more minutes.`);
+    }
+    const held = countHeldIssues(
+      [...occupiedSnap.docs, ...offeredSnap.docs].map(doc => ({ id: doc.id, data: doc.data() as IssueDoc })),
+      teamName,
+      now,
+      issueId
+    );
+    if (held >= rules.maxConcurrentIssues) {
+      throw new HttpsError(
+        'failed-precondition',
+        `Your team has already occupied ${rules.maxConcurrentIssues} issues. Please close an issue before occupying a new one.`
+      );
+    }
+
+    const occupationId = `${issueId}_${now}`;
+    const occupiedAt = Timestamp.fromMillis(now);
+    transaction.update(issueRef, {
+      status: 'occupied',
+      assignedTo: teamName,
+      occupiedAt,
+      occupationId,
+      extensionMinutes: null,
+      offeredTo: null,
+      offerExpiresAt: null,
+      waitlist: (issue.waitlist ?? []).filter(name => name !== teamName),
+      lastUpdated: occupiedAt
+    });
+
+    return { occupationId };
+  });
+});
@@ -0,0 +1,40 @@
+import { Firestore, Timestamp } from 'firebase-admin/firestore';
+import * as logger from 'firebase-functions/logger';
+import { listEventRefs } from './events';
+
+/** How long a team session lasts without a heartbeat */
+export const PRESENCE_TIMEOUT_MS = 90 * 1000;
+
+/**
+ * Clear the active session of every team whose heartbeats stopped, e.g. a tab
+ * closed or a laptop crashed without logging out. The team can then sign in
+ * again from anywhere. Covers every event.
+ * @returns the number of sessions released
+ */
+export const sweepStaleSessions = async (db: Firestore, now: number = Date.now()): Promise<number> => {
+  const cutoff = Timestamp.fromMillis(now - PRESENCE_TIMEOUT_MS);
+
+  let released = 0;
+  for (const event of await listEventRefs(db)) {
+    const snapshot = await event.collection('teams').where('active', '==', true).get();
+    for (const teamDoc of snapshot.docs) {
+      const stale = await db.runTransaction(async (transaction) => {
+        const latest = await transaction.get(teamDoc.ref);
+        const lastSeen = latest.get('lastSeen') as Timestamp | null | undefined;
+        if (!latest.get('active') || (lastSeen && lastSeen.toMillis() >= cutoff.toMillis())) {
+          return false;
+        }
+
+        transaction.update(teamDoc.ref, { active: false, activeSessionId: null });
+        return true;
+      });
+
+      if (stale) {
+        released++;
+        logger.info(`Released stale session for ${teamDoc.id} in ${event.id}`);
+      }
+    }
+  }
+
+  return released;
+};
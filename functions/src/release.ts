@@ -0,0 +1,109 @@
+import { getFirestore, Timestamp } from 'firebase-admin/firestore';
+import { HttpsError, onCall } from 'firebase-functions/v2/https';
+import { eventRef, getEventPhase } from './events';
+import { getReleasePenalty, IssueDoc, loadScoringRules } from './scoring';
+import { toMillis } from './time';
+import { appendEntry, getReleaseEntryId, ledgerEntryRef } from './ledger';
+import { appendAuditEntry } from './audit';
+import { getFreedIssueUpdate, loadFullTeams } from './waitlist';
+
+// Teams cannot write the ledger, so giving an issue back early goes through
+// here. Mirrors releaseIssue in src/services/memoryService.ts.
+
+interface ReleaseIssueRequest {
+  eventSlug?: string;
+  issueId?: string;
+}
+
+export interface ReleaseIssueResult {
+  /** Points actually deducted */
+  penalty: number;
+  /** First team on the waitlist, now given the claim window */
+  offeredTo: string | null;
+}
+
+/**
+ * Return an issue the calling team holds to the open pool, deducting the
+ * release penalty for the time it used. Runs in one transaction with the
+ * same checks as the expiry worker, so an occupation ends once: released or
+ * expired, never both. The issue's history records the release in the same
+ * transaction.
+ */
+export const releaseIssue = onCall<ReleaseIssueRequest>(async (request): Promise<ReleaseIssueResult> => {
+  const token = request.auth?.token;
+  const eventSlug = request.data?.eventSlug?.trim();
+  const issueId = request.data?.issueId?.trim();
+  if (!eventSlug || !issueId) {
+    throw new HttpsError('invalid-argument', 'Event and issue are required.');
+  }
+  if (token?.role !== 'team' || token.event !== eventSlug || typeof token.team !== 'string') {
+    throw new HttpsError('permission-denied', 'Only teams can release issues.');
+  }
+  const teamName = token.team;
+
+  const event = eventRef(getFirestore(), eventSlug);
+  const issueRef = event.collection('issues').doc(issueId);
+  const teamRef = event.collection('teams').doc(teamName);
+  const rules = await loadScoringRules(event);
+
+  return event.firestore.runTransaction(async (transaction) => {
+    const now = Date.now();
+    const [eventSnap, issueSnap, teamSnap] = await Promise.all([
+      transaction.get(event),
+      transaction.get(issueRef),
+      transaction.get(teamRef)
+    ]);
+
+    if (getEventPhase(eventSnap, now) !== 'running') {
+      throw new HttpsError('failed-precondition', 'Issues can only be released while the event is running.');
+    }
+    const issue = issueSnap.data() as IssueDoc | undefined;
+    if (!issue || issueSnap.get('deletedAt') != null) {
+      throw new HttpsError('not-found', 'Issue not found.');
+    }
+    if (issue.status !== 'occupied' || issue.assignedTo !== teamName) {
+      throw new HttpsError('failed-precondition', 'Your team no longer holds this issue.');
+    }
+
+    const occupiedAt = toMillis(issue.occupiedAt) ?? now;
+    // Occupations created before occupationId existed fall back to a derived key
+    const occupationId = issue.occupationId || `${issueId}_${occupiedAt}`;
+    const entryRef = ledgerEntryRef(event, getReleaseEntryId(occupationId));
+    const expirationSnap = await transaction.get(event.collection('expirations').doc(occupationId));
+    if (expirationSnap.exists) {
+      throw new HttpsError('failed-precondition', 'Time has already run out on this issue.');
+    }
+    const fullTeams = await loadFullTeams(event, transaction, issue, rules, now);
+
+    // Scores never go below zero, so the entry records what was deducted
+    const points = (teamSnap.get('points') as number) || 0;
+    const penalty = Math.min(getReleasePenalty(issue, rules, now - occupiedAt), Math.max(0, points));
+    if (teamSnap.exists && penalty > 0) {
+      appendEntry(event, transaction, entryRef, {
+        teamName,
+        delta: -penalty,
+        reason: 'release',
+        issueId,
+        issueTitle: issue.title,
+        actor: teamName,
+        createdAt: Timestamp.fromMillis(now)
+      });
+    }
+
+    const freed = getFreedIssueUpdate(issue, rules, now, fullTeams);
+    transaction.update(issueRef, freed);
+    appendAuditEntry(event, transaction, {
+      action: 'issue.release',
+      actor: teamName,
+      actorRole: 'team',
+      target: issue.title,
+      issueId,
+      teamName,
+      before: { status: 'occupied', assignedTo: teamName },
+      after: { status: 'open', assignedTo: null, penalty, offeredTo: freed.offeredTo },
+      createdAt: Timestamp.fromMillis(now)
+    });
+
+    return { penalty, offeredTo: freed.offeredTo };
+  });
+});
@@ -0,0 +1,112 @@
+import { DocumentReference, Timestamp } from 'firebase-admin/firestore';
+import { getIssuePoints, IssueDoc, PrReviewStatus, ScoringRules } from './scoring';
+import { toMillis } from './time';
+import { appendEntry, getMergeEntryId, ledgerEntryRef } from './ledger';
+import { appendAuditEntry } from './audit';
+import { getFreedIssueUpdate, loadFullTeams } from './waitlist';
+
+export interface ReviewOutcome {
+  /** False when the issue's PR is already in a later state, e.g. merged, or it is left to the admins */
+  updated: boolean;
+  /** Why an issue was left for the admins to review */
+  skipped?: string;
+  /** Points awarded by this call; absent when nothing was awarded */
+  awardedPoints?: number;
+}
+
+// A review only moves forward: GitHub can redeliver or reorder events, and an
+// approval arriving after the merge must not undo it.
+const canTransition = (from: IssueDoc['prStatus'], to: PrReviewStatus): boolean => {
+  if (from === 'merged') return false;
+  if (to === 'approved') return !from || from === 'pending';
+  return true;
+};
+
+// GitHub only reports on a PR; whether it belongs to the issue is settled by
+// the checks closeIssue ran (functions/src/verification.ts). Anything else
+// waits for an admin, so pointing an issue at another team's PR earns nothing.
+const getReviewBlocker = (issue: IssueDoc & { deletedAt?: unknown }): string | null => {
+  if (issue.deletedAt != null) return 'issue is in the trash';
+  if (issue.status !== 'closed') return `issue is ${issue.status}`;
+  if (issue.prVerification?.status !== 'passed') return 'PR was not verified';
+  return null;
+};
+
+/**
+ * Record a PR review outcome reported by GitHub and, for a merge, award the
+ * issue's points. Only closed issues whose PR passed verification are
+ * updated; the rest are left pending for the admins.
+ * Shares the merge ledger entry with reviewPullRequest in
+ * src/services/firebaseService.ts: it is keyed on the occupation, so a merge
+ * reported by the admin panel and by any number of webhook deliveries awards
+ * points once.
+ */
+export const applyPrStatus = async (
+  event: DocumentReference,
+  issueId: string,
+  status: PrReviewStatus,
+  rules: ScoringRules,
+  now: number = Date.now()
+): Promise<ReviewOutcome> => {
+  const issueRef = event.collection('issues').doc(issueId);
+
+  return event.firestore.runTransaction(async (transaction) => {
+    const issueSnap = await transaction.get(issueRef);
+    const issue = issueSnap.data() as IssueDoc | undefined;
+    if (!issue || !canTransition(issue.prStatus, status)) {
+      return { updated: false };
+    }
+    const blocker = getReviewBlocker(issue);
+    if (blocker) {
+      return { updated: false, skipped: blocker };
+    }
+
+    const audit = (awardedPoints: number | null, offeredTo?: string | null) => appendAuditEntry(event, transaction, {
+      action: 'pr.review',
+      actor: 'github',
+      actorRole: 'system',
+      target: issue.title,
+      issueId,
+      teamName: issue.assignedTo ?? null,
+      before: { prStatus: issue.prStatus ?? null },
+      after: { prStatus: status, awardedPoints, ...(offeredTo !== undefined && { offeredTo }) },
+      createdAt: Timestamp.fromMillis(now)
+    });
+
+    // A rejected PR hands the issue to the next team waiting for it
+    if (status === 'rejected' && issue.waitlist?.length) {
+      const freed = getFreedIssueUpdate(issue, rules, now, await loadFullTeams(event, transaction, issue, rules, now));
+      transaction.update(issueRef, freed);
+      audit(null, freed.offeredTo);
+      return { updated: true };
+    }
+
+    if (status !== 'merged' || !issue.assignedTo) {
+      transaction.update(issueRef, { prStatus: status });
+      audit(null);
+      return { updated: true };
+    }
+
+    const entryRef = ledgerEntryRef(event, getMergeEntryId(issueId, issue.occupationId, toMillis(issue.closedAt)));
+    const entrySnap = await transaction.get(entryRef);
+    const teamSnap = await transaction.get(event.collection('teams').doc(issue.assignedTo));
+    transaction.update(issueRef, { prStatus: status });
+    if (entrySnap.exists || !teamSnap.exists) {
+      audit(null);
+      return { updated: true };
+    }
+
+    const points = getIssuePoints(issue, rules);
+    appendEntry(event, transaction, entryRef, {
+      teamName: issue.assignedTo,
+      delta: points,
+      reason: 'merge',
+      issueId,
+      issueTitle: issue.title,
+      actor: 'github',
+      createdAt: Timestamp.fromMillis(now)
+    });
+    audit(points);
+    return { updated: true, awardedPoints: points };
+  });
+};
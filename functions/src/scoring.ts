@@ -0,0 +1,98 @@
+import { DocumentReference } from 'firebase-admin/firestore';
+
+export interface IssueDoc {
+  title: string;
+  difficulty?: string | null;
+  tags: string[];
+  status: 'open' | 'occupied' | 'closed';
+  assignedTo: string | null;
+  repo: string;
+  occupiedAt?: unknown;
+  occupationId?: string | null;
+  extensionMinutes?: number | null;
+  waitlist?: string[];
+  offeredTo?: string | null;
+  offerExpiresAt?: unknown;
+  closedAt?: unknown;
+  prUrl?: string;
+  prStatus?: 'pending' | PrReviewStatus;
+  prVerification?: { status: 'passed' | 'failed' | 'error' } | null;
+}
+
+export type PrReviewStatus = 'approved' | 'merged' | 'rejected';
+
+export interface DifficultyTier {
+  id: string;
+  name: string;
+  color: string;
+  githubLabels?: string[];
+  points: number;
+  penalty: number;
+  timeLimitMinutes: number;
+}
+
+export interface ReleasePenaltyRule {
+  graceMinutes: number;
+  minPercent: number;
+  maxPercent: number;
+}
+
+export interface ScoringRules {
+  tiers: DifficultyTier[];
+  maxConcurrentIssues: number;
+  releasePenalty: ReleasePenaltyRule;
+  claimWindowMinutes: number;
+}
+
+export const DEFAULT_SCORING_RULES: ScoringRules = {
+  tiers: [
+    { id: 'easy', name: 'Easy', color: '#22c55e', githubLabels: ['good first issue', 'easy'], points: 10, penalty: 5, timeLimitMinutes: 20 },
+    { id: 'medium', name: 'Medium', color: '#f59e0b', githubLabels: ['medium'], points: 20, penalty: 10, timeLimitMinutes: 40 },
+    { id: 'hard', name: 'Hard', color: '#ef4444', githubLabels: ['hard'], points: 30, penalty: 15, timeLimitMinutes: 60 }
+  ],
+  maxConcurrentIssues: 3,
+  releasePenalty: { graceMinutes: 2, minPercent: 25, maxPercent: 75 },
+  claimWindowMinutes: 5
+};
+
+const FALLBACK_TIME_LIMIT_MS = 40 * 60 * 1000;
+
+/** Reads the event's config/scoringRules, falling back to the defaults */
+export const loadScoringRules = async (event: DocumentReference): Promise<ScoringRules> => {
+  const snapshot = await event.collection('config').doc('scoringRules').get();
+  const data = snapshot.data() as Partial<ScoringRules> | undefined;
+  return {
+    ...DEFAULT_SCORING_RULES,
+    ...data,
+    releasePenalty: { ...DEFAULT_SCORING_RULES.releasePenalty, ...data?.releasePenalty },
+    tiers: data?.tiers?.length ? data.tiers : DEFAULT_SCORING_RULES.tiers
+  };
+};
+
+type TieredIssue = Pick<IssueDoc, 'difficulty' | 'tags'>;
+type TimedIssue = TieredIssue & Pick<IssueDoc, 'extensionMinutes'>;
+
+// Issues created before `difficulty` existed carry the tier id as their first tag
+const getTier = (issue: TieredIssue, rules: ScoringRules) =>
+  rules.tiers.find(tier => tier.id === (issue.difficulty || issue.tags[0]));
+
+// Extension requests that admins grant push the deadline back
+export const getTimeLimitMs = (issue: TimedIssue, rules: ScoringRules): number => {
+  const tier = getTier(issue, rules);
+  const limit = tier ? tier.timeLimitMinutes * 60 * 1000 : FALLBACK_TIME_LIMIT_MS;
+  return limit + (issue.extensionMinutes ?? 0) * 60 * 1000;
+};
+
+export const getIssuePoints = (issue: TieredIssue, rules: ScoringRules): number =>
+  getTier(issue, rules)?.points ?? 0;
+
+export const getExpiryPenalty = (issue: TieredIssue, rules: ScoringRules): number =>
+  getTier(issue, rules)?.penalty ?? 0;
+
+export const getReleasePenalty = (issue: TimedIssue, rules: ScoringRules, elapsedMs: number): number => {
+  const { graceMinutes, minPercent, maxPercent } = rules.releasePenalty;
+  if (elapsedMs < graceMinutes * 60 * 1000) return 0;
+  const progress = Math.min(1, elapsedMs / getTimeLimitMs(issue, rules));
+  const percent = minPercent + (maxPercent - minPercent) * progress;
+  return Math.round((getExpiryPenalty(issue, rules) * percent) / 100);
+};
@@ -0,0 +1,16 @@
+// Run one expiry sweep from the command line, e.g. against the emulator:
+//   FIRESTORE_EMULATOR_HOST=127.0.0.1:8081 GCLOUD_PROJECT=demo-contribx npm run expire:once
+import { initializeApp } from 'firebase-admin/app';
+import { getFirestore } from 'firebase-admin/firestore';
+import { sweepExpiredIssues } from '../expiry';
+
+const main = async () => {
+  initializeApp();
+  const result = await sweepExpiredIssues(getFirestore());
+  console.log(`Checked ${result.checked} occupied issue(s) across all events, expired ${result.expired}.`);
+};
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
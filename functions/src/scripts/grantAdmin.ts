@@ -0,0 +1,22 @@
+// Give an existing Firebase Auth user the admin role:
+//   npm run grant-admin -- organiser@example.com
+// Create the user first in the Firebase console (or the Auth emulator UI).
+import { initializeApp } from 'firebase-admin/app';
+import { getAuth } from 'firebase-admin/auth';
+
+const main = async () => {
+  const email = process.argv[2];
+  if (!email) {
+    throw new Error('Usage: npm run grant-admin -- <email>');
+  }
+
+  initializeApp();
+  const user = await getAuth().getUserByEmail(email);
+  await getAuth().setCustomUserClaims(user.uid, { role: 'admin' });
+  console.log(`${email} is now an admin. They must sign in again for the role to apply.`);
+};
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,66 @@
+// Move data from before multi-event support (top-level teams, repositories,
+// issues, ... collections) into a new event:
+//   npm run migrate:event -- contribx-2025 "ContribX 2025"
+// The old collections are copied, not deleted; remove them once the event
+// looks right in the app. Team logins are tied to their event, so create them
+// again from the event's admin panel afterwards.
+import { initializeApp } from 'firebase-admin/app';
+import { FieldValue, getFirestore } from 'firebase-admin/firestore';
+import { eventRef } from '../events';
+
+const SUBCOLLECTIONS = ['teams', 'repositories', 'issues', 'expirations', 'ledger'];
+
+const main = async () => {
+  const [slug, name] = process.argv.slice(2);
+  if (!slug || !/^[a-z0-9]+(?:-[a-z0-9]+)*$/.test(slug)) {
+    throw new Error('Usage: npm run migrate:event -- <event-slug> [event name]');
+  }
+
+  initializeApp();
+  const db = getFirestore();
+  const event = eventRef(db, slug);
+  if ((await event.get()).exists) {
+    throw new Error(`An event at /e/${slug} already exists.`);
+  }
+
+  const writer = db.bulkWriter();
+  let copied = 0;
+  for (const collection of SUBCOLLECTIONS) {
+    const snapshot = await db.collection(collection).get();
+    for (const doc of snapshot.docs) {
+      writer.set(event.collection(collection).doc(doc.id), doc.data());
+    }
+    copied += snapshot.size;
+    console.log(`${collection}: ${snapshot.size}`);
+  }
+
+  const rules = await db.collection('config').doc('scoringRules').get();
+  if (rules.exists) {
+    writer.set(event.collection('config').doc('scoringRules'), rules.data()!);
+  }
+
+  // The old config/event document held the name, end time and freeze
+  const settings = (await db.collection('config').doc('event').get()).data();
+  writer.set(event, {
+    name: name || settings?.name || slug,
+    organizer: '',
+    tagline: '',
+    logoUrl: null,
+    startsAt: null,
+    endsAt: settings?.endsAt ?? null,
+    // It was already being played
+    status: 'running',
+    pausedAt: null,
+    freeze: settings?.freeze ?? null,
+    createdAt: FieldValue.serverTimestamp(),
+    updatedAt: FieldValue.serverTimestamp()
+  });
+
+  await writer.close();
+  console.log(`Copied ${copied} document(s) into /e/${slug}.`);
+};
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,43 @@
+// Replay a saved GitHub webhook delivery against the emulator (or any URL),
+// signed the same way GitHub signs it:
+//   GITHUB_WEBHOOK_SECRET=dev-secret npm run replay:webhook -- webhook-samples/pr-merged.json
+// Set WEBHOOK_URL to target something other than the local emulator.
+import { createHmac, randomUUID } from 'crypto';
+import { readFileSync } from 'fs';
+
+const DEFAULT_URL = 'http://127.0.0.1:5001/demo-contribx/us-central1/githubWebhook';
+
+interface Sample {
+  event: string;
+  payload: unknown;
+}
+
+const main = async () => {
+  const [file] = process.argv.slice(2);
+  const secret = process.env.GITHUB_WEBHOOK_SECRET;
+  if (!file || !secret) {
+    console.error('Usage: GITHUB_WEBHOOK_SECRET=<secret> npm run replay:webhook -- <sample.json>');
+    process.exit(1);
+  }
+
+  const sample = JSON.parse(readFileSync(file, 'utf8')) as Sample;
+  const body = JSON.stringify(sample.payload);
+  const signature = `sha256=${createHmac('sha256', secret).update(body).digest('hex')}`;
+
+  const response = await fetch(process.env.WEBHOOK_URL || DEFAULT_URL, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'X-GitHub-Event': sample.event,
+      'X-GitHub-Delivery': randomUUID(),
+      'X-Hub-Signature-256': signature
+    },
+    body
+  });
+  console.log(`${response.status} ${await response.text()}`);
+};
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,8 @@
+import { Timestamp } from 'firebase-admin/firestore';
+
+/** Milliseconds from a stored Timestamp (or a number from older documents), or null when unset */
+export const toMillis = (value: unknown): number | null => {
+  if (value instanceof Timestamp) return value.toMillis();
+  if (typeof value === 'number') return value;
+  return null;
+};
@@ -0,0 +1,290 @@
+import { DocumentReference, getFirestore, Timestamp } from 'firebase-admin/firestore';
+import { defineSecret } from 'firebase-functions/params';
+import { HttpsError, onCall } from 'firebase-functions/v2/https';
+import { eventRef, getEventPhase } from './events';
+import { toMillis } from './time';
+import { IssueDoc } from './scoring';
+
+// Pull requests are checked here rather than in the browser: the calls are
+// authenticated (5,000 requests an hour instead of 60 per address, which a
+// venue shares), and only these functions write an issue's prVerification,
+// which decides whether the webhook pays a merge out by itself.
+
+// Set with `firebase functions:secrets:set GITHUB_TOKEN`: a token that can
+// read the repositories in play (a fine-grained token with no permissions
+// is enough for public ones).
+export const githubToken = defineSecret('GITHUB_TOKEN');
+
+const GITHUB_API_URL = (process.env.GITHUB_API_URL || 'https://api.github.com').replace(/\/+$/, '');
+
+export type PrCheckId = 'repository' | 'openedAfterOccupy' | 'referencesIssue' | 'author';
+
+export interface PrVerificationCheck {
+  id: PrCheckId;
+  label: string;
+  status: 'passed' | 'failed' | 'skipped';
+  detail: string;
+}
+
+export interface PrVerification {
+  /** "error" means GitHub could not be reached and the PR is unverified */
+  status: 'passed' | 'failed' | 'error';
+  checks: PrVerificationCheck[];
+  error?: string;
+  prNumber?: number;
+  author?: string;
+  checkedAt: number;
+}
+
+export interface GitHubPullRequest {
+  number: number;
+  title: string;
+  body: string | null;
+  created_at: string;
+  user: { login: string };
+  base: { repo: { full_name: string } };
+}
+
+type VerifiedIssue = Pick<IssueDoc, 'repo' | 'occupiedAt'> & { githubNumber?: number; githubUrl?: string };
+
+export interface VerificationContext {
+  issue: VerifiedIssue;
+  /** The repository's GitHub URL, if it has one */
+  repositoryUrl?: string;
+  githubUsernames: string[];
+}
+
+const sameName = (a: string, b: string) => a.toLowerCase() === b.toLowerCase();
+
+/** "owner/repo" for a repository URL such as https://github.com/owner/repo.git */
+export const parseRepositoryUrl = (url: string): string | null => {
+  const match = url.trim().match(/^https?:\/\/(?:www\.)?github\.com\/([\w.-]+)\/([\w.-]+?)(?:\.git)?\/?$/);
+  return match ? `${match[1]}/${match[2]}` : null;
+};
+
+export const parsePullRequestUrl = (url: string): { repo: string; number: number } | null => {
+  const match = url.trim().match(/^https?:\/\/(?:www\.)?github\.com\/([\w.-]+)\/([\w.-]+)\/pull\/(\d+)\/?$/);
+  return match ? { repo: `${match[1]}/${match[2]}`, number: Number(match[3]) } : null;
+};
+
+/** True when the PR title or body mentions the issue as #N or by its URL */
+const referencesIssue = (pr: GitHubPullRequest, issue: VerifiedIssue): boolean => {
+  const text = `${pr.title}\n${pr.body ?? ''}`;
+  return new RegExp(`(^|[^\\w/])#${issue.githubNumber}\\b`).test(text) ||
+    (!!issue.githubUrl && text.includes(issue.githubUrl));
+};
+
+export const evaluatePullRequest = (
+  pr: GitHubPullRequest,
+  { issue, repositoryUrl, githubUsernames }: VerificationContext,
+  now: number
+): PrVerification => {
+  const expectedRepo = repositoryUrl ? parseRepositoryUrl(repositoryUrl) : null;
+  const baseRepo = pr.base.repo.full_name;
+  const openedAt = Date.parse(pr.created_at);
+  const occupiedAt = toMillis(issue.occupiedAt);
+
+  const checks: PrVerificationCheck[] = [
+    // Missing setup is for the admins to fix, so it skips a check rather than failing it
+    expectedRepo
+      ? {
+          id: 'repository',
+          label: 'Targets the issue\'s repository',
+          status: sameName(baseRepo, expectedRepo) ? 'passed' : 'failed',
+          detail: `PR targets ${baseRepo}, expected ${expectedRepo}`
+        }
+      : {
+          id: 'repository',
+          label: 'Targets the issue\'s repository',
+          status: 'skipped',
+          detail: `Repository "${issue.repo}" has no GitHub URL to compare against`
+        },
+    {
+      id: 'openedAfterOccupy',
+      label: 'Opened after the issue was occupied',
+      status: occupiedAt && openedAt >= occupiedAt ? 'passed' : 'failed',
+      detail: `PR opened ${new Date(openedAt).toLocaleString()}` +
+        (occupiedAt ? `, issue occupied ${new Date(occupiedAt).toLocaleString()}` : '')
+    },
+    issue.githubNumber
+      ? {
+          id: 'referencesIssue',
+          label: `References issue #${issue.githubNumber}`,
+          status: referencesIssue(pr, issue) ? 'passed' : 'failed',
+          detail: `Mention #${issue.githubNumber} (e.g. "Fixes #${issue.githubNumber}") in the PR description`
+        }
+      : {
+          id: 'referencesIssue',
+          label: 'References the GitHub issue',
+          status: 'skipped',
+          detail: 'This issue is not linked to a GitHub issue'
+        },
+    githubUsernames.length
+      ? {
+          id: 'author',
+          label: 'Authored by a linked team account',
+          status: githubUsernames.some(login => sameName(login, pr.user.login)) ? 'passed' : 'failed',
+          detail: `PR author @${pr.user.login}; team accounts: ${githubUsernames.map(a => `@${a}`).join(', ')}`
+        }
+      : {
+          id: 'author',
+          label: 'Authored by a linked team account',
+          status: 'skipped',
+          detail: `PR author @${pr.user.login}; no GitHub accounts are linked to this team yet`
+        }
+  ];
+
+  return {
+    status: checks.some(check => check.status === 'failed') ? 'failed' : 'passed',
+    checks,
+    prNumber: pr.number,
+    author: pr.user.login,
+    checkedAt: now
+  };
+};
+
+/**
+ * Fetch the PR behind `prUrl` and check it against the issue. A PR that does
+ * not exist fails verification; other GitHub errors yield status "error".
+ */
+export const verifyPullRequest = async (prUrl: string, context: VerificationContext): Promise<PrVerification> => {
+  const now = Date.now();
+  const ref = parsePullRequestUrl(prUrl);
+  if (!ref) {
+    return { status: 'failed', checks: [], error: 'Not a GitHub pull request URL', checkedAt: now };
+  }
+
+  let response: Response;
+  try {
+    response = await fetch(`${GITHUB_API_URL}/repos/${ref.repo}/pulls/${ref.number}`, {
+      headers: { Accept: 'application/vnd.github+json', Authorization: `Bearer ${githubToken.value()}` }
+    });
+  } catch (error) {
+    return { status: 'error', checks: [], error: `Could not reach GitHub: ${(error as Error).message}`, checkedAt: now };
+  }
+  if (response.status === 404) {
+    return { status: 'failed', checks: [], error: 'Pull request not found on GitHub', checkedAt: now };
+  }
+  if (!response.ok) {
+    return { status: 'error', checks: [], error: `GitHub request failed (${response.status}).`, checkedAt: now };
+  }
+  return evaluatePullRequest((await response.json()) as GitHubPullRequest, context, now);
+};
+
+/** What the checks need besides the issue: its repository's URL and the team's GitHub accounts */
+const loadVerificationContext = async (
+  event: DocumentReference,
+  issue: VerifiedIssue,
+  teamName: string | null
+): Promise<VerificationContext> => {
+  const [repoSnap, teamSnap] = await Promise.all([
+    event.collection('repositories').where('name', '==', issue.repo).limit(1).get(),
+    teamName ? event.collection('teams').doc(teamName).get() : null
+  ]);
+  return {
+    issue,
+    repositoryUrl: repoSnap.docs[0]?.get('url') as string | undefined,
+    githubUsernames: (teamSnap?.get('githubUsernames') as string[] | undefined) ?? []
+  };
+};
+
+interface CloseIssueRequest {
+  eventSlug?: string;
+  issueId?: string;
+  prUrl?: string;
+}
+
+export interface CloseIssueResult {
+  /** False when the PR failed its checks; the issue stays occupied */
+  closed: boolean;
+  verification: PrVerification;
+}
+
+/**
+ * Submit the PR for an issue the calling team holds. A PR that fails a
+ * check is refused, so the team sees why and can fix it and submit again
+ * while its time runs. When GitHub cannot be reached the issue is closed
+ * anyway with prVerification status "error": the outage must not cost the
+ * team its time, and the webhook leaves unverified PRs to the admins.
+ */
+export const closeIssue = onCall<CloseIssueRequest>({ secrets: [githubToken] }, async (request): Promise<CloseIssueResult> => {
+  const token = request.auth?.token;
+  const eventSlug = request.data?.eventSlug?.trim();
+  const issueId = request.data?.issueId?.trim();
+  const prUrl = request.data?.prUrl?.trim();
+  if (!eventSlug || !issueId || !prUrl) {
+    throw new HttpsError('invalid-argument', 'Event, issue and PR URL are required.');
+  }
+  if (token?.role !== 'team' || token.event !== eventSlug || typeof token.team !== 'string') {
+    throw new HttpsError('permission-denied', 'Only teams can submit pull requests.');
+  }
+  const teamName = token.team;
+
+  const event = eventRef(getFirestore(), eventSlug);
+  const issueRef = event.collection('issues').doc(issueId);
+  const issueSnap = await issueRef.get();
+  const issue = issueSnap.data() as (IssueDoc & VerifiedIssue) | undefined;
+  if (!issue || issueSnap.get('deletedAt') != null) {
+    throw new HttpsError('not-found', 'Issue not found.');
+  }
+  if (issue.status !== 'occupied' || issue.assignedTo !== teamName) {
+    throw new HttpsError('failed-precondition', 'Your team no longer holds this issue.');
+  }
+
+  const verification = await verifyPullRequest(prUrl, await loadVerificationContext(event, issue, teamName));
+  if (verification.status === 'failed') {
+    return { closed: false, verification };
+  }
+
+  // GitHub was asked outside the transaction, so check nothing changed meanwhile
+  await event.firestore.runTransaction(async (transaction) => {
+    const now = Date.now();
+    const [eventSnap, latestSnap] = await Promise.all([transaction.get(event), transaction.get(issueRef)]);
+    if (getEventPhase(eventSnap, now) !== 'running') {
+      throw new HttpsError('failed-precondition', 'Pull requests can only be submitted while the event is running.');
+    }
+    if (latestSnap.get('status') !== 'occupied' || latestSnap.get('assignedTo') !== teamName ||
+        latestSnap.get('occupationId') !== issue.occupationId) {
+      throw new HttpsError('failed-precondition', 'Your team no longer holds this issue.');
+    }
+    transaction.update(issueRef, {
+      status: 'closed',
+      closedAt: Timestamp.fromMillis(now),
+      prUrl,
+      prStatus: 'pending',
+      prVerification: verification,
+      lastUpdated: Timestamp.fromMillis(now)
+    });
+  });
+
+  return { closed: true, verification };
+});
+
+interface ReverifyRequest {
+  eventSlug?: string;
+  issueId?: string;
+}
+
+/** For admins: check a submitted PR again, e.g. after the team fixed its description */
+export const reverifyPullRequest = onCall<ReverifyRequest>({ secrets: [githubToken] }, async (request): Promise<PrVerification> => {
+  const eventSlug = request.data?.eventSlug?.trim();
+  const issueId = request.data?.issueId?.trim();
+  if (!eventSlug || !issueId) {
+    throw new HttpsError('invalid-argument', 'Event and issue are required.');
+  }
+  if (request.auth?.token.role !== 'admin') {
+    throw new HttpsError('permission-denied', 'Only admins can verify pull requests again.');
+  }
+
+  const event = eventRef(getFirestore(), eventSlug);
+  const issueRef = event.collection('issues').doc(issueId);
+  const issueSnap = await issueRef.get();
+  const issue = issueSnap.data() as (IssueDoc & VerifiedIssue) | undefined;
+  if (!issue?.prUrl) {
+    throw new HttpsError('failed-precondition', 'This issue has no pull request to verify.');
+  }
+
+  const verification = await verifyPullRequest(issue.prUrl, await loadVerificationContext(event, issue, issue.assignedTo));
+  await issueRef.update({ prVerification: verification, lastUpdated: Timestamp.fromMillis(Date.now()) });
+  return verification;
+});
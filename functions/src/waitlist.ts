@@ -0,0 +1,151 @@
+import { DocumentReference, getFirestore, Timestamp, Transaction } from 'firebase-admin/firestore';
+import { HttpsError, onCall } from 'firebase-functions/v2/https';
+import { eventRef } from './events';
+import { IssueDoc, loadScoringRules, ScoringRules } from './scoring';
+import { toMillis } from './time';
+
+/** The team an open issue is held for while its claim window lasts, or null */
+export const getActiveOffer = (issue: Pick<IssueDoc, 'status' | 'offeredTo' | 'offerExpiresAt'>, now: number): string | null =>
+  issue.status === 'open' && issue.offeredTo && (toMillis(issue.offerExpiresAt) ?? 0) > now ? issue.offeredTo : null;
+
+/** Teams may queue for an issue another team holds or whose PR is under review */
+export const canJoinWaitlist = (issue: Pick<IssueDoc, 'status' | 'assignedTo' | 'prStatus'>, teamName: string): boolean =>
+  issue.assignedTo !== teamName &&
+  (issue.status === 'occupied' || (issue.status === 'closed' && issue.prStatus === 'pending'));
+
+/**
+ * What counts against maxConcurrentIssues: issues the team occupies plus
+ * open ones held for it, except `claimingId`, the one it is about to take.
+ */
+export const countHeldIssues = (
+  issues: { id: string; data: IssueDoc }[],
+  teamName: string,
+  now: number,
+  claimingId?: string
+): number =>
+  issues.filter(({ id, data }) =>
+    id !== claimingId &&
+    ((data.status === 'occupied' && data.assignedTo === teamName) || getActiveOffer(data, now) === teamName)
+  ).length;
+
+export const getWaitlistLimitError = (maxConcurrentIssues: number): string =>
+  `Your team already holds ${maxConcurrentIssues} issues. Close or release one before joining a waitlist.`;
+
+// Firestore "in" filters take at most 30 values; teams further back in a
+// longer queue are offered the issue without checking their limit, and the
+// claim itself still enforces it
+const MAX_IN_VALUES = 30;
+
+/**
+ * Teams on the issue's waitlist already holding maxConcurrentIssues, who
+ * could not claim an offer. Reads in the caller's transaction, so call it
+ * before the transaction writes anything.
+ */
+export const loadFullTeams = async (
+  event: DocumentReference,
+  transaction: Transaction,
+  issue: Pick<IssueDoc, 'waitlist'>,
+  rules: ScoringRules,
+  now: number
+): Promise<Set<string>> => {
+  const teamNames = (issue.waitlist ?? []).slice(0, MAX_IN_VALUES);
+  if (!teamNames.length) return new Set();
+  const issues = event.collection('issues');
+  const [occupiedSnap, offeredSnap] = await Promise.all([
+    transaction.get(issues.where('status', '==', 'occupied').where('assignedTo', 'in', teamNames)),
+    transaction.get(issues.where('offeredTo', 'in', teamNames))
+  ]);
+  const held = [...occupiedSnap.docs, ...offeredSnap.docs].map(doc => ({ id: doc.id, data: doc.data() as IssueDoc }));
+  return new Set(teamNames.filter(teamName => countHeldIssues(held, teamName, now) >= rules.maxConcurrentIssues));
+};
+
+/**
+ * The update that ends an occupation: the issue goes to the first team on
+ * its waitlist that is not in `fullTeams` for the claim window, or straight
+ * back to open. Teams passed over keep their place. A rejected PR is
+ * cleared so the next team starts afresh.
+ */
+export const getFreedIssueUpdate = (
+  issue: Pick<IssueDoc, 'waitlist'>,
+  rules: ScoringRules,
+  now: number,
+  fullTeams: ReadonlySet<string> = new Set()
+) => {
+  const waitlist = issue.waitlist ?? [];
+  const next = waitlist.find(teamName => !fullTeams.has(teamName));
+  return {
+    status: 'open',
+    assignedTo: null,
+    occupiedAt: null,
+    closedAt: null,
+    occupationId: null,
+    extensionMinutes: null,
+    prUrl: null,
+    prStatus: null,
+    prVerification: null,
+    waitlist: waitlist.filter(teamName => teamName !== next),
+    offeredTo: next ?? null,
+    offerExpiresAt: next ? Timestamp.fromMillis(now + rules.claimWindowMinutes * 60 * 1000) : null,
+    lastUpdated: Timestamp.fromMillis(now)
+  };
+};
+
+interface JoinWaitlistRequest {
+  eventSlug?: string;
+  issueId?: string;
+}
+
+/**
+ * Put the calling team at the back of an issue's waitlist, unless it
+ * already holds maxConcurrentIssues: an offer it could never claim would
+ * only hold the issue up. The security rules let teams leave a waitlist
+ * but not join one, so the limit cannot be skipped.
+ */
+export const joinWaitlist = onCall<JoinWaitlistRequest>(async (request): Promise<void> => {
+  const token = request.auth?.token;
+  const eventSlug = request.data?.eventSlug?.trim();
+  const issueId = request.data?.issueId?.trim();
+  if (!eventSlug || !issueId) {
+    throw new HttpsError('invalid-argument', 'Event and issue are required.');
+  }
+  if (token?.role !== 'team' || token.event !== eventSlug || typeof token.team !== 'string') {
+    throw new HttpsError('permission-denied', 'Only teams can join a waitlist.');
+  }
+  const teamName = token.team;
+
+  const event = eventRef(getFirestore(), eventSlug);
+  const issues = event.collection('issues');
+  const issueRef = issues.doc(issueId);
+  const rules = await loadScoringRules(event);
+
+  await event.firestore.runTransaction(async (transaction) => {
+    const now = Date.now();
+    const [issueSnap, occupiedSnap, offeredSnap] = await Promise.all([
+      transaction.get(issueRef),
+      transaction.get(issues.where('assignedTo', '==', teamName).where('status', '==', 'occupied')),
+      transaction.get(issues.where('offeredTo', '==', teamName))
+    ]);
+
+    const issue = issueSnap.data() as IssueDoc | undefined;
+    if (!issue || issueSnap.get('deletedAt') != null) {
+      throw new HttpsError('not-found', 'Issue not found.');
+    }
+    if (!canJoinWaitlist(issue, teamName)) {
+      throw new HttpsError('failed-precondition', 'Only issues another team is working on have a waitlist.');
+    }
+    const waitlist = issue.waitlist ?? [];
+    if (waitlist.includes(teamName)) {
+      throw new HttpsError('already-exists', 'Your team is already on the waitlist.');
+    }
+    const held = countHeldIssues(
+      [...occupiedSnap.docs, ...offeredSnap.docs].map(doc => ({ id: doc.id, data: doc.data() as IssueDoc })),
+      teamName,
+      now
+    );
+    if (held >= rules.maxConcurrentIssues) {
+      throw new HttpsError('failed-precondition', getWaitlistLimitError(rules.maxConcurrentIssues));
+    }
+
+    transaction.update(issueRef, { waitlist: [...waitlist, teamName] });
+  });
+});
@@ -0,0 +1,98 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+import { getFirestore } from 'firebase-admin/firestore';
+import { defineSecret } from 'firebase-functions/params';
+import { onRequest } from 'firebase-functions/v2/https';
+import * as logger from 'firebase-functions/logger';
+import { listEventRefs } from './events';
+import { applyPrStatus } from './review';
+import { loadScoringRules, PrReviewStatus } from './scoring';
+import { parsePullRequestUrl, parseRepositoryUrl } from './verification';
+
+// Set with `firebase functions:secrets:set GITHUB_WEBHOOK_SECRET`, and use the
+// same value as the webhook secret in the GitHub repository settings.
+export const githubWebhookSecret = defineSecret('GITHUB_WEBHOOK_SECRET');
+
+interface PullRequestPayload {
+  action?: string;
+  pull_request?: { html_url: string; merged?: boolean };
+  review?: { state?: string };
+}
+
+/** Checks the X-Hub-Signature-256 header against the raw request body */
+export const isValidSignature = (rawBody: Buffer, signature: string | undefined, secret: string): boolean => {
+  if (!signature) return false;
+  const expected = Buffer.from(`sha256=${createHmac('sha256', secret).update(rawBody).digest('hex')}`);
+  const received = Buffer.from(signature);
+  return expected.length === received.length && timingSafeEqual(expected, received);
+};
+
+/** The review status a GitHub event reports, or null for events we ignore */
+export const getReportedStatus = (event: string, payload: PullRequestPayload): PrReviewStatus | null => {
+  if (event === 'pull_request' && payload.action === 'closed') {
+    return payload.pull_request?.merged ? 'merged' : 'rejected';
+  }
+  if (event === 'pull_request_review' && payload.action === 'submitted' &&
+      payload.review?.state?.toLowerCase() === 'approved') {
+    return 'approved';
+  }
+  return null;
+};
+
+// Receives pull_request and pull_request_review events from the repositories
+// in play and updates the issues submitted with that PR, in every event that
+// has the PR's repository. applyPrStatus only touches verified submissions.
+// Deliveries can be retried or replayed safely: it awards merge points once.
+export const githubWebhook = onRequest({ secrets: [githubWebhookSecret] }, async (req, res) => {
+  if (req.method !== 'POST') {
+    res.status(405).send('Method not allowed');
+    return;
+  }
+  if (!isValidSignature(req.rawBody, req.get('X-Hub-Signature-256'), githubWebhookSecret.value())) {
+    logger.warn('Rejected webhook with an invalid signature');
+    res.status(401).send('Invalid signature');
+    return;
+  }
+
+  const event = req.get('X-GitHub-Event') ?? '';
+  const payload = req.body as PullRequestPayload;
+  const status = getReportedStatus(event, payload);
+  const prUrl = payload.pull_request?.html_url;
+  if (!status || !prUrl) {
+    res.status(200).send(`Ignored ${event || 'unknown'} event`);
+    return;
+  }
+
+  const prRepo = parsePullRequestUrl(prUrl)?.repo.toLowerCase();
+
+  // Repositories can take part in several events, so look in each of them
+  let matched = 0;
+  for (const eventDoc of await listEventRefs(getFirestore())) {
+    const snapshot = await eventDoc.collection('issues').where('prUrl', 'in', [prUrl, `${prUrl}/`]).get();
+    if (snapshot.empty) {
+      continue;
+    }
+
+    // Only issues of the event's own copy of the PR's repository
+    const repositories = await eventDoc.collection('repositories').get();
+    const repoNames = new Set(repositories.docs
+      .filter(repo => parseRepositoryUrl(String(repo.get('url') ?? ''))?.toLowerCase() === prRepo)
+      .map(repo => repo.get('name') as string));
+    const issueDocs = snapshot.docs.filter(issueDoc => repoNames.has(issueDoc.get('repo')));
+    if (!issueDocs.length) {
+      continue;
+    }
+
+    const rules = await loadScoringRules(eventDoc);
+    for (const issueDoc of issueDocs) {
+      const outcome = await applyPrStatus(eventDoc, issueDoc.id, status, rules);
+      logger.info(`PR ${prUrl} ${status}`, { event: eventDoc.id, issueId: issueDoc.id, ...outcome });
+    }
+    matched += issueDocs.length;
+  }
+
+  if (!matched) {
+    res.status(200).send(`No issue submitted with ${prUrl}`);
+    return;
+  }
+  res.status(200).send(`Marked ${matched} issue(s) ${status}`);
+});
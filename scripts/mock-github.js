@@ -0,0 +1,109 @@
+#!/usr/bin/env node
+/**
+ * Minimal stand-in for the GitHub REST API, serving the data in
+ * scripts/fixtures/github.json. The fixture is re-read on every request, so
+ * editing a title or state and re-running the importer exercises the sync.
+ * A pull request whose created_at is "now" is reported as opened at request
+ * time, so it always passes the "opened after occupied" check.
+ *
+ *   npm run mock:github
+ *   VITE_GITHUB_API_URL=http://localhost:4010 npm run dev
+ */
+
+import fs from 'fs';
+import http from 'http';
+import path from 'path';
+import { fileURLToPath } from 'url';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+const fixturePath = process.env.MOCK_GITHUB_FIXTURE || path.join(__dirname, 'fixtures', 'github.json');
+const port = Number(process.env.MOCK_GITHUB_PORT || 4010);
+
+const loadFixture = () => JSON.parse(fs.readFileSync(fixturePath, 'utf8'));
+
+const send = (res, status, body) => {
+  res.writeHead(status, {
+    'Content-Type': 'application/json',
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Headers': '*'
+  });
+  res.end(JSON.stringify(body));
+};
+
+const toIssue = (fullName, issue) => ({
+  ...issue,
+  html_url: `https://github.com/${fullName}/${issue.pull_request ? 'pull' : 'issues'}/${issue.number}`,
+  labels: issue.labels.map(name => ({ name }))
+});
+
+const toPull = (fullName, pull) => ({
+  number: pull.number,
+  title: pull.title,
+  body: pull.body,
+  html_url: `https://github.com/${fullName}/pull/${pull.number}`,
+  created_at: pull.created_at === 'now' ? new Date().toISOString() : pull.created_at,
+  user: { login: pull.author },
+  base: { repo: { full_name: pull.base || fullName } }
+});
+
+const listIssues = (res, fullName, repo, params) => {
+  const state = params.get('state') || 'open';
+  const labels = (params.get('labels') || '').split(',').map(l => l.trim().toLowerCase()).filter(Boolean);
+  const perPage = Math.min(Number(params.get('per_page') || 30), 100);
+  const page = Number(params.get('page') || 1);
+
+  const matching = repo.issues.filter(issue =>
+    (state === 'all' || issue.state === state) &&
+    labels.every(label => issue.labels.some(l => l.toLowerCase() === label))
+  );
+  const pageItems = matching.slice((page - 1) * perPage, page * perPage);
+  send(res, 200, pageItems.map(issue => toIssue(fullName, issue)));
+};
+
+const server = http.createServer((req, res) => {
+  if (req.method === 'OPTIONS') {
+    send(res, 204, null);
+    return;
+  }
+
+  const url = new URL(req.url, `http://localhost:${port}`);
+  console.log(`${req.method} ${url.pathname}${url.search}`);
+
+  let fixture;
+  try {
+    fixture = loadFixture();
+  } catch (error) {
+    send(res, 500, { message: `Could not read fixture: ${error.message}` });
+    return;
+  }
+
+  const issuesRoute = url.pathname.match(/^\/repos\/([^/]+)\/([^/]+)\/issues$/);
+  if (req.method === 'GET' && issuesRoute) {
+    const fullName = `${issuesRoute[1]}/${issuesRoute[2]}`;
+    const repo = fixture.repos[fullName];
+    if (!repo) {
+      send(res, 404, { message: 'Not Found' });
+      return;
+    }
+    listIssues(res, fullName, repo, url.searchParams);
+    return;
+  }
+
+  const pullRoute = url.pathname.match(/^\/repos\/([^/]+)\/([^/]+)\/pulls\/(\d+)$/);
+  if (req.method === 'GET' && pullRoute) {
+    const fullName = `${pullRoute[1]}/${pullRoute[2]}`;
+    const pull = fixture.repos[fullName]?.pulls?.find(p => p.number === Number(pullRoute[3]));
+    if (!pull) {
+      send(res, 404, { message: 'Not Found' });
+      return;
+    }
+    send(res, 200, toPull(fullName, pull));
+    return;
+  }
+
+  send(res, 404, { message: 'Not Found' });
+});
+
+server.listen(port, () => {
+  console.log(`🐙 Mock GitHub API on http://localhost:${port} (fixture: ${fixturePath})`);
+});
@@ -4,11 +4,16 @@ import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
 import { AppProvider } from "./contexts/AppContext";
+import EventLayout from "./components/EventLayout";
+import LegacyRedirect from "./components/LegacyRedirect";
+import Events from "./pages/Events";
 import TeamLogin from "./pages/TeamLogin";
 import Repositories from "./pages/Repositories";
 import Issues from "./pages/Issues";
+import IssueDetail from "./pages/IssueDetail";
 import AdminPanel from "./pages/AdminPanel";
 import TeamRankings from "./pages/TeamRankings";
+import Display from "./pages/Display";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
@@ -17,20 +22,31 @@ const App = () => (
   <QueryClientProvider client={queryClient}>
     <TooltipProvider>
       <AppProvider>
-        <Toaster />
-        <Sonner />
         <BrowserRouter
           future={{
             v7_startTransition: true,
             v7_relativeSplatPath: true,
           }}
         >
+          {/* Inside the router so toasts can link to pages */}
+          <Toaster />
+          <Sonner />
           <Routes>
-            <Route path="/" element={<TeamLogin />} />
-            <Route path="/repositories" element={<Repositories />} />
-            <Route path="/issues/:repo" element={<Issues />} />
+            <Route path="/" element={<Events />} />
             <Route path="/admin" element={<AdminPanel />} />
-            <Route path="/rankings" element={<TeamRankings />} />
+            <Route path="/e/:eventSlug" element={<EventLayout />}>
+              <Route index element={<TeamLogin />} />
+              <Route path="repositories" element={<Repositories />} />
+              <Route path="issues/:repo" element={<Issues />} />
+              <Route path="issues/:repo/:issueId" element={<IssueDetail />} />
+              <Route path="admin" element={<AdminPanel />} />
+              <Route path="rankings" element={<TeamRankings />} />
+              <Route path="display" element={<Display />} />
+            </Route>
+            {/* Addresses from before events */}
+            <Route path="/repositories" element={<LegacyRedirect />} />
+            <Route path="/issues/:repo" element={<LegacyRedirect />} />
+            <Route path="/rankings" element={<LegacyRedirect />} />
             <Route path="*" element={<NotFound />} />
           </Routes>
         </BrowserRouter>
@@ -0,0 +1,35 @@
+import type { DifficultyTier } from '@/types';
+import { Badge } from '@/components/ui/badge';
+import { cn } from '@/lib/utils';
+
+interface DifficultyBadgeProps {
+  tier?: DifficultyTier;
+  /** "solid" for participant cards, "subtle" for dense admin lists */
+  variant?: 'solid' | 'subtle';
+  className?: string;
+  children?: React.ReactNode;
+}
+
+// Tier colours are admin-defined hex values, so they are applied inline
+// rather than through Tailwind classes.
+const DifficultyBadge = ({ tier, variant = 'solid', className, children }: DifficultyBadgeProps) => {
+  if (!tier) {
+    return (
+      <Badge variant="outline" className={cn('bg-muted', className)}>
+        {children ?? 'No difficulty'}
+      </Badge>
+    );
+  }
+
+  const style = variant === 'solid'
+    ? { backgroundColor: tier.color, borderColor: tier.color, color: '#fff' }
+    : { backgroundColor: `${tier.color}1a`, borderColor: tier.color, color: tier.color };
+
+  return (
+    <Badge variant="outline" style={style} className={className}>
+      {children ?? tier.name}
+    </Badge>
+  );
+};
+
+export default DifficultyBadge;
@@ -0,0 +1,35 @@
+import { useEffect } from 'react';
+import { Outlet, useParams } from 'react-router-dom';
+import { useApp } from '@/contexts/AppContext';
+import NotFound from '@/pages/NotFound';
+import { rememberEvent } from '@/lib/event';
+
+// Route wrapper for /e/:eventSlug/*. Selects the event named in the URL and
+// renders its pages only once that event's data is what the app is showing.
+const EventLayout = () => {
+  const { eventSlug } = useParams();
+  const { events, eventsLoaded, currentEvent, selectEvent } = useApp();
+
+  useEffect(() => {
+    selectEvent(eventSlug ?? null);
+  }, [eventSlug, selectEvent]);
+
+  // Old addresses without an event go back to this one (see LegacyRedirect)
+  const found = events.some(event => event.slug === eventSlug);
+  useEffect(() => {
+    if (eventSlug && found) rememberEvent(eventSlug);
+  }, [eventSlug, found]);
+
+  if (!eventsLoaded) {
+    return null;
+  }
+  if (!found) {
+    return <NotFound />;
+  }
+  if (currentEvent?.slug !== eventSlug) {
+    return null;
+  }
+  return <Outlet />;
+};
+
+export default EventLayout;
@@ -0,0 +1,56 @@
+import { useEffect, useState } from 'react';
+import { useCurrentEvent } from '@/contexts/AppContext';
+import { formatCountdown, getEventClosedError, getEventCountdownTarget, getEventPhase } from '@/lib/event';
+import type { EventStatus } from '@/types';
+import { CircleStop, Hourglass, Pause, Pencil, Timer } from 'lucide-react';
+
+const STYLES: Record<EventStatus, string> = {
+  draft: 'bg-slate-100 text-slate-700 dark:bg-slate-800 dark:text-slate-300',
+  scheduled: 'bg-sky-50 text-sky-700 border-sky-200 dark:bg-sky-950/40 dark:text-sky-300 dark:border-sky-900',
+  running: 'bg-emerald-50 text-emerald-700 border-emerald-200 dark:bg-emerald-950/40 dark:text-emerald-300 dark:border-emerald-900',
+  paused: 'bg-amber-50 text-amber-700 border-amber-200 dark:bg-amber-950/40 dark:text-amber-300 dark:border-amber-900',
+  ended: 'bg-rose-50 text-rose-700 border-rose-200 dark:bg-rose-950/40 dark:text-rose-300 dark:border-rose-900'
+};
+
+const ICONS: Record<EventStatus, typeof Timer> = {
+  draft: Pencil,
+  scheduled: Hourglass,
+  running: Timer,
+  paused: Pause,
+  ended: CircleStop
+};
+
+/** Countdown to the start or end of the event, or why it is closed */
+const EventStatusBanner = () => {
+  const event = useCurrentEvent();
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    const clock = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(clock);
+  }, []);
+
+  const phase = getEventPhase(event, now);
+  const countdown = getEventCountdownTarget(event, now);
+  // A running event without an end time has nothing to show
+  if (phase === 'running' && !countdown) {
+    return null;
+  }
+
+  const Icon = ICONS[phase];
+  return (
+    <div className={`flex items-center justify-center gap-3 px-4 py-3 rounded-xl border font-medium ${STYLES[phase]}`}>
+      <Icon className="w-5 h-5" />
+      {countdown ? (
+        <span>
+          {countdown.label}{' '}
+          <span className="font-mono font-bold tabular-nums">{formatCountdown(countdown.target, now)}</span>
+        </span>
+      ) : (
+        <span>{getEventClosedError(phase)}</span>
+      )}
+    </div>
+  );
+};
+
+export default EventStatusBanner;
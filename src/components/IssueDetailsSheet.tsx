@@ -0,0 +1,134 @@
+import { Link } from 'react-router-dom';
+import type { Issue, ScoringRules } from '@/types';
+import { getIssuePoints, getTier, migrateIssueDifficulty } from '@/lib/scoring';
+import { getIssuePath, isHttpUrl } from '@/lib/issueDetails';
+import { useEventPath } from '@/hooks/use-event-path';
+import { Badge } from '@/components/ui/badge';
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from '@/components/ui/sheet';
+import DifficultyBadge from '@/components/DifficultyBadge';
+import Markdown, { InlineMarkdown } from '@/components/Markdown';
+import { ArrowRight, ExternalLink, FileCode, ListChecks, Square } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+interface IssueDetailsSheetProps {
+  issue: Issue | null;
+  scoringRules: ScoringRules;
+  onOpenChange: (open: boolean) => void;
+}
+
+const Section = ({ title, icon, children }: { title: string; icon?: React.ReactNode; children: React.ReactNode }) => (
+  <section className="space-y-2">
+    <h3 className="text-sm font-semibold flex items-center gap-2">
+      {icon}
+      {title}
+    </h3>
+    {children}
+  </section>
+);
+
+/** Repository, difficulty with points, and tags */
+export const IssueBadges = ({ issue, scoringRules }: { issue: Issue; scoringRules: ScoringRules }) => (
+  <div className="flex flex-wrap items-center gap-2">
+    <Badge variant="outline">{issue.repo}</Badge>
+    <DifficultyBadge tier={getTier(issue, scoringRules)} variant="subtle">
+      {getTier(issue, scoringRules)?.name ?? 'No difficulty'} • {getIssuePoints(issue, scoringRules)} pts
+    </DifficultyBadge>
+    {migrateIssueDifficulty(issue, scoringRules).tags.map(tag => (
+      <Badge key={tag} variant="outline">{tag}</Badge>
+    ))}
+  </div>
+);
+
+/** Upstream link, description, acceptance criteria, file hints and further reading */
+export const IssueDetailsBody = ({ issue, className }: { issue: Issue; className?: string }) => (
+  <div className={cn('space-y-6', className)}>
+    {issue.githubUrl && isHttpUrl(issue.githubUrl) && (
+      <a
+        href={issue.githubUrl}
+        target="_blank"
+        rel="noopener noreferrer"
+        className="inline-flex items-center gap-2 text-sm font-medium text-primary hover:underline"
+      >
+        {issue.githubNumber != null ? `Open GitHub issue #${issue.githubNumber}` : 'Open upstream issue'}
+        <ExternalLink className="w-4 h-4" />
+      </a>
+    )}
+
+    {issue.description?.trim()
+      ? <Markdown source={issue.description} />
+      : <p className="text-sm text-muted-foreground">No description yet.</p>}
+
+    {!!issue.acceptanceCriteria?.length && (
+      <Section title="Acceptance Criteria" icon={<ListChecks className="w-4 h-4" />}>
+        <ul className="space-y-1.5 text-sm">
+          {issue.acceptanceCriteria.map(criterion => (
+            <li key={criterion} className="flex items-start gap-2">
+              <Square className="w-4 h-4 mt-0.5 shrink-0 text-muted-foreground" />
+              <span><InlineMarkdown source={criterion} /></span>
+            </li>
+          ))}
+        </ul>
+      </Section>
+    )}
+
+    {!!issue.fileHints?.length && (
+      <Section title="Where to Look" icon={<FileCode className="w-4 h-4" />}>
+        <ul className="space-y-1">
+          {issue.fileHints.map(path => (
+            <li key={path}>
+              <code className="rounded bg-muted px-1.5 py-0.5 font-mono text-xs break-all">{path}</code>
+            </li>
+          ))}
+        </ul>
+      </Section>
+    )}
+
+    {!!issue.links?.some(isHttpUrl) && (
+      <Section title="Further Reading" icon={<ExternalLink className="w-4 h-4" />}>
+        <ul className="space-y-1 text-sm">
+          {issue.links.filter(isHttpUrl).map(link => (
+            <li key={link}>
+              <a href={link} target="_blank" rel="noopener noreferrer" className="text-primary hover:underline break-all">
+                {link}
+              </a>
+            </li>
+          ))}
+        </ul>
+      </Section>
+    )}
+  </div>
+);
+
+// Read-only: occupying and closing stay on the issue cards
+const IssueDetailsSheet = ({ issue, scoringRules, onOpenChange }: IssueDetailsSheetProps) => {
+  const eventPath = useEventPath();
+
+  return (
+    <Sheet open={issue !== null} onOpenChange={onOpenChange}>
+      <SheetContent className="w-full sm:max-w-xl overflow-y-auto">
+        {issue && (
+          <>
+            <SheetHeader className="text-left">
+              <SheetTitle className="pr-6">{issue.title}</SheetTitle>
+              <SheetDescription asChild>
+                <IssueBadges issue={issue} scoringRules={scoringRules} />
+              </SheetDescription>
+            </SheetHeader>
+
+            <IssueDetailsBody issue={issue} className="mt-6" />
+
+            <Link
+              to={eventPath(getIssuePath(issue))}
+              className="mt-8 inline-flex items-center gap-2 text-sm font-medium text-primary hover:underline"
+            >
+              Open issue page and history
+              <ArrowRight className="w-4 h-4" />
+            </Link>
+          </>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+};
+
+export default IssueDetailsSheet;
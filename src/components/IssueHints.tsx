@@ -0,0 +1,136 @@
+import { useState } from 'react';
+import { useApp, useCurrentEvent } from '@/contexts/AppContext';
+import { useEventPhase } from '@/hooks/use-event-phase';
+import { getEventClosedError } from '@/lib/event';
+import { getIssueUnlocks, getNextHintIndex } from '@/lib/hints';
+import { isTeamRevealed } from '@/lib/leaderboard';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger
+} from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle
+} from '@/components/ui/alert-dialog';
+import Markdown from '@/components/Markdown';
+import { Lightbulb, Lock } from 'lucide-react';
+
+/**
+ * The hints of an issue held by the signed-in team: the ones it unlocked,
+ * and a button to pay for the next. Renders nothing for other viewers or
+ * issues without hints. Reads the issue from the context so it stays live
+ * inside memoised cards.
+ */
+const IssueHints = ({ issueId, className }: { issueId: string; className?: string }) => {
+  const { issues, currentTeam, hintUnlocks, unlockHint } = useApp();
+  const event = useCurrentEvent();
+  const closedError = getEventClosedError(useEventPhase(event));
+  const [confirming, setConfirming] = useState(false);
+  const [isUnlocking, setIsUnlocking] = useState(false);
+
+  const issue = issues.find(i => i.id === issueId);
+  const costs = issue?.hintCosts ?? [];
+  if (!issue || !currentTeam || issue.status !== 'occupied' || issue.assignedTo !== currentTeam.name || costs.length === 0) {
+    return null;
+  }
+
+  const unlocked = getIssueUnlocks(hintUnlocks, issue.id, currentTeam.name);
+  const nextIndex = getNextHintIndex(issue, unlocked);
+  const nextCost = nextIndex === null ? 0 : costs[nextIndex];
+  // Scores never go below zero, so hints are only sold to teams that can pay.
+  // While the team's score is frozen its live points are hidden, so the
+  // unlock itself says whether it can.
+  const pointsKnown = isTeamRevealed(currentTeam.name, event?.freeze ?? null);
+  const unaffordable = pointsKnown && nextCost > currentTeam.points ? `Your team needs ${nextCost} points for this hint.` : null;
+
+  const handleUnlock = async () => {
+    if (nextIndex === null) return;
+    setIsUnlocking(true);
+    await unlockHint(issue.id, nextIndex);
+    setIsUnlocking(false);
+    setConfirming(false);
+  };
+
+  return (
+    <>
+      <Dialog>
+        <DialogTrigger asChild>
+          <Button variant="outline" className={className}>
+            <Lightbulb className="w-4 h-4 mr-2" />
+            Hints ({unlocked.length}/{costs.length})
+          </Button>
+        </DialogTrigger>
+        <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Hints for {issue.title}</DialogTitle>
+            <DialogDescription>
+              Hints unlock one at a time, and each costs your team points. Only your team can see the ones you unlock.
+            </DialogDescription>
+          </DialogHeader>
+
+          <ol className="space-y-3">
+            {unlocked.map(unlock => (
+              <li key={unlock.id} className="rounded-lg border p-3 space-y-2">
+                <p className="text-xs font-semibold text-muted-foreground">
+                  Hint {unlock.hintIndex + 1}{unlock.cost > 0 && ` · -${unlock.cost} pts`}
+                </p>
+                <Markdown source={unlock.text} />
+              </li>
+            ))}
+            {costs.slice(unlocked.length).map((cost, offset) => (
+              <li key={unlocked.length + offset} className="rounded-lg border border-dashed p-3 flex items-center gap-2 text-sm text-muted-foreground">
+                <Lock className="w-4 h-4" />
+                Hint {unlocked.length + offset + 1} · {cost} pts
+              </li>
+            ))}
+          </ol>
+
+          {nextIndex !== null && unaffordable && <p className="text-sm text-muted-foreground">{unaffordable}</p>}
+
+          {nextIndex !== null && (
+            <Button
+              onClick={() => setConfirming(true)}
+              disabled={!!closedError || !!unaffordable}
+              title={closedError ?? unaffordable ?? undefined}
+            >
+              <Lightbulb className="w-4 h-4 mr-2" />
+              Unlock Hint {nextIndex + 1}{nextCost > 0 && ` (-${nextCost} pts)`}
+            </Button>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={confirming} onOpenChange={setConfirming}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Unlock hint {(nextIndex ?? 0) + 1}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {nextCost > 0
+                ? `${nextCost} points will be deducted from ${currentTeam.name}. This cannot be undone.`
+                : 'This hint is free.'}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={isUnlocking}>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleUnlock} disabled={isUnlocking}>
+              {isUnlocking ? 'Unlocking…' : 'Unlock Hint'}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+};
+
+export default IssueHints;
@@ -0,0 +1,51 @@
+import { memo, useEffect, useState } from 'react';
+import type { ContestEvent, Issue, ScoringRules } from '@/types';
+import { formatDuration, getTimeLimitMs, getTimeRemainingMs } from '@/lib/scoring';
+import { getEventClock } from '@/lib/event';
+import { Clock } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+interface IssueTimerProps {
+  issue: Issue;
+  scoringRules: ScoringRules;
+  event: ContestEvent;
+  className?: string;
+}
+
+// Timers stand still while the event is paused
+const getRemainingMs = (issue: Issue, scoringRules: ScoringRules, event: ContestEvent) =>
+  getTimeRemainingMs(issue, scoringRules, getEventClock(event, Date.now()));
+
+/** Time left on an occupied issue, ticking every second; renders nothing otherwise */
+const IssueTimer = memo(({ issue, scoringRules, event, className }: IssueTimerProps) => {
+  const [remaining, setRemaining] = useState(() => getRemainingMs(issue, scoringRules, event));
+
+  useEffect(() => {
+    setRemaining(getRemainingMs(issue, scoringRules, event));
+    const interval = setInterval(() => setRemaining(getRemainingMs(issue, scoringRules, event)), 1000);
+    return () => clearInterval(interval);
+  }, [issue, scoringRules, event]);
+
+  if (remaining === null) return null;
+
+  const percentRemaining = (remaining / getTimeLimitMs(issue, scoringRules)) * 100;
+  // Color based on time remaining
+  const color = percentRemaining > 50 ? 'text-primary' : percentRemaining > 25 ? 'text-warning' : 'text-destructive';
+
+  return (
+    <div className={cn('flex items-center gap-2 mt-2 text-sm font-medium', color, className)}>
+      <Clock className="w-4 h-4" />
+      {formatDuration(remaining)}
+      {!!issue.extensionMinutes && (
+        <span className="text-xs text-muted-foreground" title="Extension granted by the organisers">+{issue.extensionMinutes} min</span>
+      )}
+      {percentRemaining <= 25 && (
+        <span className="text-xs">⚠️ Hurry!</span>
+      )}
+    </div>
+  );
+});
+
+IssueTimer.displayName = 'IssueTimer';
+
+export default IssueTimer;
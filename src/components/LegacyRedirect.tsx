@@ -0,0 +1,27 @@
+import { useEffect } from 'react';
+import { Navigate, useLocation } from 'react-router-dom';
+import { toast } from 'sonner';
+import { useApp } from '@/contexts/AppContext';
+import { getDefaultEventSlug, getEventPath, getLastEventSlug } from '@/lib/event';
+
+// Addresses from before the app had events (/repositories, /rankings,
+// /issues/:repo) open the same page in the event they most likely meant,
+// or the event list when there is no telling which.
+const LegacyRedirect = () => {
+  const { pathname, search } = useLocation();
+  const { events, eventsLoaded } = useApp();
+  const slug = eventsLoaded ? getDefaultEventSlug(events, getLastEventSlug(), Date.now()) : null;
+
+  useEffect(() => {
+    if (eventsLoaded && !slug) {
+      toast.info('Pages now live inside an event. Pick your event to continue.');
+    }
+  }, [eventsLoaded, slug]);
+
+  if (!eventsLoaded) {
+    return null;
+  }
+  return <Navigate to={slug ? getEventPath(slug, pathname) + search : '/'} replace />;
+};
+
+export default LegacyRedirect;
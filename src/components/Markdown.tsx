@@ -0,0 +1,79 @@
+import { Fragment, useMemo } from 'react';
+import { parseInline, parseMarkdown, type MarkdownBlock, type MarkdownInline } from '@/lib/markdown';
+import { CheckSquare, Square } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+const HEADING_CLASSES = ['text-xl', 'text-lg', 'text-base', 'text-sm', 'text-sm', 'text-sm'];
+
+const renderInline = (nodes: MarkdownInline[]) =>
+  nodes.map((node, i) => {
+    switch (node.type) {
+      case 'text':
+        return <Fragment key={i}>{node.text}</Fragment>;
+      case 'code':
+        return <code key={i} className="rounded bg-muted px-1 py-0.5 font-mono text-[0.85em]">{node.text}</code>;
+      case 'strong':
+        return <strong key={i}>{renderInline(node.children)}</strong>;
+      case 'em':
+        return <em key={i}>{renderInline(node.children)}</em>;
+      case 'link':
+        return (
+          <a key={i} href={node.href} target="_blank" rel="noopener noreferrer" className="text-primary underline underline-offset-2 break-words">
+            {renderInline(node.children)}
+          </a>
+        );
+    }
+  });
+
+const renderBlock = (block: MarkdownBlock, i: number) => {
+  switch (block.type) {
+    case 'heading':
+      return (
+        <p key={i} role="heading" aria-level={block.level} className={cn('font-semibold mt-4 first:mt-0', HEADING_CLASSES[block.level - 1])}>
+          {renderInline(block.children)}
+        </p>
+      );
+    case 'paragraph':
+      return <p key={i}>{renderInline(block.children)}</p>;
+    case 'list': {
+      const List = block.ordered ? 'ol' : 'ul';
+      const isTaskList = block.items.some(item => item.checked !== null);
+      return (
+        <List key={i} className={cn('space-y-1', isTaskList ? 'list-none' : block.ordered ? 'list-decimal pl-5' : 'list-disc pl-5')}>
+          {block.items.map((item, j) => (
+            <li key={j} className={item.checked !== null ? 'flex items-start gap-2' : undefined}>
+              {item.checked === true && <CheckSquare className="w-4 h-4 mt-0.5 shrink-0 text-success" />}
+              {item.checked === false && <Square className="w-4 h-4 mt-0.5 shrink-0 text-muted-foreground" />}
+              <span>{renderInline(item.children)}</span>
+            </li>
+          ))}
+        </List>
+      );
+    }
+    case 'quote':
+      return (
+        <blockquote key={i} className="border-l-4 pl-3 text-muted-foreground space-y-2">
+          {block.children.map(renderBlock)}
+        </blockquote>
+      );
+    case 'code':
+      return (
+        <pre key={i} className="overflow-x-auto rounded-lg bg-muted p-3 font-mono text-xs">
+          <code>{block.text}</code>
+        </pre>
+      );
+    case 'rule':
+      return <hr key={i} className="border-border" />;
+  }
+};
+
+/** Renders a Markdown description; raw HTML is shown as text, never injected */
+const Markdown = ({ source, className }: { source: string; className?: string }) => {
+  const blocks = useMemo(() => parseMarkdown(source), [source]);
+  return <div className={cn('space-y-3 text-sm leading-relaxed break-words', className)}>{blocks.map(renderBlock)}</div>;
+};
+
+/** A single line of Markdown, e.g. an acceptance criterion */
+export const InlineMarkdown = ({ source }: { source: string }) => <>{renderInline(parseInline(source))}</>;
+
+export default Markdown;
@@ -0,0 +1,49 @@
+import { useApp, useCurrentEvent } from '@/contexts/AppContext';
+import { useIssueOffer } from '@/hooks/use-issue-offer';
+import { formatDuration } from '@/lib/scoring';
+import { Button } from '@/components/ui/button';
+import { Lock, Ticket } from 'lucide-react';
+
+interface OccupyIssueButtonProps {
+  issueId: string;
+  disabled?: boolean;
+  onOccupy: () => void;
+}
+
+/**
+ * Occupy button for an open issue. While a freed issue is held for the
+ * first team on its waitlist, that team sees a countdown to claim it and
+ * everyone else waits. Reads the issue from the context so the countdown
+ * stays live inside memoised cards.
+ */
+const OccupyIssueButton = ({ issueId, disabled, onOccupy }: OccupyIssueButtonProps) => {
+  const { issues, currentTeam } = useApp();
+  const offer = useIssueOffer(issues.find(i => i.id === issueId), useCurrentEvent());
+
+  if (offer && offer.teamName !== currentTeam?.name) {
+    return (
+      <Button className="w-full" variant="ghost" disabled>
+        <Lock className="w-4 h-4 mr-2" />
+        Held for {offer.teamName} · {formatDuration(offer.remainingMs)}
+      </Button>
+    );
+  }
+
+  return (
+    <Button
+      className="w-full"
+      disabled={disabled}
+      onPointerUp={onOccupy}
+      onClick={(e) => e.preventDefault()}
+    >
+      {offer ? (
+        <>
+          <Ticket className="w-4 h-4 mr-2" />
+          Claim Issue · {formatDuration(offer.remainingMs)} left
+        </>
+      ) : 'Occupy Issue'}
+    </Button>
+  );
+};
+
+export default OccupyIssueButton;
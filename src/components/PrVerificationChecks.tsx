@@ -0,0 +1,33 @@
+import type { PrVerification } from '@/types';
+import { CheckCircle, XCircle, MinusCircle, AlertTriangle } from 'lucide-react';
+
+const statusIcon = {
+  passed: <CheckCircle className="w-4 h-4 text-success shrink-0" />,
+  failed: <XCircle className="w-4 h-4 text-destructive shrink-0" />,
+  skipped: <MinusCircle className="w-4 h-4 text-muted-foreground shrink-0" />
+};
+
+// Shared by the close dialog (for the team) and the admin review panel
+const PrVerificationChecks = ({ verification }: { verification: PrVerification }) => (
+  <div className="space-y-2">
+    {verification.error && (
+      <div className="flex items-start gap-2 text-sm">
+        {verification.status === 'error'
+          ? <AlertTriangle className="w-4 h-4 text-warning shrink-0 mt-0.5" />
+          : <XCircle className="w-4 h-4 text-destructive shrink-0 mt-0.5" />}
+        <span className="text-foreground">{verification.error}</span>
+      </div>
+    )}
+    {verification.checks.map(check => (
+      <div key={check.id} className="flex items-start gap-2 text-sm">
+        <span className="mt-0.5">{statusIcon[check.status]}</span>
+        <div>
+          <p className="font-medium text-foreground">{check.label}</p>
+          <p className="text-xs text-muted-foreground">{check.detail}</p>
+        </div>
+      </div>
+    ))}
+  </div>
+);
+
+export default PrVerificationChecks;
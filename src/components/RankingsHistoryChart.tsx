@@ -0,0 +1,92 @@
+import { CartesianGrid, Line, LineChart, ReferenceDot, XAxis, YAxis } from 'recharts';
+import type { PointsEntry, Team } from '@/types';
+import { getScoreHistory } from '@/lib/rankings';
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig
+} from '@/components/ui/chart';
+
+const TEAM_COLORS = ['#6366f1', '#f59e0b', '#10b981', '#ef4444', '#06b6d4', '#ec4899', '#84cc16', '#8b5cf6'];
+const MERGE_COLOR = '#22c55e';
+const PENALTY_COLOR = '#ef4444';
+
+const formatTime = (time: number) =>
+  new Date(time).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+interface RankingsHistoryChartProps {
+  teams: Team[];
+  ledger: PointsEntry[];
+  now: number;
+}
+
+// Chart keys double as CSS variable names, so teams are keyed by position
+// rather than by name.
+const RankingsHistoryChart = ({ teams, ledger, now }: RankingsHistoryChartProps) => {
+  const orderedTeams = [...teams].sort((a, b) => a.name.localeCompare(b.name));
+  const keyFor = (teamName: string) => `team${orderedTeams.findIndex(team => team.name === teamName)}`;
+
+  const config: ChartConfig = Object.fromEntries(orderedTeams.map((team, index) => [
+    `team${index}`,
+    { label: team.name, color: TEAM_COLORS[index % TEAM_COLORS.length] }
+  ]));
+
+  const { rows, markers } = getScoreHistory(teams, ledger, now);
+  const data = rows.map(row => ({
+    time: row.time,
+    ...Object.fromEntries(orderedTeams.map(team => [keyFor(team.name), row.scores[team.name]]))
+  }));
+
+  return (
+    <ChartContainer config={config} className="w-full">
+      <LineChart data={data} margin={{ top: 8, right: 16, left: 0, bottom: 0 }}>
+        <CartesianGrid vertical={false} />
+        <XAxis
+          dataKey="time"
+          type="number"
+          scale="time"
+          domain={['dataMin', 'dataMax']}
+          tickFormatter={formatTime}
+          tickLine={false}
+          axisLine={false}
+        />
+        <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={40} />
+        <ChartTooltip
+          content={
+            <ChartTooltipContent
+              labelFormatter={(_, payload) => formatTime(payload[0]?.payload.time)}
+            />
+          }
+        />
+        <ChartLegend content={<ChartLegendContent />} />
+        {orderedTeams.map((team, index) => (
+          <Line
+            key={team.name}
+            dataKey={`team${index}`}
+            type="stepAfter"
+            stroke={`var(--color-team${index})`}
+            strokeWidth={2}
+            dot={false}
+            isAnimationActive={false}
+          />
+        ))}
+        {markers.map(({ entry, score }) => (
+          <ReferenceDot
+            key={entry.id}
+            x={entry.createdAt}
+            y={score}
+            r={4}
+            fill={entry.reason === 'merge' ? MERGE_COLOR : PENALTY_COLOR}
+            stroke="white"
+            ifOverflow="extendDomain"
+          />
+        ))}
+      </LineChart>
+    </ChartContainer>
+  );
+};
+
+export default RankingsHistoryChart;
@@ -0,0 +1,107 @@
+import { useState } from 'react';
+import { useApp, useCurrentEvent } from '@/contexts/AppContext';
+import { useEventPhase } from '@/hooks/use-event-phase';
+import { getEventClock, getEventClosedError } from '@/lib/event';
+import { getReleasePenalty } from '@/lib/scoring';
+import { isTeamRevealed } from '@/lib/leaderboard';
+import { Button } from '@/components/ui/button';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle
+} from '@/components/ui/alert-dialog';
+import { LogOut } from 'lucide-react';
+import { toast } from 'sonner';
+import { cn } from '@/lib/utils';
+
+/**
+ * Lets the team holding an issue give it back before its time runs out.
+ * Renders nothing for anyone else. The penalty shown is worked out when the
+ * dialog opens; the store charges what it comes to at the moment of release.
+ */
+const ReleaseIssueButton = ({ issueId, className }: { issueId: string; className?: string }) => {
+  const { issues, currentTeam, scoringRules, releaseIssue } = useApp();
+  const event = useCurrentEvent();
+  const closedError = getEventClosedError(useEventPhase(event));
+  const [penalty, setPenalty] = useState<number | null>(null);
+  const [isReleasing, setIsReleasing] = useState(false);
+
+  const issue = issues.find(i => i.id === issueId);
+  if (!issue || !currentTeam || issue.status !== 'occupied' || issue.assignedTo !== currentTeam.name) {
+    return null;
+  }
+
+  // While the team's score is frozen its live points are hidden, and so is
+  // anything worked out from them
+  const pointsKnown = isTeamRevealed(currentTeam.name, event?.freeze ?? null);
+
+  const openDialog = () => {
+    const elapsed = getEventClock(event, Date.now()) - (issue.occupiedAt ?? Date.now());
+    const fullPenalty = getReleasePenalty(issue, scoringRules, elapsed);
+    // Scores never go below zero
+    setPenalty(pointsKnown ? Math.min(fullPenalty, Math.max(0, currentTeam.points)) : fullPenalty);
+  };
+
+  const handleRelease = async () => {
+    setIsReleasing(true);
+    const result = await releaseIssue(issue.id);
+    setIsReleasing(false);
+    setPenalty(null);
+    if (result.success) {
+      // The penalty charged is capped at the live score
+      toast.success(!result.penalty
+        ? 'Issue released at no cost.'
+        : pointsKnown
+          ? `Issue released. ${result.penalty} points deducted.`
+          : 'Issue released. The points deducted show once your score is revealed.');
+    } else {
+      toast.error(result.error || 'Failed to release the issue');
+    }
+  };
+
+  return (
+    <>
+      <Button
+        variant="ghost"
+        className={cn('text-destructive hover:text-destructive', className)}
+        disabled={!!closedError}
+        title={closedError ?? undefined}
+        onClick={openDialog}
+      >
+        <LogOut className="w-4 h-4 mr-2" />
+        Give Up Issue
+      </Button>
+
+      <AlertDialog open={penalty !== null} onOpenChange={(open) => !open && setPenalty(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Give up “{issue.title}”?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The issue goes straight back to the open pool for any team to take.{' '}
+              {penalty
+                ? `${currentTeam.name} loses about ${penalty} points; the longer you hold an issue, the more releasing it costs.`
+                : 'Releasing it now costs no points.'}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={isReleasing}>Keep Working</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleRelease}
+              disabled={isReleasing}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              {isReleasing ? 'Releasing…' : 'Release Issue'}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+};
+
+export default ReleaseIssueButton;
@@ -0,0 +1,91 @@
+import { useState } from 'react';
+import { useApp, useCurrentEvent } from '@/contexts/AppContext';
+import { useEventPhase } from '@/hooks/use-event-phase';
+import { getEventClosedError } from '@/lib/event';
+import { getPendingExtensionRequest, MAX_EXTENSION_REASON_LENGTH } from '@/lib/extensions';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+import { Hourglass } from 'lucide-react';
+
+/**
+ * Lets the team holding an issue ask the organisers for more time. Renders
+ * nothing for anyone else, and waits for an answer while a request is open.
+ */
+const RequestExtensionButton = ({ issueId, className }: { issueId: string; className?: string }) => {
+  const { issues, currentTeam, extensionRequests, requestExtension } = useApp();
+  const closedError = getEventClosedError(useEventPhase(useCurrentEvent()));
+  const [open, setOpen] = useState(false);
+  const [reason, setReason] = useState('');
+  const [isSending, setIsSending] = useState(false);
+
+  const issue = issues.find(i => i.id === issueId);
+  if (!issue || !currentTeam || issue.status !== 'occupied' || issue.assignedTo !== currentTeam.name) {
+    return null;
+  }
+
+  const pending = getPendingExtensionRequest(extensionRequests, issue);
+
+  const handleSubmit = async () => {
+    setIsSending(true);
+    const sent = await requestExtension(issue.id, reason.trim());
+    setIsSending(false);
+    if (sent) {
+      setOpen(false);
+      setReason('');
+    }
+  };
+
+  return (
+    <>
+      <Button
+        variant="outline"
+        className={className}
+        disabled={!!closedError || !!pending}
+        title={closedError ?? undefined}
+        onClick={() => setOpen(true)}
+      >
+        <Hourglass className="w-4 h-4 mr-2" />
+        {pending ? 'Waiting for More Time…' : 'Request Extension'}
+      </Button>
+
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>More time for {issue.title}</DialogTitle>
+            <DialogDescription>
+              The organisers decide how many minutes to add, if any. Your timer keeps running until they answer.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor={`extension-reason-${issue.id}`}>Why do you need more time?</Label>
+            <Textarea
+              id={`extension-reason-${issue.id}`}
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              maxLength={MAX_EXTENSION_REASON_LENGTH}
+              rows={3}
+              placeholder="e.g. Tests pass locally, just waiting on CI"
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setOpen(false)} disabled={isSending}>Cancel</Button>
+            <Button onClick={handleSubmit} disabled={isSending || !reason.trim()}>
+              {isSending ? 'Sending…' : 'Send Request'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
+
+export default RequestExtensionButton;
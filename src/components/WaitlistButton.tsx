@@ -0,0 +1,46 @@
+import { useState } from 'react';
+import { useApp } from '@/contexts/AppContext';
+import { canJoinWaitlist, getWaitlistPosition } from '@/lib/waitlist';
+import { Button } from '@/components/ui/button';
+import { ListOrdered } from 'lucide-react';
+
+/**
+ * Lets a team queue for an issue another team holds, and shows its place
+ * in line. Renders nothing for the holder, other viewers and issues that
+ * cannot be queued for. Reads the issue from the context so it stays live
+ * inside memoised cards.
+ */
+const WaitlistButton = ({ issueId, className }: { issueId: string; className?: string }) => {
+  const { issues, currentTeam, joinWaitlist, leaveWaitlist } = useApp();
+  const [isSaving, setIsSaving] = useState(false);
+
+  const issue = issues.find(i => i.id === issueId);
+  if (!issue || !currentTeam || !canJoinWaitlist(issue, currentTeam.name)) {
+    return null;
+  }
+
+  const waiting = issue.waitlist?.length ?? 0;
+  const position = getWaitlistPosition(issue, currentTeam.name);
+
+  const handleClick = async () => {
+    setIsSaving(true);
+    await (position ? leaveWaitlist(issue.id) : joinWaitlist(issue.id));
+    setIsSaving(false);
+  };
+
+  return (
+    <div className={className}>
+      <Button variant="outline" className="w-full" onClick={handleClick} disabled={isSaving}>
+        <ListOrdered className="w-4 h-4 mr-2" />
+        {position ? 'Leave Waitlist' : 'Join Waitlist'}
+      </Button>
+      <p className="text-xs text-muted-foreground text-center mt-1">
+        {position
+          ? `You're #${position} of ${waiting} in line`
+          : waiting > 0 ? `${waiting} ${waiting === 1 ? 'team' : 'teams'} waiting` : 'No one waiting yet'}
+      </p>
+    </div>
+  );
+};
+
+export default WaitlistButton;
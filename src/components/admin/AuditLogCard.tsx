@@ -0,0 +1,140 @@
+import { useState } from 'react';
+import { useApp } from '@/contexts/AppContext';
+import type { AuditEntry } from '@/types';
+import {
+  AUDIT_ACTION_LABELS,
+  AUDIT_CATEGORY_LABELS,
+  formatAuditChanges,
+  getAuditCategory,
+  matchesAuditSearch
+} from '@/lib/audit';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ScrollText, Search } from 'lucide-react';
+
+// Rendering thousands of rows makes the admin panel sluggish; search narrows it down
+const MAX_ROWS = 200;
+
+const ROLE_STYLES: Record<AuditEntry['actorRole'], string> = {
+  admin: 'text-primary border-primary',
+  team: 'text-success border-success',
+  system: 'text-muted-foreground'
+};
+
+const AuditLogCard = () => {
+  const { auditLog } = useApp();
+  const [search, setSearch] = useState('');
+  const [category, setCategory] = useState('all');
+  const [role, setRole] = useState('all');
+
+  const entries = auditLog.filter(entry =>
+    (category === 'all' || getAuditCategory(entry.action) === category) &&
+    (role === 'all' || entry.actorRole === role) &&
+    matchesAuditSearch(entry, search)
+  );
+
+  return (
+    <Card className="border-0 shadow-xl bg-white dark:bg-slate-800">
+      <CardHeader className="border-b bg-gradient-to-r from-slate-50 to-zinc-50 dark:from-slate-800 dark:to-slate-900">
+        <div className="flex items-center gap-3">
+          <div className="p-2 bg-slate-100 dark:bg-slate-900/30 rounded-lg">
+            <ScrollText className="w-5 h-5 text-slate-600 dark:text-slate-400" />
+          </div>
+          <div>
+            <CardTitle className="text-lg">Audit Log</CardTitle>
+            <CardDescription>Who changed what and when, for admins, teams and the expiry worker</CardDescription>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-5 pt-6">
+        <div className="grid md:grid-cols-[1fr_14rem_10rem] gap-3">
+          <div className="space-y-2">
+            <Label className="text-sm font-medium">Search</Label>
+            <div className="relative">
+              <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+              <Input
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+                placeholder="Team, issue, admin email, value..."
+                className="h-11 pl-9"
+              />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label className="text-sm font-medium">Action</Label>
+            <Select value={category} onValueChange={setCategory}>
+              <SelectTrigger className="h-11">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All Actions</SelectItem>
+                {Object.entries(AUDIT_CATEGORY_LABELS).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label className="text-sm font-medium">By</Label>
+            <Select value={role} onValueChange={setRole}>
+              <SelectTrigger className="h-11">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">Anyone</SelectItem>
+                <SelectItem value="admin">Admins</SelectItem>
+                <SelectItem value="team">Teams</SelectItem>
+                <SelectItem value="system">System</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        {entries.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            {auditLog.length === 0 ? 'Nothing has been recorded yet.' : 'No entries match these filters.'}
+          </p>
+        ) : (
+          <>
+            <div className="space-y-2 max-h-[32rem] overflow-y-auto">
+              {entries.slice(0, MAX_ROWS).map(entry => {
+                const changes = formatAuditChanges(entry);
+                return (
+                  <div key={entry.id} className="p-3 rounded-lg border space-y-1">
+                    <div className="flex items-center gap-3">
+                      <Badge variant="outline" className={ROLE_STYLES[entry.actorRole]}>{entry.actorRole}</Badge>
+                      <p className="flex-1 min-w-0 text-sm font-medium truncate">
+                        {AUDIT_ACTION_LABELS[entry.action] ?? entry.action}
+                        <span className="text-muted-foreground"> · {entry.target}</span>
+                      </p>
+                      <span className="text-xs text-muted-foreground shrink-0">{new Date(entry.createdAt).toLocaleString()}</span>
+                    </div>
+                    <p className="text-xs text-muted-foreground truncate">
+                      by {entry.actor}
+                      {entry.teamName && entry.teamName !== entry.actor && <> · team {entry.teamName}</>}
+                    </p>
+                    {changes.length > 0 && (
+                      <div className="font-mono text-xs text-muted-foreground break-all">
+                        {changes.map(line => <p key={line}>{line}</p>)}
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+            {entries.length > MAX_ROWS && (
+              <p className="text-xs text-muted-foreground">
+                Showing the latest {MAX_ROWS} of {entries.length} entries. Search to find older ones.
+              </p>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default AuditLogCard;
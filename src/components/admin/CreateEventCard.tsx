@@ -0,0 +1,93 @@
+import { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useApp } from '@/contexts/AppContext';
+import { getEventPath, isValidEventSlug, toEventSlug } from '@/lib/event';
+import { EMPTY_EVENT_DETAILS_FORM, parseEventDetailsForm } from '@/lib/eventForm';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { CalendarPlus, Plus } from 'lucide-react';
+import { toast } from 'sonner';
+import EventDetailsFields from '@/components/admin/EventDetailsFields';
+
+// New events start empty: teams, repositories, issues and scoring rules are
+// set up from the new event's admin panel.
+const CreateEventCard = () => {
+  const { events, createEvent } = useApp();
+  const navigate = useNavigate();
+  const [form, setForm] = useState(EMPTY_EVENT_DETAILS_FORM);
+  // Follows the name until the admin edits it
+  const [customSlug, setCustomSlug] = useState<string | null>(null);
+  const [isCreating, setIsCreating] = useState(false);
+
+  const slug = customSlug ?? toEventSlug(form.name);
+
+  const handleCreate = async () => {
+    const details = parseEventDetailsForm(form);
+    if (typeof details === 'string') {
+      toast.error(details);
+      return;
+    }
+    if (!isValidEventSlug(slug)) {
+      toast.error('The address may only contain lowercase letters, digits and single dashes');
+      return;
+    }
+    if (events.some(event => event.slug === slug)) {
+      toast.error(`An event at ${getEventPath(slug)} already exists`);
+      return;
+    }
+
+    setIsCreating(true);
+    const created = await createEvent(slug, details);
+    setIsCreating(false);
+    if (created) {
+      setForm(EMPTY_EVENT_DETAILS_FORM);
+      setCustomSlug(null);
+      navigate(getEventPath(slug, '/admin'));
+    }
+  };
+
+  return (
+    <Card className="border-0 shadow-xl bg-white dark:bg-slate-800">
+      <CardHeader className="border-b bg-gradient-to-r from-violet-50 to-fuchsia-50 dark:from-slate-800 dark:to-slate-900">
+        <div className="flex items-center gap-3">
+          <div className="p-2 bg-violet-100 dark:bg-violet-900/30 rounded-lg">
+            <CalendarPlus className="w-5 h-5 text-violet-600 dark:text-violet-400" />
+          </div>
+          <div>
+            <CardTitle className="text-lg">New Event</CardTitle>
+            <CardDescription>Each event has its own teams, repositories, issues, scoring rules and leaderboard</CardDescription>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="pt-6 space-y-4">
+        <EventDetailsFields form={form} onChange={setForm} />
+        <div className="grid grid-cols-1 md:grid-cols-[1fr_auto] gap-3 items-end">
+          <div className="space-y-2">
+            <Label className="text-sm font-medium">Address</Label>
+            <div className="flex items-center gap-2">
+              <span className="text-sm text-muted-foreground">/e/</span>
+              <Input
+                value={slug}
+                onChange={(e) => setCustomSlug(e.target.value.toLowerCase())}
+                placeholder="day-2"
+                className="h-11"
+              />
+            </div>
+          </div>
+          <Button
+            onClick={handleCreate}
+            disabled={isCreating}
+            className="h-11 bg-gradient-to-r from-violet-600 to-fuchsia-600 hover:from-violet-700 hover:to-fuchsia-700 shadow-md"
+          >
+            <Plus className="w-4 h-4 mr-2" />
+            Create Event
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default CreateEventCard;
@@ -0,0 +1,48 @@
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import type { EventDetailsForm } from '@/lib/eventForm';
+
+interface EventDetailsFieldsProps {
+  form: EventDetailsForm;
+  onChange: (form: EventDetailsForm) => void;
+}
+
+// Shared by the event settings and the new event form
+const EventDetailsFields = ({ form, onChange }: EventDetailsFieldsProps) => {
+  const field = (key: keyof EventDetailsForm) => ({
+    value: form[key],
+    onChange: (e: React.ChangeEvent<HTMLInputElement>) => onChange({ ...form, [key]: e.target.value }),
+    className: 'h-11'
+  });
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+      <div className="space-y-2">
+        <Label className="text-sm font-medium">Event Name</Label>
+        <Input placeholder="e.g. Day 2 Competition" {...field('name')} />
+      </div>
+      <div className="space-y-2">
+        <Label className="text-sm font-medium">Organizer</Label>
+        <Input placeholder="e.g. DataVedhi.Club" {...field('organizer')} />
+      </div>
+      <div className="space-y-2 md:col-span-2">
+        <Label className="text-sm font-medium">Tagline</Label>
+        <Input placeholder="Shown on the team login page" {...field('tagline')} />
+      </div>
+      <div className="space-y-2 md:col-span-2">
+        <Label className="text-sm font-medium">Logo URL</Label>
+        <Input type="url" placeholder="https://…/logo.png" {...field('logoUrl')} />
+      </div>
+      <div className="space-y-2">
+        <Label className="text-sm font-medium">Starts At</Label>
+        <Input type="datetime-local" {...field('startsAt')} />
+      </div>
+      <div className="space-y-2">
+        <Label className="text-sm font-medium">Ends At</Label>
+        <Input type="datetime-local" {...field('endsAt')} />
+      </div>
+    </div>
+  );
+};
+
+export default EventDetailsFields;
@@ -0,0 +1,140 @@
+import { useState } from 'react';
+import { useApp, useCurrentEvent } from '@/contexts/AppContext';
+import { useEventPhase } from '@/hooks/use-event-phase';
+import { EVENT_STATUS_LABELS, EVENT_TRANSITIONS } from '@/lib/event';
+import type { ContestEvent, EventStatus } from '@/types';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger
+} from '@/components/ui/alert-dialog';
+import { CalendarCheck, CircleStop, Pause, Pencil, Play, Power } from 'lucide-react';
+
+const PHASE_STYLES: Record<EventStatus, string> = {
+  draft: 'text-muted-foreground',
+  scheduled: 'text-sky-600 border-sky-600',
+  running: 'text-success border-success',
+  paused: 'text-warning border-warning',
+  ended: 'text-destructive border-destructive'
+};
+
+const formatTime = (time: number) =>
+  new Date(time).toLocaleString([], { day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit' });
+
+const describePhase = (phase: EventStatus, event: ContestEvent): string => {
+  switch (phase) {
+    case 'draft':
+      return 'Teams can sign in and look around, but cannot occupy or close issues.';
+    case 'scheduled':
+      return `Opens by itself at ${formatTime(event.startsAt!)}.`;
+    case 'running':
+      return event.endsAt !== null
+        ? `Teams are playing. Closes by itself at ${formatTime(event.endsAt)}.`
+        : 'Teams are playing. No end time is set.';
+    case 'paused':
+      return `Paused since ${formatTime(event.pausedAt ?? Date.now())}. Issue timers are stopped and get the pause back on resume.`;
+    case 'ended':
+      return 'Closed for good. Pending PRs can still be reviewed.';
+  }
+};
+
+const EventLifecycleCard = () => {
+  const { changeEventStatus } = useApp();
+  const event = useCurrentEvent();
+  const phase = useEventPhase(event);
+  const [isBusy, setIsBusy] = useState(false);
+  const transitions = EVENT_TRANSITIONS[phase];
+
+  const run = async (status: EventStatus) => {
+    setIsBusy(true);
+    await changeEventStatus(status);
+    setIsBusy(false);
+  };
+
+  return (
+    <Card className="border-0 shadow-xl bg-white dark:bg-slate-800">
+      <CardHeader className="border-b bg-gradient-to-r from-emerald-50 to-lime-50 dark:from-slate-800 dark:to-slate-900">
+        <div className="flex items-center gap-3">
+          <div className="p-2 bg-emerald-100 dark:bg-emerald-900/30 rounded-lg">
+            <Power className="w-5 h-5 text-emerald-600 dark:text-emerald-400" />
+          </div>
+          <div>
+            <CardTitle className="text-lg">Event Status</CardTitle>
+            <CardDescription>Teams can occupy and close issues only while the event is running</CardDescription>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="pt-6">
+        <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+          <div className="flex items-center gap-3">
+            <Badge variant="outline" className={PHASE_STYLES[phase]}>{EVENT_STATUS_LABELS[phase]}</Badge>
+            <p className="text-sm text-muted-foreground">{describePhase(phase, event)}</p>
+          </div>
+          <div className="flex flex-wrap gap-2 shrink-0">
+            {transitions.includes('draft') && (
+              <Button variant="outline" onClick={() => run('draft')} disabled={isBusy}>
+                <Pencil className="w-4 h-4 mr-2" />
+                Back to Draft
+              </Button>
+            )}
+            {transitions.includes('scheduled') && (
+              <Button variant="outline" onClick={() => run('scheduled')} disabled={isBusy}>
+                <CalendarCheck className="w-4 h-4 mr-2" />
+                Schedule
+              </Button>
+            )}
+            {transitions.includes('paused') && (
+              <Button variant="outline" onClick={() => run('paused')} disabled={isBusy}>
+                <Pause className="w-4 h-4 mr-2" />
+                Pause
+              </Button>
+            )}
+            {transitions.includes('running') && (
+              <Button
+                onClick={() => run('running')}
+                disabled={isBusy}
+                className="bg-gradient-to-r from-emerald-600 to-lime-600 hover:from-emerald-700 hover:to-lime-700 shadow-md"
+              >
+                <Play className="w-4 h-4 mr-2" />
+                {phase === 'paused' ? 'Resume' : 'Start Now'}
+              </Button>
+            )}
+            {transitions.includes('ended') && (
+              <AlertDialog>
+                <AlertDialogTrigger asChild>
+                  <Button variant="destructive" disabled={isBusy}>
+                    <CircleStop className="w-4 h-4 mr-2" />
+                    End Now
+                  </Button>
+                </AlertDialogTrigger>
+                <AlertDialogContent>
+                  <AlertDialogHeader>
+                    <AlertDialogTitle>End {event.name}?</AlertDialogTitle>
+                    <AlertDialogDescription>
+                      Teams will no longer be able to occupy or close issues, and the event cannot be restarted.
+                    </AlertDialogDescription>
+                  </AlertDialogHeader>
+                  <AlertDialogFooter>
+                    <AlertDialogCancel>Cancel</AlertDialogCancel>
+                    <AlertDialogAction onClick={() => run('ended')}>End Event</AlertDialogAction>
+                  </AlertDialogFooter>
+                </AlertDialogContent>
+              </AlertDialog>
+            )}
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default EventLifecycleCard;
@@ -0,0 +1,77 @@
+import { useEffect, useState } from 'react';
+import { useApp, useCurrentEvent } from '@/contexts/AppContext';
+import { useEventPath } from '@/hooks/use-event-path';
+import { parseEventDetailsForm, toEventDetailsForm } from '@/lib/eventForm';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { CalendarClock, Monitor, Save } from 'lucide-react';
+import { toast } from 'sonner';
+import EventDetailsFields from '@/components/admin/EventDetailsFields';
+
+const EventSettingsCard = () => {
+  const { updateEvent } = useApp();
+  const event = useCurrentEvent();
+  const eventPath = useEventPath();
+  const [form, setForm] = useState(() => toEventDetailsForm(event));
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Pick up changes saved by other admins
+  useEffect(() => {
+    setForm(toEventDetailsForm(event));
+  }, [event]);
+
+  const isDirty = JSON.stringify(form) !== JSON.stringify(toEventDetailsForm(event));
+
+  const handleSave = async () => {
+    const details = parseEventDetailsForm(form);
+    if (typeof details === 'string') {
+      toast.error(details);
+      return;
+    }
+    setIsSaving(true);
+    await updateEvent(details);
+    setIsSaving(false);
+  };
+
+  return (
+    <Card className="border-0 shadow-xl bg-white dark:bg-slate-800">
+      <CardHeader className="border-b bg-gradient-to-r from-sky-50 to-indigo-50 dark:from-slate-800 dark:to-slate-900">
+        <div className="flex items-center justify-between gap-3">
+          <div className="flex items-center gap-3">
+            <div className="p-2 bg-sky-100 dark:bg-sky-900/30 rounded-lg">
+              <CalendarClock className="w-5 h-5 text-sky-600 dark:text-sky-400" />
+            </div>
+            <div>
+              <CardTitle className="text-lg">Event</CardTitle>
+              <CardDescription>
+                Branding for the login page and times for the projector display · teams sign in at{' '}
+                <code>{eventPath()}</code>
+              </CardDescription>
+            </div>
+          </div>
+          <Button variant="outline" size="sm" asChild>
+            <a href={eventPath('/display')} target="_blank" rel="noopener noreferrer">
+              <Monitor className="w-4 h-4 mr-2" />
+              Open Display
+            </a>
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="pt-6 space-y-4">
+        <EventDetailsFields form={form} onChange={setForm} />
+        <div className="flex justify-end">
+          <Button
+            onClick={handleSave}
+            disabled={!isDirty || isSaving}
+            className="h-11 bg-gradient-to-r from-sky-600 to-indigo-600 hover:from-sky-700 hover:to-indigo-700 shadow-md"
+          >
+            <Save className="w-4 h-4 mr-2" />
+            Save
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default EventSettingsCard;
@@ -0,0 +1,144 @@
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useApp, useCurrentEvent } from '@/contexts/AppContext';
+import { useEventPath } from '@/hooks/use-event-path';
+import { DEFAULT_EXTENSION_MINUTES, getExtensionMinutesError } from '@/lib/extensions';
+import { getIssuePath } from '@/lib/issueDetails';
+import type { ExtensionRequest } from '@/types';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import IssueTimer from '@/components/IssueTimer';
+import { Check, Hourglass, X } from 'lucide-react';
+import { toast } from 'sonner';
+
+// How many answered requests are listed under the pending ones
+const RECENT_LIMIT = 10;
+
+const PendingRequest = ({ request }: { request: ExtensionRequest }) => {
+  const { issues, scoringRules, resolveExtensionRequest } = useApp();
+  const event = useCurrentEvent();
+  const eventPath = useEventPath();
+  const [minutes, setMinutes] = useState(String(DEFAULT_EXTENSION_MINUTES));
+  const [isSaving, setIsSaving] = useState(false);
+
+  const issue = issues.find(i => i.id === request.issueId);
+  // Released, expired or closed since the team asked
+  const stillHeld = issue?.status === 'occupied' && issue.occupationId === request.occupationId;
+
+  const resolve = async (granted: number | null) => {
+    setIsSaving(true);
+    await resolveExtensionRequest(request.id, granted);
+    setIsSaving(false);
+  };
+
+  const handleGrant = () => {
+    const value = Number(minutes);
+    const error = getExtensionMinutesError(value);
+    if (error) {
+      toast.error(error);
+      return;
+    }
+    void resolve(value);
+  };
+
+  return (
+    <div className="p-4 rounded-lg border space-y-3">
+      <div className="flex flex-wrap items-start justify-between gap-2">
+        <div className="min-w-0">
+          <p className="text-sm font-medium">
+            {request.teamName} ·{' '}
+            {issue
+              ? <Link to={eventPath(getIssuePath(issue))} className="hover:underline">{request.issueTitle}</Link>
+              : request.issueTitle}
+          </p>
+          <p className="text-xs text-muted-foreground">Asked {new Date(request.requestedAt).toLocaleTimeString()}</p>
+        </div>
+        {stillHeld
+          ? <IssueTimer issue={issue} scoringRules={scoringRules} event={event} className="mt-0" />
+          : <Badge variant="outline">No longer held</Badge>}
+      </div>
+      <p className="text-sm whitespace-pre-wrap break-words">{request.reason}</p>
+      <div className="flex flex-wrap items-end gap-2">
+        <div className="space-y-1">
+          <Label htmlFor={`extension-minutes-${request.id}`} className="text-xs text-muted-foreground">Minutes</Label>
+          <Input
+            id={`extension-minutes-${request.id}`}
+            type="number"
+            min={1}
+            value={minutes}
+            onChange={(e) => setMinutes(e.target.value)}
+            className="h-9 w-24"
+            disabled={!stillHeld}
+          />
+        </div>
+        <Button size="sm" className="h-9" onClick={handleGrant} disabled={isSaving || !stillHeld}>
+          <Check className="w-4 h-4 mr-1" />
+          Grant
+        </Button>
+        <Button size="sm" variant="outline" className="h-9" onClick={() => resolve(null)} disabled={isSaving}>
+          <X className="w-4 h-4 mr-1" />
+          Deny
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+const ExtensionRequestsCard = () => {
+  const { extensionRequests } = useApp();
+
+  const pending = extensionRequests.filter(request => request.status === 'pending').reverse();
+  const answered = extensionRequests.filter(request => request.status !== 'pending').slice(0, RECENT_LIMIT);
+
+  return (
+    <Card className="border-0 shadow-xl bg-white dark:bg-slate-800">
+      <CardHeader className="border-b bg-gradient-to-r from-sky-50 to-cyan-50 dark:from-slate-800 dark:to-slate-900">
+        <div className="flex items-center gap-3">
+          <div className="p-2 bg-sky-100 dark:bg-sky-900/30 rounded-lg">
+            <Hourglass className="w-5 h-5 text-sky-600 dark:text-sky-400" />
+          </div>
+          <div>
+            <CardTitle className="text-lg">
+              Extension Requests
+              {pending.length > 0 && <Badge className="ml-2">{pending.length}</Badge>}
+            </CardTitle>
+            <CardDescription>Teams asking for more time on an issue; granted minutes push its deadline back</CardDescription>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-5 pt-6">
+        {pending.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No requests waiting for an answer.</p>
+        ) : (
+          <div className="space-y-3">
+            {/* Oldest first, so teams are answered in the order they asked */}
+            {pending.map(request => <PendingRequest key={request.id} request={request} />)}
+          </div>
+        )}
+
+        {answered.length > 0 && (
+          <div className="space-y-2">
+            <h4 className="text-sm font-semibold text-muted-foreground">Recently answered</h4>
+            {answered.map(request => (
+              <div key={request.id} className="flex items-center gap-3 text-sm">
+                <Badge
+                  variant="outline"
+                  className={request.status === 'granted' ? 'font-mono text-success border-success' : 'font-mono'}
+                >
+                  {request.status === 'granted' ? `+${request.minutes} min` : 'denied'}
+                </Badge>
+                <span className="flex-1 min-w-0 truncate">{request.teamName} · {request.issueTitle}</span>
+                <span className="text-xs text-muted-foreground whitespace-nowrap">{request.resolvedBy}</span>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ExtensionRequestsCard;
@@ -0,0 +1,200 @@
+import { useState } from 'react';
+import { useApp } from '@/contexts/AppContext';
+import { listRepositoryIssues } from '@/services/githubService';
+import { planGitHubImport, type GitHubImportRow } from '@/lib/githubImport';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Github, Search, Download, ExternalLink } from 'lucide-react';
+import { toast } from 'sonner';
+
+const GitHubImportCard = () => {
+  const { repositories, issues, scoringRules, importGitHubIssues } = useApp();
+  const [repoName, setRepoName] = useState('');
+  const [label, setLabel] = useState('good first issue');
+  const [rows, setRows] = useState<GitHubImportRow[] | null>(null);
+  const [selected, setSelected] = useState<Set<number>>(new Set());
+  const [isFetching, setIsFetching] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+
+  const repository = repositories.find(r => r.name === repoName);
+
+  const handleFetch = async () => {
+    if (!repository) {
+      toast.error('Please select a repository');
+      return;
+    }
+    setIsFetching(true);
+    try {
+      const githubIssues = await listRepositoryIssues(repository.url, label);
+      const plan = planGitHubImport(githubIssues, issues, repository.name, scoringRules);
+      setRows(plan);
+      // Pre-select everything that would change something
+      setSelected(new Set(plan.filter(row => row.action !== 'unchanged').map(row => row.github.number)));
+    } catch (error) {
+      toast.error(error.message || 'Failed to load GitHub issues');
+      setRows(null);
+    } finally {
+      setIsFetching(false);
+    }
+  };
+
+  const toggleRow = (number: number) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(number)) {
+        next.delete(number);
+      } else {
+        next.add(number);
+      }
+      return next;
+    });
+  };
+
+  const setRowDifficulty = (number: number, difficulty: string) => {
+    setRows(prev => prev && prev.map(row => row.github.number === number ? { ...row, difficulty } : row));
+  };
+
+  const handleImport = async () => {
+    if (!rows || !repository) return;
+    const chosen = rows.filter(row => selected.has(row.github.number) && row.action !== 'unchanged');
+    if (chosen.length === 0) {
+      toast.error('Select at least one issue to import or sync');
+      return;
+    }
+    const missingDifficulty = chosen.find(row => row.action === 'new' && !row.difficulty);
+    if (missingDifficulty) {
+      toast.error(`Choose a difficulty for #${missingDifficulty.github.number}`);
+      return;
+    }
+
+    setIsImporting(true);
+    await importGitHubIssues(repository.name, chosen);
+    setIsImporting(false);
+    setRows(null);
+    setSelected(new Set());
+  };
+
+  const actionBadge = (row: GitHubImportRow) => {
+    switch (row.action) {
+      case 'new': return <Badge className="bg-blue-500 text-white">new</Badge>;
+      case 'update': return <Badge className="bg-amber-500 text-white">sync</Badge>;
+      default: return <Badge variant="outline">up to date</Badge>;
+    }
+  };
+
+  return (
+    <Card className="border-0 shadow-xl bg-white dark:bg-slate-800">
+      <CardHeader className="border-b bg-gradient-to-r from-slate-50 to-zinc-100 dark:from-slate-800 dark:to-slate-900">
+        <div className="flex items-center gap-3">
+          <div className="p-2 bg-slate-200 dark:bg-slate-700 rounded-lg">
+            <Github className="w-5 h-5 text-slate-700 dark:text-slate-200" />
+          </div>
+          <div>
+            <CardTitle className="text-lg">Import from GitHub</CardTitle>
+            <CardDescription>Pick issues from a repository; re-run to sync title and state changes</CardDescription>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-5 pt-6">
+        <div className="grid grid-cols-1 md:grid-cols-[1fr_1fr_auto] gap-3 items-end">
+          <div className="space-y-2">
+            <Label className="text-sm font-medium">Repository</Label>
+            <Select value={repoName} onValueChange={(value) => { setRepoName(value); setRows(null); }}>
+              <SelectTrigger className="h-11">
+                <SelectValue placeholder="Select repository" />
+              </SelectTrigger>
+              <SelectContent>
+                {repositories.map(repo => (
+                  <SelectItem key={repo.name} value={repo.name}>
+                    {repo.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label className="text-sm font-medium">Label filter</Label>
+            <Input
+              value={label}
+              onChange={(e) => setLabel(e.target.value)}
+              placeholder="Leave empty for all issues"
+              className="h-11"
+            />
+          </div>
+          <Button onClick={handleFetch} disabled={isFetching} variant="outline" className="h-11">
+            <Search className="w-4 h-4 mr-2" />
+            {isFetching ? 'Loading…' : 'Fetch Issues'}
+          </Button>
+        </div>
+
+        {rows && rows.length === 0 && (
+          <p className="text-sm text-muted-foreground">No open GitHub issues match this filter.</p>
+        )}
+
+        {rows && rows.length > 0 && (
+          <>
+            <div className="space-y-2 max-h-96 overflow-y-auto">
+              {rows.map(row => (
+                <div key={row.github.number} className="flex items-center gap-3 p-3 rounded-lg border">
+                  <Checkbox
+                    checked={selected.has(row.github.number)}
+                    disabled={row.action === 'unchanged'}
+                    onCheckedChange={() => toggleRow(row.github.number)}
+                  />
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center gap-2">
+                      <span className="text-xs font-mono text-muted-foreground">#{row.github.number}</span>
+                      <span className="font-medium truncate">{row.github.title}</span>
+                      <a href={row.github.html_url} target="_blank" rel="noopener noreferrer" className="text-muted-foreground hover:text-primary">
+                        <ExternalLink className="w-3 h-3" />
+                      </a>
+                    </div>
+                    <div className="flex flex-wrap gap-1 mt-1">
+                      {actionBadge(row)}
+                      {row.github.state === 'closed' && <Badge variant="destructive">closed on GitHub</Badge>}
+                      {row.existing && row.existing.title !== row.github.title && (
+                        <span className="text-xs text-muted-foreground">was "{row.existing.title}"</span>
+                      )}
+                      {row.tags.map(tag => (
+                        <Badge key={tag} variant="outline" className="text-xs">{tag}</Badge>
+                      ))}
+                    </div>
+                  </div>
+                  {row.action === 'new' && (
+                    <Select value={row.difficulty ?? ''} onValueChange={(value) => setRowDifficulty(row.github.number, value)}>
+                      <SelectTrigger className="w-36 h-9">
+                        <SelectValue placeholder="Difficulty" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {scoringRules.tiers.map(tier => (
+                          <SelectItem key={tier.id} value={tier.id}>
+                            {tier.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  )}
+                </div>
+              ))}
+            </div>
+            <Button
+              onClick={handleImport}
+              disabled={isImporting || selected.size === 0}
+              className="w-full h-11 bg-gradient-to-r from-slate-700 to-slate-900 hover:from-slate-800 hover:to-black shadow-md"
+            >
+              <Download className="w-4 h-4 mr-2" />
+              Import {selected.size} Selected
+            </Button>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default GitHubImportCard;
@@ -0,0 +1,91 @@
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useApp } from '@/contexts/AppContext';
+import { useEventPath } from '@/hooks/use-event-path';
+import { getIssuePath } from '@/lib/issueDetails';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { InlineMarkdown } from '@/components/Markdown';
+import { Lightbulb } from 'lucide-react';
+
+const HintUnlocksCard = () => {
+  const { teams, issues, hintUnlocks } = useApp();
+  const eventPath = useEventPath();
+  const [teamFilter, setTeamFilter] = useState('all');
+
+  const unlocks = teamFilter === 'all' ? hintUnlocks : hintUnlocks.filter(unlock => unlock.teamName === teamFilter);
+  const spent = unlocks.reduce((sum, unlock) => sum + unlock.cost, 0);
+
+  return (
+    <Card className="border-0 shadow-xl bg-white dark:bg-slate-800">
+      <CardHeader className="border-b bg-gradient-to-r from-amber-50 to-yellow-50 dark:from-slate-800 dark:to-slate-900">
+        <div className="flex items-center gap-3">
+          <div className="p-2 bg-amber-100 dark:bg-amber-900/30 rounded-lg">
+            <Lightbulb className="w-5 h-5 text-amber-600 dark:text-amber-400" />
+          </div>
+          <div>
+            <CardTitle className="text-lg">Hints Unlocked</CardTitle>
+            <CardDescription>Which team paid for which hint; add hints from an issue's lightbulb button</CardDescription>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-5 pt-6">
+        <div className="flex flex-col md:flex-row md:items-end gap-3">
+          <div className="space-y-2 md:w-72">
+            <Label className="text-sm font-medium">Team</Label>
+            <Select value={teamFilter} onValueChange={setTeamFilter}>
+              <SelectTrigger className="h-11">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All Teams</SelectItem>
+                {teams.map(team => (
+                  <SelectItem key={team.name} value={team.name}>{team.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          {unlocks.length > 0 && (
+            <p className="text-sm text-muted-foreground">
+              {unlocks.length} {unlocks.length === 1 ? 'hint' : 'hints'} for <strong className="text-foreground">{spent} pts</strong>
+            </p>
+          )}
+        </div>
+
+        {unlocks.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No hints have been unlocked yet.</p>
+        ) : (
+          <div className="space-y-2 max-h-96 overflow-y-auto">
+            {unlocks.map(unlock => {
+              const issue = issues.find(i => i.id === unlock.issueId);
+              return (
+                <div key={unlock.id} className="p-3 rounded-lg border space-y-1">
+                  <div className="flex items-center gap-3">
+                    <Badge variant="outline" className="font-mono text-destructive border-destructive">
+                      -{unlock.cost}
+                    </Badge>
+                    <p className="flex-1 min-w-0 text-sm font-medium truncate">
+                      {teamFilter === 'all' && <span>{unlock.teamName} · </span>}
+                      Hint {unlock.hintIndex + 1} of{' '}
+                      {issue
+                        ? <Link to={eventPath(getIssuePath(issue))} className="hover:underline">{unlock.issueTitle}</Link>
+                        : unlock.issueTitle}
+                    </p>
+                    <span className="text-xs text-muted-foreground whitespace-nowrap">
+                      {new Date(unlock.unlockedAt).toLocaleString()}
+                    </span>
+                  </div>
+                  <p className="text-xs text-muted-foreground line-clamp-2"><InlineMarkdown source={unlock.text} /></p>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default HintUnlocksCard;
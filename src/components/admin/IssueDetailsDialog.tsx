@@ -0,0 +1,152 @@
+import { useState } from 'react';
+import { useApp } from '@/contexts/AppContext';
+import { parseIssueDetailsForm, toIssueDetailsForm, type IssueDetailsForm } from '@/lib/issueDetails';
+import type { Issue } from '@/types';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger
+} from '@/components/ui/dialog';
+import Markdown from '@/components/Markdown';
+import { FileText } from 'lucide-react';
+import { toast } from 'sonner';
+
+const IssueDetailsDialog = ({ issue }: { issue: Issue }) => {
+  const { updateIssueDetails } = useApp();
+  const [open, setOpen] = useState(false);
+  const [form, setForm] = useState<IssueDetailsForm>(() => toIssueDetailsForm(issue));
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Imported issues keep their link in sync with GitHub
+  const isLinked = issue.githubNumber != null;
+
+  const handleOpenChange = (next: boolean) => {
+    // Start from what is saved now, not from when the dialog was last open
+    if (next) setForm(toIssueDetailsForm(issue));
+    setOpen(next);
+  };
+
+  const update = (field: keyof IssueDetailsForm) =>
+    (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => setForm(prev => ({ ...prev, [field]: e.target.value }));
+
+  const handleSave = async () => {
+    const { details, error } = parseIssueDetailsForm(form);
+    if (error) {
+      toast.error(error);
+      return;
+    }
+    setIsSaving(true);
+    const saved = await updateIssueDetails(issue.id, details);
+    setIsSaving(false);
+    if (saved) setOpen(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="icon" title="Edit details">
+          <FileText className="w-4 h-4" />
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{issue.title}</DialogTitle>
+          <DialogDescription>What teams see when they open the issue</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label className="text-sm font-semibold">Description</Label>
+            <Tabs defaultValue="write">
+              <TabsList>
+                <TabsTrigger value="write">Write</TabsTrigger>
+                <TabsTrigger value="preview">Preview</TabsTrigger>
+              </TabsList>
+              <TabsContent value="write">
+                <Textarea
+                  value={form.description}
+                  onChange={update('description')}
+                  rows={8}
+                  placeholder="Markdown: **bold**, `code`, [links](https://…), lists and ``` code blocks"
+                  className="font-mono text-sm"
+                />
+              </TabsContent>
+              <TabsContent value="preview" className="min-h-[10rem] rounded-lg border p-3">
+                {form.description.trim()
+                  ? <Markdown source={form.description} />
+                  : <p className="text-sm text-muted-foreground">Nothing to preview</p>}
+              </TabsContent>
+            </Tabs>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor={`criteria-${issue.id}`} className="text-sm font-semibold">Acceptance Criteria</Label>
+            <Textarea
+              id={`criteria-${issue.id}`}
+              value={form.acceptanceCriteria}
+              onChange={update('acceptanceCriteria')}
+              rows={4}
+              placeholder={'One per line, e.g.\nTests cover the empty state\nNo new lint warnings'}
+            />
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor={`files-${issue.id}`} className="text-sm font-semibold">File Hints</Label>
+              <Textarea
+                id={`files-${issue.id}`}
+                value={form.fileHints}
+                onChange={update('fileHints')}
+                rows={3}
+                placeholder={'One path per line, e.g.\nsrc/parser/index.ts'}
+                className="font-mono text-sm"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor={`links-${issue.id}`} className="text-sm font-semibold">Further Reading</Label>
+              <Textarea
+                id={`links-${issue.id}`}
+                value={form.links}
+                onChange={update('links')}
+                rows={3}
+                placeholder="One link per line"
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor={`upstream-${issue.id}`} className="text-sm font-semibold">Upstream Issue</Label>
+            <Input
+              id={`upstream-${issue.id}`}
+              value={form.githubUrl}
+              onChange={update('githubUrl')}
+              disabled={isLinked}
+              placeholder="https://github.com/owner/repo/issues/123"
+            />
+            {isLinked && (
+              <p className="text-xs text-muted-foreground">Imported from GitHub #{issue.githubNumber}; the link is kept in sync by the import.</p>
+            )}
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => setOpen(false)}>Cancel</Button>
+          <Button onClick={handleSave} disabled={isSaving}>
+            {isSaving ? 'Saving…' : 'Save Details'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default IssueDetailsDialog;
@@ -0,0 +1,161 @@
+import { useRef, useState } from 'react';
+import { useApp, useCurrentEvent } from '@/contexts/AppContext';
+import { exportIssuesCsv, exportIssuesJson, ISSUE_IMPORT_COLUMNS, planIssueFile, type IssueImportRow } from '@/lib/issueFile';
+import { downloadFile, getExportFileName } from '@/lib/download';
+import { getTier } from '@/lib/scoring';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import DifficultyBadge from '@/components/DifficultyBadge';
+import { Download, FileSpreadsheet, Upload } from 'lucide-react';
+import { toast } from 'sonner';
+
+const IssueFileCard = () => {
+  const { repositories, issues, scoringRules, importIssues } = useApp();
+  const event = useCurrentEvent();
+  const fileInput = useRef<HTMLInputElement>(null);
+  const [fileName, setFileName] = useState('');
+  const [rows, setRows] = useState<IssueImportRow[] | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+
+  const validRows = rows?.filter(row => row.errors.length === 0) ?? [];
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    setFileName(file.name);
+    try {
+      setRows(planIssueFile(file.name, await file.text(), { repositories, issues, rules: scoringRules }));
+    } catch (error) {
+      toast.error(error.message || 'Could not read the file');
+      setRows(null);
+    }
+    // Let the same file be picked again after fixing it
+    if (fileInput.current) fileInput.current.value = '';
+  };
+
+  const handleImport = async () => {
+    if (validRows.length === 0) return;
+    setIsImporting(true);
+    const imported = await importIssues(validRows.map(row => row.issue));
+    setIsImporting(false);
+    if (imported) setRows(null);
+  };
+
+  const handleExport = (format: 'csv' | 'json') => {
+    const content = format === 'csv' ? exportIssuesCsv(issues, scoringRules) : exportIssuesJson(issues, scoringRules);
+    downloadFile(getExportFileName(event.slug, 'issues', format), content, format === 'csv' ? 'text/csv' : 'application/json');
+  };
+
+  return (
+    <Card className="border-0 shadow-xl bg-white dark:bg-slate-800">
+      <CardHeader className="border-b bg-gradient-to-r from-cyan-50 to-sky-50 dark:from-slate-800 dark:to-slate-900">
+        <div className="flex items-center gap-3">
+          <div className="p-2 bg-cyan-100 dark:bg-cyan-900/30 rounded-lg">
+            <FileSpreadsheet className="w-5 h-5 text-cyan-600 dark:text-cyan-400" />
+          </div>
+          <div>
+            <CardTitle className="text-lg">Issue Files</CardTitle>
+            <CardDescription>Add many issues at once from CSV or JSON, or download every issue with its status and PR</CardDescription>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-5 pt-6">
+        <div className="flex flex-col md:flex-row md:items-center gap-3">
+          <input
+            ref={fileInput}
+            type="file"
+            accept=".csv,.json,text/csv,application/json"
+            className="hidden"
+            onChange={(e) => handleFile(e.target.files?.[0])}
+          />
+          <Button variant="outline" className="h-11" onClick={() => fileInput.current?.click()}>
+            <Upload className="w-4 h-4 mr-2" />
+            Choose File
+          </Button>
+          <p className="flex-1 text-xs text-muted-foreground">
+            Columns: <code>{ISSUE_IMPORT_COLUMNS.join(', ')}</code>. Difficulty is a tier name or id; separate tags with
+            commas, file hints and links with spaces, and put each acceptance criterion on its own line.
+          </p>
+          <div className="flex gap-2">
+            <Button variant="ghost" className="h-11" onClick={() => handleExport('csv')} disabled={issues.length === 0}>
+              <Download className="w-4 h-4 mr-2" />
+              CSV
+            </Button>
+            <Button variant="ghost" className="h-11" onClick={() => handleExport('json')} disabled={issues.length === 0}>
+              <Download className="w-4 h-4 mr-2" />
+              JSON
+            </Button>
+          </div>
+        </div>
+
+        {rows && rows.length === 0 && (
+          <p className="text-sm text-muted-foreground">{fileName} has no issues in it.</p>
+        )}
+
+        {rows && rows.length > 0 && (
+          <>
+            <p className="text-sm text-muted-foreground">
+              {fileName}: <strong className="text-foreground">{validRows.length}</strong> ready
+              {validRows.length < rows.length && (
+                <span className="text-destructive"> · {rows.length - validRows.length} with problems will be skipped</span>
+              )}
+            </p>
+            <div className="max-h-96 overflow-y-auto rounded-lg border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-14">Row</TableHead>
+                    <TableHead>Title</TableHead>
+                    <TableHead>Repository</TableHead>
+                    <TableHead>Difficulty</TableHead>
+                    <TableHead>Tags</TableHead>
+                    <TableHead>Check</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {rows.map(row => (
+                    <TableRow key={row.line} className={row.errors.length > 0 ? 'bg-destructive/5' : ''}>
+                      <TableCell className="font-mono text-xs text-muted-foreground">{row.line}</TableCell>
+                      <TableCell className="font-medium">{row.issue.title || '—'}</TableCell>
+                      <TableCell>{row.issue.repo || '—'}</TableCell>
+                      <TableCell>
+                        {row.issue.difficulty && (
+                          <DifficultyBadge tier={getTier(row.issue, scoringRules)} variant="subtle" className="text-xs">
+                            {getTier(row.issue, scoringRules)?.name}
+                          </DifficultyBadge>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex flex-wrap gap-1">
+                          {row.issue.tags.map(tag => (
+                            <Badge key={tag} variant="outline" className="text-xs">{tag}</Badge>
+                          ))}
+                        </div>
+                      </TableCell>
+                      <TableCell className="text-xs">
+                        {row.errors.length === 0
+                          ? <span className="text-success">OK</span>
+                          : <span className="text-destructive">{row.errors.join('; ')}</span>}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+            <Button
+              onClick={handleImport}
+              disabled={isImporting || validRows.length === 0}
+              className="w-full h-11 bg-gradient-to-r from-cyan-600 to-sky-600 hover:from-cyan-700 hover:to-sky-700 shadow-md"
+            >
+              <Upload className="w-4 h-4 mr-2" />
+              {isImporting ? 'Importing…' : `Import ${validRows.length} Issue(s)`}
+            </Button>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default IssueFileCard;
@@ -0,0 +1,145 @@
+import { useState } from 'react';
+import { useApp } from '@/contexts/AppContext';
+import { DEFAULT_HINT_COST, parseHintForm, toHintFormRows, type HintFormRow } from '@/lib/hints';
+import type { Issue } from '@/types';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger
+} from '@/components/ui/dialog';
+import { ArrowDown, ArrowUp, Lightbulb, Plus, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+
+const emptyRow = (): HintFormRow => ({ text: '', cost: String(DEFAULT_HINT_COST) });
+
+const IssueHintsDialog = ({ issue }: { issue: Issue }) => {
+  const { issueHints, saveIssueHints } = useApp();
+  const [open, setOpen] = useState(false);
+  const [rows, setRows] = useState<HintFormRow[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const count = issue.hintCosts?.length ?? 0;
+
+  const handleOpenChange = (next: boolean) => {
+    // Start from what is saved now, not from when the dialog was last open
+    if (next) setRows(toHintFormRows(issueHints[issue.id] ?? []));
+    setOpen(next);
+  };
+
+  const updateRow = (index: number, field: keyof HintFormRow, value: string) =>
+    setRows(prev => prev.map((row, i) => (i === index ? { ...row, [field]: value } : row)));
+
+  const moveRow = (index: number, offset: number) =>
+    setRows(prev => {
+      const next = [...prev];
+      [next[index], next[index + offset]] = [next[index + offset], next[index]];
+      return next;
+    });
+
+  const handleSave = async () => {
+    const { hints, error } = parseHintForm(rows);
+    if (error) {
+      toast.error(error);
+      return;
+    }
+    setIsSaving(true);
+    const saved = await saveIssueHints(issue.id, hints);
+    setIsSaving(false);
+    if (saved) setOpen(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="icon" title={count > 0 ? `Edit hints (${count})` : 'Add hints'}>
+          <Lightbulb className={count > 0 ? 'w-4 h-4 text-warning' : 'w-4 h-4'} />
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Hints for {issue.title}</DialogTitle>
+          <DialogDescription>
+            The team holding the issue unlocks hints in this order. Each one deducts its cost from their points.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {rows.length === 0 && (
+            <p className="text-sm text-muted-foreground text-center py-4">No hints yet.</p>
+          )}
+          {rows.map((row, index) => (
+            <div key={index} className="rounded-lg border p-3 space-y-2">
+              <div className="flex items-center justify-between gap-2">
+                <Label htmlFor={`hint-${issue.id}-${index}`} className="text-sm font-semibold">Hint {index + 1}</Label>
+                <div className="flex items-center gap-1">
+                  <Label htmlFor={`hint-cost-${issue.id}-${index}`} className="text-xs text-muted-foreground">Cost</Label>
+                  <Input
+                    id={`hint-cost-${issue.id}-${index}`}
+                    type="number"
+                    min={0}
+                    value={row.cost}
+                    onChange={(e) => updateRow(index, 'cost', e.target.value)}
+                    className="h-8 w-20"
+                  />
+                  <Button variant="ghost" size="icon" className="h-8 w-8" disabled={index === 0} onClick={() => moveRow(index, -1)} title="Move up">
+                    <ArrowUp className="w-4 h-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8"
+                    disabled={index === rows.length - 1}
+                    onClick={() => moveRow(index, 1)}
+                    title="Move down"
+                  >
+                    <ArrowDown className="w-4 h-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8 text-destructive hover:text-destructive"
+                    onClick={() => setRows(prev => prev.filter((_, i) => i !== index))}
+                    title="Remove hint"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              </div>
+              <Textarea
+                id={`hint-${issue.id}-${index}`}
+                value={row.text}
+                onChange={(e) => updateRow(index, 'text', e.target.value)}
+                rows={3}
+                placeholder="Markdown, e.g. Look at how `parseArgs` handles flags"
+              />
+            </div>
+          ))}
+          <Button variant="outline" onClick={() => setRows(prev => [...prev, emptyRow()])} className="w-full">
+            <Plus className="w-4 h-4 mr-2" />
+            Add Hint
+          </Button>
+          <p className="text-xs text-muted-foreground">
+            Teams that already unlocked a hint keep the text they paid for, even if it is edited later.
+          </p>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => setOpen(false)}>Cancel</Button>
+          <Button onClick={handleSave} disabled={isSaving}>
+            {isSaving ? 'Saving…' : 'Save Hints'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default IssueHintsDialog;
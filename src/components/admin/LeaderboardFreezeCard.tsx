@@ -0,0 +1,101 @@
+import { useState } from 'react';
+import { useApp, useCurrentEvent } from '@/contexts/AppContext';
+import { getNextReveal, getPublicTeams } from '@/lib/leaderboard';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Snowflake, Eye, Sun } from 'lucide-react';
+
+const LeaderboardFreezeCard = () => {
+  const { teams, freezeLeaderboard, revealTeam, unfreezeLeaderboard } = useApp();
+  const { freeze } = useCurrentEvent();
+  const [isBusy, setIsBusy] = useState(false);
+
+  const run = async (action: () => Promise<void>) => {
+    setIsBusy(true);
+    await action();
+    setIsBusy(false);
+  };
+
+  const nextReveal = getNextReveal(teams, freeze);
+  const publicStandings = getPublicTeams(teams, freeze).sort((a, b) => b.points - a.points);
+
+  return (
+    <Card className="border-0 shadow-xl bg-white dark:bg-slate-800">
+      <CardHeader className="border-b bg-gradient-to-r from-cyan-50 to-blue-50 dark:from-slate-800 dark:to-slate-900">
+        <div className="flex items-center gap-3">
+          <div className="p-2 bg-cyan-100 dark:bg-cyan-900/30 rounded-lg">
+            <Snowflake className="w-5 h-5 text-cyan-600 dark:text-cyan-400" />
+          </div>
+          <div>
+            <CardTitle className="text-lg">Leaderboard Freeze</CardTitle>
+            <CardDescription>Hide score changes from the public, then reveal teams from the bottom up</CardDescription>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-5 pt-6">
+        {!freeze ? (
+          <div className="flex flex-col md:flex-row md:items-center justify-between gap-3">
+            <p className="text-sm text-muted-foreground">
+              The leaderboard is live. Freezing holds the rankings, the display and team scores at their current
+              points; merges and penalties keep counting here. Until a team is revealed, its live points and
+              ledger entries can only be read by admins.
+            </p>
+            <Button
+              onClick={() => run(freezeLeaderboard)}
+              disabled={isBusy}
+              className="shrink-0 bg-gradient-to-r from-cyan-600 to-blue-600 hover:from-cyan-700 hover:to-blue-700 shadow-md"
+            >
+              <Snowflake className="w-4 h-4 mr-2" />
+              Freeze Now
+            </Button>
+          </div>
+        ) : (
+          <>
+            <div className="flex flex-col md:flex-row md:items-center justify-between gap-3">
+              <p className="text-sm">
+                Frozen since <strong>{new Date(freeze.frozenAt).toLocaleTimeString()}</strong> ·{' '}
+                {freeze.revealed.length}/{teams.length} teams revealed
+              </p>
+              <div className="flex gap-2">
+                {nextReveal && (
+                  <Button onClick={() => run(() => revealTeam(nextReveal.name))} disabled={isBusy}>
+                    <Eye className="w-4 h-4 mr-2" />
+                    Reveal {nextReveal.name}
+                  </Button>
+                )}
+                <Button variant="outline" onClick={() => run(unfreezeLeaderboard)} disabled={isBusy}>
+                  <Sun className="w-4 h-4 mr-2" />
+                  {nextReveal ? 'Unfreeze All' : 'End Freeze'}
+                </Button>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              {publicStandings.map((team, index) => {
+                const revealed = freeze.revealed.includes(team.name);
+                const live = teams.find(t => t.name === team.name)?.points ?? 0;
+                return (
+                  <div key={team.name} className="flex items-center gap-3 p-3 rounded-lg border">
+                    <span className="w-6 text-sm font-bold text-muted-foreground">{index + 1}</span>
+                    <span className="flex-1 font-medium">{team.name}</span>
+                    {revealed ? (
+                      <Badge variant="outline" className="text-success border-success">revealed</Badge>
+                    ) : (
+                      <span className="text-xs text-muted-foreground">
+                        public {freeze.scores[team.name] ?? 0} · live {live}
+                      </span>
+                    )}
+                    <span className="w-16 text-right font-bold">{team.points} pts</span>
+                  </div>
+                );
+              })}
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default LeaderboardFreezeCard;
@@ -0,0 +1,147 @@
+import { useState } from 'react';
+import { useApp } from '@/contexts/AppContext';
+import type { PointsEntry } from '@/types';
+import { getReversalBlocker, POINTS_REASON_LABELS } from '@/lib/ledger';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { BookOpen, Undo2 } from 'lucide-react';
+import { toast } from 'sonner';
+
+const formatDelta = (delta: number) => (delta > 0 ? `+${delta}` : String(delta));
+
+const PointsLedgerCard = () => {
+  const { teams, ledger, reversePointsEntry } = useApp();
+  const [teamFilter, setTeamFilter] = useState('all');
+  const [reversing, setReversing] = useState<PointsEntry | null>(null);
+  const [reversalNote, setReversalNote] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const entries = teamFilter === 'all' ? ledger : ledger.filter(entry => entry.teamName === teamFilter);
+  const selectedTeam = teams.find(team => team.name === teamFilter);
+  const ledgerTotal = entries.reduce((sum, entry) => sum + entry.delta, 0);
+
+  const startReversal = (entry: PointsEntry) => {
+    setReversing(entry);
+    setReversalNote('');
+  };
+
+  const confirmReversal = async () => {
+    if (!reversing) return;
+    if (!reversalNote.trim()) {
+      toast.error('Please give a reason for the reversal');
+      return;
+    }
+    setIsSubmitting(true);
+    await reversePointsEntry(reversing.id, reversalNote.trim());
+    setIsSubmitting(false);
+    setReversing(null);
+  };
+
+  return (
+    <Card className="border-0 shadow-xl bg-white dark:bg-slate-800">
+      <CardHeader className="border-b bg-gradient-to-r from-emerald-50 to-teal-50 dark:from-slate-800 dark:to-slate-900">
+        <div className="flex items-center gap-3">
+          <div className="p-2 bg-emerald-100 dark:bg-emerald-900/30 rounded-lg">
+            <BookOpen className="w-5 h-5 text-emerald-600 dark:text-emerald-400" />
+          </div>
+          <div>
+            <CardTitle className="text-lg">Points Ledger</CardTitle>
+            <CardDescription>Every change to a team's score; reverse an entry to undo it</CardDescription>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-5 pt-6">
+        <div className="flex flex-col md:flex-row md:items-end gap-3">
+          <div className="space-y-2 md:w-72">
+            <Label className="text-sm font-medium">Team</Label>
+            <Select value={teamFilter} onValueChange={setTeamFilter}>
+              <SelectTrigger className="h-11">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All Teams</SelectItem>
+                {teams.map(team => (
+                  <SelectItem key={team.name} value={team.name}>
+                    {team.name} - {team.points} pts
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          {selectedTeam && (
+            <p className="text-sm text-muted-foreground">
+              {entries.length} entries totalling <strong className="text-foreground">{ledgerTotal} pts</strong>
+              {ledgerTotal !== selectedTeam.points && (
+                <span className="text-warning"> · score shows {selectedTeam.points} pts (includes changes made before the ledger)</span>
+              )}
+            </p>
+          )}
+        </div>
+
+        {entries.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No points have changed hands yet.</p>
+        ) : (
+          <div className="space-y-2 max-h-96 overflow-y-auto">
+            {entries.map(entry => (
+              <div key={entry.id} className="p-3 rounded-lg border space-y-2">
+                <div className="flex items-center gap-3">
+                  <Badge
+                    variant="outline"
+                    className={`font-mono ${entry.delta >= 0 ? 'text-success border-success' : 'text-destructive border-destructive'}`}
+                  >
+                    {formatDelta(entry.delta)}
+                  </Badge>
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm font-medium truncate">
+                      {teamFilter === 'all' && <span>{entry.teamName} · </span>}
+                      {POINTS_REASON_LABELS[entry.reason]}
+                      {entry.issueTitle && <span className="text-muted-foreground"> · {entry.issueTitle}</span>}
+                    </p>
+                    <p className="text-xs text-muted-foreground truncate">
+                      {new Date(entry.createdAt).toLocaleString()} · by {entry.actor}
+                      {entry.note && <> · “{entry.note}”</>}
+                    </p>
+                  </div>
+                  {entry.reason !== 'reversal' && (
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      disabled={isSubmitting || getReversalBlocker(entry, ledger) !== null}
+                      onClick={() => startReversal(entry)}
+                    >
+                      <Undo2 className="w-4 h-4 mr-1" />
+                      {getReversalBlocker(entry, ledger) ? 'Reversed' : 'Reverse'}
+                    </Button>
+                  )}
+                </div>
+                {reversing?.id === entry.id && (
+                  <div className="flex gap-2">
+                    <Input
+                      value={reversalNote}
+                      onChange={(e) => setReversalNote(e.target.value)}
+                      placeholder={`Why undo ${formatDelta(entry.delta)} for ${entry.teamName}?`}
+                      className="h-9 text-sm"
+                      autoFocus
+                    />
+                    <Button size="sm" variant="destructive" disabled={isSubmitting} onClick={confirmReversal}>
+                      Reverse {formatDelta(-entry.delta)}
+                    </Button>
+                    <Button size="sm" variant="ghost" onClick={() => setReversing(null)}>
+                      Cancel
+                    </Button>
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default PointsLedgerCard;
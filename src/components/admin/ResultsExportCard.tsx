@@ -0,0 +1,139 @@
+import { useMemo, useState } from 'react';
+import { useApp, useCurrentEvent } from '@/contexts/AppContext';
+import { buildResultsReport, resultsToCsv, resultsToJson } from '@/lib/results';
+import {
+  CERTIFICATE_PLACEHOLDERS,
+  DEFAULT_CERTIFICATE_TEMPLATE,
+  openPrintWindow,
+  renderCertificates,
+  renderResultsReport
+} from '@/lib/printables';
+import { downloadFile, getExportFileName } from '@/lib/download';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Award, Download, FileText, Medal, Printer } from 'lucide-react';
+import { toast } from 'sonner';
+
+const ALL_TEAMS = '__all__';
+
+const ResultsExportCard = () => {
+  const { teams, issues, ledger, scoringRules } = useApp();
+  const event = useCurrentEvent();
+  const [template, setTemplate] = useState(DEFAULT_CERTIFICATE_TEMPLATE);
+  const [certificateTeam, setCertificateTeam] = useState(ALL_TEAMS);
+
+  const report = useMemo(
+    () => buildResultsReport({ event, teams, issues, ledger, rules: scoringRules }),
+    [event, teams, issues, ledger, scoringRules]
+  );
+
+  const print = (html: string) => {
+    try {
+      openPrintWindow(html);
+    } catch (error) {
+      toast.error(error.message);
+    }
+  };
+
+  const handleDownload = (format: 'csv' | 'json' | 'html') => {
+    // Stamp the report with the moment it is taken, not when the card rendered
+    const current = { ...report, generatedAt: Date.now() };
+    const content = {
+      csv: () => resultsToCsv(current),
+      json: () => resultsToJson(current),
+      html: () => renderResultsReport(current)
+    }[format]();
+    const mimeType = { csv: 'text/csv', json: 'application/json', html: 'text/html' }[format];
+    downloadFile(getExportFileName(event.slug, 'results', format), content, mimeType);
+  };
+
+  const handlePrintCertificates = () => {
+    const selected = report.teams.filter(team => certificateTeam === ALL_TEAMS || team.teamName === certificateTeam);
+    if (selected.length === 0) {
+      toast.error('No teams to print certificates for');
+      return;
+    }
+    print(renderCertificates(report, selected, template.trim() || DEFAULT_CERTIFICATE_TEMPLATE));
+  };
+
+  return (
+    <Card className="border-0 shadow-xl bg-white dark:bg-slate-800">
+      <CardHeader className="border-b bg-gradient-to-r from-yellow-50 to-amber-50 dark:from-slate-800 dark:to-slate-900">
+        <div className="flex items-center gap-3">
+          <div className="p-2 bg-yellow-100 dark:bg-yellow-900/30 rounded-lg">
+            <Medal className="w-5 h-5 text-yellow-600 dark:text-yellow-400" />
+          </div>
+          <div>
+            <CardTitle className="text-lg">Final Results</CardTitle>
+            <CardDescription>Standings, solved issues with their PRs and every point awarded or taken, plus certificates for each team</CardDescription>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6 pt-6">
+        <div className="space-y-3">
+          <p className="text-sm text-muted-foreground">
+            {report.teams.length} team(s) · {report.teams.reduce((total, team) => total + team.solved.length, 0)} merged PR(s).
+            Uses live scores, even while the leaderboard is frozen.
+          </p>
+          <div className="flex flex-wrap gap-2">
+            <Button variant="outline" className="h-11" onClick={() => print(renderResultsReport(report))} disabled={teams.length === 0}>
+              <Printer className="w-4 h-4 mr-2" />
+              Print / PDF
+            </Button>
+            <Button variant="ghost" className="h-11" onClick={() => handleDownload('html')} disabled={teams.length === 0}>
+              <FileText className="w-4 h-4 mr-2" />
+              HTML
+            </Button>
+            <Button variant="ghost" className="h-11" onClick={() => handleDownload('csv')} disabled={teams.length === 0}>
+              <Download className="w-4 h-4 mr-2" />
+              CSV
+            </Button>
+            <Button variant="ghost" className="h-11" onClick={() => handleDownload('json')} disabled={teams.length === 0}>
+              <Download className="w-4 h-4 mr-2" />
+              JSON
+            </Button>
+          </div>
+        </div>
+
+        <div className="space-y-3 border-t pt-6">
+          <Label htmlFor="certificate-template" className="text-sm font-semibold">Certificate Text</Label>
+          <Textarea
+            id="certificate-template"
+            value={template}
+            onChange={(e) => setTemplate(e.target.value)}
+            rows={3}
+          />
+          <p className="text-xs text-muted-foreground">
+            Placeholders: <code>{CERTIFICATE_PLACEHOLDERS.join(' ')}</code>
+          </p>
+          <div className="flex flex-col md:flex-row gap-3">
+            <Select value={certificateTeam} onValueChange={setCertificateTeam}>
+              <SelectTrigger className="h-11 md:w-64">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL_TEAMS}>All teams</SelectItem>
+                {report.teams.map(team => (
+                  <SelectItem key={team.teamName} value={team.teamName}>{team.teamName}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button
+              onClick={handlePrintCertificates}
+              disabled={teams.length === 0}
+              className="h-11 bg-gradient-to-r from-yellow-500 to-amber-600 hover:from-yellow-600 hover:to-amber-700 shadow-md"
+            >
+              <Award className="w-4 h-4 mr-2" />
+              Print Certificates
+            </Button>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ResultsExportCard;
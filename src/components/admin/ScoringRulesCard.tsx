@@ -0,0 +1,345 @@
+import { useEffect, useState } from 'react';
+import { useApp } from '@/contexts/AppContext';
+import type { DifficultyTier, ReleasePenaltyRule, ScoringRules } from '@/types';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Scale, Save, RotateCcw, Plus, Trash2, Wand2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { createTierId, DEFAULT_TIER_COLOR, getTier, needsDifficultyMigration } from '@/lib/scoring';
+
+type NumericTierField = 'points' | 'penalty' | 'timeLimitMinutes';
+
+const validateRules = (rules: ScoringRules): string | null => {
+  if (!Number.isInteger(rules.maxConcurrentIssues) || rules.maxConcurrentIssues < 1) {
+    return 'Max concurrent issues must be at least 1';
+  }
+  if (!Number.isInteger(rules.claimWindowMinutes) || rules.claimWindowMinutes < 1) {
+    return 'The waitlist claim window must be at least 1 minute';
+  }
+  const { graceMinutes, minPercent, maxPercent } = rules.releasePenalty;
+  if (!Number.isInteger(graceMinutes) || graceMinutes < 0) {
+    return 'The free release window must be a whole number of minutes';
+  }
+  if ([minPercent, maxPercent].some(value => !Number.isInteger(value) || value < 0 || value > 100) || minPercent > maxPercent) {
+    return 'Release penalty percentages must be between 0 and 100, starting no higher than they end';
+  }
+  if (rules.tiers.length === 0) {
+    return 'Define at least one difficulty tier';
+  }
+  for (const tier of rules.tiers) {
+    if (!tier.name.trim()) {
+      return 'Every tier needs a name';
+    }
+    if ([tier.points, tier.penalty].some(value => !Number.isInteger(value) || value < 0)) {
+      return `${tier.name}: points and penalty must be whole numbers of 0 or more`;
+    }
+    if (!Number.isInteger(tier.timeLimitMinutes) || tier.timeLimitMinutes < 1) {
+      return `${tier.name}: time limit must be at least 1 minute`;
+    }
+  }
+  return null;
+};
+
+const ScoringRulesCard = () => {
+  const { scoringRules, updateScoringRules, issues, migrateIssueDifficulties } = useApp();
+  const [draft, setDraft] = useState<ScoringRules>(scoringRules);
+  const [newTierName, setNewTierName] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const legacyIssueCount = issues.filter(issue => needsDifficultyMigration(issue, scoringRules)).length;
+
+  // Pick up changes saved by other admins
+  useEffect(() => {
+    setDraft(scoringRules);
+  }, [scoringRules]);
+
+  const isDirty = JSON.stringify(draft) !== JSON.stringify(scoringRules);
+
+  const updateTier = (tierId: string, updates: Partial<DifficultyTier>) => {
+    setDraft(prev => ({
+      ...prev,
+      tiers: prev.tiers.map(tier => tier.id === tierId ? { ...tier, ...updates } : tier)
+    }));
+  };
+
+  const updateTierNumber = (tierId: string, field: NumericTierField, value: string) => {
+    updateTier(tierId, { [field]: value === '' ? NaN : Number(value) });
+  };
+
+  const addTier = () => {
+    const name = newTierName.trim();
+    if (!name) {
+      toast.error('Please enter a tier name');
+      return;
+    }
+    setDraft(prev => ({
+      ...prev,
+      tiers: [
+        ...prev.tiers,
+        { id: createTierId(name, prev.tiers), name, color: DEFAULT_TIER_COLOR, githubLabels: [], points: 0, penalty: 0, timeLimitMinutes: 30 }
+      ]
+    }));
+    setNewTierName('');
+  };
+
+  const removeTier = (tier: DifficultyTier) => {
+    const inUse = issues.filter(issue => getTier(issue, scoringRules)?.id === tier.id).length;
+    if (inUse > 0) {
+      toast.error(`${tier.name} is used by ${inUse} issue(s). Change their difficulty first.`);
+      return;
+    }
+    setDraft(prev => ({ ...prev, tiers: prev.tiers.filter(t => t.id !== tier.id) }));
+  };
+
+  const handleSave = async () => {
+    const error = validateRules(draft);
+    if (error) {
+      toast.error(error);
+      return;
+    }
+    setIsSaving(true);
+    await updateScoringRules({
+      ...draft,
+      tiers: draft.tiers.map(tier => ({
+        ...tier,
+        githubLabels: (tier.githubLabels ?? []).map(label => label.trim()).filter(Boolean)
+      }))
+    });
+    setIsSaving(false);
+  };
+
+  const numberValue = (value: number) => (Number.isNaN(value) ? '' : value);
+
+  const updateRelease = (field: keyof ReleasePenaltyRule, value: string) => {
+    setDraft(prev => ({
+      ...prev,
+      releasePenalty: { ...prev.releasePenalty, [field]: value === '' ? NaN : Number(value) }
+    }));
+  };
+
+  return (
+    <Card className="border-0 shadow-xl bg-white dark:bg-slate-800">
+      <CardHeader className="border-b bg-gradient-to-r from-emerald-50 to-teal-50 dark:from-slate-800 dark:to-slate-900">
+        <div className="flex items-center gap-3">
+          <div className="p-2 bg-emerald-100 dark:bg-emerald-900/30 rounded-lg">
+            <Scale className="w-5 h-5 text-emerald-600 dark:text-emerald-400" />
+          </div>
+          <div>
+            <CardTitle className="text-lg">Scoring Rules</CardTitle>
+            <CardDescription>Difficulty tiers, points, penalties and time limits used by every page and the expiry worker</CardDescription>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-5 pt-6">
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-muted-foreground">
+                <th className="pb-2 pr-3 font-medium">Colour</th>
+                <th className="pb-2 pr-3 font-medium">Tier</th>
+                <th className="pb-2 pr-3 font-medium">Points</th>
+                <th className="pb-2 pr-3 font-medium">Expiry penalty</th>
+                <th className="pb-2 pr-3 font-medium">Time limit (min)</th>
+                <th className="pb-2 pr-3 font-medium">GitHub labels</th>
+                <th className="pb-2" />
+              </tr>
+            </thead>
+            <tbody>
+              {draft.tiers.map(tier => (
+                <tr key={tier.id}>
+                  <td className="py-1 pr-3">
+                    <Input
+                      type="color"
+                      value={tier.color}
+                      onChange={(e) => updateTier(tier.id, { color: e.target.value })}
+                      className="h-10 w-14 p-1 cursor-pointer"
+                      aria-label={`${tier.name} colour`}
+                    />
+                  </td>
+                  <td className="py-1 pr-3">
+                    <Input
+                      value={tier.name}
+                      onChange={(e) => updateTier(tier.id, { name: e.target.value })}
+                      className="h-10"
+                    />
+                  </td>
+                  <td className="py-1 pr-3">
+                    <Input
+                      type="number"
+                      min={0}
+                      value={numberValue(tier.points)}
+                      onChange={(e) => updateTierNumber(tier.id, 'points', e.target.value)}
+                      className="h-10"
+                    />
+                  </td>
+                  <td className="py-1 pr-3">
+                    <Input
+                      type="number"
+                      min={0}
+                      value={numberValue(tier.penalty)}
+                      onChange={(e) => updateTierNumber(tier.id, 'penalty', e.target.value)}
+                      className="h-10"
+                    />
+                  </td>
+                  <td className="py-1 pr-3">
+                    <Input
+                      type="number"
+                      min={1}
+                      value={numberValue(tier.timeLimitMinutes)}
+                      onChange={(e) => updateTierNumber(tier.id, 'timeLimitMinutes', e.target.value)}
+                      className="h-10"
+                    />
+                  </td>
+                  <td className="py-1 pr-3">
+                    <Input
+                      value={(tier.githubLabels ?? []).join(',')}
+                      onChange={(e) => updateTier(tier.id, { githubLabels: e.target.value.split(',') })}
+                      placeholder="e.g. good first issue"
+                      className="h-10 min-w-40"
+                    />
+                  </td>
+                  <td className="py-1">
+                    <Button size="sm" variant="ghost" onClick={() => removeTier(tier)} aria-label={`Remove ${tier.name}`}>
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="flex gap-2 max-w-md">
+          <Input
+            value={newTierName}
+            onChange={(e) => setNewTierName(e.target.value)}
+            placeholder="New tier, e.g. Expert"
+            className="h-10"
+          />
+          <Button variant="outline" onClick={addTier} className="h-10">
+            <Plus className="w-4 h-4 mr-2" />
+            Add Tier
+          </Button>
+        </div>
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 max-w-2xl">
+          <div className="space-y-2">
+            <Label className="text-sm font-medium">Max concurrent issues per team</Label>
+            <Input
+              type="number"
+              min={1}
+              value={numberValue(draft.maxConcurrentIssues)}
+              onChange={(e) => setDraft(prev => ({
+                ...prev,
+                maxConcurrentIssues: e.target.value === '' ? NaN : Number(e.target.value)
+              }))}
+              className="h-11"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="claim-window" className="text-sm font-medium">Waitlist claim window (min)</Label>
+            <Input
+              id="claim-window"
+              type="number"
+              min={1}
+              value={numberValue(draft.claimWindowMinutes)}
+              onChange={(e) => setDraft(prev => ({
+                ...prev,
+                claimWindowMinutes: e.target.value === '' ? NaN : Number(e.target.value)
+              }))}
+              className="h-11"
+            />
+            <p className="text-xs text-muted-foreground">
+              How long a freed issue is held for the first team on its waitlist. Held issues count towards that team's limit.
+            </p>
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <Label className="text-sm font-medium">Giving up an issue early</Label>
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-3 max-w-2xl">
+            <div className="space-y-1">
+              <Label htmlFor="release-grace" className="text-xs text-muted-foreground">Free for the first (min)</Label>
+              <Input
+                id="release-grace"
+                type="number"
+                min={0}
+                value={numberValue(draft.releasePenalty.graceMinutes)}
+                onChange={(e) => updateRelease('graceMinutes', e.target.value)}
+                className="h-11"
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="release-min" className="text-xs text-muted-foreground">Then % of expiry penalty</Label>
+              <Input
+                id="release-min"
+                type="number"
+                min={0}
+                max={100}
+                value={numberValue(draft.releasePenalty.minPercent)}
+                onChange={(e) => updateRelease('minPercent', e.target.value)}
+                className="h-11"
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="release-max" className="text-xs text-muted-foreground">Rising to % at the time limit</Label>
+              <Input
+                id="release-max"
+                type="number"
+                min={0}
+                max={100}
+                value={numberValue(draft.releasePenalty.maxPercent)}
+                onChange={(e) => updateRelease('maxPercent', e.target.value)}
+                className="h-11"
+              />
+            </div>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            The share grows with the time used. Use the same percentage twice for a flat penalty.
+          </p>
+        </div>
+
+        <p className="text-xs text-muted-foreground">
+          Changes apply immediately: running timers use the new time limits and merges award the new points.
+          {scoringRules.updatedAt && ` Last saved ${new Date(scoringRules.updatedAt).toLocaleString()}.`}
+        </p>
+
+        {legacyIssueCount > 0 && (
+          <div className="flex items-center justify-between gap-3 p-4 bg-amber-50 dark:bg-amber-950/30 rounded-lg border border-amber-200 dark:border-amber-800">
+            <p className="text-sm text-amber-900 dark:text-amber-100">
+              {legacyIssueCount} issue(s) still store their difficulty as a tag.
+            </p>
+            <Button size="sm" variant="outline" onClick={migrateIssueDifficulties}>
+              <Wand2 className="w-4 h-4 mr-1" />
+              Migrate
+            </Button>
+          </div>
+        )}
+
+        <div className="flex gap-2">
+          <Button
+            onClick={handleSave}
+            disabled={!isDirty || isSaving}
+            className="h-11 bg-gradient-to-r from-emerald-600 to-teal-600 hover:from-emerald-700 hover:to-teal-700 shadow-md"
+          >
+            <Save className="w-4 h-4 mr-2" />
+            Save Rules
+          </Button>
+          <Button
+            variant="outline"
+            onClick={() => setDraft(scoringRules)}
+            disabled={!isDirty || isSaving}
+            className="h-11"
+          >
+            <RotateCcw className="w-4 h-4 mr-2" />
+            Discard
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ScoringRulesCard;
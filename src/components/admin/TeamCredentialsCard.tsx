@@ -0,0 +1,208 @@
+import { useState } from 'react';
+import { useApp } from '@/contexts/AppContext';
+import type { Team, TeamCredential } from '@/types';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { KeyRound, Copy, RefreshCw, Ban, UserPlus, Github } from 'lucide-react';
+import { toast } from 'sonner';
+
+// PR verification only accepts pull requests authored by these accounts
+const GitHubAccountsInput = ({ team }: { team: Team }) => {
+  const { updateTeamGitHubAccounts } = useApp();
+  const saved = (team.githubUsernames ?? []).join(', ');
+  const [value, setValue] = useState(saved);
+
+  const parse = (text: string) =>
+    [...new Set(text.split(',').map(login => login.trim().replace(/^@/, '')).filter(Boolean))];
+
+  const isDirty = parse(value).join(', ') !== saved;
+
+  return (
+    <div className="flex items-center gap-2">
+      <Github className="w-4 h-4 text-muted-foreground shrink-0" />
+      <Input
+        value={value}
+        onChange={(e) => setValue(e.target.value)}
+        placeholder="GitHub usernames, comma separated"
+        className="h-8 text-sm"
+      />
+      {isDirty && (
+        <Button size="sm" variant="outline" onClick={() => updateTeamGitHubAccounts(team.name, parse(value))}>
+          Save
+        </Button>
+      )}
+    </div>
+  );
+};
+
+const TeamCredentialsCard = () => {
+  const { teams, createTeamCredential, rotateTeamCredential, revokeTeamCredential } = useApp();
+  const [newTeamName, setNewTeamName] = useState('');
+  const [issuedCredential, setIssuedCredential] = useState<TeamCredential | null>(null);
+  const [pendingTeam, setPendingTeam] = useState<string | null>(null);
+
+  const sortedTeams = [...teams].sort((a, b) => a.name.localeCompare(b.name));
+
+  const handleCreate = async (teamName: string) => {
+    if (!teamName.trim()) {
+      toast.error('Please enter a team name');
+      return;
+    }
+    setPendingTeam(teamName.trim());
+    const credential = await createTeamCredential(teamName);
+    setPendingTeam(null);
+    if (credential) {
+      setIssuedCredential(credential);
+      setNewTeamName('');
+    }
+  };
+
+  const handleRotate = async (teamName: string) => {
+    setPendingTeam(teamName);
+    const credential = await rotateTeamCredential(teamName);
+    setPendingTeam(null);
+    if (credential) {
+      setIssuedCredential(credential);
+    }
+  };
+
+  const handleRevoke = async (teamName: string) => {
+    setPendingTeam(teamName);
+    await revokeTeamCredential(teamName);
+    setPendingTeam(null);
+    if (issuedCredential?.teamName === teamName) {
+      setIssuedCredential(null);
+    }
+  };
+
+  const copyCredential = async () => {
+    if (!issuedCredential) return;
+    await navigator.clipboard.writeText(
+      `Team: ${issuedCredential.teamName}\nPassword: ${issuedCredential.password}`
+    );
+    toast.success('Copied to clipboard');
+  };
+
+  return (
+    <Card className="border-0 shadow-xl bg-white dark:bg-slate-800">
+      <CardHeader className="border-b bg-gradient-to-r from-violet-50 to-purple-50 dark:from-slate-800 dark:to-slate-900">
+        <div className="flex items-center gap-3">
+          <div className="p-2 bg-violet-100 dark:bg-violet-900/30 rounded-lg">
+            <KeyRound className="w-5 h-5 text-violet-600 dark:text-violet-400" />
+          </div>
+          <div>
+            <CardTitle className="text-lg">Team Logins</CardTitle>
+            <CardDescription>Create, rotate and revoke team credentials and link their GitHub accounts</CardDescription>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-5 pt-6">
+        <div className="space-y-2">
+          <Label className="text-sm font-medium">New Team</Label>
+          <div className="flex gap-2">
+            <Input
+              value={newTeamName}
+              onChange={(e) => setNewTeamName(e.target.value)}
+              placeholder="e.g., TeamEcho"
+              className="h-11"
+            />
+            <Button
+              onClick={() => handleCreate(newTeamName)}
+              disabled={pendingTeam !== null}
+              className="h-11 bg-gradient-to-r from-violet-600 to-purple-600 hover:from-violet-700 hover:to-purple-700 shadow-md"
+            >
+              <UserPlus className="w-4 h-4 mr-2" />
+              Create Login
+            </Button>
+          </div>
+        </div>
+
+        {issuedCredential && (
+          <div className="p-4 bg-violet-50 dark:bg-violet-950/30 rounded-lg border border-violet-200 dark:border-violet-800 space-y-2">
+            <p className="font-semibold text-sm text-violet-900 dark:text-violet-100">
+              🔑 Password for {issuedCredential.teamName}
+            </p>
+            <div className="flex items-center gap-2">
+              <code className="flex-1 bg-background px-3 py-2 rounded font-mono text-sm break-all">
+                {issuedCredential.password}
+              </code>
+              <Button size="sm" variant="outline" onClick={copyCredential}>
+                <Copy className="w-4 h-4" />
+              </Button>
+            </div>
+            <p className="text-xs text-violet-700 dark:text-violet-300">
+              Share it with the team now — it is not shown again. Rotate to issue a new one.
+            </p>
+          </div>
+        )}
+
+        <div className="space-y-2">
+          {sortedTeams.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No teams yet. Create the first login above.</p>
+          ) : (
+            sortedTeams.map(team => (
+              <div key={team.name} className="p-3 rounded-lg border space-y-2">
+                <div className="flex items-center justify-between gap-3">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium">{team.name}</span>
+                    {team.credentialStatus === 'active' && (
+                      <Badge variant="outline" className="text-xs bg-success/10 text-success border-success">active</Badge>
+                    )}
+                    {team.credentialStatus === 'revoked' && (
+                      <Badge variant="destructive" className="text-xs">revoked</Badge>
+                    )}
+                    {!team.credentialStatus && (
+                      <Badge variant="outline" className="text-xs">no login</Badge>
+                    )}
+                  </div>
+                  <div className="flex gap-2">
+                    {team.credentialStatus ? (
+                      <>
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          disabled={pendingTeam !== null}
+                          onClick={() => handleRotate(team.name)}
+                        >
+                          <RefreshCw className="w-4 h-4 mr-1" />
+                          Rotate
+                        </Button>
+                        {team.credentialStatus === 'active' && (
+                          <Button
+                            size="sm"
+                            variant="destructive"
+                            disabled={pendingTeam !== null}
+                            onClick={() => handleRevoke(team.name)}
+                          >
+                            <Ban className="w-4 h-4 mr-1" />
+                            Revoke
+                          </Button>
+                        )}
+                      </>
+                    ) : (
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        disabled={pendingTeam !== null}
+                        onClick={() => handleCreate(team.name)}
+                      >
+                        <UserPlus className="w-4 h-4 mr-1" />
+                        Create Login
+                      </Button>
+                    )}
+                  </div>
+                </div>
+                <GitHubAccountsInput key={(team.githubUsernames ?? []).join(',')} team={team} />
+              </div>
+            ))
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default TeamCredentialsCard;
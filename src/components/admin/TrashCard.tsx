@@ -0,0 +1,135 @@
+import { useState } from 'react';
+import { useApp } from '@/contexts/AppContext';
+import { getIssuesTrashedWith } from '@/lib/trash';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger
+} from '@/components/ui/alert-dialog';
+import { ArchiveRestore, Trash2 } from 'lucide-react';
+
+const formatDeletedAt = (deletedAt: number | null | undefined) =>
+  deletedAt ? new Date(deletedAt).toLocaleString() : '';
+
+interface PurgeButtonProps {
+  name: string;
+  detail: string;
+  disabled: boolean;
+  onConfirm: () => void;
+}
+
+const PurgeButton = ({ name, detail, disabled, onConfirm }: PurgeButtonProps) => (
+  <AlertDialog>
+    <AlertDialogTrigger asChild>
+      <Button size="sm" variant="ghost" className="text-destructive hover:text-destructive" disabled={disabled}>
+        <Trash2 className="w-4 h-4 mr-1" />
+        Delete Forever
+      </Button>
+    </AlertDialogTrigger>
+    <AlertDialogContent>
+      <AlertDialogHeader>
+        <AlertDialogTitle>Delete {name} forever?</AlertDialogTitle>
+        <AlertDialogDescription>{detail} This cannot be undone.</AlertDialogDescription>
+      </AlertDialogHeader>
+      <AlertDialogFooter>
+        <AlertDialogCancel>Cancel</AlertDialogCancel>
+        <AlertDialogAction onClick={onConfirm}>Delete Forever</AlertDialogAction>
+      </AlertDialogFooter>
+    </AlertDialogContent>
+  </AlertDialog>
+);
+
+const TrashCard = () => {
+  const { trashedRepositories, trashedIssues, restoreRepository, purgeRepository, restoreIssue, purgeIssue } = useApp();
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  // Issues that went with their repository are listed under it
+  const looseIssues = trashedIssues.filter(issue => !issue.trashedWithRepo);
+
+  const run = async (id: string, action: (id: string) => Promise<void>) => {
+    setBusyId(id);
+    await action(id);
+    setBusyId(null);
+  };
+
+  return (
+    <Card className="border-0 shadow-xl bg-white dark:bg-slate-800">
+      <CardHeader className="border-b bg-gradient-to-r from-rose-50 to-red-50 dark:from-slate-800 dark:to-slate-900">
+        <div className="flex items-center gap-3">
+          <div className="p-2 bg-rose-100 dark:bg-rose-900/30 rounded-lg">
+            <Trash2 className="w-5 h-5 text-rose-600 dark:text-rose-400" />
+          </div>
+          <div>
+            <CardTitle className="text-lg">Trash</CardTitle>
+            <CardDescription>Deleted repositories and issues stay here until you restore them or delete them forever</CardDescription>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-2 pt-6">
+        {trashedRepositories.length === 0 && looseIssues.length === 0 ? (
+          <p className="text-sm text-muted-foreground">The trash is empty.</p>
+        ) : (
+          <div className="space-y-2 max-h-96 overflow-y-auto">
+            {trashedRepositories.map(repo => {
+              const repoId = repo.id!;
+              const issueCount = getIssuesTrashedWith(repoId, trashedIssues).length;
+              return (
+                <div key={repoId} className="flex items-center gap-3 p-3 rounded-lg border">
+                  <Badge variant="outline">Repository</Badge>
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm font-medium truncate">📦 {repo.name}</p>
+                    <p className="text-xs text-muted-foreground truncate">
+                      {issueCount} issue(s) · deleted {formatDeletedAt(repo.deletedAt)}
+                    </p>
+                  </div>
+                  <Button size="sm" variant="outline" disabled={busyId === repoId} onClick={() => run(repoId, restoreRepository)}>
+                    <ArchiveRestore className="w-4 h-4 mr-1" />
+                    Restore
+                  </Button>
+                  <PurgeButton
+                    name={repo.name}
+                    detail={`The repository and the ${issueCount} issue(s) deleted with it will be removed.`}
+                    disabled={busyId === repoId}
+                    onConfirm={() => run(repoId, purgeRepository)}
+                  />
+                </div>
+              );
+            })}
+            {looseIssues.map(issue => (
+              <div key={issue.id} className="flex items-center gap-3 p-3 rounded-lg border">
+                <Badge variant="outline">Issue</Badge>
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm font-medium truncate">{issue.title}</p>
+                  <p className="text-xs text-muted-foreground truncate">
+                    {issue.repo} · {issue.status} · deleted {formatDeletedAt(issue.deletedAt)}
+                  </p>
+                </div>
+                <Button size="sm" variant="outline" disabled={busyId === issue.id} onClick={() => run(issue.id, restoreIssue)}>
+                  <ArchiveRestore className="w-4 h-4 mr-1" />
+                  Restore
+                </Button>
+                <PurgeButton
+                  name={`"${issue.title}"`}
+                  detail="The issue will be removed. Points already awarded for it stay in the ledger."
+                  disabled={busyId === issue.id}
+                  onConfirm={() => run(issue.id, purgeIssue)}
+                />
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default TrashCard;
@@ -0,0 +1,197 @@
+// @vitest-environment jsdom
+import type { MouseEvent, ReactNode } from 'react';
+import { MemoryRouter } from 'react-router-dom';
+import { act, cleanup, renderHook, waitFor } from '@testing-library/react';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { toast, type Action } from 'sonner';
+import type { Issue } from '@/types';
+import { DEFAULT_SCORING_RULES } from '@/lib/scoring';
+import { normalizeEvent } from '@/lib/event';
+import { dataStore } from '@/services/dataStore';
+import type { MemoryDataStore } from '@/services/memoryService';
+import { AppProvider, useApp } from '@/contexts/AppContext';
+
+// The context runs against the in-memory store, as in demo mode
+vi.mock('@/services/dataStore', async () => {
+  const { createMemoryDataStore } = await import('@/services/memoryService');
+  return {
+    dataStore: createMemoryDataStore({ admins: [{ email: 'admin@example.com', password: 'secret' }], sweepIntervalMs: 0 })
+  };
+});
+
+vi.mock('sonner', () => ({
+  toast: Object.assign(vi.fn(), { success: vi.fn(), error: vi.fn(), info: vi.fn(), warning: vi.fn() })
+}));
+
+const store = dataStore as MemoryDataStore;
+let passwords: Record<string, string>;
+
+const newIssue = (id: string): Issue => ({
+  id,
+  title: `Issue ${id}`,
+  difficulty: 'easy',
+  tags: [],
+  repo: 'app',
+  status: 'open',
+  assignedTo: null
+});
+
+const wrapper = ({ children }: { children: ReactNode }) => (
+  <MemoryRouter>
+    <AppProvider>{children}</AppProvider>
+  </MemoryRouter>
+);
+
+const renderApp = async () => {
+  const view = renderHook(() => useApp(), { wrapper });
+  act(() => view.result.current.selectEvent('spring'));
+  await waitFor(() => expect(view.result.current.issues).toHaveLength(5));
+  return view.result;
+};
+
+type App = Awaited<ReturnType<typeof renderApp>>;
+
+const signInAs = async (app: App, teamName: string) => {
+  await act(async () => {
+    expect(await app.current.loginTeam(teamName, passwords[teamName])).toEqual({ success: true });
+  });
+  await waitFor(() => expect(app.current.currentTeam?.name).toBe(teamName));
+};
+
+const issue = (app: App, id: string) => app.current.issues.find(i => i.id === id)!;
+
+// The options of the last success toast, which carry the Undo action
+const lastUndo = () => {
+  const action = vi.mocked(toast.success).mock.lastCall![1]!.action as Action;
+  return () => action.onClick({} as MouseEvent<HTMLButtonElement>);
+};
+
+beforeEach(async () => {
+  vi.clearAllMocks();
+  store.reset({
+    events: ['spring', 'autumn'].map(slug => normalizeEvent(slug, { name: slug, status: 'running' })),
+    teams: ['red', 'blue'].map(name => ({ name, points: 50, active: false })),
+    repositories: [{ id: 'repo-1', name: 'app', url: 'https://github.com/org/app' }],
+    issues: ['a', 'b', 'c', 'd', 'e'].map(newIssue),
+    scoringRules: DEFAULT_SCORING_RULES
+  });
+  store.setActiveEvent('spring');
+  await store.signInAdmin('admin@example.com', 'secret');
+  passwords = {};
+  for (const name of ['red', 'blue']) {
+    passwords[name] = (await store.createTeamCredential(name)).password;
+  }
+  await store.signOut();
+});
+
+afterEach(cleanup);
+
+describe('occupying', () => {
+  it('shows the issue as taken at once and keeps it once the store agrees', async () => {
+    const app = await renderApp();
+    await signInAs(app, 'red');
+
+    await act(async () => {
+      expect(await app.current.occupyIssue('a')).toEqual({ success: true });
+    });
+    expect(issue(app, 'a')).toMatchObject({ status: 'occupied', assignedTo: 'red' });
+    expect((await store.getAllIssues()).find(i => i.id === 'a')).toMatchObject({ status: 'occupied', assignedTo: 'red' });
+  });
+
+  it('rolls the optimistic update back when the store refuses', async () => {
+    const app = await renderApp();
+    await signInAs(app, 'red');
+    let refuse!: () => void;
+    vi.spyOn(store, 'occupyIssue').mockImplementationOnce(() =>
+      new Promise(resolve => { refuse = () => resolve({ success: false, error: 'Taken' }); })
+    );
+
+    let occupying!: Promise<unknown>;
+    act(() => { occupying = app.current.occupyIssue('a'); });
+    await waitFor(() => expect(issue(app, 'a')).toMatchObject({ status: 'occupied', assignedTo: 'red' }));
+
+    await act(async () => {
+      refuse();
+      expect(await occupying).toEqual({ success: false, error: 'Taken' });
+    });
+    expect(issue(app, 'a')).toMatchObject({ status: 'open', assignedTo: null });
+  });
+});
+
+describe('releasing', () => {
+  it('gives the issue back through the store', async () => {
+    const app = await renderApp();
+    await signInAs(app, 'red');
+    await act(() => app.current.occupyIssue('a'));
+
+    await act(async () => {
+      expect(await app.current.releaseIssue('a')).toMatchObject({ success: true, penalty: 0 });
+    });
+    await waitFor(() => expect(issue(app, 'a')).toMatchObject({ status: 'open', assignedTo: null }));
+  });
+
+  it('refuses issues the team does not hold without asking the store', async () => {
+    await store.occupyIssue('a', 'blue');
+    const app = await renderApp();
+    await signInAs(app, 'red');
+    const release = vi.spyOn(store, 'releaseIssue');
+
+    await act(async () => {
+      expect(await app.current.releaseIssue('a')).toMatchObject({ success: false });
+    });
+    expect(release).not.toHaveBeenCalled();
+  });
+});
+
+describe('undo', () => {
+  it('takes an admin change back from its toast', async () => {
+    const app = await renderApp();
+    await act(() => app.current.loginAdmin('admin@example.com', 'secret'));
+    await act(() => app.current.moveIssue('a', 'closed'));
+    await waitFor(() => expect(issue(app, 'a').status).toBe('closed'));
+
+    await act(async () => lastUndo()());
+    await waitFor(() => expect(issue(app, 'a').status).toBe('open'));
+  });
+
+  it('does nothing once another event is open', async () => {
+    const app = await renderApp();
+    await act(() => app.current.loginAdmin('admin@example.com', 'secret'));
+    await act(() => app.current.moveIssue('a', 'closed'));
+    const undo = lastUndo();
+
+    act(() => app.current.selectEvent('autumn'));
+    await waitFor(() => expect(app.current.currentEvent?.slug).toBe('autumn'));
+    await act(async () => undo());
+    expect(toast.error).toHaveBeenCalledWith(expect.stringMatching(/Switch back/));
+
+    store.setActiveEvent('spring');
+    expect((await store.getAllIssues()).find(i => i.id === 'a')!.status).toBe('closed');
+  });
+});
+
+describe('waitlists', () => {
+  beforeEach(() => store.occupyIssue('a', 'red'));
+
+  it('queues the team and tells it its place', async () => {
+    const app = await renderApp();
+    await signInAs(app, 'blue');
+
+    await act(async () => {
+      expect(await app.current.joinWaitlist('a')).toBe(true);
+    });
+    expect(toast.success).toHaveBeenCalledWith(expect.stringMatching(/#1 in line/));
+    await waitFor(() => expect(issue(app, 'a').waitlist).toEqual(['blue']));
+  });
+
+  it('reports a refused join', async () => {
+    for (const id of ['b', 'c', 'd']) await store.occupyIssue(id, 'blue');
+    const app = await renderApp();
+    await signInAs(app, 'blue');
+
+    await act(async () => {
+      expect(await app.current.joinWaitlist('a')).toBe(false);
+    });
+    expect(toast.error).toHaveBeenCalledWith(expect.stringMatching(/already holds 3/));
+  });
+});
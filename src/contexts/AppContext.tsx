@@ -1,107 +1,149 @@
-import React, { createContext, useContext, useState, useEffect } from 'react';
-import type { Team, Repository, Issue } from '@/types';
+import React, { createContext, useContext, useState, useEffect, useRef } from 'react';
+import type { Team, Repository, LeaderboardFreeze, Issue, AuthSession, TeamCredential, ScoringRules, PrVerification, PrReviewStatus, PointsEntry, ContestEvent, EventDetails, EventStatus, AuditEntry, AuditInput, IssueHint, HintUnlock, ExtensionRequest } from '@/types';
+import { Link } from 'react-router-dom';
 import { toast } from 'sonner';
-import {
-  getAllTeams,
-  getAllRepositories,
-  getAllIssues,
-  subscribeToTeams,
-  subscribeToRepositories,
-  subscribeToIssues,
-  updateTeam,
-  createRepository as createRepoInDb,
-  deleteRepository as deleteRepoFromDb,
-  createIssue as createIssueInDb,
-  updateIssue as updateIssueInDb,
-  deleteIssue as deleteIssueFromDb,
-  initializeTeams,
-  initializeRepositories,
-  occupyIssueTransaction
-} from '@/services/firebaseService';
+import { dataStore } from '@/services/dataStore';
+import { getSessionId, HEARTBEAT_INTERVAL_MS } from '@/lib/presence';
+import type { GitHubImportRow } from '@/lib/githubImport';
+import type { NewIssue } from '@/lib/issueFile';
+import { getIssuePath, toIssueDetails, type IssueDetails } from '@/lib/issueDetails';
+import { EVENT_STATUS_LABELS, getEventClosedError, getEventPath, getEventPhase, sortEvents, toEventDetails } from '@/lib/event';
+import { pickAuditValues } from '@/lib/audit';
+import { getCascadedIssues, isTrashed, sortByDeletedAt } from '@/lib/trash';
+import { DEFAULT_SCORING_RULES, getOccupyLimitError, migrateIssueDifficulty, needsDifficultyMigration } from '@/lib/scoring';
+import { countHeldIssues, getActiveOffer, getOfferHeldError, getWaitlistPosition } from '@/lib/waitlist';
+import { getFrozenTeams } from '@/lib/leaderboard';
 
 interface AppContextType {
+  events: ContestEvent[];
+  eventsLoaded: boolean;
+  /** The event named in the URL; everything below is scoped to it */
+  currentEvent: ContestEvent | null;
+  selectEvent: (slug: string | null) => void;
   currentTeam: Team | null;
   teams: Team[];
   repositories: Repository[];
   issues: Issue[];
+  /** Deleted from the admin panel and restorable, newest first */
+  trashedRepositories: Repository[];
+  trashedIssues: Issue[];
+  scoringRules: ScoringRules;
+  ledger: PointsEntry[];
+  /** Loaded for admins only */
+  auditLog: AuditEntry[];
+  /** Hint texts by issue id; loaded for admins only */
+  issueHints: Record<string, IssueHint[]>;
+  /** Every team's unlocks for admins, the signed-in team's own otherwise; newest first */
+  hintUnlocks: HintUnlock[];
+  /** Every team's requests for admins, the signed-in team's own otherwise; newest first */
+  extensionRequests: ExtensionRequest[];
   isAdmin: boolean;
-  loginTeam: (teamName: string, password: string) => { success: boolean; error?: string };
-  logoutTeam: () => void;
-  loginAdmin: (username: string, password: string) => boolean;
-  logoutAdmin: () => void;
+  authReady: boolean;
+  loginTeam: (teamName: string, password: string) => Promise<{ success: boolean; error?: string }>;
+  logoutTeam: () => Promise<void>;
+  loginAdmin: (email: string, password: string) => Promise<{ success: boolean; error?: string }>;
+  logoutAdmin: () => Promise<void>;
+  createTeamCredential: (teamName: string) => Promise<TeamCredential | null>;
+  rotateTeamCredential: (teamName: string) => Promise<TeamCredential | null>;
+  revokeTeamCredential: (teamName: string) => Promise<void>;
+  updateTeamGitHubAccounts: (teamName: string, usernames: string[]) => Promise<void>;
+  updateScoringRules: (rules: ScoringRules) => Promise<boolean>;
+  createEvent: (slug: string, details: EventDetails) => Promise<boolean>;
+  updateEvent: (details: EventDetails) => Promise<boolean>;
+  changeEventStatus: (status: EventStatus) => Promise<void>;
+  freezeLeaderboard: () => Promise<void>;
+  revealTeam: (teamName: string) => Promise<void>;
+  unfreezeLeaderboard: () => Promise<void>;
+  migrateIssueDifficulties: () => Promise<void>;
   addRepository: (repo: Repository) => Promise<void>;
+  /** Moves the repository and its issues to the trash */
   deleteRepository: (name: string) => Promise<void>;
+  restoreRepository: (repoId: string) => Promise<void>;
+  purgeRepository: (repoId: string) => Promise<void>;
   addIssue: (issue: Omit<Issue, 'id' | 'status' | 'assignedTo'>) => Promise<void>;
+  importGitHubIssues: (repoName: string, rows: GitHubImportRow[]) => Promise<void>;
+  /** Bulk create from an uploaded file; resolves false if nothing was written */
+  importIssues: (issues: NewIssue[]) => Promise<boolean>;
   occupyIssue: (issueId: string) => Promise<{ success: boolean; error?: string }>;
-  closeIssue: (issueId: string, prUrl: string) => { success: boolean; error?: string };
+  /** Give back an issue the team holds; resolves with the points deducted */
+  releaseIssue: (issueId: string) => Promise<{ success: boolean; error?: string; penalty?: number }>;
+  closeIssue: (issueId: string, prUrl: string) => Promise<{ success: boolean; error?: string; verification?: PrVerification }>;
+  reverifyPullRequest: (issueId: string) => Promise<void>;
   moveIssue: (issueId: string, status: Issue['status']) => Promise<void>;
-  updatePrStatus: (issueId: string, status: 'approved' | 'merged' | 'rejected') => Promise<void>;
-  awardPoints: (teamName: string, points: number) => Promise<void>;
+  /** Description, acceptance criteria, file hints and links; resolves false on failure */
+  updateIssueDetails: (issueId: string, details: IssueDetails) => Promise<boolean>;
+  /** Replace the issue's hints; resolves false on failure */
+  saveIssueHints: (issueId: string, hints: IssueHint[]) => Promise<boolean>;
+  /** For the team holding the issue; charges the hint's cost */
+  unlockHint: (issueId: string, hintIndex: number) => Promise<boolean>;
+  /** For teams other than the holder: queue for the issue */
+  joinWaitlist: (issueId: string) => Promise<boolean>;
+  leaveWaitlist: (issueId: string) => Promise<boolean>;
+  /** For the team holding the issue; asks the admins for more time */
+  requestExtension: (issueId: string, reason: string) => Promise<boolean>;
+  /** Grant `minutes` more on the request's issue, or deny it (null) */
+  resolveExtensionRequest: (requestId: string, minutes: number | null) => Promise<boolean>;
+  updatePrStatus: (issueId: string, status: PrReviewStatus) => Promise<void>;
+  adjustPoints: (teamName: string, delta: number, note: string) => Promise<boolean>;
+  reversePointsEntry: (entryId: string, note: string) => Promise<void>;
   assignIssue: (issueId: string, teamName: string | null) => Promise<void>;
+  /** Moves the issue to the trash */
   deleteIssue: (issueId: string) => Promise<void>;
+  restoreIssue: (issueId: string) => Promise<void>;
+  purgeIssue: (issueId: string) => Promise<void>;
 }
 
 const AppContext = createContext<AppContextType | undefined>(undefined);
 
-const ALLOWED_TEAMS = ["123", "TeamBravo", "TeamCharlie", "TeamDelta"];
-
-// Team passwords
-const TEAM_PASSWORDS: { [key: string]: string } = {
-  "123": "123",
-  "TeamBravo": "bravo123",
-  "TeamCharlie": "charlie123",
-  "TeamDelta": "delta123",
-};
-
-const INITIAL_REPOSITORIES: Repository[] = [
-  { name: "awesome-repo", url: "https://github.com/example/awesome-repo" },
-  { name: "ui-kit", url: "https://github.com/example/ui-kit" },
-  { name: "lib-helpers", url: "https://github.com/example/lib-helpers" },
-];
+// How long the Undo button stays on an admin change's toast
+const UNDO_WINDOW_MS = 10_000;
 
 export const AppProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
-  const [currentTeam, setCurrentTeam] = useState<Team | null>(null);
+  const [session, setSession] = useState<AuthSession | null>(null);
+  const [events, setEvents] = useState<ContestEvent[]>([]);
+  const [eventsLoaded, setEventsLoaded] = useState(false);
+  const [eventSlug, setEventSlug] = useState<string | null>(null);
+  const [authResolved, setAuthResolved] = useState(false);
   const [teams, setTeams] = useState<Team[]>([]);
+  const [teamsLoaded, setTeamsLoaded] = useState(false);
   const [repositories, setRepositories] = useState<Repository[]>([]);
   const [issues, setIssues] = useState<Issue[]>([]);
-  const [isAdmin, setIsAdmin] = useState(false);
-  const [isInitialized, setIsInitialized] = useState(false);
+  const [trashedRepositories, setTrashedRepositories] = useState<Repository[]>([]);
+  const [trashedIssues, setTrashedIssues] = useState<Issue[]>([]);
+  const [scoringRules, setScoringRules] = useState<ScoringRules>(DEFAULT_SCORING_RULES);
+  const [ledger, setLedger] = useState<PointsEntry[]>([]);
+  const [auditLog, setAuditLog] = useState<AuditEntry[]>([]);
+  const [issueHints, setIssueHints] = useState<Record<string, IssueHint[]>>({});
+  const [hintUnlocks, setHintUnlocks] = useState<HintUnlock[]>([]);
+  const [extensionRequests, setExtensionRequests] = useState<ExtensionRequest[]>([]);
+
+  const currentEvent = events.find(event => event.slug === eventSlug) ?? null;
+
+  // Teams and admins are identified by their auth session (role claims);
+  // team data itself comes from the live teams subscription. A team login
+  // only counts inside the event it belongs to.
+  const isAdmin = session?.role === 'admin';
+  const teamSession = session?.role === 'team' && session.eventSlug === eventSlug ? session : null;
+  // While the leaderboard is frozen, non-admins may read only the revealed
+  // teams and part of the ledger (see firestore.rules); the other teams'
+  // points, their own included, come from the freeze snapshot
+  const readScope = isAdmin ? null : currentEvent?.freeze ?? null;
+  const readScopeKey = authResolved && currentEvent ? JSON.stringify(readScope) : null;
+  const visibleTeams = readScope ? getFrozenTeams(readScope, teams) : teams;
+  const currentTeam = teamSession
+    ? visibleTeams.find(t => t.name === teamSession.teamName)
+      // Teams added during a freeze are not in its snapshot
+      ?? (readScope ? { name: teamSession.teamName, points: 0, active: true } : null)
+    : null;
+  // Pages wait for this before redirecting, so a reload keeps the team signed in
+  const authReady = authResolved && (!teamSession || teamsLoaded);
 
-  // Initialize Firebase data on first load
   useEffect(() => {
-    const initializeData = async () => {
-      try {
-        // Check if teams exist
-        const existingTeams = await getAllTeams();
-        
-        if (existingTeams.length === 0) {
-          // Initialize teams
-          await initializeTeams(ALLOWED_TEAMS);
-        } else {
-          // Reset all active states on app load (handle stale sessions)
-          for (const team of existingTeams) {
-            if (team.active) {
-              await updateTeam(team.name, { active: false });
-            }
-          }
-        }
-
-        // Check if repositories exist
-        const existingRepos = await getAllRepositories();
-        
-        if (existingRepos.length === 0) {
-          // Initialize repositories
-          await initializeRepositories(INITIAL_REPOSITORIES);
-        }
-
-        setIsInitialized(true);
-      } catch (error) {
-        console.error('Error initializing data:', error);
-        toast.error(`Failed to initialize data: ${error.message}`);
-      }
-    };
-
-    initializeData();
+    const unsubscribeAuth = dataStore.onAuthStateChanged((nextSession) => {
+      setSession(nextSession);
+      setAuthResolved(true);
+    });
+    return () => unsubscribeAuth();
   }, []);
 
   // Temporary global pointerdown logger for debugging desktop click interception
@@ -156,32 +198,31 @@ export const AppProvider: React.FC<{ children: React.ReactNode }> = ({ children
     };
   }, []);
 
-  // Subscribe to real-time updates
   useEffect(() => {
-    if (!isInitialized) return;
-
-    console.log('[DEBUG] Setting up Firestore subscriptions');
-
-    const unsubscribeTeams = subscribeToTeams((updatedTeams) => {
-      console.log('[DEBUG] Teams update received:', updatedTeams.length, 'teams');
-      setTeams(updatedTeams);
-      // Update current team if logged in
-      if (currentTeam) {
-        const updated = updatedTeams.find(t => t.name === currentTeam.name);
-        if (updated && JSON.stringify(updated) !== JSON.stringify(currentTeam)) {
-          console.log('[DEBUG] Updating current team data');
-          setCurrentTeam(updated);
-        }
-      }
+    const unsubscribeEvents = dataStore.subscribeToEvents((updatedEvents) => {
+      setEvents(sortEvents(updatedEvents));
+      setEventsLoaded(true);
     });
+    return () => unsubscribeEvents();
+  }, []);
 
-    const unsubscribeRepos = subscribeToRepositories((updatedRepos) => {
+  // Subscribe to real-time updates for the selected event
+  useEffect(() => {
+    if (!eventSlug) return;
+    console.log('[DEBUG] Setting up data store subscriptions for', eventSlug);
+    dataStore.setActiveEvent(eventSlug);
+
+    const unsubscribeRepos = dataStore.subscribeToRepositories((updatedRepos) => {
       console.log('[DEBUG] Repositories update received:', updatedRepos.length, 'repos');
-      setRepositories(updatedRepos);
+      // Everything but the trash view only ever sees live repositories
+      setRepositories(updatedRepos.filter(repo => !isTrashed(repo)));
+      setTrashedRepositories(sortByDeletedAt(updatedRepos.filter(isTrashed)));
     });
 
-    const unsubscribeIssues = subscribeToIssues((updatedIssues) => {
-      console.log('[DEBUG] Issues update received:', updatedIssues.length, 'issues');
+    const unsubscribeIssues = dataStore.subscribeToIssues((allIssues) => {
+      console.log('[DEBUG] Issues update received:', allIssues.length, 'issues');
+      const updatedIssues = allIssues.filter(issue => !isTrashed(issue));
+      setTrashedIssues(sortByDeletedAt(allIssues.filter(isTrashed)));
       setIssues(prev => {
         // Only update if there are actual changes
         if (JSON.stringify(prev) !== JSON.stringify(updatedIssues)) {
@@ -192,118 +233,608 @@ export const AppProvider: React.FC<{ children: React.ReactNode }> = ({ children
       });
     });
 
+    const unsubscribeRules = dataStore.subscribeToScoringRules((updatedRules) => {
+      console.log('[DEBUG] Scoring rules update received:', updatedRules.tiers.length, 'tiers');
+      setScoringRules(updatedRules);
+    });
+
     return () => {
-      console.log('[DEBUG] Cleaning up Firestore subscriptions');
-      unsubscribeTeams();
+      console.log('[DEBUG] Cleaning up data store subscriptions');
       unsubscribeRepos();
       unsubscribeIssues();
+      unsubscribeRules();
+      // Nothing from this event may show up under the next one
+      setTeams([]);
+      setTeamsLoaded(false);
+      setRepositories([]);
+      setIssues([]);
+      setTrashedRepositories([]);
+      setTrashedIssues([]);
+      setScoringRules(DEFAULT_SCORING_RULES);
+      setLedger([]);
+    };
+  }, [eventSlug]);
+
+  // Points are subscribed to apart from the rest: a freeze, a reveal or an
+  // admin signing in changes which of them the session may read
+  useEffect(() => {
+    if (!eventSlug || readScopeKey === null) return;
+    const freeze = JSON.parse(readScopeKey) as LeaderboardFreeze | null;
+
+    const unsubscribeTeams = dataStore.subscribeToTeams((updatedTeams) => {
+      console.log('[DEBUG] Teams update received:', updatedTeams.length, 'teams');
+      setTeams(updatedTeams);
+      setTeamsLoaded(true);
+    }, freeze);
+
+    const unsubscribeLedger = dataStore.subscribeToLedger((entries) => {
+      console.log('[DEBUG] Ledger update received:', entries.length, 'entries');
+      setLedger(entries);
+    }, freeze);
+
+    return () => {
+      unsubscribeTeams();
+      unsubscribeLedger();
     };
-  }, [isInitialized]); // Remove currentTeam dependency to prevent re-subscribing
+  }, [eventSlug, readScopeKey]);
 
-  // Check for expired issues
+  // Only admins may read the audit log
   useEffect(() => {
-    const checkExpiredIssues = async () => {
-      const now = Date.now();
-      const timeouts = {
-        easy: 20 * 60 * 1000,   // 20 minutes
-        medium: 40 * 60 * 1000, // 40 minutes
-        hard: 60 * 60 * 1000    // 60 minutes
-      };
-
-      for (const issue of issues) {
-        if (issue.status === 'occupied' && issue.occupiedAt && issue.assignedTo) {
-          const tag = issue.tags[0] as keyof typeof timeouts;
-          const timeLimit = timeouts[tag] || timeouts.medium;
-          const elapsed = now - issue.occupiedAt;
-
-          if (elapsed >= timeLimit) {
-            // Time expired - deduct points and reset issue
-            const penalties = { easy: 5, medium: 10, hard: 15 };
-            const penalty = penalties[tag] || 0;
-
-            // Deduct points from team
-            const team = teams.find(t => t.name === issue.assignedTo);
-            if (team) {
-              const newPoints = Math.max(0, team.points - penalty);
-              await updateTeam(team.name, { points: newPoints });
-              toast.error(`⏰ Time expired for "${issue.title}"! ${penalty} points deducted from ${team.name}.`);
-            }
-
-            // Reset issue
-            await updateIssueInDb(issue.id, {
-              status: 'open',
-              assignedTo: null,
-              occupiedAt: null,
-              closedAt: null
-            });
+    if (!eventSlug || !isAdmin) return;
+    const unsubscribeAudit = dataStore.subscribeToAuditLog(setAuditLog);
+    return () => {
+      unsubscribeAudit();
+      setAuditLog([]);
+    };
+  }, [eventSlug, isAdmin]);
+
+  // Issue expiry and penalties are applied by the data store's authoritative
+  // worker (functions/src/expiry.ts for Firestore), not by each browser.
+  // Here we only announce expirations that happen while the app is open.
+  useEffect(() => {
+    if (!eventSlug) return;
+    let seen: Set<string> | null = null;
+    const unsubscribeExpirations = dataStore.subscribeToExpirations((expirations) => {
+      if (seen) {
+        for (const expiration of expirations) {
+          if (!seen.has(expiration.occupationId)) {
+            // While the leaderboard is frozen only admins see what an expiry cost
+            const app = latestRef.current;
+            toast.error(app?.currentEvent?.freeze && !app.isAdmin
+              ? `⏰ Time expired for "${expiration.issueTitle}" (${expiration.teamName}).`
+              : `⏰ Time expired for "${expiration.issueTitle}"! ${expiration.penalty} points deducted from ${expiration.teamName}.`);
           }
         }
       }
+      seen = new Set(expirations.map(e => e.occupationId));
+    });
+
+    return () => unsubscribeExpirations();
+  }, [eventSlug]);
+
+  // Heartbeats keep the team's single session alive (and Team.active true)
+  // for as long as this tab is open. Auth persists across reloads and the
+  // session id lives in localStorage, so a refresh resumes the same session.
+  const sessionTeamName = teamSession?.teamName ?? null;
+  // loginTeam claims the session itself; heartbeats wait until it has
+  const loggingInRef = useRef(false);
+  useEffect(() => {
+    if (!sessionTeamName) return;
+
+    const sessionId = getSessionId();
+    let cancelled = false;
+
+    const beat = async () => {
+      if (loggingInRef.current) return;
+      try {
+        const stillActive = await dataStore.sendHeartbeat(sessionTeamName, sessionId);
+        if (!stillActive && !cancelled) {
+          toast.error('Your team signed in on another device. You have been logged out.');
+          await dataStore.signOut();
+          setSession(null);
+        }
+      } catch (error) {
+        console.warn('[DEBUG] Heartbeat failed:', error);
+      }
     };
 
-    const interval = setInterval(checkExpiredIssues, 10000); // Check every 10 seconds
-    return () => clearInterval(interval);
-  }, [issues, teams]);
+    beat();
+    const interval = setInterval(beat, HEARTBEAT_INTERVAL_MS);
+    return () => {
+      cancelled = true;
+      clearInterval(interval);
+    };
+  }, [sessionTeamName]);
+
+  // Hint texts are for admins; a team only sees the hints it unlocked
+  useEffect(() => {
+    if (!eventSlug || (!isAdmin && !sessionTeamName)) return;
+    const unsubscribeHints = isAdmin ? dataStore.subscribeToIssueHints(setIssueHints) : () => {};
+    const unsubscribeUnlocks = dataStore.subscribeToHintUnlocks(isAdmin ? null : sessionTeamName, setHintUnlocks);
+    return () => {
+      unsubscribeHints();
+      unsubscribeUnlocks();
+      setIssueHints({});
+      setHintUnlocks([]);
+    };
+  }, [eventSlug, isAdmin, sessionTeamName]);
+
+  // Admins hear about new requests and teams about answers to theirs, as
+  // long as the app is open when they happen
+  useEffect(() => {
+    if (!eventSlug || (!isAdmin && !sessionTeamName)) return;
+    let seen: Map<string, ExtensionRequest['status']> | null = null;
+    const unsubscribeRequests = dataStore.subscribeToExtensionRequests(isAdmin ? null : sessionTeamName, (requests) => {
+      setExtensionRequests(requests);
+      if (seen) {
+        for (const request of requests) {
+          const previous = seen.get(request.id);
+          if (isAdmin && !previous && request.status === 'pending') {
+            toast.info(`⏳ ${request.teamName} asks for more time on "${request.issueTitle}".`);
+          } else if (!isAdmin && previous === 'pending' && request.status === 'granted') {
+            toast.success(`⏳ ${request.minutes} more minutes granted on "${request.issueTitle}"!`);
+          } else if (!isAdmin && previous === 'pending' && request.status === 'denied') {
+            toast.error(`Your request for more time on "${request.issueTitle}" was denied.`);
+          }
+        }
+      }
+      seen = new Map(requests.map(request => [request.id, request.status]));
+    });
+    return () => {
+      unsubscribeRequests();
+      setExtensionRequests([]);
+    };
+  }, [eventSlug, isAdmin, sessionTeamName]);
 
-  const loginTeam = (teamName: string, password: string) => {
-    if (!ALLOWED_TEAMS.includes(teamName)) {
-      return { success: false, error: 'Team not recognized. Contact admin.' };
+  // Tell a team when an issue it queued for comes free and is held for it
+  const seenOffersRef = useRef<Set<string> | null>(null);
+  useEffect(() => {
+    if (!sessionTeamName) {
+      seenOffersRef.current = null;
+      return;
     }
+    const offers = issues.filter(issue => getActiveOffer(issue) === sessionTeamName);
+    const keys = offers.map(issue => `${issue.id}_${issue.offerExpiresAt}`);
+    if (seenOffersRef.current) {
+      offers.forEach((issue, index) => {
+        if (!seenOffersRef.current!.has(keys[index])) {
+          toast.success(`🎟️ "${issue.title}" is free and held for your team. Claim it before ${new Date(issue.offerExpiresAt!).toLocaleTimeString()}!`, {
+            duration: 15_000
+          });
+        }
+      });
+    }
+    seenOffersRef.current = new Set(keys);
+  }, [issues, sessionTeamName]);
+
+  // Best effort: the change itself has already succeeded, so a failed audit
+  // write is logged rather than reported as a failure of the change
+  const audit = async (entry: AuditInput) => {
+    try {
+      await dataStore.appendAuditEntry(entry);
+    } catch (error) {
+      console.error('Failed to write audit entry:', error);
+    }
+  };
 
-    if (TEAM_PASSWORDS[teamName] !== password) {
-      return { success: false, error: 'Invalid password. Please check your team password.' };
+  const auditIssue = (
+    action: AuditInput['action'],
+    issue: Issue,
+    teamName: string | null,
+    before: AuditInput['before'],
+    after: AuditInput['after']
+  ) => audit({ action, target: issue.title, issueId: issue.id, teamName, before, after });
+
+  // Toasts render inside the router, so they can link to an issue's page
+  const issueLink = (issue: Pick<Issue, 'id' | 'repo'>) =>
+    eventSlug ? <Link to={getEventPath(eventSlug, getIssuePath(issue))} className="underline">View issue</Link> : undefined;
+
+  // Admin changes that can be taken back offer an Undo button on their toast
+  // for a while; undoing is itself a change, so it is audited and undoable.
+  // The toast outlives this render, so undo runs against the latest context,
+  // and only while it is still on the event the change was made in.
+  const latestRef = useRef<AppContextType | null>(null);
+  const toastWithUndo = (message: string, undo: (app: AppContextType) => Promise<unknown>, issue?: Pick<Issue, 'id' | 'repo'>) => {
+    const slug = eventSlug;
+    toast.success(message, {
+      description: issue && issueLink(issue),
+      duration: UNDO_WINDOW_MS,
+      action: {
+        label: 'Undo',
+        onClick: () => {
+          const app = latestRef.current!;
+          if (app.currentEvent?.slug !== slug) {
+            toast.error('Switch back to the event this change was made in to undo it.');
+            return;
+          }
+          void undo(app);
+        }
+      }
+    });
+  };
+
+  const auditTeam = (action: AuditInput['action'], teamName: string, before: AuditInput['before'], after: AuditInput['after']) =>
+    audit({ action, target: teamName, issueId: null, teamName, before, after });
+
+  const loginTeam = async (teamName: string, password: string) => {
+    const name = teamName.trim();
+    loggingInRef.current = true;
+    try {
+      const result = await dataStore.signInTeam(name, password);
+      if (!result.success) {
+        return result;
+      }
+
+      const claim = await dataStore.claimTeamSession(name, getSessionId());
+      if (!claim.success) {
+        await dataStore.signOut();
+        setSession(null);
+        return claim;
+      }
+
+      setSession(result.session ?? null);
+      return { success: true };
+    } finally {
+      loggingInRef.current = false;
     }
+  };
 
-    const isActive = teams.some(t => t.name === teamName && t.active);
-    if (isActive) {
-      return { success: false, error: 'This team is already active. Only one active session allowed.' };
+  const logoutTeam = async () => {
+    if (sessionTeamName) {
+      await dataStore.releaseTeamSession(sessionTeamName, getSessionId());
     }
+    await dataStore.signOut();
+    setSession(null);
+  };
 
-    const team = teams.find(t => t.name === teamName);
-    if (team) {
-      setCurrentTeam(team);
-      updateTeam(teamName, { active: true });
-      return { success: true };
+  const loginAdmin = async (email: string, password: string) => {
+    const result = await dataStore.signInAdmin(email.trim(), password);
+    if (result.success) {
+      setSession(result.session ?? null);
     }
+    return { success: result.success, error: result.error };
+  };
 
-    return { success: false, error: 'Team not found.' };
+  const logoutAdmin = async () => {
+    await dataStore.signOut();
+    setSession(null);
   };
 
-  const logoutTeam = async () => {
-    if (currentTeam) {
-      await updateTeam(currentTeam.name, { active: false });
-      setCurrentTeam(null);
+  const createTeamCredential = async (teamName: string) => {
+    try {
+      const credential = await dataStore.createTeamCredential(teamName.trim());
+      toast.success(`Login created for ${credential.teamName}!`);
+      await auditTeam('credential.create', credential.teamName, null, null);
+      return credential;
+    } catch (error) {
+      toast.error(error.message || 'Failed to create team login');
+      return null;
+    }
+  };
+
+  const rotateTeamCredential = async (teamName: string) => {
+    try {
+      const credential = await dataStore.rotateTeamCredential(teamName);
+      toast.success(`New password issued for ${teamName}. Old sessions are signed out.`);
+      await auditTeam('credential.rotate', teamName, null, null);
+      return credential;
+    } catch (error) {
+      toast.error(error.message || 'Failed to rotate team login');
+      return null;
+    }
+  };
+
+  const revokeTeamCredential = async (teamName: string) => {
+    try {
+      await dataStore.revokeTeamCredential(teamName);
+      toast.success(`Login revoked for ${teamName}.`);
+      await auditTeam('credential.revoke', teamName, null, null);
+    } catch (error) {
+      toast.error(error.message || 'Failed to revoke team login');
     }
   };
 
-  const loginAdmin = (username: string, password: string) => {
-    if (username === 'dvadmin' && password === '2025') {
-      setIsAdmin(true);
+  const updateTeamGitHubAccounts = async (teamName: string, usernames: string[]) => {
+    try {
+      const previous = teams.find(t => t.name === teamName)?.githubUsernames ?? [];
+      await dataStore.updateTeam(teamName, { githubUsernames: usernames });
+      toastWithUndo(`GitHub accounts updated for ${teamName}!`, app => app.updateTeamGitHubAccounts(teamName, previous));
+      await auditTeam('team.github', teamName, { githubUsernames: previous }, { githubUsernames: usernames });
+    } catch (error) {
+      toast.error(error.message || 'Failed to update GitHub accounts');
+    }
+  };
+
+  const updateScoringRules = async (rules: ScoringRules) => {
+    try {
+      const previous = scoringRules;
+      await dataStore.updateScoringRules(rules);
+      toastWithUndo('Scoring rules updated!', app => app.updateScoringRules(previous));
+      await audit({
+        action: 'scoring.update',
+        target: 'Scoring rules',
+        issueId: null,
+        teamName: null,
+        before: pickAuditValues(scoringRules, ['tiers', 'maxConcurrentIssues', 'releasePenalty', 'claimWindowMinutes']),
+        after: pickAuditValues(rules, ['tiers', 'maxConcurrentIssues', 'releasePenalty', 'claimWindowMinutes'])
+      });
       return true;
+    } catch (error) {
+      toast.error(error.message || 'Failed to update scoring rules');
+      return false;
     }
-    return false;
   };
 
-  const logoutAdmin = () => {
-    setIsAdmin(false);
+  const createEvent = async (slug: string, details: EventDetails) => {
+    try {
+      await dataStore.createEvent(slug, details);
+      toast.success(`Event "${details.name}" created!`);
+      return true;
+    } catch (error) {
+      toast.error(error.message || 'Failed to create event');
+      return false;
+    }
+  };
+
+  const updateEvent = async (details: EventDetails) => {
+    if (!eventSlug) return false;
+    try {
+      const previous = currentEvent && toEventDetails(currentEvent);
+      await dataStore.updateEvent(eventSlug, details);
+      if (previous) {
+        toastWithUndo('Event settings updated!', app => app.updateEvent(previous));
+      } else {
+        toast.success('Event settings updated!');
+      }
+      const keys = Object.keys(details) as (keyof EventDetails)[];
+      await audit({
+        action: 'event.update',
+        target: details.name,
+        issueId: null,
+        teamName: null,
+        before: currentEvent ? pickAuditValues(currentEvent, keys) : null,
+        after: pickAuditValues(details, keys)
+      });
+      return true;
+    } catch (error) {
+      toast.error(error.message || 'Failed to update event settings');
+      return false;
+    }
+  };
+
+  const changeEventStatus = async (status: EventStatus) => {
+    const previous = currentEvent && getEventPhase(currentEvent);
+    const result = await dataStore.changeEventStatus(status);
+    if (result.success) {
+      toast.success(`Event is now ${EVENT_STATUS_LABELS[status].toLowerCase()}.`);
+      await audit({
+        action: 'event.status',
+        target: currentEvent?.name ?? '',
+        issueId: null,
+        teamName: null,
+        before: { status: previous ?? null },
+        after: { status }
+      });
+    } else {
+      toast.error(result.error || 'Failed to change the event status');
+    }
+  };
+
+  const freezeLeaderboard = async () => {
+    try {
+      await dataStore.freezeLeaderboard();
+      toast.success('Leaderboard frozen. Scoring continues behind the scenes.');
+      await audit({ action: 'leaderboard.freeze', target: 'Leaderboard', issueId: null, teamName: null, before: null, after: null });
+    } catch (error) {
+      toast.error(error.message || 'Failed to freeze the leaderboard');
+    }
+  };
+
+  const revealTeam = async (teamName: string) => {
+    try {
+      await dataStore.revealTeam(teamName);
+      const team = teams.find(t => t.name === teamName);
+      toast.success(`Revealed ${teamName}: ${team?.points ?? 0} points`);
+      await auditTeam('leaderboard.reveal', teamName, null, { points: team?.points ?? 0 });
+    } catch (error) {
+      toast.error(error.message || 'Failed to reveal team');
+    }
+  };
+
+  const unfreezeLeaderboard = async () => {
+    try {
+      await dataStore.unfreezeLeaderboard();
+      toast.success('Leaderboard is live again.');
+      await audit({ action: 'leaderboard.unfreeze', target: 'Leaderboard', issueId: null, teamName: null, before: null, after: null });
+    } catch (error) {
+      toast.error(error.message || 'Failed to unfreeze the leaderboard');
+    }
+  };
+
+  // One-off move of legacy difficulty tags (tags[0]) into Issue.difficulty
+  const migrateIssueDifficulties = async () => {
+    const legacyIssues = issues.filter(issue => needsDifficultyMigration(issue, scoringRules));
+    try {
+      await Promise.all(legacyIssues.map(issue =>
+        dataStore.updateIssue(issue.id, migrateIssueDifficulty(issue, scoringRules))
+      ));
+      toast.success(`Migrated ${legacyIssues.length} issue(s) to difficulty tiers!`);
+      await audit({
+        action: 'issue.migrate',
+        target: 'Issues',
+        issueId: null,
+        teamName: null,
+        before: null,
+        after: { migrated: legacyIssues.length }
+      });
+    } catch (error) {
+      toast.error(error.message || 'Failed to migrate issues');
+    }
   };
 
   const addRepository = async (repo: Repository) => {
-    await createRepoInDb(repo);
+    await dataStore.createRepository(repo);
     toast.success('Repository added successfully!');
+    await audit({
+      action: 'repository.create',
+      target: repo.name,
+      issueId: null,
+      teamName: null,
+      before: null,
+      after: pickAuditValues(repo, ['name', 'url'])
+    });
   };
 
   const deleteRepository = async (name: string) => {
     const repo = repositories.find(r => r.name === name);
-    if (repo && repo.id) {
-      await deleteRepoFromDb(repo.id);
-      toast.success('Repository deleted!');
+    if (!repo?.id) return;
+    const repoId = repo.id;
+    const issueCount = getCascadedIssues(repo, issues).length;
+    const result = await dataStore.trashRepository(repoId);
+    if (!result.success) {
+      toast.error(result.error || 'Failed to delete repository');
+      return;
+    }
+    toastWithUndo(`Moved ${repo.name} and its ${issueCount} issue(s) to the trash.`, app => app.restoreRepository(repoId));
+    await audit({
+      action: 'repository.delete',
+      target: repo.name,
+      issueId: null,
+      teamName: null,
+      before: pickAuditValues(repo, ['name', 'url']),
+      after: { issuesTrashed: issueCount }
+    });
+  };
+
+  const restoreRepository = async (repoId: string) => {
+    const repo = trashedRepositories.find(r => r.id === repoId);
+    const result = await dataStore.restoreRepository(repoId);
+    if (!result.success) {
+      toast.error(result.error || 'Failed to restore repository');
+      return;
+    }
+    toast.success(`${repo?.name ?? 'Repository'} restored with its issues.`);
+    await audit({
+      action: 'repository.restore',
+      target: repo?.name ?? repoId,
+      issueId: null,
+      teamName: null,
+      before: null,
+      after: repo ? pickAuditValues(repo, ['name', 'url']) : null
+    });
+  };
+
+  // Deleting for good cannot be undone, so the trash view asks first
+  const purgeRepository = async (repoId: string) => {
+    const repo = trashedRepositories.find(r => r.id === repoId);
+    try {
+      await dataStore.deleteRepository(repoId);
+      toast.success(`${repo?.name ?? 'Repository'} deleted forever.`);
+      await audit({
+        action: 'repository.purge',
+        target: repo?.name ?? repoId,
+        issueId: null,
+        teamName: null,
+        before: repo ? pickAuditValues(repo, ['name', 'url']) : null,
+        after: null
+      });
+    } catch (error) {
+      toast.error(error.message || 'Failed to delete repository');
     }
   };
 
   const addIssue = async (issue: Omit<Issue, 'id' | 'status' | 'assignedTo'>) => {
-    await createIssueInDb({ ...issue, status: 'open', assignedTo: null });
-    toast.success('Issue added successfully!');
+    const issueId = await dataStore.createIssue({ ...issue, status: 'open', assignedTo: null });
+    toastWithUndo('Issue added successfully!', app => app.deleteIssue(issueId), { id: issueId, repo: issue.repo });
+    await audit({
+      action: 'issue.create',
+      target: issue.title,
+      issueId,
+      teamName: null,
+      before: null,
+      after: pickAuditValues(issue, ['title', 'repo', 'difficulty'])
+    });
+  };
+
+  const importIssues = async (newIssues: NewIssue[]) => {
+    let issueIds: string[];
+    try {
+      issueIds = await dataStore.createIssues(newIssues.map(issue => ({ ...issue, status: 'open', assignedTo: null })));
+    } catch (error) {
+      toast.error(error.message || 'Import failed');
+      return false;
+    }
+    toastWithUndo(`Imported ${issueIds.length} issue(s)!`, () => trashImportedIssues(issueIds));
+    await audit({
+      action: 'issue.import',
+      target: 'File upload',
+      issueId: null,
+      teamName: null,
+      before: null,
+      after: { created: issueIds.length }
+    });
+    return true;
+  };
+
+  const trashImportedIssues = async (issueIds: string[]) => {
+    let trashed = 0;
+    for (const issueId of issueIds) {
+      if ((await dataStore.trashIssue(issueId)).success) trashed++;
+    }
+    // Issues a team has occupied in the meantime stay
+    toast.success(`Moved ${trashed} of ${issueIds.length} imported issue(s) to the trash.`);
+    await audit({
+      action: 'issue.delete',
+      target: 'File upload',
+      issueId: null,
+      teamName: null,
+      before: { created: issueIds.length },
+      after: { trashed }
+    });
+  };
+
+  // New rows become open issues described by the GitHub body; linked rows only
+  // sync title and GitHub state, so descriptions edited here are kept
+  const importGitHubIssues = async (repoName: string, rows: GitHubImportRow[]) => {
+    let created = 0;
+    let updated = 0;
+    try {
+      for (const row of rows) {
+        if (row.action === 'new') {
+          await dataStore.createIssue({
+            title: row.github.title,
+            difficulty: row.difficulty,
+            tags: row.tags,
+            repo: repoName,
+            status: 'open',
+            assignedTo: null,
+            githubNumber: row.github.number,
+            githubUrl: row.github.html_url,
+            githubState: row.github.state,
+            ...(row.github.body?.trim() ? { description: row.github.body.trim() } : {})
+          });
+          created++;
+        } else if (row.action === 'update' && row.existing) {
+          await dataStore.updateIssue(row.existing.id, {
+            title: row.github.title,
+            githubUrl: row.github.html_url,
+            githubState: row.github.state
+          });
+          updated++;
+        }
+      }
+      toast.success(`Imported ${created} new and synced ${updated} existing issue(s) from GitHub!`);
+      await audit({
+        action: 'issue.import',
+        target: repoName,
+        issueId: null,
+        teamName: null,
+        before: null,
+        after: { created, updated }
+      });
+    } catch (error) {
+      toast.error(error.message || 'GitHub import failed');
+    }
   };
 
   const occupyIssue = async (issueId: string) => {
@@ -323,6 +854,11 @@ export const AppProvider: React.FC<{ children: React.ReactNode }> = ({ children
 
     // Fast local pre-checks to avoid starting network transactions when we can
     // determine the result locally (faster UX and avoids hangs when offline)
+    const closedError = currentEvent && getEventClosedError(getEventPhase(currentEvent));
+    if (closedError) {
+      return { success: false, error: closedError };
+    }
+
     const issue = issues.find(i => i.id === issueId);
     if (!issue) {
       console.warn('[DEBUG] Occupy aborted: issue not found locally for', issueId);
@@ -334,10 +870,16 @@ export const AppProvider: React.FC<{ children: React.ReactNode }> = ({ children
       return { success: false, error: `This issue is already ${issue.status}. Please choose another issue.` };
     }
 
-    const teamOccupiedCount = issues.filter(i => i.assignedTo === currentTeam.name && i.status === 'occupied').length;
-    if (teamOccupiedCount >= 3) {
-      console.warn('[DEBUG] Occupy aborted: team already has 3 occupied issues for', currentTeam.name);
-      return { success: false, error: 'Your team has already occupied 3 issues. Please close an issue before occupying a new one.' };
+    const heldFor = getActiveOffer(issue);
+    if (heldFor && heldFor !== currentTeam.name) {
+      return { success: false, error: getOfferHeldError(heldFor) };
+    }
+
+    // Issues held for the team on a waitlist count towards the limit
+    const teamOccupiedCount = countHeldIssues(issues, currentTeam.name, Date.now(), issueId);
+    if (teamOccupiedCount >= scoringRules.maxConcurrentIssues) {
+      console.warn('[DEBUG] Occupy aborted: team already at the occupied issue limit for', currentTeam.name);
+      return { success: false, error: getOccupyLimitError(scoringRules.maxConcurrentIssues) };
     }
 
     // Optimistic UI: update local issues immediately so the UI feels snappy
@@ -348,161 +890,444 @@ export const AppProvider: React.FC<{ children: React.ReactNode }> = ({ children
       ...i,
       status: 'occupied',
       assignedTo: currentTeam.name,
-      occupiedAt: now
+      occupiedAt: now,
+      offeredTo: null,
+      offerExpiresAt: null,
+      waitlist: (i.waitlist ?? []).filter(name => name !== currentTeam.name)
     } : i));
 
-    // Wrap transaction with a timeout to avoid hanging the UI indefinitely
-    const TIMEOUT_MS = 10000; // 10 seconds
+    // The occupyIssue function is not idempotent, so it is called once and
+    // never retried: a call the client gave up on may still have succeeded
+    const result = await dataStore.occupyIssue(issueId, currentTeam.name);
 
-  console.log('[DEBUG] Starting occupyIssueTransaction for', issueId);
+    if (!result.success) {
+      // Revert optimistic update on failure
+      setIssues(previousIssues);
+    } else {
+      await auditIssue(
+        'issue.occupy',
+        issue,
+        currentTeam.name,
+        { status: 'open', assignedTo: null },
+        { status: 'occupied', assignedTo: currentTeam.name }
+      );
+    }
 
-  // Try the transaction with a single retry for transient failures
-  const MAX_RETRIES = 1; // one retry
-  let attempt = 0;
+    return result;
+  };
 
-  const attemptTransaction = async (): Promise<{ success: boolean; error?: string }> => {
-    while (attempt <= MAX_RETRIES) {
-      attempt += 1;
-      console.log('[DEBUG] occupyIssue: transaction attempt', attempt, 'for', issueId);
+  const releaseIssue = async (issueId: string) => {
+    if (!currentTeam) {
+      return { success: false, error: 'You must be logged in to release an issue.' };
+    }
+    const issue = issues.find(i => i.id === issueId);
+    if (!issue || issue.assignedTo !== currentTeam.name || issue.status !== 'occupied') {
+      return { success: false, error: 'Your team no longer holds this issue.' };
+    }
 
-      const transactionPromise: Promise<{ success: boolean; error?: string }> = occupyIssueTransaction(issueId, currentTeam.name);
+    // The store records the release in the issue's history along with it
+    return dataStore.releaseIssue(issueId);
+  };
 
-      const wrapped = new Promise<{ success: boolean; error?: string }>(async (resolve) => {
-        const timer = setTimeout(() => {
-          console.warn('[DEBUG] AppContext.occupyIssue timed out for', issueId, 'attempt', attempt);
-          resolve({ success: false, error: 'Transaction timed out. Please try again.' });
-        }, TIMEOUT_MS);
+  const joinWaitlist = async (issueId: string) => {
+    const issue = issues.find(i => i.id === issueId);
+    const result = await dataStore.joinWaitlist(issueId);
+    if (!result.success) {
+      toast.error(result.error || 'Failed to join the waitlist');
+      return false;
+    }
+    const position = (issue?.waitlist?.length ?? 0) + 1;
+    toast.success(`You're #${position} in line. We'll let you know if the issue comes free.`);
+    if (issue) {
+      await auditIssue('waitlist.join', issue, currentTeam?.name ?? null, null, { position });
+    }
+    return true;
+  };
 
-        try {
-          const res = await transactionPromise;
-          clearTimeout(timer);
-          resolve(res);
-        } catch (err: any) {
-          clearTimeout(timer);
-          resolve({ success: false, error: err?.message || 'Transaction failed' });
-        }
-      });
+  const leaveWaitlist = async (issueId: string) => {
+    const issue = issues.find(i => i.id === issueId);
+    const result = await dataStore.leaveWaitlist(issueId);
+    if (!result.success) {
+      toast.error(result.error || 'Failed to leave the waitlist');
+      return false;
+    }
+    toast.success('You left the waitlist.');
+    if (issue && currentTeam) {
+      await auditIssue('waitlist.leave', issue, currentTeam.name, { position: getWaitlistPosition(issue, currentTeam.name) }, null);
+    }
+    return true;
+  };
 
-      const res = await wrapped;
-      // If success, or the error is not transient, return immediately
-      if (res.success) return res;
+  const closeIssue = async (issueId: string, prUrl: string) => {
+    if (!prUrl || !prUrl.trim()) {
+      return { success: false, error: 'PR URL is required' };
+    }
 
-      const errMsg = (res.error || '').toLowerCase();
-      const transientIndicators = ['timed out', 'network', 'transport errored', 'could not reach', 'err_internet_disconnected', 'err_network_changed', 'quic'];
-      const isTransient = transientIndicators.some(ind => errMsg.includes(ind));
+    const issue = issues.find(i => i.id === issueId);
+    if (!issue) {
+      return { success: false, error: 'Issue not found.' };
+    }
 
-      if (!isTransient) {
-        // Non-transient error (e.g., already occupied, team limit) — do not retry
-        return res;
-      }
+    // Also enforced by the closeIssue function
+    const closedError = currentEvent && getEventClosedError(getEventPhase(currentEvent));
+    if (closedError) {
+      return { success: false, error: closedError };
+    }
 
-      if (attempt <= MAX_RETRIES) {
-        // small backoff before retrying
-        const backoff = 500 * attempt;
-        console.log('[DEBUG] occupyIssue: transient failure, backing off', backoff, 'ms before retry for', issueId);
-        await new Promise((r) => setTimeout(r, backoff));
-      }
+    // Verified on the server; a PR that fails a check does not close the issue
+    const result = await dataStore.closeIssue(issueId, prUrl);
+    if (!result.success) {
+      return result;
     }
+    await auditIssue(
+      'issue.close',
+      issue,
+      issue.assignedTo,
+      { status: issue.status },
+      { status: 'closed', prUrl: prUrl.trim(), verification: result.verification?.status ?? null }
+    );
 
-    return { success: false, error: 'Transaction failed after retries. Please check your connection and try again.' };
+    return result;
   };
 
-  const result = await attemptTransaction();
-  console.log('[DEBUG] Finished occupyIssueTransaction for', issueId, 'result=', result);
-    console.log('[DEBUG] AppContext.occupyIssue transaction result for', issueId, result);
+  const reverifyPullRequest = async (issueId: string) => {
+    const issue = issues.find(i => i.id === issueId);
+    if (!issue?.prUrl) return;
 
-    if (!result.success) {
-      // Revert optimistic update on failure
-      console.log('[DEBUG] Reverting optimistic occupy for', issueId);
-      setIssues(previousIssues);
+    const result = await dataStore.reverifyPullRequest(issueId);
+    const verification = result.verification;
+    if (!result.success || !verification) {
+      toast.error(result.error || 'Failed to verify the pull request');
+      return;
+    }
+    await auditIssue(
+      'issue.reverify',
+      issue,
+      issue.assignedTo,
+      { verification: issue.prVerification?.status ?? null },
+      { verification: verification.status }
+    );
+
+    if (verification.status === 'passed') {
+      toast.success('PR verification passed!');
+    } else if (verification.status === 'failed') {
+      toast.error('PR verification failed. See the checks below.');
+    } else {
+      toast.error(verification.error || 'Could not reach GitHub');
     }
+  };
 
-    return result;
+  const moveIssue = async (issueId: string, status: Issue['status']) => {
+    const issue = issues.find(i => i.id === issueId);
+    await dataStore.updateIssue(issueId, { status });
+    if (!issue) {
+      toast.success('Issue status updated!');
+      return;
+    }
+    toastWithUndo('Issue status updated!', app => app.moveIssue(issueId, issue.status), issue);
+    await auditIssue('issue.move', issue, issue.assignedTo, { status: issue.status }, { status });
   };
 
-  const closeIssue = (issueId: string, prUrl: string) => {
-    if (!prUrl || !prUrl.trim()) {
-      return { success: false, error: 'PR URL is required' };
+  const updateIssueDetails = async (issueId: string, details: IssueDetails) => {
+    const issue = issues.find(i => i.id === issueId);
+    const before = issue ? toIssueDetails(issue) : null;
+    try {
+      await dataStore.updateIssue(issueId, details);
+    } catch (error) {
+      toast.error(error.message || 'Failed to save issue details');
+      return false;
     }
+    if (!issue || !before) {
+      toast.success('Issue details saved!');
+      return true;
+    }
+    toastWithUndo('Issue details saved!', app => app.updateIssueDetails(issueId, before), issue);
+    // Only the fields that changed, so long descriptions don't flood the log
+    const changed = (Object.keys(details) as (keyof IssueDetails)[])
+      .filter(key => JSON.stringify(before[key]) !== JSON.stringify(details[key]));
+    if (changed.length > 0) {
+      await auditIssue('issue.edit', issue, issue.assignedTo, pickAuditValues(before, changed), pickAuditValues(details, changed));
+    }
+    return true;
+  };
 
-    updateIssueInDb(issueId, {
-      status: 'closed',
-      closedAt: Date.now(),
-      prUrl: prUrl.trim(),
-      prStatus: 'pending'
-    });
+  // Only the costs go into the audit log: teams can read an issue's entries
+  const saveIssueHints = async (issueId: string, hints: IssueHint[]) => {
+    const issue = issues.find(i => i.id === issueId);
+    const before = issueHints[issueId] ?? [];
+    try {
+      await dataStore.saveIssueHints(issueId, hints);
+    } catch (error) {
+      toast.error(error.message || 'Failed to save hints');
+      return false;
+    }
+    if (!issue) {
+      toast.success('Hints saved!');
+      return true;
+    }
+    toastWithUndo('Hints saved!', app => app.saveIssueHints(issueId, before), issue);
+    await auditIssue(
+      'hint.update',
+      issue,
+      issue.assignedTo,
+      { hintCosts: before.map(hint => hint.cost) },
+      { hintCosts: hints.map(hint => hint.cost) }
+    );
+    return true;
+  };
 
-    return { success: true };
+  const unlockHint = async (issueId: string, hintIndex: number) => {
+    const issue = issues.find(i => i.id === issueId);
+    const cost = issue?.hintCosts?.[hintIndex] ?? 0;
+    const result = await dataStore.unlockHint(issueId, hintIndex);
+    if (!result.success) {
+      toast.error(result.error || 'Failed to unlock the hint');
+      return false;
+    }
+    toast.success(cost > 0 ? `Hint ${hintIndex + 1} unlocked. ${cost} points deducted.` : `Hint ${hintIndex + 1} unlocked.`);
+    if (issue) {
+      await auditIssue('hint.unlock', issue, issue.assignedTo, null, { hint: hintIndex + 1, cost });
+    }
+    return true;
   };
 
-  const moveIssue = async (issueId: string, status: Issue['status']) => {
-    await updateIssueInDb(issueId, { status });
-    toast.success('Issue status updated!');
+  const requestExtension = async (issueId: string, reason: string) => {
+    const issue = issues.find(i => i.id === issueId);
+    const result = await dataStore.requestExtension(issueId, reason);
+    if (!result.success) {
+      toast.error(result.error || 'Failed to request more time');
+      return false;
+    }
+    toast.success('Request sent! The organisers will answer shortly.');
+    if (issue) {
+      await auditIssue('extension.request', issue, issue.assignedTo, null, { reason });
+    }
+    return true;
   };
 
-  const updatePrStatus = async (issueId: string, status: 'approved' | 'merged' | 'rejected') => {
-    await updateIssueInDb(issueId, { prStatus: status });
+  const resolveExtensionRequest = async (requestId: string, minutes: number | null) => {
+    const request = extensionRequests.find(r => r.id === requestId);
+    const issue = request && issues.find(i => i.id === request.issueId);
+    const result = await dataStore.resolveExtensionRequest(requestId, minutes);
+    if (!result.success) {
+      toast.error(result.error || 'Failed to answer the request');
+      return false;
+    }
+    toast.success(minutes === null ? 'Request denied' : `${minutes} minutes granted to ${request?.teamName ?? 'the team'}`);
+    if (request && issue) {
+      const extensionMinutes = issue.extensionMinutes ?? 0;
+      await auditIssue(
+        minutes === null ? 'extension.deny' : 'extension.grant',
+        issue,
+        request.teamName,
+        { status: 'pending', extensionMinutes },
+        minutes === null
+          ? { status: 'denied', extensionMinutes }
+          : { status: 'granted', minutes, extensionMinutes: extensionMinutes + minutes }
+      );
+    }
+    return true;
+  };
 
-    // If PR is merged, award points
+  const updatePrStatus = async (issueId: string, status: PrReviewStatus) => {
+    // The store awards merge points, at most once per occupation
+    const issue = issues.find(i => i.id === issueId);
+    const result = await dataStore.reviewPullRequest(issueId, status);
+    if (!result.success) {
+      toast.error(result.error || 'Failed to update PR status');
+      return;
+    }
+    if (issue) {
+      await auditIssue(
+        'pr.review',
+        issue,
+        issue.assignedTo,
+        { prStatus: issue.prStatus ?? null },
+        result.offeredTo !== undefined
+          ? { prStatus: status, awardedPoints: null, offeredTo: result.offeredTo }
+          : { prStatus: status, awardedPoints: result.awardedPoints ?? null }
+      );
+    }
+
+    // A merge is taken back by reversing its ledger entry instead
     if (status === 'merged') {
-      const issue = issues.find(i => i.id === issueId);
-      if (issue && issue.assignedTo) {
-        const pointsMap = { easy: 10, medium: 20, hard: 30 };
-        const tag = issue.tags[0] as keyof typeof pointsMap;
-        const points = pointsMap[tag] || 0;
-
-        const team = teams.find(t => t.name === issue.assignedTo);
-        if (team) {
-          await updateTeam(team.name, { points: team.points + points });
-          toast.success(`${issue.assignedTo} awarded ${points} points for ${issue.title}!`);
-        }
+      if (result.awardedPoints !== undefined) {
+        toast.success(`${issue?.assignedTo} awarded ${result.awardedPoints} points for ${issue?.title}!`, {
+          description: issue && issueLink(issue)
+        });
+      } else {
+        toast.success('PR marked as merged. Points were already awarded for this submission.');
       }
-    } else if (status === 'rejected') {
-      toast.error('PR rejected. Team will not receive points.');
-    } else if (status === 'approved') {
-      toast.success('PR approved! Waiting for merge.');
+    } else if (result.offeredTo) {
+      // The issue has moved on to the waitlist, so there is nothing to undo
+      toast.success(`PR rejected. The issue is now held for ${result.offeredTo}, next on its waitlist.`);
+    } else if (issue) {
+      toastWithUndo(
+        status === 'rejected' ? 'PR rejected. Team will not receive points.' : 'PR approved! Waiting for merge.',
+        app => revertPrStatus(issue, app.issues.find(i => i.id === issueId)),
+        issue
+      );
+    }
+  };
+
+  // Reviews only move forward through the store, so Undo writes the old status back
+  const revertPrStatus = async (issue: Issue, current: Issue | undefined) => {
+    if (current?.prStatus === 'merged') {
+      toast.error('The PR has been merged since. Reverse its ledger entry instead.');
+      return;
+    }
+    await dataStore.updateIssue(issue.id, { prStatus: issue.prStatus ?? 'pending' });
+    toast.success('PR review undone.');
+    await auditIssue(
+      'pr.review',
+      issue,
+      issue.assignedTo,
+      { prStatus: current?.prStatus ?? null },
+      { prStatus: issue.prStatus ?? 'pending' }
+    );
+  };
+
+  // Points only change through ledger entries; the store applies the delta
+  // atomically instead of writing a total computed from local state.
+  const adjustPoints = async (teamName: string, delta: number, note: string) => {
+    const result = await dataStore.adjustPoints(teamName, delta, note);
+    if (!result.success) {
+      toast.error(result.error || 'Failed to adjust points');
+      return false;
     }
+    toast.success(delta >= 0 ? `Awarded ${delta} points to ${teamName}!` : `Deducted ${-delta} points from ${teamName}.`);
+    const points = teams.find(t => t.name === teamName)?.points ?? 0;
+    await auditTeam('points.adjust', teamName, { points }, { points: points + delta, note });
+    return true;
   };
 
-  const awardPoints = async (teamName: string, points: number) => {
-    const team = teams.find(t => t.name === teamName);
-    if (team) {
-      await updateTeam(teamName, { points: team.points + points });
-      toast.success(`Awarded ${points} points to ${teamName}!`);
+  const reversePointsEntry = async (entryId: string, note: string) => {
+    const entry = ledger.find(e => e.id === entryId);
+    const result = await dataStore.reversePointsEntry(entryId, note);
+    if (result.success) {
+      toast.success('Ledger entry reversed.');
+      if (entry) {
+        await auditTeam('points.reverse', entry.teamName, pickAuditValues(entry, ['id', 'delta', 'reason']), { delta: -entry.delta, note });
+      }
+    } else {
+      toast.error(result.error || 'Failed to reverse entry');
     }
   };
 
   const assignIssue = async (issueId: string, teamName: string | null) => {
-    await updateIssueInDb(issueId, { assignedTo: teamName });
-    toast.success(teamName ? `Issue assigned to ${teamName}!` : 'Issue unassigned!');
+    const issue = issues.find(i => i.id === issueId);
+    await dataStore.updateIssue(issueId, { assignedTo: teamName });
+    const message = teamName ? `Issue assigned to ${teamName}!` : 'Issue unassigned!';
+    if (!issue) {
+      toast.success(message);
+      return;
+    }
+    toastWithUndo(message, app => app.assignIssue(issueId, issue.assignedTo), issue);
+    await auditIssue('issue.assign', issue, teamName ?? issue.assignedTo, { assignedTo: issue.assignedTo }, { assignedTo: teamName });
   };
 
   const deleteIssue = async (issueId: string) => {
-    await deleteIssueFromDb(issueId);
-    toast.success('Issue deleted!');
+    const issue = issues.find(i => i.id === issueId);
+    const result = await dataStore.trashIssue(issueId);
+    if (!result.success) {
+      toast.error(result.error || 'Failed to delete issue');
+      return;
+    }
+    toastWithUndo('Issue moved to the trash.', app => app.restoreIssue(issueId));
+    if (issue) {
+      await auditIssue('issue.delete', issue, issue.assignedTo, pickAuditValues(issue, ['title', 'repo', 'status', 'assignedTo']), null);
+    }
+  };
+
+  const restoreIssue = async (issueId: string) => {
+    const issue = trashedIssues.find(i => i.id === issueId);
+    const result = await dataStore.restoreIssue(issueId);
+    if (!result.success) {
+      toast.error(result.error || 'Failed to restore issue');
+      return;
+    }
+    toast.success(`${issue?.title ?? 'Issue'} restored.`, { description: issue && issueLink(issue) });
+    if (issue) {
+      await auditIssue('issue.restore', issue, issue.assignedTo, null, pickAuditValues(issue, ['title', 'repo', 'status', 'assignedTo']));
+    }
+  };
+
+  const purgeIssue = async (issueId: string) => {
+    const issue = trashedIssues.find(i => i.id === issueId);
+    try {
+      await dataStore.deleteIssue(issueId);
+      toast.success(`${issue?.title ?? 'Issue'} deleted forever.`);
+      if (issue) {
+        await auditIssue('issue.purge', issue, issue.assignedTo, pickAuditValues(issue, ['title', 'repo', 'status', 'assignedTo']), null);
+      }
+    } catch (error) {
+      toast.error(error.message || 'Failed to delete issue');
+    }
   };
 
   const value: AppContextType = {
+    events,
+    eventsLoaded,
+    currentEvent,
+    selectEvent: setEventSlug,
     currentTeam,
-    teams,
+    teams: visibleTeams,
     repositories,
     issues,
+    trashedRepositories,
+    trashedIssues,
+    scoringRules,
+    ledger,
+    auditLog,
+    issueHints,
+    hintUnlocks,
+    extensionRequests,
     isAdmin,
+    authReady,
     loginTeam,
     logoutTeam,
     loginAdmin,
     logoutAdmin,
+    createTeamCredential,
+    rotateTeamCredential,
+    revokeTeamCredential,
+    updateTeamGitHubAccounts,
+    updateScoringRules,
+    createEvent,
+    updateEvent,
+    changeEventStatus,
+    freezeLeaderboard,
+    revealTeam,
+    unfreezeLeaderboard,
+    migrateIssueDifficulties,
     addRepository,
     deleteRepository,
+    restoreRepository,
+    purgeRepository,
     addIssue,
+    importGitHubIssues,
+    importIssues,
     occupyIssue,
+    releaseIssue,
     closeIssue,
+    reverifyPullRequest,
     moveIssue,
+    updateIssueDetails,
+    saveIssueHints,
+    unlockHint,
+    joinWaitlist,
+    leaveWaitlist,
+    requestExtension,
+    resolveExtensionRequest,
     updatePrStatus,
-    awardPoints,
+    adjustPoints,
+    reversePointsEntry,
     assignIssue,
-    deleteIssue
+    deleteIssue,
+    restoreIssue,
+    purgeIssue
   };
+  latestRef.current = value;
 
   return <AppContext.Provider value={value}>{children}</AppContext.Provider>;
 };
@@ -515,3 +1340,11 @@ export const useApp = () => {
   return context;
 };
 
+/** For pages under /e/:eventSlug, which only render once their event has loaded */
+export const useCurrentEvent = () => {
+  const { currentEvent } = useApp();
+  if (!currentEvent) {
+    throw new Error('useCurrentEvent must be used inside an event route');
+  }
+  return currentEvent;
+};
@@ -0,0 +1,9 @@
+import { useCallback } from 'react';
+import { useParams } from 'react-router-dom';
+import { getEventPath } from '@/lib/event';
+
+/** Builds links that stay inside the event named in the current URL */
+export const useEventPath = () => {
+  const { eventSlug = '' } = useParams();
+  return useCallback((path: string = '') => getEventPath(eventSlug, path), [eventSlug]);
+};
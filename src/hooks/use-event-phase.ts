@@ -0,0 +1,19 @@
+import { useEffect, useState } from 'react';
+import { getEventPhase } from '@/lib/event';
+import type { ContestEvent, EventStatus } from '@/types';
+
+/**
+ * The event's phase, kept current as scheduled start and end times pass.
+ * Checks every second but only re-renders when the phase changes.
+ */
+export const useEventPhase = (event: ContestEvent): EventStatus => {
+  const [phase, setPhase] = useState(() => getEventPhase(event));
+
+  useEffect(() => {
+    setPhase(getEventPhase(event));
+    const clock = setInterval(() => setPhase(getEventPhase(event)), 1000);
+    return () => clearInterval(clock);
+  }, [event]);
+
+  return phase;
+};
@@ -0,0 +1,24 @@
+import { useEffect, useState } from 'react';
+import { dataStore } from '@/services/dataStore';
+import type { AuditEntry } from '@/types';
+
+/**
+ * Live audit entries for one issue of the current event, oldest first.
+ * `loaded` stays false until the first snapshot arrives.
+ */
+export const useIssueActivity = (issueId: string | undefined) => {
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [loaded, setLoaded] = useState(false);
+
+  useEffect(() => {
+    setEntries([]);
+    setLoaded(false);
+    if (!issueId) return;
+    return dataStore.subscribeToIssueActivity(issueId, (activity) => {
+      setEntries(activity);
+      setLoaded(true);
+    });
+  }, [issueId]);
+
+  return { entries, loaded };
+};
@@ -0,0 +1,35 @@
+import { useEffect, useState } from 'react';
+import { getEventClock } from '@/lib/event';
+import { getActiveOffer } from '@/lib/waitlist';
+import type { ContestEvent, Issue } from '@/types';
+
+export interface IssueOffer {
+  /** The team the issue is held for */
+  teamName: string;
+  /** Time left to claim it */
+  remainingMs: number;
+}
+
+const readOffer = (issue: Issue | undefined, event: ContestEvent): IssueOffer | null => {
+  // Claim windows stand still while the event is paused
+  const now = getEventClock(event, Date.now());
+  const teamName = issue ? getActiveOffer(issue, now) : null;
+  return teamName ? { teamName, remainingMs: issue!.offerExpiresAt! - now } : null;
+};
+
+/**
+ * Who an open issue is held for and for how long, ticking every second
+ * while the claim window lasts; null once anyone may occupy it.
+ */
+export const useIssueOffer = (issue: Issue | undefined, event: ContestEvent): IssueOffer | null => {
+  const [offer, setOffer] = useState(() => readOffer(issue, event));
+
+  useEffect(() => {
+    setOffer(readOffer(issue, event));
+    if (!issue?.offerExpiresAt) return;
+    const clock = setInterval(() => setOffer(readOffer(issue, event)), 1000);
+    return () => clearInterval(clock);
+  }, [issue, event]);
+
+  return offer;
+};
@@ -0,0 +1,43 @@
+import type { Issue, PointsEntry } from '@/types';
+
+export type ActivityKind = 'claim' | 'merge' | 'expiry';
+
+export interface ActivityItem {
+  id: string;
+  kind: ActivityKind;
+  time: number;
+  teamName: string;
+  issueTitle: string;
+  /** Points won or lost, for merges and expiries */
+  delta?: number;
+}
+
+/**
+ * Recent event activity, newest first. Merges and expiries come from the
+ * points ledger; claims from the issues currently held (a claim that later
+ * expired or was merged is represented by that later entry instead).
+ */
+export const getRecentActivity = (issues: Issue[], ledger: PointsEntry[], max = 20): ActivityItem[] => {
+  const claims: ActivityItem[] = issues
+    .filter(issue => issue.status === 'occupied' && issue.assignedTo && issue.occupiedAt)
+    .map(issue => ({
+      id: `claim_${issue.id}`,
+      kind: 'claim',
+      time: issue.occupiedAt as number,
+      teamName: issue.assignedTo as string,
+      issueTitle: issue.title
+    }));
+
+  const scored: ActivityItem[] = ledger
+    .filter(entry => entry.reason === 'merge' || entry.reason === 'expiry')
+    .map(entry => ({
+      id: entry.id,
+      kind: entry.reason as 'merge' | 'expiry',
+      time: entry.createdAt,
+      teamName: entry.teamName,
+      issueTitle: entry.issueTitle ?? '',
+      delta: entry.delta
+    }));
+
+  return [...claims, ...scored].sort((a, b) => b.time - a.time).slice(0, max);
+};
@@ -0,0 +1,100 @@
+import type { AuditAction, AuditEntry, AuditValues } from '@/types';
+
+export const AUDIT_ACTION_LABELS: Record<AuditAction, string> = {
+  'issue.create': 'Issue added',
+  'issue.import': 'Issues imported from GitHub',
+  'issue.migrate': 'Difficulties migrated',
+  'issue.occupy': 'Issue occupied',
+  'issue.close': 'Issue submitted',
+  'issue.reverify': 'PR re-verified',
+  'issue.move': 'Issue moved',
+  'issue.assign': 'Issue reassigned',
+  'issue.edit': 'Issue details edited',
+  'issue.delete': 'Issue moved to trash',
+  'issue.restore': 'Issue restored',
+  'issue.purge': 'Issue deleted forever',
+  'issue.expire': 'Time expired',
+  'issue.release': 'Issue released',
+  'pr.review': 'PR reviewed',
+  'hint.update': 'Hints edited',
+  'hint.unlock': 'Hint unlocked',
+  'extension.request': 'More time requested',
+  'extension.grant': 'Extension granted',
+  'extension.deny': 'Extension denied',
+  'waitlist.join': 'Joined waitlist',
+  'waitlist.leave': 'Left waitlist',
+  'points.adjust': 'Points adjusted',
+  'points.reverse': 'Ledger entry reversed',
+  'repository.create': 'Repository added',
+  'repository.delete': 'Repository moved to trash',
+  'repository.restore': 'Repository restored',
+  'repository.purge': 'Repository deleted forever',
+  'credential.create': 'Team login created',
+  'credential.rotate': 'Team password rotated',
+  'credential.revoke': 'Team login revoked',
+  'team.github': 'GitHub accounts updated',
+  'event.update': 'Event details updated',
+  'event.status': 'Event status changed',
+  'leaderboard.freeze': 'Leaderboard frozen',
+  'leaderboard.reveal': 'Team revealed',
+  'leaderboard.unfreeze': 'Leaderboard unfrozen',
+  'scoring.update': 'Scoring rules updated'
+};
+
+export type AuditCategory = AuditAction extends `${infer Category}.${string}` ? Category : never;
+
+export const AUDIT_CATEGORY_LABELS: Record<AuditCategory, string> = {
+  issue: 'Issues',
+  pr: 'PR reviews',
+  hint: 'Hints',
+  extension: 'Time extensions',
+  waitlist: 'Waitlists',
+  points: 'Points',
+  repository: 'Repositories',
+  credential: 'Team logins',
+  team: 'Teams',
+  event: 'Event',
+  leaderboard: 'Leaderboard',
+  scoring: 'Scoring rules'
+};
+
+export const getAuditCategory = (action: AuditAction): AuditCategory =>
+  action.slice(0, action.indexOf('.')) as AuditCategory;
+
+/**
+ * Copy the given fields for an audit entry. Missing values become null,
+ * which Firestore can store and the audit view can show.
+ */
+export const pickAuditValues = <T extends object>(source: T, keys: (keyof T)[]): AuditValues =>
+  Object.fromEntries(keys.map(key => [key, source[key] ?? null]));
+
+const formatValue = (value: unknown): string => {
+  if (value === null || value === undefined) return '—';
+  if (typeof value === 'string') return value || '""';
+  return JSON.stringify(value);
+};
+
+/** One "field: before → after" line per field the entry records */
+export const formatAuditChanges = ({ before, after }: Pick<AuditEntry, 'before' | 'after'>): string[] => {
+  const keys = [...new Set([...Object.keys(before ?? {}), ...Object.keys(after ?? {})])];
+  return keys.map(key => {
+    if (!before || !(key in before)) return `${key}: ${formatValue(after?.[key])}`;
+    if (!after || !(key in after)) return `${key}: ${formatValue(before[key])} (removed)`;
+    return `${key}: ${formatValue(before[key])} → ${formatValue(after[key])}`;
+  });
+};
+
+/** Free-text search over who, what, which issue or team, and the values */
+export const matchesAuditSearch = (entry: AuditEntry, search: string): boolean => {
+  const needle = search.trim().toLowerCase();
+  if (!needle) return true;
+  return [
+    entry.actor,
+    entry.target,
+    entry.issueId ?? '',
+    entry.teamName ?? '',
+    AUDIT_ACTION_LABELS[entry.action] ?? entry.action,
+    JSON.stringify(entry.before ?? {}),
+    JSON.stringify(entry.after ?? {})
+  ].some(field => field.toLowerCase().includes(needle));
+};
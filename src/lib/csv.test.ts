@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest';
+import { parseCsv, stripFormulaGuard, toCsv } from '@/lib/csv';
+
+describe('parseCsv', () => {
+  it('reads quoted commas, quotes and line breaks', () => {
+    expect(parseCsv('a,"b, c","say ""hi"""\r\n"two\nlines",x,')).toEqual([
+      ['a', 'b, c', 'say "hi"'],
+      ['two\nlines', 'x', '']
+    ]);
+  });
+
+  it('drops blank lines and the byte order mark', () => {
+    expect(parseCsv('\uFEFFa,b\n\n ,\nc,d\n')).toEqual([['a', 'b'], ['c', 'd']]);
+  });
+});
+
+describe('toCsv', () => {
+  it('quotes cells that need it and leaves empty values blank', () => {
+    expect(toCsv([['a,b', 'say "hi"', null, undefined, 3, true]])).toBe('"a,b","say ""hi""",,,3,true');
+  });
+
+  it('guards cells spreadsheets would run as formulas, but not numbers', () => {
+    expect(toCsv([['=SUM(A1)', '-1', '@me', -1]])).toBe("'=SUM(A1),'-1,'@me,-1");
+  });
+
+  it('round-trips through parseCsv and stripFormulaGuard', () => {
+    const rows = [['=1+1', 'line one\nline two', '- item', "'quoted", 'plain']];
+    expect(parseCsv(toCsv(rows)).map(row => row.map(stripFormulaGuard))).toEqual(rows);
+  });
+});
@@ -0,0 +1,64 @@
+// Minimal RFC 4180 CSV: quoted fields may hold commas, quotes ("") and
+// line breaks. Enough for spreadsheets exported by Excel, Numbers and Sheets.
+
+export type CsvValue = string | number | boolean | null | undefined;
+
+/** Rows of cells; blank lines are dropped */
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+  // Excel prefixes UTF-8 files with a byte order mark
+  const input = text.replace(/^\uFEFF/, '');
+
+  const endRow = () => {
+    row.push(cell);
+    if (row.some(value => value.trim() !== '')) rows.push(row);
+    row = [];
+    cell = '';
+  };
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      endRow();
+    } else {
+      cell += char;
+    }
+  }
+  if (cell !== '' || row.length > 0) endRow();
+  return rows;
+};
+
+// Spreadsheets run cells starting with these as formulas, so toCsv guards
+// them with an apostrophe; numbers are safe
+const FORMULA_START = /^[=+\-@\t\r]/;
+
+/** Undo toCsv's formula guard on a cell read back in, e.g. "'- item" */
+export const stripFormulaGuard = (text: string): string =>
+  text.startsWith("'") && FORMULA_START.test(text.slice(1)) ? text.slice(1) : text;
+
+const escapeCell = (value: CsvValue): string => {
+  let text = value === null || value === undefined ? '' : String(value);
+  if (typeof value === 'string' && FORMULA_START.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCsv = (rows: CsvValue[][]): string =>
+  rows.map(row => row.map(escapeCell).join(',')).join('\r\n');
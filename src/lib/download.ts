@@ -0,0 +1,15 @@
+/** Save generated content as a file through the browser's download prompt */
+export const downloadFile = (fileName: string, content: string, mimeType: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type: `${mimeType};charset=utf-8` }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+};
+
+/** "contribx-issues-2025-03-12" style name for files about an event */
+export const getExportFileName = (eventSlug: string, what: string, extension: string, now: number = Date.now()) =>
+  `${eventSlug}-${what}-${new Date(now).toISOString().slice(0, 10)}.${extension}`;
@@ -0,0 +1,97 @@
+import { describe, expect, it } from 'vitest';
+import type { ContestEvent } from '@/types';
+import {
+  getEventClock,
+  getEventClosedError,
+  getDefaultEventSlug,
+  getEventPhase,
+  getEventStatusUpdate,
+  getPauseShiftMs,
+  isValidEventSlug,
+  normalizeEvent,
+  toEventSlug
+} from '@/lib/event';
+
+const event = (overrides: Partial<ContestEvent> = {}): ContestEvent =>
+  ({ ...normalizeEvent('spring', { name: 'Spring' }), ...overrides });
+
+describe('slugs', () => {
+  it('derives valid slugs from names', () => {
+    expect(toEventSlug('Spring Hack 2025!')).toBe('spring-hack-2025');
+    expect(isValidEventSlug('spring-hack-2025')).toBe(true);
+    expect(isValidEventSlug('Spring Hack')).toBe(false);
+  });
+});
+
+describe('getDefaultEventSlug', () => {
+  const spring = event({ status: 'running' });
+  const autumn = { ...event({ status: 'draft' }), slug: 'autumn' };
+
+  it('prefers the event last opened', () => {
+    expect(getDefaultEventSlug([spring, autumn], 'autumn', 0)).toBe('autumn');
+  });
+
+  it('falls back to the only running event', () => {
+    expect(getDefaultEventSlug([spring, autumn], 'deleted', 0)).toBe('spring');
+    expect(getDefaultEventSlug([spring, { ...spring, slug: 'summer' }], null, 0)).toBeNull();
+  });
+});
+
+describe('getEventPhase', () => {
+  it('starts scheduled events at startsAt', () => {
+    const scheduled = event({ status: 'scheduled', startsAt: 100, endsAt: null });
+    expect(getEventPhase(scheduled, 99)).toBe('scheduled');
+    expect(getEventPhase(scheduled, 100)).toBe('running');
+  });
+
+  it('ends running events at endsAt', () => {
+    const running = event({ status: 'running', startsAt: null, endsAt: 200 });
+    expect(getEventPhase(running, 199)).toBe('running');
+    expect(getEventPhase(running, 200)).toBe('ended');
+  });
+
+  it('keeps draft and paused events as they are', () => {
+    expect(getEventPhase(event({ status: 'draft', startsAt: 0 }), 100)).toBe('draft');
+    expect(getEventPhase(event({ status: 'paused', endsAt: 50 }), 100)).toBe('paused');
+  });
+
+  it('only lets teams play while running', () => {
+    expect(getEventClosedError('running')).toBeNull();
+    expect(getEventClosedError('paused')).toMatch(/paused/);
+  });
+});
+
+describe('getEventStatusUpdate', () => {
+  it('refuses changes the phase does not allow', () => {
+    expect(getEventStatusUpdate(event({ status: 'ended' }), 'running', 100)).toBe('A ended event cannot be made running.');
+  });
+
+  it('moves the times of early starts and ends to now', () => {
+    expect(getEventStatusUpdate(event({ status: 'scheduled', startsAt: 500, endsAt: 900 }), 'running', 100)).toEqual({
+      status: 'running',
+      pausedAt: null,
+      startsAt: 100,
+      endsAt: 900
+    });
+    expect(getEventStatusUpdate(event({ status: 'running', startsAt: 0, endsAt: 900 }), 'ended', 100)).toMatchObject({
+      endsAt: 100
+    });
+  });
+
+  it('needs a future start time to schedule', () => {
+    expect(getEventStatusUpdate(event({ status: 'draft', startsAt: null }), 'scheduled', 100)).toMatch(/start time/);
+  });
+});
+
+describe('pausing', () => {
+  it('stops the clock while paused and shifts timers by the pause on resume', () => {
+    const paused = event({ status: 'paused', pausedAt: 100 });
+    expect(getEventClock(paused, 250)).toBe(100);
+    expect(getPauseShiftMs(paused, 250)).toBe(150);
+    expect(getPauseShiftMs(event({ status: 'running' }), 250)).toBe(0);
+  });
+
+  it('stops the clock at the end', () => {
+    expect(getEventClock(event({ status: 'running', startsAt: 0, endsAt: 200 }), 300)).toBe(200);
+  });
+});
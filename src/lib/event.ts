@@ -0,0 +1,204 @@
+import type { ContestEvent, EventDetails, EventStatus, LeaderboardFreeze } from '@/types';
+
+// Slugs become URL segments (/e/day-2) and Firestore document ids
+const SLUG_PATTERN = /^[a-z0-9]+(?:-[a-z0-9]+)*$/;
+
+export const toEventSlug = (name: string): string =>
+  name.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+
+export const isValidEventSlug = (slug: string): boolean => SLUG_PATTERN.test(slug);
+
+/** App path inside an event, e.g. getEventPath('day-2', '/rankings') */
+export const getEventPath = (slug: string, path: string = ''): string => `/e/${slug}${path}`;
+
+const normalizeFreeze = (freeze?: Partial<LeaderboardFreeze> | null): LeaderboardFreeze | null =>
+  freeze && typeof freeze.frozenAt === 'number'
+    ? { frozenAt: freeze.frozenAt, scores: freeze.scores ?? {}, revealed: freeze.revealed ?? [] }
+    : null;
+
+const toTime = (value: unknown): number | null => typeof value === 'number' ? value : null;
+
+const EVENT_STATUSES: EventStatus[] = ['draft', 'scheduled', 'running', 'paused', 'ended'];
+
+/** Fill in missing fields of a stored (possibly partial) event document */
+export const normalizeEvent = (slug: string, event?: Partial<ContestEvent> | null): ContestEvent => ({
+  slug,
+  name: event?.name?.trim() || slug,
+  organizer: event?.organizer?.trim() ?? '',
+  tagline: event?.tagline?.trim() ?? '',
+  logoUrl: event?.logoUrl?.trim() || null,
+  startsAt: toTime(event?.startsAt),
+  endsAt: toTime(event?.endsAt),
+  // Events from before the lifecycle existed were always open
+  status: EVENT_STATUSES.includes(event?.status as EventStatus) ? event!.status! : 'running',
+  pausedAt: toTime(event?.pausedAt),
+  freeze: normalizeFreeze(event?.freeze),
+  ...(event?.createdAt ? { createdAt: event.createdAt } : {}),
+  ...(event?.updatedAt ? { updatedAt: event.updatedAt } : {})
+});
+
+/** The fields an admin edits in the event settings */
+export const toEventDetails = ({ name, organizer, tagline, logoUrl, startsAt, endsAt }: ContestEvent): EventDetails =>
+  ({ name, organizer, tagline, logoUrl, startsAt, endsAt });
+
+/** Newest first, by start time (creation time for unscheduled events) */
+export const sortEvents = (events: ContestEvent[]): ContestEvent[] =>
+  [...events].sort((a, b) => (b.startsAt ?? b.createdAt ?? 0) - (a.startsAt ?? a.createdAt ?? 0));
+
+const LAST_EVENT_STORAGE_KEY = 'contribx.lastEventSlug';
+
+/** Remember the event this browser last opened, for addresses that name none */
+export const rememberEvent = (slug: string) => localStorage.setItem(LAST_EVENT_STORAGE_KEY, slug);
+
+export const getLastEventSlug = (): string | null => localStorage.getItem(LAST_EVENT_STORAGE_KEY);
+
+/**
+ * The event an address without one most likely meant: the one last opened
+ * here if it still exists, else the only event running, else null.
+ */
+export const getDefaultEventSlug = (events: ContestEvent[], lastSlug: string | null, now: number): string | null => {
+  if (lastSlug && events.some(event => event.slug === lastSlug)) return lastSlug;
+  const running = events.filter(event => getEventPhase(event, now) === 'running');
+  return running.length === 1 ? running[0].slug : null;
+};
+
+/** "12 Mar, 09:00 – 17:00" style range for event lists; empty when unscheduled */
+export const formatEventDates = ({ startsAt, endsAt }: Pick<ContestEvent, 'startsAt' | 'endsAt'>): string => {
+  const day = (time: number) => new Date(time).toLocaleDateString([], { day: 'numeric', month: 'short' });
+  const clock = (time: number) => new Date(time).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+  if (startsAt === null) return endsAt === null ? '' : `Ends ${day(endsAt)}, ${clock(endsAt)}`;
+  if (endsAt === null) return `${day(startsAt)}, ${clock(startsAt)}`;
+  return day(startsAt) === day(endsAt)
+    ? `${day(startsAt)}, ${clock(startsAt)} – ${clock(endsAt)}`
+    : `${day(startsAt)}, ${clock(startsAt)} – ${day(endsAt)}, ${clock(endsAt)}`;
+};
+
+/** Countdown text such as "1:05:09", or null once the target time has passed */
+export const formatCountdown = (target: number, now: number): string | null => {
+  const remaining = target - now;
+  if (remaining <= 0) return null;
+  const totalSeconds = Math.floor(remaining / 1000);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return hours > 0 ? `${hours}:${pad(minutes)}:${pad(seconds)}` : `${pad(minutes)}:${pad(seconds)}`;
+};
+
+// ============ LIFECYCLE ============
+
+export const EVENT_STATUS_LABELS: Record<EventStatus, string> = {
+  draft: 'Draft',
+  scheduled: 'Scheduled',
+  running: 'Running',
+  paused: 'Paused',
+  ended: 'Ended'
+};
+
+/**
+ * The state the event is in at `now`. Start and end times apply by
+ * themselves: a scheduled event runs from startsAt, and a running one ends at
+ * endsAt, without anyone changing the stored status.
+ * isRunning in firestore.rules repeats this for the security rules.
+ */
+export const getEventPhase = (
+  event: Pick<ContestEvent, 'status' | 'startsAt' | 'endsAt'>,
+  now: number = Date.now()
+): EventStatus => {
+  const { status, startsAt, endsAt } = event;
+  if (status === 'scheduled' && (startsAt === null || now < startsAt)) return 'scheduled';
+  if (status === 'scheduled' || status === 'running') {
+    return endsAt !== null && now >= endsAt ? 'ended' : 'running';
+  }
+  return status;
+};
+
+/** Why teams cannot occupy or close issues right now, or null while running */
+export const getEventClosedError = (phase: EventStatus): string | null => {
+  switch (phase) {
+    case 'draft': return 'The event has not opened yet.';
+    case 'scheduled': return 'The event has not started yet.';
+    case 'paused': return 'The event is paused. Issue timers are stopped until it resumes.';
+    case 'ended': return 'The event has ended.';
+    default: return null;
+  }
+};
+
+/** Status changes an admin can make from each phase */
+export const EVENT_TRANSITIONS: Record<EventStatus, EventStatus[]> = {
+  draft: ['scheduled', 'running'],
+  scheduled: ['draft', 'running'],
+  running: ['paused', 'ended'],
+  paused: ['running', 'ended'],
+  ended: []
+};
+
+export type EventStatusUpdate = Pick<ContestEvent, 'status' | 'pausedAt' | 'startsAt' | 'endsAt'>;
+
+/**
+ * The fields to store for a status change made at `now`, or an error.
+ * Starting early moves startsAt to now and ending early moves endsAt to now,
+ * so the countdowns agree with what happened. Resuming also moves occupied
+ * issues forward by getPauseShiftMs.
+ */
+export const getEventStatusUpdate = (
+  event: ContestEvent,
+  next: EventStatus,
+  now: number
+): EventStatusUpdate | string => {
+  const phase = getEventPhase(event, now);
+  if (!EVENT_TRANSITIONS[phase].includes(next)) {
+    return `A ${phase} event cannot be made ${next}.`;
+  }
+
+  const { startsAt, endsAt } = event;
+  switch (next) {
+    case 'draft':
+      return { status: 'draft', pausedAt: null, startsAt, endsAt };
+    case 'scheduled':
+      if (startsAt === null || startsAt <= now) {
+        return 'Set a start time in the future to schedule the event.';
+      }
+      return { status: 'scheduled', pausedAt: null, startsAt, endsAt };
+    case 'running':
+      if (endsAt !== null && endsAt <= now) {
+        return 'The end time has passed. Set a later end time first.';
+      }
+      return {
+        status: 'running',
+        pausedAt: null,
+        startsAt: phase === 'paused' || (startsAt !== null && startsAt <= now) ? startsAt : now,
+        endsAt
+      };
+    case 'paused':
+      return { status: 'paused', pausedAt: now, startsAt, endsAt };
+    case 'ended':
+      return { status: 'ended', pausedAt: null, startsAt, endsAt: endsAt !== null && endsAt <= now ? endsAt : now };
+  }
+};
+
+/**
+ * How far occupied issues' occupiedAt move forward when a paused event
+ * resumes at `now`, so the pause does not count against their time limit.
+ */
+export const getPauseShiftMs = (event: Pick<ContestEvent, 'status' | 'pausedAt'>, now: number): number =>
+  event.status === 'paused' && event.pausedAt !== null ? Math.max(0, now - event.pausedAt) : 0;
+
+/** The time issue timers have reached: they stand still while paused and stop at the end */
+export const getEventClock = (event: ContestEvent, now: number): number => {
+  const phase = getEventPhase(event, now);
+  if (phase === 'paused' && event.pausedAt !== null) return event.pausedAt;
+  if (phase === 'ended' && event.endsAt !== null) return Math.min(now, event.endsAt);
+  return now;
+};
+
+/** What the team and display countdowns count down to, if anything */
+export const getEventCountdownTarget = (
+  event: ContestEvent,
+  now: number
+): { label: 'Starts in' | 'Time left'; target: number } | null => {
+  const phase = getEventPhase(event, now);
+  if (phase === 'scheduled' && event.startsAt !== null) return { label: 'Starts in', target: event.startsAt };
+  if (phase === 'running' && event.endsAt !== null) return { label: 'Time left', target: event.endsAt };
+  return null;
+};
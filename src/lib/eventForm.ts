@@ -0,0 +1,56 @@
+import type { ContestEvent, EventDetails } from '@/types';
+
+// Event details as edited in the admin panel: plain strings, with times in
+// the format of <input type="datetime-local"> (local time, no zone suffix).
+
+export interface EventDetailsForm {
+  name: string;
+  organizer: string;
+  tagline: string;
+  logoUrl: string;
+  startsAt: string;
+  endsAt: string;
+}
+
+export const EMPTY_EVENT_DETAILS_FORM: EventDetailsForm = {
+  name: '',
+  organizer: '',
+  tagline: '',
+  logoUrl: '',
+  startsAt: '',
+  endsAt: ''
+};
+
+const toLocalInput = (ms: number | null) =>
+  ms === null ? '' : new Date(ms - new Date(ms).getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+
+const fromLocalInput = (value: string) => value ? new Date(value).getTime() : null;
+
+export const toEventDetailsForm = (event: ContestEvent): EventDetailsForm => ({
+  name: event.name,
+  organizer: event.organizer,
+  tagline: event.tagline,
+  logoUrl: event.logoUrl ?? '',
+  startsAt: toLocalInput(event.startsAt),
+  endsAt: toLocalInput(event.endsAt)
+});
+
+/** The details to save, or an error message for the admin */
+export const parseEventDetailsForm = (form: EventDetailsForm): EventDetails | string => {
+  if (!form.name.trim()) {
+    return 'Please enter an event name';
+  }
+  const startsAt = fromLocalInput(form.startsAt);
+  const endsAt = fromLocalInput(form.endsAt);
+  if (startsAt !== null && endsAt !== null && endsAt <= startsAt) {
+    return 'The event must end after it starts';
+  }
+  return {
+    name: form.name.trim(),
+    organizer: form.organizer.trim(),
+    tagline: form.tagline.trim(),
+    logoUrl: form.logoUrl.trim() || null,
+    startsAt,
+    endsAt
+  };
+};
@@ -0,0 +1,24 @@
+import type { ExtensionRequest, Issue } from '@/types';
+
+// Teams ask for more time on an issue they hold; admins grant a number of
+// minutes, which is added to the tier's time limit (see getTimeLimitMs).
+
+/** Kept in sync with the extensionRequests rule in firestore.rules */
+export const MAX_EXTENSION_REASON_LENGTH = 500;
+
+/** Preset for the admin's minutes field */
+export const DEFAULT_EXTENSION_MINUTES = 10;
+
+/** The open request for the issue's current occupation, if any */
+export const getPendingExtensionRequest = (
+  requests: ExtensionRequest[],
+  issue: Pick<Issue, 'id' | 'occupationId'>
+): ExtensionRequest | undefined =>
+  requests.find(request =>
+    request.status === 'pending' && request.issueId === issue.id && request.occupationId === issue.occupationId
+  );
+
+export const getExtensionMinutesError = (minutes: number): string | null =>
+  Number.isInteger(minutes) && minutes >= 1 && minutes <= 240
+    ? null
+    : 'Grant between 1 and 240 whole minutes.';
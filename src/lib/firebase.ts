@@ -1,5 +1,7 @@
 import { initializeApp } from 'firebase/app';
-import { getFirestore } from 'firebase/firestore';
+import { getFirestore, connectFirestoreEmulator } from 'firebase/firestore';
+import { getAuth, connectAuthEmulator, type Auth } from 'firebase/auth';
+import { getFunctions, connectFunctionsEmulator, type Functions } from 'firebase/functions';
 
 // Your web app's Firebase configuration
 const firebaseConfig = {
@@ -16,3 +18,41 @@ const app = initializeApp(firebaseConfig);
 
 // Initialize Firestore
 export const db = getFirestore(app);
+
+// Point at the local emulators when configured (e.g. "127.0.0.1:8081")
+const splitHost = (hostAndPort: string): [string, number] => {
+  const [host, port] = hostAndPort.split(':');
+  return [host, Number(port)];
+};
+
+const firestoreEmulatorHost = import.meta.env.VITE_FIRESTORE_EMULATOR_HOST;
+if (firestoreEmulatorHost) {
+  connectFirestoreEmulator(db, ...splitHost(firestoreEmulatorHost));
+}
+
+// Auth and Functions are created on first use: getAuth throws without an API
+// key, which would break the in-memory data store.
+let auth: Auth | null = null;
+let functions: Functions | null = null;
+
+export const getFirebaseAuth = (): Auth => {
+  if (!auth) {
+    auth = getAuth(app);
+    const authEmulatorHost = import.meta.env.VITE_AUTH_EMULATOR_HOST;
+    if (authEmulatorHost) {
+      connectAuthEmulator(auth, `http://${authEmulatorHost}`, { disableWarnings: true });
+    }
+  }
+  return auth;
+};
+
+export const getFirebaseFunctions = (): Functions => {
+  if (!functions) {
+    functions = getFunctions(app);
+    const functionsEmulatorHost = import.meta.env.VITE_FUNCTIONS_EMULATOR_HOST;
+    if (functionsEmulatorHost) {
+      connectFunctionsEmulator(functions, ...splitHost(functionsEmulatorHost));
+    }
+  }
+  return functions;
+};
@@ -0,0 +1,56 @@
+import type { Issue, ScoringRules } from '@/types';
+import type { GitHubIssue } from '@/services/githubService';
+import { getTierForLabels } from '@/lib/scoring';
+
+export type GitHubImportAction = 'new' | 'update' | 'unchanged';
+
+export interface GitHubImportRow {
+  github: GitHubIssue;
+  action: GitHubImportAction;
+  /** Our issue already linked to this GitHub issue, if any */
+  existing?: Issue;
+  /** Tier suggested by the labels; null when no tier claims any of them */
+  difficulty: string | null;
+  /** Labels not used for the difficulty become free-form tags */
+  tags: string[];
+}
+
+/**
+ * Match GitHub issues to the repository's existing issues by number so a
+ * re-run only syncs title and state instead of adding duplicates. Issues
+ * already closed on GitHub are not offered for import.
+ */
+export const planGitHubImport = (
+  githubIssues: GitHubIssue[],
+  issues: Issue[],
+  repoName: string,
+  rules: ScoringRules
+): GitHubImportRow[] => {
+  const linked = new Map(
+    issues
+      .filter(issue => issue.repo === repoName && issue.githubNumber != null)
+      .map(issue => [issue.githubNumber, issue])
+  );
+
+  return githubIssues.flatMap<GitHubImportRow>(github => {
+    const tier = getTierForLabels(github.labels, rules);
+    const tierLabels = (tier?.githubLabels ?? []).map(label => label.toLowerCase());
+    const tags = github.labels.filter(label => !tierLabels.includes(label.toLowerCase()));
+    const existing = linked.get(github.number);
+
+    if (!existing) {
+      return github.state === 'open'
+        ? [{ github, action: 'new', difficulty: tier?.id ?? null, tags }]
+        : [];
+    }
+
+    const changed = existing.title !== github.title || existing.githubState !== github.state;
+    return [{
+      github,
+      action: changed ? 'update' : 'unchanged',
+      existing,
+      difficulty: existing.difficulty ?? tier?.id ?? null,
+      tags
+    }];
+  });
+};
@@ -0,0 +1,46 @@
+import type { HintUnlock, Issue, IssueHint } from '@/types';
+
+// Hints are unlocked in order by the team holding an issue, each for a
+// point cost charged to the ledger (see unlockHint in the data stores).
+
+/** Suggested cost for a new hint in the admin editor */
+export const DEFAULT_HINT_COST = 5;
+
+/** A hint as typed into the admin editor; the cost is still text */
+export interface HintFormRow {
+  text: string;
+  cost: string;
+}
+
+export const toHintFormRows = (hints: IssueHint[]): HintFormRow[] =>
+  hints.map(hint => ({ text: hint.text, cost: String(hint.cost) }));
+
+/** Drops rows left empty; the error names the first row that is wrong */
+export const parseHintForm = (rows: HintFormRow[]): { hints: IssueHint[]; error: string | null } => {
+  const hints: IssueHint[] = [];
+  for (const [index, row] of rows.entries()) {
+    const text = row.text.trim();
+    if (!text && !row.cost.trim()) continue;
+    if (!text) {
+      return { hints: [], error: `Hint ${index + 1} needs some text.` };
+    }
+    const cost = Number(row.cost);
+    if (row.cost.trim() === '' || !Number.isInteger(cost) || cost < 0) {
+      return { hints: [], error: `Hint ${index + 1} needs a cost of 0 or more whole points.` };
+    }
+    hints.push({ text, cost });
+  }
+  return { hints, error: null };
+};
+
+/** The team's unlocks for one issue, first hint first */
+export const getIssueUnlocks = (unlocks: HintUnlock[], issueId: string, teamName: string): HintUnlock[] =>
+  unlocks
+    .filter(unlock => unlock.issueId === issueId && unlock.teamName === teamName)
+    .sort((a, b) => a.hintIndex - b.hintIndex);
+
+/** The index of the hint the team can unlock next, or null once all are unlocked */
+export const getNextHintIndex = (issue: Pick<Issue, 'hintCosts'>, unlocked: HintUnlock[]): number | null => {
+  const count = issue.hintCosts?.length ?? 0;
+  return unlocked.length < count ? unlocked.length : null;
+};
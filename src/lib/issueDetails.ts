@@ -0,0 +1,79 @@
+import type { Issue } from '@/types';
+
+// The longer-form context of an issue that teams read in the issue drawer.
+// Admins edit it as plain text, one list entry per line.
+
+export type IssueDetails = Required<Pick<Issue, 'description' | 'acceptanceCriteria' | 'fileHints' | 'links'>> & {
+  /** The upstream issue; empty when there is none */
+  githubUrl: string;
+};
+
+export interface IssueDetailsForm {
+  description: string;
+  acceptanceCriteria: string;
+  fileHints: string;
+  links: string;
+  githubUrl: string;
+}
+
+/**
+ * Whether a URL someone typed is a web page, and so safe to render as a link
+ * on pages other people open (never javascript: or data:).
+ */
+export const isHttpUrl = (value: string): boolean => {
+  try {
+    return ['http:', 'https:'].includes(new URL(value).protocol);
+  } catch {
+    return false;
+  }
+};
+
+/** Path of the issue's own page inside its event, e.g. "/issues/web/abc123" */
+export const getIssuePath = (issue: Pick<Issue, 'id' | 'repo'>): string =>
+  `/issues/${encodeURIComponent(issue.repo)}/${encodeURIComponent(issue.id)}`;
+
+export const hasIssueDetails = (issue: Issue): boolean =>
+  Boolean(
+    issue.description?.trim() || issue.acceptanceCriteria?.length || issue.fileHints?.length
+    || issue.links?.length || issue.githubUrl
+  );
+
+export const toIssueDetails = (issue: Issue): IssueDetails => ({
+  description: issue.description ?? '',
+  acceptanceCriteria: issue.acceptanceCriteria ?? [],
+  fileHints: issue.fileHints ?? [],
+  links: issue.links ?? [],
+  githubUrl: issue.githubUrl ?? ''
+});
+
+export const toIssueDetailsForm = (issue: Issue): IssueDetailsForm => {
+  const details = toIssueDetails(issue);
+  return {
+    ...details,
+    acceptanceCriteria: details.acceptanceCriteria.join('\n'),
+    fileHints: details.fileHints.join('\n'),
+    links: details.links.join('\n')
+  };
+};
+
+const toLines = (text: string, clean = (line: string) => line): string[] =>
+  [...new Set(text.split('\n').map(line => clean(line.trim())).filter(Boolean))];
+
+/** The details to save, or the first problem with the form */
+export const parseIssueDetailsForm = (form: IssueDetailsForm): { details: IssueDetails; error: string | null } => {
+  const details: IssueDetails = {
+    description: form.description.trim(),
+    // Bullets pasted from a Markdown checklist are dropped; the drawer draws its own
+    acceptanceCriteria: toLines(form.acceptanceCriteria, line => line.replace(/^([-*+]\s+)?(\[[ xX]\]\s+)?/, '')),
+    fileHints: toLines(form.fileHints, line => line.replace(/^`(.*)`$/, '$1')),
+    links: toLines(form.links),
+    githubUrl: form.githubUrl.trim()
+  };
+
+  const badLink = details.links.find(link => !isHttpUrl(link));
+  if (badLink) return { details, error: `Not a web link: ${badLink}` };
+  if (details.githubUrl && !isHttpUrl(details.githubUrl)) {
+    return { details, error: 'The upstream issue must be a web link' };
+  }
+  return { details, error: null };
+};
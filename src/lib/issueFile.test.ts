@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest';
+import type { Issue, Repository } from '@/types';
+import { DEFAULT_SCORING_RULES } from '@/lib/scoring';
+import { exportIssuesCsv, exportIssuesJson, planIssueFile } from '@/lib/issueFile';
+
+const rules = DEFAULT_SCORING_RULES;
+const repositories: Repository[] = [
+  { id: 'repo-1', name: 'app', url: 'https://github.com/org/app' },
+  { id: 'repo-2', name: 'old', url: 'https://github.com/org/old', deletedAt: 1 }
+];
+
+const exported: Issue = {
+  id: 'issue-1',
+  title: '- Fix the list',
+  difficulty: 'medium',
+  tags: ['frontend', 'docs'],
+  description: '=Not a formula\n\nSecond paragraph, with a comma',
+  acceptanceCriteria: ['Lists render', '+ Signs survive'],
+  fileHints: ['src/a.ts', 'src/b.ts'],
+  links: ['https://example.com/a'],
+  repo: 'app',
+  status: 'occupied',
+  assignedTo: 'red',
+  occupiedAt: 1_000_000
+};
+
+describe('issue file round trip', () => {
+  it('imports a CSV export as the issues it came from', () => {
+    const [row] = planIssueFile('issues.csv', exportIssuesCsv([exported], rules), { repositories, issues: [], rules });
+    expect(row.line).toBe(2);
+    expect(row.errors).toEqual([]);
+    expect(row.issue).toEqual({
+      title: '- Fix the list',
+      repo: 'app',
+      difficulty: 'medium',
+      tags: ['frontend', 'docs'],
+      description: '=Not a formula\n\nSecond paragraph, with a comma',
+      acceptanceCriteria: ['Lists render', '+ Signs survive'],
+      fileHints: ['src/a.ts', 'src/b.ts'],
+      links: ['https://example.com/a']
+    });
+  });
+
+  it('imports a JSON export the same way', () => {
+    const [row] = planIssueFile('issues.json', exportIssuesJson([exported], rules), { repositories, issues: [], rules });
+    expect(row.line).toBe(1);
+    expect(row.errors).toEqual([]);
+    expect(row.issue.title).toBe('- Fix the list');
+    expect(row.issue.acceptanceCriteria).toEqual(['Lists render', '+ Signs survive']);
+  });
+});
+
+describe('planIssueFile', () => {
+  it('explains why rows are skipped', () => {
+    const csv = [
+      'Title,Repo,Difficulty,Links',
+      'Existing,app,easy,',
+      'New,app,easy,',
+      'new,APP,Easy,',
+      ',old,impossible,javascript:alert(1)'
+    ].join('\n');
+    const existing: Issue = { id: 'issue-2', title: 'existing', tags: [], repo: 'app', status: 'open', assignedTo: null };
+    const rows = planIssueFile('issues.csv', csv, { repositories, issues: [existing], rules });
+
+    expect(rows.map(row => row.errors)).toEqual([
+      ['Already in app'],
+      [],
+      ['Duplicate of row 3'],
+      ['Missing title', 'Unknown repo "old"', 'Unknown difficulty "impossible"', 'Not a web link: javascript:alert(1)']
+    ]);
+  });
+
+  it('needs a header row naming the title column', () => {
+    expect(() => planIssueFile('issues.csv', 'a,b\nc,d', { repositories, issues: [], rules })).toThrow(/first row/);
+  });
+
+  it('accepts a JSON array as well as an object with issues', () => {
+    const rows = planIssueFile('upload.txt', '[{"title":"One","repo":"app","difficulty":"hard","tags":["a","a"]}]', {
+      repositories,
+      issues: [],
+      rules
+    });
+    expect(rows[0]).toMatchObject({ errors: [], issue: { difficulty: 'hard', tags: ['a'] } });
+  });
+});
@@ -0,0 +1,190 @@
+import type { Issue, Repository, ScoringRules } from '@/types';
+import { parseCsv, stripFormulaGuard, toCsv, type CsvValue } from '@/lib/csv';
+import { getTier } from '@/lib/scoring';
+import { isTrashed } from '@/lib/trash';
+import { isHttpUrl } from '@/lib/issueDetails';
+
+// Bulk issue files. Import reads the columns below from CSV (header row
+// required) or JSON (an array of objects, or { issues: [...] }); anything
+// else in a row is ignored, so an export can be edited and imported again.
+
+export type NewIssue = Omit<Issue, 'id' | 'status' | 'assignedTo'>;
+
+export const ISSUE_IMPORT_COLUMNS = [
+  'title', 'repo', 'difficulty', 'tags', 'description', 'acceptanceCriteria', 'fileHints', 'links'
+] as const;
+
+// How list columns are joined in a CSV cell; criteria may contain commas
+const LIST_SEPARATORS: Record<string, string> = { tags: ', ', acceptanceCriteria: '\n', fileHints: ' ', links: ' ' };
+
+export interface IssueImportRow {
+  /** Row in a CSV file (the header is row 1), or 1-based position in a JSON array */
+  line: number;
+  issue: NewIssue;
+  /** Why the row will be skipped; empty when it is imported */
+  errors: string[];
+}
+
+type RawRecord = Record<string, unknown>;
+
+const readJsonRecords = (text: string): RawRecord[] => {
+  const data = JSON.parse(text);
+  const records = Array.isArray(data) ? data : data?.issues;
+  if (!Array.isArray(records)) {
+    throw new Error('Expected a JSON array of issues, or an object with an "issues" array.');
+  }
+  return records.map(record => (record && typeof record === 'object' ? record : {}) as RawRecord);
+};
+
+const readCsvRecords = (text: string): RawRecord[] => {
+  const [header, ...rows] = parseCsv(text);
+  // Header names are matched without case, e.g. "AcceptanceCriteria"
+  const columns = (header ?? []).map(column => {
+    const name = column.trim().toLowerCase();
+    return ISSUE_IMPORT_COLUMNS.find(known => known.toLowerCase() === name) ?? name;
+  });
+  if (!columns.includes('title')) {
+    throw new Error(`The first row must name the columns, e.g. ${ISSUE_IMPORT_COLUMNS.join(',')}.`);
+  }
+  return rows.map(row => Object.fromEntries(columns.map((column, i) => [column, row[i] ?? ''])));
+};
+
+const isJsonFile = (fileName: string, text: string): boolean =>
+  fileName.toLowerCase().endsWith('.json') || /^\s*[[{]/.test(text);
+
+// Exported cells starting like a formula carry a guard apostrophe; drop it
+// so descriptions and titles starting with "-" survive a round trip
+const toText = (value: unknown): string =>
+  typeof value === 'string' ? stripFormulaGuard(value).trim() : typeof value === 'number' ? String(value) : '';
+
+// CSV cells hold lists as "a, b", paths and links may also be split by spaces
+// and criteria go one per line; JSON may use arrays
+const toList = (value: unknown, separator: RegExp): string[] => {
+  const items = Array.isArray(value) ? value.map(toText) : toText(value).split(separator);
+  return [...new Set(items.map(item => item.trim()).filter(Boolean))];
+};
+
+const duplicateKey = (repo: string, title: string) => `${repo.toLowerCase()}\n${title.toLowerCase()}`;
+
+/**
+ * Validate every row against the event: the repository must exist, the
+ * difficulty must name a tier (by id or name), and a title may appear once
+ * per repository across the file and the issues already there.
+ */
+export const planIssueImport = (
+  records: RawRecord[],
+  { repositories, issues, rules }: { repositories: Repository[]; issues: Issue[]; rules: ScoringRules },
+  firstLine = 2
+): IssueImportRow[] => {
+  const liveRepos = repositories.filter(repo => !isTrashed(repo));
+  const existing = new Set(issues.filter(issue => !isTrashed(issue)).map(issue => duplicateKey(issue.repo, issue.title)));
+  const seen = new Map<string, number>();
+
+  return records.map((record, index) => {
+    const line = firstLine + index;
+    const errors: string[] = [];
+    const title = toText(record.title);
+    const repoInput = toText(record.repo);
+    const difficultyInput = toText(record.difficulty);
+    const links = toList(record.links, /[\s,;]+/);
+    const acceptanceCriteria = toList(record.acceptanceCriteria, /\n/);
+    const fileHints = toList(record.fileHints, /[\s,;]+/);
+
+    const repo = liveRepos.find(r => r.name.toLowerCase() === repoInput.toLowerCase());
+    const tier = rules.tiers.find(t =>
+      t.id.toLowerCase() === difficultyInput.toLowerCase() || t.name.toLowerCase() === difficultyInput.toLowerCase()
+    );
+
+    if (!title) errors.push('Missing title');
+    if (!repoInput) errors.push('Missing repo');
+    else if (!repo) errors.push(`Unknown repo "${repoInput}"`);
+    if (!difficultyInput) errors.push('Missing difficulty');
+    else if (!tier) errors.push(`Unknown difficulty "${difficultyInput}"`);
+    const badLink = links.find(link => !isHttpUrl(link));
+    if (badLink) errors.push(`Not a web link: ${badLink}`);
+
+    if (title && repo) {
+      const key = duplicateKey(repo.name, title);
+      if (existing.has(key)) {
+        errors.push(`Already in ${repo.name}`);
+      } else if (seen.has(key)) {
+        errors.push(`Duplicate of row ${seen.get(key)}`);
+      } else {
+        seen.set(key, line);
+      }
+    }
+
+    const description = toText(record.description);
+    return {
+      line,
+      errors,
+      issue: {
+        title,
+        repo: repo?.name ?? repoInput,
+        difficulty: tier?.id ?? null,
+        tags: toList(record.tags, /[,;]/),
+        ...(description ? { description } : {}),
+        ...(acceptanceCriteria.length ? { acceptanceCriteria } : {}),
+        ...(fileHints.length ? { fileHints } : {}),
+        ...(links.length ? { links } : {})
+      }
+    };
+  });
+};
+
+/** Read and validate an uploaded file; throws when the file itself is unreadable */
+export const planIssueFile = (
+  fileName: string,
+  text: string,
+  context: Parameters<typeof planIssueImport>[1]
+): IssueImportRow[] =>
+  isJsonFile(fileName, text)
+    ? planIssueImport(readJsonRecords(text), context, 1)
+    : planIssueImport(readCsvRecords(text), context, 2);
+
+// ============ EXPORT ============
+
+const EXPORT_COLUMNS = [
+  'id', ...ISSUE_IMPORT_COLUMNS, 'status', 'assignedTo', 'occupiedAt', 'closedAt',
+  'prUrl', 'prStatus', 'prVerification', 'githubUrl'
+] as const;
+
+type ExportColumn = typeof EXPORT_COLUMNS[number];
+
+const toIso = (time?: number | null) => (time ? new Date(time).toISOString() : null);
+
+const toExportRecord = (issue: Issue, rules: ScoringRules): Record<ExportColumn, CsvValue | string[]> => ({
+  id: issue.id,
+  title: issue.title,
+  repo: issue.repo,
+  // The tier name reads better in a spreadsheet and imports back the same
+  difficulty: getTier(issue, rules)?.name ?? issue.difficulty ?? null,
+  tags: issue.tags,
+  description: issue.description ?? null,
+  acceptanceCriteria: issue.acceptanceCriteria ?? [],
+  fileHints: issue.fileHints ?? [],
+  links: issue.links ?? [],
+  status: issue.status,
+  assignedTo: issue.assignedTo,
+  occupiedAt: toIso(issue.occupiedAt),
+  closedAt: toIso(issue.closedAt),
+  prUrl: issue.prUrl ?? null,
+  prStatus: issue.prStatus ?? null,
+  prVerification: issue.prVerification?.status ?? null,
+  githubUrl: issue.githubUrl ?? null
+});
+
+export const exportIssuesJson = (issues: Issue[], rules: ScoringRules): string =>
+  JSON.stringify({ issues: issues.map(issue => toExportRecord(issue, rules)) }, null, 2);
+
+export const exportIssuesCsv = (issues: Issue[], rules: ScoringRules): string =>
+  toCsv([
+    [...EXPORT_COLUMNS],
+    ...issues.map(issue => {
+      const record = toExportRecord(issue, rules);
+      return EXPORT_COLUMNS.map(column => {
+        const value = record[column];
+        return Array.isArray(value) ? value.join(LIST_SEPARATORS[column]) : value;
+      });
+    })
+  ]);
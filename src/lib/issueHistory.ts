@@ -0,0 +1,123 @@
+import type { AuditEntry } from '@/types';
+import { AUDIT_ACTION_LABELS } from '@/lib/audit';
+
+// The issue page's activity history is the audit log filtered to one issue,
+// told from the issue's point of view.
+
+export type IssueHistoryTone = 'neutral' | 'progress' | 'positive' | 'negative';
+
+export interface IssueHistoryItem {
+  id: string;
+  time: number;
+  title: string;
+  detail: string | null;
+  actor: string;
+  tone: IssueHistoryTone;
+}
+
+const text = (value: unknown): string | null => (typeof value === 'string' && value ? value : null);
+
+const formatOffer = (after: AuditEntry['after']): string | null =>
+  text(after?.offeredTo) ? `Held for ${after.offeredTo}, next on the waitlist` : null;
+
+// The penalty for an occupation that ended, and who the issue went to
+const formatFreed = (after: AuditEntry['after']): string | null =>
+  [typeof after?.penalty === 'number' && after.penalty > 0 ? `-${after.penalty} points` : null, formatOffer(after)]
+    .filter(Boolean).join(' · ') || null;
+
+const formatPoints = (points: unknown): string | null =>
+  typeof points === 'number' && points !== 0 ? `${points > 0 ? '+' : ''}${points} points` : null;
+
+const describe = ({ action, before, after, teamName }: AuditEntry): Omit<IssueHistoryItem, 'id' | 'time' | 'actor'> => {
+  switch (action) {
+    case 'issue.create':
+      return { title: 'Created', detail: null, tone: 'neutral' };
+    case 'issue.occupy':
+      return { title: `Occupied by ${text(after?.assignedTo) ?? teamName}`, detail: null, tone: 'progress' };
+    case 'issue.expire':
+      return {
+        title: `Time ran out for ${teamName}`,
+        detail: formatFreed(after),
+        tone: 'negative'
+      };
+    case 'issue.release':
+      return {
+        title: `Released by ${teamName}`,
+        detail: formatFreed(after),
+        tone: 'negative'
+      };
+    case 'issue.close':
+      return { title: `PR submitted by ${teamName}`, detail: text(after?.prUrl), tone: 'progress' };
+    case 'issue.reverify':
+      return { title: 'PR checked again', detail: text(after?.verification), tone: 'neutral' };
+    case 'pr.review':
+      switch (after?.prStatus) {
+        case 'approved':
+          return { title: 'PR approved', detail: null, tone: 'positive' };
+        case 'merged':
+          return { title: 'PR merged', detail: formatPoints(after.awardedPoints), tone: 'positive' };
+        case 'rejected':
+          return { title: 'PR rejected', detail: formatOffer(after), tone: 'negative' };
+        default:
+          return { title: 'Review undone', detail: null, tone: 'neutral' };
+      }
+    case 'issue.move':
+      return { title: `Moved to ${text(after?.status) ?? 'another column'}`, detail: null, tone: 'neutral' };
+    case 'issue.assign':
+      return {
+        title: text(after?.assignedTo) ? `Assigned to ${after?.assignedTo}` : 'Unassigned',
+        detail: text(before?.assignedTo) ? `was ${before?.assignedTo}` : null,
+        tone: 'neutral'
+      };
+    case 'hint.update': {
+      const count = Array.isArray(after?.hintCosts) ? after.hintCosts.length : 0;
+      return { title: 'Hints edited', detail: count === 1 ? '1 hint' : `${count} hints`, tone: 'neutral' };
+    }
+    case 'hint.unlock':
+      return {
+        title: typeof after?.hint === 'number' ? `Hint ${after.hint} unlocked by ${teamName}` : `Hint unlocked by ${teamName}`,
+        detail: typeof after?.cost === 'number' && after.cost > 0 ? `-${after.cost} points` : null,
+        tone: 'neutral'
+      };
+    case 'waitlist.join':
+      return {
+        title: `${teamName} joined the waitlist`,
+        detail: typeof after?.position === 'number' ? `#${after.position} in line` : null,
+        tone: 'neutral'
+      };
+    case 'waitlist.leave':
+      return { title: `${teamName} left the waitlist`, detail: null, tone: 'neutral' };
+    case 'extension.request':
+      return { title: `More time requested by ${teamName}`, detail: text(after?.reason), tone: 'neutral' };
+    case 'extension.grant':
+      return {
+        title: typeof after?.minutes === 'number' ? `${teamName} got ${after.minutes} more minutes` : `Extension granted to ${teamName}`,
+        detail: null,
+        tone: 'positive'
+      };
+    case 'extension.deny':
+      return { title: `Extension denied to ${teamName}`, detail: null, tone: 'neutral' };
+    case 'issue.edit':
+      return { title: 'Details edited', detail: Object.keys(after ?? {}).join(', ') || null, tone: 'neutral' };
+    default:
+      return { title: AUDIT_ACTION_LABELS[action] ?? action, detail: null, tone: 'neutral' };
+  }
+};
+
+/** Who made the change; admins appear as "Organizers" unless the viewer is one */
+const formatActor = ({ actor, actorRole }: AuditEntry, showAdminNames: boolean): string => {
+  if (actorRole === 'system') return actor === 'github' ? 'GitHub' : 'Timer';
+  if (actorRole === 'admin' && !showAdminNames) return 'Organizers';
+  return actor;
+};
+
+/** Oldest first, as the story of the issue reads */
+export const getIssueHistory = (entries: AuditEntry[], showAdminNames: boolean): IssueHistoryItem[] =>
+  [...entries]
+    .sort((a, b) => a.createdAt - b.createdAt)
+    .map(entry => ({
+      ...describe(entry),
+      id: entry.id,
+      time: entry.createdAt,
+      actor: formatActor(entry, showAdminNames)
+    }));
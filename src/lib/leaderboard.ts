@@ -0,0 +1,58 @@
+import type { Issue, LeaderboardFreeze, PointsEntry, Team } from '@/types';
+
+// Everything shown outside the admin panel goes through these helpers, so a
+// frozen leaderboard hides score changes on every public view. The store
+// enforces it too: while frozen, non-admins may read only the revealed
+// teams and the ledger up to the freeze (see firestore.rules), and
+// getFrozenTeams fills in everyone else from the freeze snapshot.
+
+export const isTeamRevealed = (teamName: string, freeze: LeaderboardFreeze | null): boolean =>
+  !freeze || freeze.revealed.includes(teamName);
+
+/** Teams with the points the public may see; teams added after the freeze show 0 */
+export const getPublicTeams = (teams: Team[], freeze: LeaderboardFreeze | null): Team[] =>
+  teams.map(team => isTeamRevealed(team.name, freeze)
+    ? team
+    : { ...team, points: freeze?.scores[team.name] ?? 0 });
+
+/** The standings non-admins can load while frozen: revealed teams live, the rest as frozen */
+export const getFrozenTeams = (freeze: LeaderboardFreeze, revealedTeams: Team[]): Team[] => [
+  ...revealedTeams,
+  ...Object.entries(freeze.scores)
+    .filter(([name]) => !revealedTeams.some(team => team.name === name))
+    .map(([name, points]) => ({ name, points, active: false }))
+];
+
+/** Ledger entries the public may see: anything before the freeze, plus revealed teams */
+export const getPublicLedger = (ledger: PointsEntry[], freeze: LeaderboardFreeze | null): PointsEntry[] =>
+  freeze
+    ? ledger.filter(entry => entry.createdAt <= freeze.frozenAt || freeze.revealed.includes(entry.teamName))
+    : ledger;
+
+/**
+ * Issues as the public may see them: a PR merged after the freeze shows as
+ * still in review until its team is revealed.
+ */
+export const getPublicIssues = (issues: Issue[], ledger: PointsEntry[], freeze: LeaderboardFreeze | null): Issue[] => {
+  if (!freeze) return issues;
+  const publicMerges = new Set(
+    getPublicLedger(ledger, freeze).filter(entry => entry.reason === 'merge').map(entry => entry.issueId)
+  );
+  return issues.map(issue =>
+    issue.prStatus === 'merged' && !publicMerges.has(issue.id) && !isTeamRevealed(issue.assignedTo ?? '', freeze)
+      ? { ...issue, prStatus: 'pending' }
+      : issue
+  );
+};
+
+/**
+ * The next team to reveal: the lowest placed team that is still frozen in
+ * the current public standings, or null when everyone has been revealed.
+ */
+export const getNextReveal = (teams: Team[], freeze: LeaderboardFreeze | null): Team | null => {
+  if (!freeze) return null;
+  const hidden = getPublicTeams(teams, freeze)
+    .filter(team => !freeze.revealed.includes(team.name))
+    .sort((a, b) => a.points - b.points || b.name.localeCompare(a.name));
+  return teams.find(team => team.name === hidden[0]?.name) ?? null;
+};
@@ -0,0 +1,41 @@
+import type { Issue, PointsEntry, PointsReason } from '@/types';
+
+// Entries that must be written at most once get deterministic ids, so a
+// second attempt (another admin, a webhook redelivery, an overlapping sweep)
+// finds the entry already there. Mirrored in functions/src/ledger.ts.
+
+/** The merge award for the issue's current occupation */
+export const getMergeEntryId = (issue: Pick<Issue, 'id' | 'occupationId' | 'closedAt'>): string =>
+  `merge_${issue.occupationId || `${issue.id}_${issue.closedAt ?? 0}`}`;
+
+export const getExpiryEntryId = (occupationId: string): string => `expiry_${occupationId}`;
+
+/** An occupation ends once, by expiring or by being released */
+export const getReleaseEntryId = (occupationId: string): string => `release_${occupationId}`;
+
+/** Each team pays for each hint of an issue once */
+export const getHintUnlockId = (issueId: string, hintIndex: number, teamName: string): string =>
+  `hint_${issueId}_${hintIndex}_${teamName}`;
+
+/** Each entry can be reversed once */
+export const getReversalEntryId = (entryId: string): string => `reversal_${entryId}`;
+
+export const POINTS_REASON_LABELS: Record<PointsReason, string> = {
+  merge: 'PR merged',
+  expiry: 'Time expired',
+  release: 'Issue released',
+  hint: 'Hint unlocked',
+  manual: 'Manual adjustment',
+  reversal: 'Reversal'
+};
+
+/** Why an entry cannot be reversed, or null if it can */
+export const getReversalBlocker = (entry: PointsEntry, entries: PointsEntry[]): string | null => {
+  if (entry.reason === 'reversal') {
+    return 'Reversals cannot be reversed. Add a manual adjustment instead.';
+  }
+  if (entries.some(e => e.id === getReversalEntryId(entry.id))) {
+    return 'This entry has already been reversed.';
+  }
+  return null;
+};
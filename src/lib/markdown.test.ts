@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest';
+import { parseInline, parseMarkdown } from '@/lib/markdown';
+
+describe('parseInline', () => {
+  it('reads code, bold, italics and links', () => {
+    expect(parseInline('Run `npm test` **now**, _please_ see [docs](https://example.com)')).toEqual([
+      { type: 'text', text: 'Run ' },
+      { type: 'code', text: 'npm test' },
+      { type: 'text', text: ' ' },
+      { type: 'strong', children: [{ type: 'text', text: 'now' }] },
+      { type: 'text', text: ', ' },
+      { type: 'em', children: [{ type: 'text', text: 'please' }] },
+      { type: 'text', text: ' see ' },
+      { type: 'link', href: 'https://example.com', children: [{ type: 'text', text: 'docs' }] }
+    ]);
+  });
+
+  it('links bare URLs without trailing punctuation', () => {
+    expect(parseInline('See https://example.com/a.')).toEqual([
+      { type: 'text', text: 'See ' },
+      { type: 'link', href: 'https://example.com/a', children: [{ type: 'text', text: 'https://example.com/a' }] },
+      { type: 'text', text: '.' }
+    ]);
+  });
+
+  it('keeps snake_case words as text', () => {
+    expect(parseInline('call get_user_name here')).toEqual([{ type: 'text', text: 'call get_user_name here' }]);
+  });
+
+  it('allows mail links', () => {
+    expect(parseInline('[mail](mailto:team@example.com)')[0]).toMatchObject({ type: 'link', href: 'mailto:team@example.com' });
+  });
+
+  it('shows only the label of links to anything but web pages and mail', () => {
+    expect(parseInline('[click](javascript:document.cookie)')).toEqual([{ type: 'text', text: 'click' }]);
+    expect(parseInline('[img](data:text/html,hi)')).toEqual([{ type: 'text', text: 'img' }]);
+  });
+});
+
+describe('parseMarkdown', () => {
+  it('splits a description into blocks', () => {
+    const source = [
+      '## Steps',
+      '',
+      '- [x] Done',
+      '- [ ] To do',
+      '',
+      '1. First',
+      '2. Second',
+      '',
+      '> Quoted',
+      '',
+      '```',
+      '<script>alert(1)</script>',
+      '```',
+      '',
+      '---',
+      'Closing words'
+    ].join('\n');
+
+    expect(parseMarkdown(source)).toEqual([
+      { type: 'heading', level: 2, children: [{ type: 'text', text: 'Steps' }] },
+      {
+        type: 'list',
+        ordered: false,
+        items: [
+          { checked: true, children: [{ type: 'text', text: 'Done' }] },
+          { checked: false, children: [{ type: 'text', text: 'To do' }] }
+        ]
+      },
+      {
+        type: 'list',
+        ordered: true,
+        items: [
+          { checked: null, children: [{ type: 'text', text: 'First' }] },
+          { checked: null, children: [{ type: 'text', text: 'Second' }] }
+        ]
+      },
+      { type: 'quote', children: [{ type: 'paragraph', children: [{ type: 'text', text: 'Quoted' }] }] },
+      { type: 'code', text: '<script>alert(1)</script>' },
+      { type: 'rule' },
+      { type: 'paragraph', children: [{ type: 'text', text: 'Closing words' }] }
+    ]);
+  });
+});
@@ -0,0 +1,161 @@
+import { isHttpUrl } from '@/lib/issueDetails';
+
+// A small Markdown subset for issue descriptions: headings, paragraphs,
+// bullet, numbered and task lists, block quotes, fenced code, rules, and
+// inline code, bold, italics and links. It parses to a tree that the
+// Markdown component renders as React elements, so raw HTML in a description
+// is only ever shown as text.
+
+export type MarkdownInline =
+  | { type: 'text'; text: string }
+  | { type: 'code'; text: string }
+  | { type: 'strong' | 'em'; children: MarkdownInline[] }
+  | { type: 'link'; href: string; children: MarkdownInline[] };
+
+export interface MarkdownListItem {
+  /** null for a plain item, true/false for "- [x]" and "- [ ]" */
+  checked: boolean | null;
+  children: MarkdownInline[];
+}
+
+export type MarkdownBlock =
+  | { type: 'heading'; level: number; children: MarkdownInline[] }
+  | { type: 'paragraph'; children: MarkdownInline[] }
+  | { type: 'list'; ordered: boolean; items: MarkdownListItem[] }
+  | { type: 'quote'; children: MarkdownBlock[] }
+  | { type: 'code'; text: string }
+  | { type: 'rule' };
+
+// Links may only go to web pages or mail addresses, never javascript: or data:
+const isLinkable = (href: string): boolean => isHttpUrl(href) || /^mailto:[^\s]+$/i.test(href);
+
+// ============ INLINE ============
+
+// Alternatives in order: code, bold, italics, [label](url), bare URL.
+// Underscore italics must not touch word characters, so snake_case survives.
+const INLINE_PATTERN =
+  /`([^`]+)`|\*\*(.+?)\*\*|__(.+?)__|\*([^*\s](?:.*?[^*\s])?)\*|(?<!\w)_([^_\s](?:.*?[^_\s])?)_(?!\w)|\[([^\]]+)\]\(([^)\s]+)\)|(https?:\/\/[^\s<]*[^\s<.,:;"')\]])/;
+
+export const parseInline = (text: string): MarkdownInline[] => {
+  const nodes: MarkdownInline[] = [];
+  let rest = text;
+
+  const pushText = (value: string) => {
+    if (!value) return;
+    const last = nodes[nodes.length - 1];
+    if (last?.type === 'text') last.text += value;
+    else nodes.push({ type: 'text', text: value });
+  };
+
+  for (let match = INLINE_PATTERN.exec(rest); match; match = INLINE_PATTERN.exec(rest)) {
+    pushText(rest.slice(0, match.index));
+    const [whole, code, strong, strongAlt, em, emAlt, label, href, url] = match;
+    if (code !== undefined) {
+      nodes.push({ type: 'code', text: code });
+    } else if (strong !== undefined || strongAlt !== undefined) {
+      nodes.push({ type: 'strong', children: parseInline(strong ?? strongAlt) });
+    } else if (em !== undefined || emAlt !== undefined) {
+      nodes.push({ type: 'em', children: parseInline(em ?? emAlt) });
+    } else if (label !== undefined) {
+      if (isLinkable(href)) nodes.push({ type: 'link', href, children: parseInline(label) });
+      else pushText(label);
+    } else if (url !== undefined) {
+      nodes.push({ type: 'link', href: url, children: [{ type: 'text', text: url }] });
+    }
+    rest = rest.slice(match.index + whole.length);
+  }
+  pushText(rest);
+  return nodes;
+};
+
+// ============ BLOCKS ============
+
+const FENCE = /^\s*(`{3,}|~{3,})/;
+const HEADING = /^\s*(#{1,6})\s+(.*?)\s*#*\s*$/;
+const RULE = /^\s*([-*_])(\s*\1){2,}\s*$/;
+const LIST_ITEM = /^\s*([-*+]|\d+[.)])\s+(.*)$/;
+const TASK = /^\[([ xX])\]\s+(.*)$/;
+const QUOTE = /^\s*>\s?(.*)$/;
+
+const toListItem = (text: string): MarkdownListItem => {
+  const task = TASK.exec(text);
+  return task
+    ? { checked: task[1] !== ' ', children: parseInline(task[2]) }
+    : { checked: null, children: parseInline(text) };
+};
+
+export const parseMarkdown = (source: string): MarkdownBlock[] => {
+  const lines = source.replace(/\r\n?/g, '\n').split('\n');
+  const blocks: MarkdownBlock[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+
+    if (!line.trim()) {
+      i++;
+      continue;
+    }
+
+    const fence = FENCE.exec(line);
+    if (fence) {
+      const code: string[] = [];
+      i++;
+      while (i < lines.length && !lines[i].trim().startsWith(fence[1])) code.push(lines[i++]);
+      blocks.push({ type: 'code', text: code.join('\n') });
+      i++;
+      continue;
+    }
+
+    const heading = HEADING.exec(line);
+    if (heading) {
+      blocks.push({ type: 'heading', level: heading[1].length, children: parseInline(heading[2]) });
+      i++;
+      continue;
+    }
+
+    if (RULE.test(line)) {
+      blocks.push({ type: 'rule' });
+      i++;
+      continue;
+    }
+
+    if (QUOTE.test(line)) {
+      const quoted: string[] = [];
+      while (i < lines.length && QUOTE.test(lines[i])) {
+        quoted.push(QUOTE.exec(lines[i++])![1]);
+      }
+      blocks.push({ type: 'quote', children: parseMarkdown(quoted.join('\n')) });
+      continue;
+    }
+
+    const listItem = LIST_ITEM.exec(line);
+    if (listItem) {
+      // Nested lists are flattened; indented lines continue the item above
+      const ordered = /\d/.test(listItem[1]);
+      const texts: string[] = [];
+      while (i < lines.length && lines[i].trim()) {
+        const item = LIST_ITEM.exec(lines[i]);
+        if (item && /\d/.test(item[1]) !== ordered) break;
+        if (item) texts.push(item[2]);
+        else if (/^\s+/.test(lines[i])) texts[texts.length - 1] += ` ${lines[i].trim()}`;
+        else break;
+        i++;
+      }
+      blocks.push({ type: 'list', ordered, items: texts.map(toListItem) });
+      continue;
+    }
+
+    const paragraph: string[] = [];
+    while (
+      i < lines.length && lines[i].trim()
+      && !FENCE.test(lines[i]) && !HEADING.test(lines[i]) && !RULE.test(lines[i])
+      && !QUOTE.test(lines[i]) && !LIST_ITEM.test(lines[i])
+    ) {
+      paragraph.push(lines[i++].trim());
+    }
+    blocks.push({ type: 'paragraph', children: parseInline(paragraph.join(' ')) });
+  }
+
+  return blocks;
+};
@@ -0,0 +1,220 @@
+import { describe, expect, it } from 'vitest';
+import type { ContestEvent, EventStatus, Issue, ScoringRules } from '@/types';
+import * as scoring from '@/lib/scoring';
+import * as ledger from '@/lib/ledger';
+import * as event from '@/lib/event';
+import * as waitlist from '@/lib/waitlist';
+import * as presence from '@/lib/presence';
+import { evaluatePullRequest } from '@/lib/prVerification';
+import { parsePullRequestUrl, parseRepositoryUrl, type GitHubPullRequest } from '@/services/githubService';
+import { teamEmail } from '@/services/firebaseService';
+import * as serverScoring from '../../functions/src/scoring';
+import * as serverLedger from '../../functions/src/ledger';
+import * as serverEvents from '../../functions/src/events';
+import * as serverWaitlist from '../../functions/src/waitlist';
+import * as serverVerification from '../../functions/src/verification';
+import { PRESENCE_TIMEOUT_MS } from '../../functions/src/presence';
+import * as serverCredentials from '../../functions/src/credentials';
+import { toMillis } from '../../functions/src/time';
+
+// The functions are deployed on their own and cannot import the web app, so
+// the rules they enforce are written twice. These run both copies on the
+// same inputs; a change to one side fails here until the other matches.
+
+const MINUTE = 60 * 1000;
+const NOW = 1_000_000_000;
+
+const issue = (overrides: Partial<Issue> = {}): Issue => ({
+  id: 'a',
+  title: 'Issue a',
+  difficulty: 'easy',
+  tags: [],
+  repo: 'app',
+  status: 'open',
+  assignedTo: null,
+  ...overrides
+});
+
+// Enough of a document snapshot or reference for the functions' helpers
+type DocumentSnapshot = Parameters<typeof serverEvents.getEventPhase>[0];
+type DocumentReference = Parameters<typeof serverScoring.loadScoringRules>[0];
+const snapshot = (data: Record<string, unknown>) => ({ get: (field: string) => data[field] }) as unknown as DocumentSnapshot;
+const rulesRef = (data: Partial<ScoringRules> | undefined) =>
+  ({ collection: () => ({ doc: () => ({ get: async () => ({ data: () => data }) }) }) }) as unknown as DocumentReference;
+
+describe('scoring', () => {
+  const storedRules: (Partial<ScoringRules> | undefined)[] = [
+    undefined,
+    { maxConcurrentIssues: 5, claimWindowMinutes: 2 },
+    { releasePenalty: { graceMinutes: 0 } as ScoringRules['releasePenalty'] },
+    { tiers: [{ id: 'tiny', name: 'Tiny', color: '', githubLabels: [], points: 3, penalty: 1, timeLimitMinutes: 5 }] }
+  ];
+  const issues = ['easy', 'medium', 'hard', 'tiny', 'unknown'].flatMap(difficulty => [
+    issue({ difficulty }),
+    issue({ difficulty, extensionMinutes: 15 })
+  ]);
+
+  it('falls back to the same defaults', async () => {
+    // Tier colours and labels are only for the admin panel
+    const usedFields = ({ tiers, ...rules }: ScoringRules) => ({
+      ...rules,
+      tiers: tiers.map(({ id, points, penalty, timeLimitMinutes }) => ({ id, points, penalty, timeLimitMinutes }))
+    });
+    for (const stored of storedRules) {
+      expect(usedFields(await serverScoring.loadScoringRules(rulesRef(stored))))
+        .toEqual(usedFields(scoring.normalizeScoringRules(stored)));
+    }
+  });
+
+  it('scores, times and penalises issues alike', () => {
+    for (const stored of storedRules) {
+      const rules = scoring.normalizeScoringRules(stored);
+      for (const item of issues) {
+        expect(serverScoring.getIssuePoints(item, rules)).toBe(scoring.getIssuePoints(item, rules));
+        expect(serverScoring.getExpiryPenalty(item, rules)).toBe(scoring.getExpiryPenalty(item, rules));
+        expect(serverScoring.getTimeLimitMs(item, rules)).toBe(scoring.getTimeLimitMs(item, rules));
+        for (const elapsed of [0, MINUTE, 2 * MINUTE, 10 * MINUTE, 90 * MINUTE]) {
+          expect(serverScoring.getReleasePenalty(item, rules, elapsed)).toBe(scoring.getReleasePenalty(item, rules, elapsed));
+        }
+      }
+    }
+  });
+});
+
+describe('ledger ids', () => {
+  it('key entries alike', () => {
+    for (const { occupationId, closedAt } of [{ occupationId: 'a_1', closedAt: 5 }, { occupationId: null, closedAt: 5 }, { occupationId: null, closedAt: null }]) {
+      expect(serverLedger.getMergeEntryId('a', occupationId, closedAt)).toBe(ledger.getMergeEntryId(issue({ occupationId, closedAt })));
+    }
+    expect(serverLedger.getExpiryEntryId('a_1')).toBe(ledger.getExpiryEntryId('a_1'));
+    expect(serverLedger.getReleaseEntryId('a_1')).toBe(ledger.getReleaseEntryId('a_1'));
+    expect(serverLedger.getHintUnlockId('a', 1, 'red')).toBe(ledger.getHintUnlockId('a', 1, 'red'));
+  });
+});
+
+describe('event phase', () => {
+  it('opens and closes events alike', () => {
+    const statuses: EventStatus[] = ['draft', 'scheduled', 'running', 'paused', 'ended'];
+    const times = [null, NOW - MINUTE, NOW + MINUTE];
+    for (const status of statuses) {
+      for (const startsAt of times) {
+        for (const endsAt of times) {
+          const stored: Pick<ContestEvent, 'status' | 'startsAt' | 'endsAt'> = { status, startsAt, endsAt };
+          expect(serverEvents.getEventPhase(snapshot(stored), NOW)).toBe(event.getEventPhase(stored, NOW));
+        }
+      }
+    }
+  });
+});
+
+describe('waitlists', () => {
+  const held = [
+    issue({ id: 'a', status: 'occupied', assignedTo: 'red' }),
+    issue({ id: 'b', status: 'open', offeredTo: 'red', offerExpiresAt: NOW + MINUTE }),
+    issue({ id: 'c', status: 'open', offeredTo: 'red', offerExpiresAt: NOW - MINUTE }),
+    issue({ id: 'd', status: 'closed', assignedTo: 'red', prStatus: 'pending' })
+  ];
+
+  it('counts held issues and offers alike', () => {
+    const docs = held.map(({ id, ...data }) => ({ id, data }));
+    for (const item of held) {
+      expect(serverWaitlist.getActiveOffer(item, NOW)).toBe(waitlist.getActiveOffer(item, NOW));
+    }
+    for (const claimingId of [undefined, 'a', 'b']) {
+      expect(serverWaitlist.countHeldIssues(docs, 'red', NOW, claimingId)).toBe(waitlist.countHeldIssues(held, 'red', NOW, claimingId));
+    }
+  });
+
+  it('lets the same teams queue', () => {
+    for (const item of held) {
+      for (const teamName of ['red', 'blue']) {
+        expect(serverWaitlist.canJoinWaitlist(item, teamName)).toBe(waitlist.canJoinWaitlist(item, teamName));
+      }
+    }
+    expect(serverWaitlist.getWaitlistLimitError(3)).toBe(waitlist.getWaitlistLimitError(3));
+  });
+
+  it('hands a freed issue on alike', () => {
+    const rules = scoring.DEFAULT_SCORING_RULES;
+    for (const fullTeams of [new Set<string>(), new Set(['blue']), new Set(['blue', 'green'])]) {
+      const freed = issue({ waitlist: ['blue', 'green'] });
+      const { lastUpdated, offerExpiresAt, ...update } = serverWaitlist.getFreedIssueUpdate(freed, rules, NOW, fullTeams);
+      expect(toMillis(lastUpdated)).toBe(NOW);
+      expect({ ...update, offerExpiresAt: toMillis(offerExpiresAt) }).toEqual(waitlist.getFreedIssueFields(freed, rules, NOW, fullTeams));
+    }
+  });
+});
+
+describe('pull request checks', () => {
+  const OCCUPIED_AT = Date.parse('2025-01-01T10:00:00Z');
+  const pr: GitHubPullRequest = {
+    number: 7,
+    title: 'Fix the thing',
+    body: 'Fixes #12',
+    html_url: 'https://github.com/org/app/pull/7',
+    created_at: '2025-01-01T10:30:00Z',
+    user: { login: 'Octocat' },
+    baseRepo: 'org/app'
+  };
+  const prs: GitHubPullRequest[] = [
+    pr,
+    { ...pr, baseRepo: 'org/other' },
+    { ...pr, created_at: '2025-01-01T09:00:00Z' },
+    { ...pr, body: 'Fixes #123' },
+    { ...pr, body: 'See https://github.com/org/app/issues/12' },
+    { ...pr, user: { login: 'someone' } }
+  ];
+  const setups = [
+    { repositoryUrl: 'https://github.com/org/app', githubUsernames: ['octocat'], githubNumber: 12 },
+    { repositoryUrl: undefined, githubUsernames: [], githubNumber: undefined }
+  ];
+
+  it('passes, fails and skips the same checks', () => {
+    const outcome = (verification: { status: string; checks: { id: string; status: string }[] }) =>
+      ({ status: verification.status, checks: verification.checks.map(({ id, status }) => ({ id, status })) });
+    for (const { repositoryUrl, githubUsernames, githubNumber } of setups) {
+      const occupied = issue({ occupiedAt: OCCUPIED_AT, githubNumber, githubUrl: githubNumber ? 'https://github.com/org/app/issues/12' : undefined });
+      for (const item of prs) {
+        const { baseRepo, html_url: _url, ...fetched } = item;
+        const serverResult = serverVerification.evaluatePullRequest(
+          { ...fetched, base: { repo: { full_name: baseRepo } } },
+          { issue: occupied, repositoryUrl, githubUsernames },
+          NOW
+        );
+        const webResult = evaluatePullRequest(
+          item,
+          {
+            issue: occupied,
+            repository: repositoryUrl ? { name: 'app', url: repositoryUrl } : undefined,
+            team: { name: 'red', points: 0, active: false, githubUsernames }
+          },
+          NOW
+        );
+        expect(outcome(serverResult)).toEqual(outcome(webResult));
+      }
+    }
+  });
+
+  it('reads GitHub URLs alike', () => {
+    for (const url of ['https://github.com/org/app', 'https://www.github.com/org/app.git/', 'https://gitlab.com/org/app', 'github.com/org/app']) {
+      const ref = parseRepositoryUrl(url);
+      expect(serverVerification.parseRepositoryUrl(url)).toBe(ref && `${ref.owner}/${ref.repo}`);
+    }
+    for (const url of ['https://github.com/org/app/pull/7', 'https://github.com/org/app/pull/7/', 'https://github.com/org/app/issues/7']) {
+      const ref = parsePullRequestUrl(url);
+      expect(serverVerification.parsePullRequestUrl(url)).toEqual(ref && { repo: `${ref.owner}/${ref.repo}`, number: ref.number });
+    }
+  });
+});
+
+describe('sessions', () => {
+  it('time out presence alike', () => {
+    expect(PRESENCE_TIMEOUT_MS).toBe(presence.PRESENCE_TIMEOUT_MS);
+  });
+
+  it('derive the same team login', () => {
+    for (const teamName of ['red', ' Red Team! ', 'Équipe 7']) {
+      expect(serverCredentials.teamEmail('spring', teamName)).toBe(teamEmail('spring', teamName));
+    }
+  });
+});
@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import type { Issue } from '@/types';
+import type { GitHubPullRequest } from '@/services/githubService';
+import { evaluatePullRequest } from '@/lib/prVerification';
+
+const OCCUPIED_AT = Date.parse('2025-01-01T10:00:00Z');
+
+const issue: Issue = {
+  id: 'issue-1',
+  title: 'Fix the thing',
+  tags: [],
+  repo: 'app',
+  status: 'occupied',
+  assignedTo: 'red',
+  occupiedAt: OCCUPIED_AT,
+  githubNumber: 12
+};
+
+const pr: GitHubPullRequest = {
+  number: 7,
+  title: 'Fix the thing',
+  body: 'Fixes #12',
+  html_url: 'https://github.com/org/app/pull/7',
+  created_at: '2025-01-01T10:30:00Z',
+  user: { login: 'Octocat' },
+  baseRepo: 'org/app'
+};
+
+const repository = { name: 'app', url: 'https://github.com/org/app' };
+const team = { name: 'red', points: 0, active: false, githubUsernames: ['octocat'] };
+
+const statuses = (verification: ReturnType<typeof evaluatePullRequest>) =>
+  Object.fromEntries(verification.checks.map(check => [check.id, check.status]));
+
+describe('evaluatePullRequest', () => {
+  it('passes a PR that meets every check', () => {
+    const verification = evaluatePullRequest(pr, { issue, repository, team });
+    expect(verification.status).toBe('passed');
+    expect(statuses(verification)).toEqual({
+      repository: 'passed',
+      openedAfterOccupy: 'passed',
+      referencesIssue: 'passed',
+      author: 'passed'
+    });
+  });
+
+  it('fails a PR to another repository, by someone else or opened too early', () => {
+    const verification = evaluatePullRequest(
+      { ...pr, baseRepo: 'org/other', user: { login: 'stranger' }, created_at: '2025-01-01T09:00:00Z', body: null },
+      { issue, repository, team }
+    );
+    expect(verification.status).toBe('failed');
+    expect(statuses(verification)).toEqual({
+      repository: 'failed',
+      openedAfterOccupy: 'failed',
+      referencesIssue: 'failed',
+      author: 'failed'
+    });
+  });
+
+  it('skips the checks the event is not set up for', () => {
+    const verification = evaluatePullRequest(pr, {
+      issue: { ...issue, githubNumber: undefined },
+      repository: { name: 'app', url: '' },
+      team: { ...team, githubUsernames: [] }
+    });
+    expect(verification.status).toBe('passed');
+    expect(statuses(verification)).toEqual({
+      repository: 'skipped',
+      openedAfterOccupy: 'passed',
+      referencesIssue: 'skipped',
+      author: 'skipped'
+    });
+  });
+});
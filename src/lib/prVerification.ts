@@ -0,0 +1,123 @@
+import type { Issue, PrVerification, PrVerificationCheck, Repository, Team } from '@/types';
+import {
+  getPullRequest,
+  GitHubApiError,
+  parsePullRequestUrl,
+  parseRepositoryUrl,
+  type GitHubPullRequest
+} from '@/services/githubService';
+
+interface VerificationContext {
+  issue: Issue;
+  repository?: Repository;
+  team?: Team;
+}
+
+const sameName = (a: string, b: string) => a.toLowerCase() === b.toLowerCase();
+
+/** True when the PR title or body mentions the issue as #N or by its URL */
+const referencesIssue = (pr: GitHubPullRequest, issue: Issue): boolean => {
+  const text = `${pr.title}\n${pr.body ?? ''}`;
+  return new RegExp(`(^|[^\\w/])#${issue.githubNumber}\\b`).test(text) ||
+    (!!issue.githubUrl && text.includes(issue.githubUrl));
+};
+
+/** Run every check against an already fetched pull request */
+export const evaluatePullRequest = (
+  pr: GitHubPullRequest,
+  { issue, repository, team }: VerificationContext,
+  now: number = Date.now()
+): PrVerification => {
+  const repoRef = repository && parseRepositoryUrl(repository.url);
+  const expectedRepo = repoRef ? `${repoRef.owner}/${repoRef.repo}` : null;
+  const openedAt = Date.parse(pr.created_at);
+  const accounts = team?.githubUsernames ?? [];
+
+  const checks: PrVerificationCheck[] = [
+    // Missing setup is for the admins to fix, so it skips a check rather than failing it
+    expectedRepo
+      ? {
+          id: 'repository',
+          label: 'Targets the issue\'s repository',
+          status: sameName(pr.baseRepo, expectedRepo) ? 'passed' : 'failed',
+          detail: `PR targets ${pr.baseRepo}, expected ${expectedRepo}`
+        }
+      : {
+          id: 'repository',
+          label: 'Targets the issue\'s repository',
+          status: 'skipped',
+          detail: `Repository "${issue.repo}" has no GitHub URL to compare against`
+        },
+    {
+      id: 'openedAfterOccupy',
+      label: 'Opened after the issue was occupied',
+      status: issue.occupiedAt && openedAt >= issue.occupiedAt ? 'passed' : 'failed',
+      detail: `PR opened ${new Date(openedAt).toLocaleString()}` +
+        (issue.occupiedAt ? `, issue occupied ${new Date(issue.occupiedAt).toLocaleString()}` : '')
+    },
+    issue.githubNumber
+      ? {
+          id: 'referencesIssue',
+          label: `References issue #${issue.githubNumber}`,
+          status: referencesIssue(pr, issue) ? 'passed' : 'failed',
+          detail: `Mention #${issue.githubNumber} (e.g. "Fixes #${issue.githubNumber}") in the PR description`
+        }
+      : {
+          id: 'referencesIssue',
+          label: 'References the GitHub issue',
+          status: 'skipped',
+          detail: 'This issue is not linked to a GitHub issue'
+        },
+    accounts.length
+      ? {
+          id: 'author',
+          label: 'Authored by a linked team account',
+          status: accounts.some(login => sameName(login, pr.user.login)) ? 'passed' : 'failed',
+          detail: `PR author @${pr.user.login}; team accounts: ${accounts.map(a => `@${a}`).join(', ')}`
+        }
+      : {
+          id: 'author',
+          label: 'Authored by a linked team account',
+          status: 'skipped',
+          detail: `PR author @${pr.user.login}; no GitHub accounts are linked to this team yet`
+        }
+  ];
+
+  return {
+    status: checks.some(check => check.status === 'failed') ? 'failed' : 'passed',
+    checks,
+    prNumber: pr.number,
+    author: pr.user.login,
+    checkedAt: now
+  };
+};
+
+/**
+ * Fetch the PR behind `prUrl` and check it against the issue. A PR that does
+ * not exist fails verification; other GitHub errors yield status "error" so
+ * an outage does not block submissions (the admin sees them as unverified).
+ */
+export const verifyPullRequest = async (prUrl: string, context: VerificationContext): Promise<PrVerification> => {
+  const ref = parsePullRequestUrl(prUrl);
+  if (!ref) {
+    return {
+      status: 'failed',
+      checks: [],
+      error: 'Not a GitHub pull request URL',
+      checkedAt: Date.now()
+    };
+  }
+
+  try {
+    const pr = await getPullRequest(ref);
+    return evaluatePullRequest(pr, context);
+  } catch (error) {
+    const notFound = error instanceof GitHubApiError && error.status === 404;
+    return {
+      status: notFound ? 'failed' : 'error',
+      checks: [],
+      error: notFound ? 'Pull request not found on GitHub' : (error as Error).message,
+      checkedAt: Date.now()
+    };
+  }
+};
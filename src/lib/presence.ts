@@ -0,0 +1,29 @@
+import type { Team } from '@/types';
+
+// Presence is heartbeat based: the signed-in tab refreshes lastSeen while it
+// is open, and a session that misses PRESENCE_TIMEOUT_MS is treated as gone
+// (functions/src/presence.ts clears it server-side with the same timeout).
+
+export const HEARTBEAT_INTERVAL_MS = 30 * 1000;
+export const PRESENCE_TIMEOUT_MS = 90 * 1000;
+
+const SESSION_STORAGE_KEY = 'contribx.sessionId';
+
+/**
+ * Identifies this browser across reloads, so a refresh resumes the team's
+ * session instead of counting as a second one.
+ */
+export const getSessionId = (): string => {
+  let sessionId = localStorage.getItem(SESSION_STORAGE_KEY);
+  if (!sessionId) {
+    sessionId = crypto.randomUUID();
+    localStorage.setItem(SESSION_STORAGE_KEY, sessionId);
+  }
+  return sessionId;
+};
+
+export const isSessionFresh = (team: Pick<Team, 'lastSeen'>, now: number = Date.now()): boolean =>
+  !!team.lastSeen && now - team.lastSeen < PRESENCE_TIMEOUT_MS;
+
+export const isTeamOnline = (team: Team, now: number = Date.now()): boolean =>
+  team.active && !!team.activeSessionId && isSessionFresh(team, now);
@@ -0,0 +1,176 @@
+import type { ResultsReport, TeamResult } from '@/lib/results';
+import { formatOrdinal } from '@/lib/results';
+import { isHttpUrl } from '@/lib/issueDetails';
+
+// Self-contained HTML documents (inline styles, no app assets) that can be
+// saved as they are or printed to PDF from the browser's print dialog.
+
+export const escapeHtml = (text: string): string =>
+  text.replace(/[&<>"']/g, char => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' }[char]!));
+
+const formatDate = (time: number | null) =>
+  time === null ? '' : new Date(time).toLocaleDateString([], { day: 'numeric', month: 'long', year: 'numeric' });
+
+const formatDelta = (delta: number) => (delta > 0 ? `+${delta}` : String(delta));
+
+const page = (title: string, style: string, body: string) => `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(title)}</title>
+<style>
+body { font-family: system-ui, -apple-system, "Segoe UI", sans-serif; color: #0f172a; margin: 0; }
+${style}
+</style>
+</head>
+<body>
+${body}
+</body>
+</html>`;
+
+// ============ RESULTS REPORT ============
+
+const REPORT_STYLE = `
+main { max-width: 960px; margin: 0 auto; padding: 32px; }
+h1 { margin: 0; font-size: 28px; }
+h2 { margin: 32px 0 8px; font-size: 20px; border-bottom: 2px solid #e2e8f0; padding-bottom: 4px; }
+.meta { color: #64748b; margin: 4px 0 24px; }
+table { width: 100%; border-collapse: collapse; font-size: 14px; }
+th, td { text-align: left; padding: 6px 8px; border-bottom: 1px solid #e2e8f0; vertical-align: top; }
+th { background: #f8fafc; }
+td.num, th.num { text-align: right; font-variant-numeric: tabular-nums; }
+a { color: #2563eb; word-break: break-all; }
+.team { break-inside: avoid; }
+.empty { color: #94a3b8; }
+@media print { main { padding: 0; } h2 { break-after: avoid; } }
+`;
+
+const formatPenaltyCounts = ({ expiredIssues, releasedIssues }: TeamResult) => {
+  const counts = [expiredIssues && `${expiredIssues} expired`, releasedIssues && `${releasedIssues} released`].filter(Boolean);
+  return counts.length ? ` (${counts.join(', ')})` : '';
+};
+
+const renderStandings = (teams: TeamResult[]) => `
+<table>
+<thead><tr>
+<th class="num">Rank</th><th>Team</th><th class="num">Points</th><th class="num">Solved</th>
+<th class="num">Merged</th><th class="num">Penalties</th><th class="num">Hints</th><th class="num">Adjustments</th>
+</tr></thead>
+<tbody>
+${teams.map(team => `<tr>
+<td class="num">${team.rank}</td>
+<td>${escapeHtml(team.teamName)}</td>
+<td class="num"><strong>${team.points}</strong></td>
+<td class="num">${team.solved.length}</td>
+<td class="num">${formatDelta(team.breakdown.merged)}</td>
+<td class="num">${formatDelta(team.breakdown.penalties)}${formatPenaltyCounts(team)}</td>
+<td class="num">${formatDelta(team.breakdown.hints)}</td>
+<td class="num">${formatDelta(team.breakdown.manual + team.breakdown.reversals + team.breakdown.unrecorded)}</td>
+</tr>`).join('\n')}
+</tbody>
+</table>`;
+
+// Team-written: the report is opened in a same-origin window, so only web
+// pages become links and anything else is printed as text
+const formatPrLink = (prUrl: string | null): string => {
+  if (!prUrl) return '';
+  return isHttpUrl(prUrl) ? `<a href="${escapeHtml(prUrl)}">${escapeHtml(prUrl)}</a>` : escapeHtml(prUrl);
+};
+
+const renderTeam = (team: TeamResult) => `
+<section class="team">
+<h2>${formatOrdinal(team.rank)} · ${escapeHtml(team.teamName)} · ${team.points} pts</h2>
+${team.solved.length === 0 ? '<p class="empty">No merged pull requests.</p>' : `
+<table>
+<thead><tr><th>Issue</th><th>Repository</th><th>Difficulty</th><th class="num">Points</th><th>Pull request</th></tr></thead>
+<tbody>
+${team.solved.map(issue => `<tr>
+<td>${escapeHtml(issue.title)}</td>
+<td>${escapeHtml(issue.repo)}</td>
+<td>${escapeHtml(issue.difficulty ?? '')}</td>
+<td class="num">${issue.points}</td>
+<td>${formatPrLink(issue.prUrl)}</td>
+</tr>`).join('\n')}
+</tbody>
+</table>`}
+</section>`;
+
+export const renderResultsReport = (report: ResultsReport): string => {
+  const { event } = report;
+  const title = `${event.name} — Final Results`;
+  const dates = [formatDate(event.startsAt), formatDate(event.endsAt)].filter(Boolean);
+  const meta = [
+    event.organizer && escapeHtml(event.organizer),
+    dates.length && [...new Set(dates)].join(' – '),
+    `Generated ${new Date(report.generatedAt).toLocaleString()}`
+  ].filter(Boolean).join(' · ');
+
+  return page(title, REPORT_STYLE, `<main>
+<h1>${escapeHtml(title)}</h1>
+<p class="meta">${meta}</p>
+<h2>Standings</h2>
+${report.teams.length ? renderStandings(report.teams) : '<p class="empty">No teams.</p>'}
+${report.teams.map(renderTeam).join('\n')}
+</main>`);
+};
+
+// ============ CERTIFICATES ============
+
+export const CERTIFICATE_PLACEHOLDERS = ['{team}', '{rank}', '{points}', '{solved}', '{event}', '{organizer}', '{date}'];
+
+export const DEFAULT_CERTIFICATE_TEMPLATE =
+  'This certifies that {team} took part in {event}, placing {rank} with {points} points and {solved} merged pull request(s).';
+
+const CERTIFICATE_STYLE = `
+@page { size: A4 landscape; margin: 0; }
+.certificate {
+  box-sizing: border-box; width: 297mm; height: 210mm; padding: 24mm;
+  display: flex; flex-direction: column; align-items: center; justify-content: center; text-align: center;
+  border: 6mm solid #1e293b; outline: 1mm solid #f59e0b; outline-offset: -10mm;
+  break-after: page;
+}
+.certificate:last-child { break-after: auto; }
+.kicker { letter-spacing: 0.3em; text-transform: uppercase; color: #b45309; font-size: 14pt; margin: 0; }
+.team { font-size: 40pt; font-weight: 800; margin: 12mm 0 8mm; }
+.text { font-size: 16pt; line-height: 1.5; max-width: 200mm; margin: 0; }
+.footer { margin-top: 16mm; color: #475569; font-size: 12pt; }
+`;
+
+/** Fill a certificate template; every placeholder may appear any number of times */
+export const fillCertificateTemplate = (template: string, team: TeamResult, report: ResultsReport): string => {
+  const values: Record<string, string> = {
+    '{team}': team.teamName,
+    '{rank}': formatOrdinal(team.rank),
+    '{points}': String(team.points),
+    '{solved}': String(team.solved.length),
+    '{event}': report.event.name,
+    '{organizer}': report.event.organizer,
+    '{date}': formatDate(report.event.endsAt ?? report.generatedAt)
+  };
+  return template.replace(/\{(team|rank|points|solved|event|organizer|date)\}/g, placeholder => values[placeholder]);
+};
+
+/** One landscape A4 page per team */
+export const renderCertificates = (report: ResultsReport, teams: TeamResult[], template: string): string =>
+  page(`${report.event.name} — Certificates`, CERTIFICATE_STYLE, teams.map(team => `<section class="certificate">
+<p class="kicker">Certificate of Participation</p>
+<p class="team">${escapeHtml(team.teamName)}</p>
+<p class="text">${escapeHtml(fillCertificateTemplate(template, team, report))}</p>
+<p class="footer">${escapeHtml([report.event.organizer, formatDate(report.event.endsAt ?? report.generatedAt)].filter(Boolean).join(' · '))}</p>
+</section>`).join('\n'));
+
+/**
+ * Open the document in a new tab and bring up the print dialog, where it can
+ * be saved as a PDF. Throws when the browser blocks the pop-up.
+ */
+export const openPrintWindow = (html: string) => {
+  const printWindow = window.open('', '_blank');
+  if (!printWindow) {
+    throw new Error('The browser blocked the print window. Allow pop-ups for this site and try again.');
+  }
+  printWindow.document.write(html);
+  printWindow.document.close();
+  printWindow.focus();
+  // Give the new document a moment to lay out before printing
+  printWindow.setTimeout(() => printWindow.print(), 300);
+};
@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import type { PointsEntry, Team } from '@/types';
+import { getRankChanges, getRanks, getScoreHistory, getScoresAt } from '@/lib/rankings';
+
+const team = (name: string, points: number): Team => ({ name, points, active: false });
+
+const entry = (teamName: string, delta: number, createdAt: number, reason: PointsEntry['reason'] = 'merge'): PointsEntry => ({
+  id: `${teamName}-${createdAt}`,
+  teamName,
+  delta,
+  reason,
+  issueId: null,
+  actor: 'system',
+  createdAt
+});
+
+describe('getRanks', () => {
+  it('gives tied teams the same rank and skips the places they share', () => {
+    expect(getRanks({ a: 30, b: 20, c: 30, d: 10 })).toEqual({ a: 1, c: 1, b: 3, d: 4 });
+  });
+});
+
+describe('getScoresAt', () => {
+  it('replays the ledger backwards from the current scores', () => {
+    const teams = [team('a', 25), team('b', 10)];
+    const ledger = [entry('a', 20, 100), entry('a', 5, 200), entry('b', 10, 150)];
+    expect(getScoresAt(teams, ledger, 50)).toEqual({ a: 0, b: 0 });
+    expect(getScoresAt(teams, ledger, 150)).toEqual({ a: 20, b: 10 });
+    expect(getScoresAt(teams, ledger, 200)).toEqual({ a: 25, b: 10 });
+  });
+
+  it('ignores entries of teams that no longer exist', () => {
+    expect(getScoresAt([team('a', 5)], [entry('gone', 10, 100)], 0)).toEqual({ a: 5 });
+  });
+});
+
+describe('getRankChanges', () => {
+  it('counts places gained and lost since the given time', () => {
+    const teams = [team('a', 10), team('b', 30)];
+    const ledger = [entry('b', 25, 100)];
+    expect(getRankChanges(teams, ledger, 50)).toEqual({ a: -1, b: 1 });
+  });
+});
+
+describe('getScoreHistory', () => {
+  it('adds a starting row, one row per entry and a row at now', () => {
+    const teams = [team('a', 15)];
+    const ledger = [entry('a', -5, 200, 'expiry'), entry('a', 20, 100), entry('a', 0, 150, 'manual')];
+    const { rows, markers } = getScoreHistory(teams, ledger, 300);
+
+    expect(rows.map(row => [row.time, row.scores.a])).toEqual([[99, 0], [100, 20], [150, 20], [200, 15], [300, 15]]);
+    expect(markers.map(marker => [marker.entry.reason, marker.score])).toEqual([['merge', 20], ['expiry', 15]]);
+  });
+
+  it('starts at now when the ledger is empty', () => {
+    expect(getScoreHistory([team('a', 5)], [], 300).rows).toEqual([
+      { time: 300, scores: { a: 5 } },
+      { time: 300, scores: { a: 5 } }
+    ]);
+  });
+});
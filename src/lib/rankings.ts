@@ -0,0 +1,74 @@
+import type { PointsEntry, Team } from '@/types';
+
+// Score history is replayed from the points ledger: a team's score at any
+// moment is its current score minus every entry recorded after that moment.
+// Points awarded before the ledger existed show up as the starting score.
+
+export interface ScoreHistoryRow {
+  time: number;
+  /** Score per team, keyed by team name */
+  scores: Record<string, number>;
+}
+
+export interface TimelineMarker {
+  entry: PointsEntry;
+  /** The team's score right after the entry */
+  score: number;
+}
+
+/** Competition ranking (1, 1, 3): tied teams share a rank */
+export const getRanks = (scores: Record<string, number>): Record<string, number> => {
+  const ordered = Object.entries(scores).sort(([, a], [, b]) => b - a);
+  const ranks: Record<string, number> = {};
+  ordered.forEach(([name, score], index) => {
+    const previous = ordered[index - 1];
+    ranks[name] = previous && previous[1] === score ? ranks[previous[0]] : index + 1;
+  });
+  return ranks;
+};
+
+export const getScoresAt = (teams: Team[], ledger: PointsEntry[], time: number): Record<string, number> => {
+  const scores = Object.fromEntries(teams.map(team => [team.name, team.points]));
+  for (const entry of ledger) {
+    if (entry.createdAt > time && entry.teamName in scores) {
+      scores[entry.teamName] -= entry.delta;
+    }
+  }
+  return scores;
+};
+
+/**
+ * Places gained (positive) or lost (negative) by each team since `since`.
+ * Teams created after `since` count as unchanged.
+ */
+export const getRankChanges = (teams: Team[], ledger: PointsEntry[], since: number): Record<string, number> => {
+  const before = getRanks(getScoresAt(teams, ledger, since));
+  const now = getRanks(Object.fromEntries(teams.map(team => [team.name, team.points])));
+  return Object.fromEntries(teams.map(team => [team.name, before[team.name] - now[team.name]]));
+};
+
+/**
+ * One row per ledger entry (oldest first) with every team's score after it,
+ * plus a starting row and a final row at `now` so lines reach the present.
+ */
+export const getScoreHistory = (teams: Team[], ledger: PointsEntry[], now: number = Date.now()) => {
+  const entries = ledger
+    .filter(entry => teams.some(team => team.name === entry.teamName))
+    .sort((a, b) => a.createdAt - b.createdAt);
+
+  const start = entries.length ? entries[0].createdAt - 1 : now;
+  const scores = getScoresAt(teams, entries, start);
+  const rows: ScoreHistoryRow[] = [{ time: start, scores: { ...scores } }];
+  const markers: TimelineMarker[] = [];
+
+  for (const entry of entries) {
+    scores[entry.teamName] += entry.delta;
+    rows.push({ time: entry.createdAt, scores: { ...scores } });
+    if (entry.reason === 'merge' || entry.reason === 'expiry') {
+      markers.push({ entry, score: scores[entry.teamName] });
+    }
+  }
+  rows.push({ time: Math.max(now, start), scores: { ...scores } });
+
+  return { rows, markers };
+};
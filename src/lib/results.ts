@@ -0,0 +1,143 @@
+import type { ContestEvent, Issue, PointsEntry, ScoringRules, Team } from '@/types';
+import { toCsv } from '@/lib/csv';
+import { getRanks } from '@/lib/rankings';
+import { getIssuePoints, getTier } from '@/lib/scoring';
+import { getMergeEntryId } from '@/lib/ledger';
+
+// Final results, built in the browser from the data the admin panel already
+// has. Scores are the live ones: a frozen public leaderboard does not hide
+// anything from the organisers' report.
+
+export interface SolvedIssue {
+  issueId: string;
+  title: string;
+  repo: string;
+  difficulty: string | null;
+  points: number;
+  prUrl: string | null;
+  closedAt: number | null;
+}
+
+export interface TeamResult {
+  rank: number;
+  teamName: string;
+  points: number;
+  solved: SolvedIssue[];
+  /** Sums of the team's ledger entries by reason */
+  breakdown: {
+    merged: number;
+    /** For expired and released issues */
+    penalties: number;
+    /** Spent on unlocking hints */
+    hints: number;
+    manual: number;
+    reversals: number;
+    /** Points from before the ledger existed */
+    unrecorded: number;
+  };
+  expiredIssues: number;
+  releasedIssues: number;
+}
+
+export interface ResultsReport {
+  event: Pick<ContestEvent, 'slug' | 'name' | 'organizer' | 'startsAt' | 'endsAt'>;
+  generatedAt: number;
+  teams: TeamResult[];
+}
+
+export const buildResultsReport = (
+  { event, teams, issues, ledger, rules }: {
+    event: ContestEvent;
+    teams: Team[];
+    issues: Issue[];
+    ledger: PointsEntry[];
+    rules: ScoringRules;
+  },
+  now: number = Date.now()
+): ResultsReport => {
+  const ranks = getRanks(Object.fromEntries(teams.map(team => [team.name, team.points])));
+  const ledgerById = new Map(ledger.map(entry => [entry.id, entry]));
+
+  const results = teams.map<TeamResult>(team => {
+    const entries = ledger.filter(entry => entry.teamName === team.name);
+    const sum = (reason: PointsEntry['reason']) =>
+      entries.filter(entry => entry.reason === reason).reduce((total, entry) => total + entry.delta, 0);
+
+    const solved = issues
+      .filter(issue => issue.assignedTo === team.name && issue.prStatus === 'merged')
+      .map<SolvedIssue>(issue => ({
+        issueId: issue.id,
+        title: issue.title,
+        repo: issue.repo,
+        difficulty: getTier(issue, rules)?.name ?? null,
+        // What was actually paid out, if the award is in the ledger
+        points: ledgerById.get(getMergeEntryId(issue))?.delta ?? getIssuePoints(issue, rules),
+        prUrl: issue.prUrl ?? null,
+        closedAt: issue.closedAt ?? null
+      }))
+      .sort((a, b) => (a.closedAt ?? 0) - (b.closedAt ?? 0));
+
+    const recorded = entries.reduce((total, entry) => total + entry.delta, 0);
+    return {
+      rank: ranks[team.name],
+      teamName: team.name,
+      points: team.points,
+      solved,
+      breakdown: {
+        merged: sum('merge'),
+        penalties: sum('expiry') + sum('release'),
+        hints: sum('hint'),
+        manual: sum('manual'),
+        reversals: sum('reversal'),
+        unrecorded: team.points - recorded
+      },
+      expiredIssues: entries.filter(entry => entry.reason === 'expiry').length,
+      releasedIssues: entries.filter(entry => entry.reason === 'release').length
+    };
+  });
+
+  return {
+    event: {
+      slug: event.slug,
+      name: event.name,
+      organizer: event.organizer,
+      startsAt: event.startsAt,
+      endsAt: event.endsAt
+    },
+    generatedAt: now,
+    teams: results.sort((a, b) => a.rank - b.rank || a.teamName.localeCompare(b.teamName))
+  };
+};
+
+export const resultsToJson = (report: ResultsReport): string => JSON.stringify(report, null, 2);
+
+/** One row per team; solved issues and their PRs are listed in the last columns */
+export const resultsToCsv = (report: ResultsReport): string =>
+  toCsv([
+    [
+      'rank', 'team', 'points', 'solved', 'mergedPoints', 'penalties', 'expiredIssues',
+      'releasedIssues', 'hints', 'manualAdjustments', 'reversals', 'unrecorded', 'solvedIssues', 'pullRequests'
+    ],
+    ...report.teams.map(team => [
+      team.rank,
+      team.teamName,
+      team.points,
+      team.solved.length,
+      team.breakdown.merged,
+      team.breakdown.penalties,
+      team.expiredIssues,
+      team.releasedIssues,
+      team.breakdown.hints,
+      team.breakdown.manual,
+      team.breakdown.reversals,
+      team.breakdown.unrecorded,
+      team.solved.map(issue => `${issue.repo}: ${issue.title}`).join(' | '),
+      team.solved.map(issue => issue.prUrl ?? '').filter(Boolean).join(' ')
+    ])
+  ]);
+
+/** "1st", "2nd", "3rd", "11th", ... */
+export const formatOrdinal = (rank: number): string => {
+  const suffixes: Record<string, string> = { one: 'st', two: 'nd', few: 'rd', other: 'th' };
+  return `${rank}${suffixes[new Intl.PluralRules('en', { type: 'ordinal' }).select(rank)]}`;
+};
@@ -0,0 +1,104 @@
+import { describe, expect, it } from 'vitest';
+import type { Issue } from '@/types';
+import {
+  createTierId,
+  DEFAULT_SCORING_RULES,
+  getIssuePoints,
+  getReleasePenalty,
+  getTier,
+  getTierForLabels,
+  getTimeLimitMs,
+  getTimeRemainingMs,
+  isIssueExpired,
+  migrateIssueDifficulty,
+  normalizeScoringRules
+} from '@/lib/scoring';
+
+const rules = DEFAULT_SCORING_RULES;
+const MINUTE = 60 * 1000;
+
+const issue = (overrides: Partial<Issue> = {}): Issue => ({
+  id: 'issue-1',
+  title: 'Fix the thing',
+  difficulty: 'easy',
+  tags: [],
+  repo: 'app',
+  status: 'open',
+  assignedTo: null,
+  ...overrides
+});
+
+describe('normalizeScoringRules', () => {
+  it('fills in what a stored document leaves out', () => {
+    const normalized = normalizeScoringRules({
+      maxConcurrentIssues: 2,
+      tiers: [{ id: 'easy', name: 'Easy', color: '', points: 5, penalty: 1, timeLimitMinutes: 10 }]
+    });
+    expect(normalized.maxConcurrentIssues).toBe(2);
+    expect(normalized.claimWindowMinutes).toBe(rules.claimWindowMinutes);
+    expect(normalized.releasePenalty).toEqual(rules.releasePenalty);
+    expect(normalized.tiers[0]).toMatchObject({ color: '#22c55e', githubLabels: ['good first issue', 'easy'] });
+  });
+
+  it('falls back to the default tiers', () => {
+    expect(normalizeScoringRules(null).tiers).toBe(rules.tiers);
+  });
+});
+
+describe('tiers', () => {
+  it('reads the tier from the difficulty or a legacy first tag', () => {
+    expect(getTier(issue({ difficulty: 'hard' }), rules)?.points).toBe(30);
+    expect(getIssuePoints(issue({ difficulty: null, tags: ['medium', 'docs'] }), rules)).toBe(20);
+    expect(getIssuePoints(issue({ difficulty: 'unknown' }), rules)).toBe(0);
+  });
+
+  it('moves a legacy difficulty tag into the difficulty', () => {
+    expect(migrateIssueDifficulty(issue({ difficulty: null, tags: ['hard', 'api'] }), rules)).toEqual({
+      difficulty: 'hard',
+      tags: ['api']
+    });
+  });
+
+  it('matches GitHub labels without case', () => {
+    expect(getTierForLabels(['bug', 'Good First Issue'], rules)?.id).toBe('easy');
+    expect(getTierForLabels(['bug'], rules)).toBeUndefined();
+  });
+
+  it('suffixes tier ids that are taken', () => {
+    expect(createTierId('Very Hard!', rules.tiers)).toBe('very-hard');
+    expect(createTierId('Easy', rules.tiers)).toBe('easy-2');
+    expect(createTierId('!!', rules.tiers)).toBe('tier');
+  });
+});
+
+describe('time limits', () => {
+  it('adds granted extensions to the tier limit', () => {
+    expect(getTimeLimitMs(issue(), rules)).toBe(20 * MINUTE);
+    expect(getTimeLimitMs(issue({ extensionMinutes: 5 }), rules)).toBe(25 * MINUTE);
+    expect(getTimeLimitMs(issue({ difficulty: 'unknown' }), rules)).toBe(40 * MINUTE);
+  });
+
+  it('expires occupied issues once their limit has passed', () => {
+    const start = 1_000_000;
+    const occupied = issue({ status: 'occupied', assignedTo: 'a', occupiedAt: start });
+    expect(isIssueExpired(occupied, rules, start + 20 * MINUTE - 1)).toBe(false);
+    expect(isIssueExpired(occupied, rules, start + 20 * MINUTE)).toBe(true);
+    expect(isIssueExpired({ ...occupied, status: 'closed' }, rules, start + 30 * MINUTE)).toBe(false);
+    expect(getTimeRemainingMs(occupied, rules, start + 15 * MINUTE)).toBe(5 * MINUTE);
+    expect(getTimeRemainingMs(occupied, rules, start + 30 * MINUTE)).toBe(0);
+    expect(getTimeRemainingMs(issue(), rules, start)).toBeNull();
+  });
+});
+
+describe('getReleasePenalty', () => {
+  it('is free during the grace period', () => {
+    expect(getReleasePenalty(issue(), rules, 2 * MINUTE - 1)).toBe(0);
+  });
+
+  it('grows from the minimum to the maximum share of the expiry penalty', () => {
+    const hard = issue({ difficulty: 'hard' });
+    expect(getReleasePenalty(hard, rules, 2 * MINUTE)).toBe(4);
+    expect(getReleasePenalty(hard, rules, 30 * MINUTE)).toBe(8);
+    expect(getReleasePenalty(hard, rules, 90 * MINUTE)).toBe(11);
+  });
+});
@@ -0,0 +1,126 @@
+import type { Issue, DifficultyTier, ScoringRules } from '@/types';
+
+// The expiry worker in functions/src/scoring.ts reads the same rules
+// document and falls back to the same defaults.
+
+export const DEFAULT_SCORING_RULES: ScoringRules = {
+  tiers: [
+    { id: 'easy', name: 'Easy', color: '#22c55e', githubLabels: ['good first issue', 'easy'], points: 10, penalty: 5, timeLimitMinutes: 20 },
+    { id: 'medium', name: 'Medium', color: '#f59e0b', githubLabels: ['medium'], points: 20, penalty: 10, timeLimitMinutes: 40 },
+    { id: 'hard', name: 'Hard', color: '#ef4444', githubLabels: ['hard'], points: 30, penalty: 15, timeLimitMinutes: 60 }
+  ],
+  maxConcurrentIssues: 3,
+  releasePenalty: { graceMinutes: 2, minPercent: 25, maxPercent: 75 },
+  claimWindowMinutes: 5
+};
+
+export const DEFAULT_TIER_COLOR = '#64748b';
+
+// Used for issues whose difficulty matches no tier
+const FALLBACK_TIME_LIMIT_MS = 40 * 60 * 1000;
+
+type TieredIssue = Pick<Issue, 'difficulty' | 'tags'>;
+type TimedIssue = TieredIssue & Pick<Issue, 'extensionMinutes'>;
+
+/** Fill in anything missing from a stored (possibly partial) rules document */
+export const normalizeScoringRules = (data?: Partial<ScoringRules> | null): ScoringRules => ({
+  ...DEFAULT_SCORING_RULES,
+  ...data,
+  releasePenalty: { ...DEFAULT_SCORING_RULES.releasePenalty, ...data?.releasePenalty },
+  tiers: data?.tiers?.length
+    ? data.tiers.map(tier => {
+        const defaults = DEFAULT_SCORING_RULES.tiers.find(t => t.id === tier.id);
+        return {
+          ...tier,
+          color: tier.color || defaults?.color || DEFAULT_TIER_COLOR,
+          githubLabels: tier.githubLabels ?? defaults?.githubLabels ?? []
+        };
+      })
+    : DEFAULT_SCORING_RULES.tiers
+});
+
+/**
+ * Issues created before Issue.difficulty existed carried the tier id as
+ * their first tag.
+ */
+export const getLegacyDifficulty = (issue: Pick<Issue, 'tags'>, rules: ScoringRules): string | undefined =>
+  rules.tiers.some(tier => tier.id === issue.tags[0]) ? issue.tags[0] : undefined;
+
+export const needsDifficultyMigration = (issue: TieredIssue, rules: ScoringRules): boolean =>
+  !issue.difficulty && !!getLegacyDifficulty(issue, rules);
+
+/** Moves a legacy difficulty tag into Issue.difficulty */
+export const migrateIssueDifficulty = (issue: TieredIssue, rules: ScoringRules): Pick<Issue, 'difficulty' | 'tags'> => {
+  const difficulty = getLegacyDifficulty(issue, rules);
+  return difficulty
+    ? { difficulty, tags: issue.tags.filter(tag => tag !== difficulty) }
+    : { difficulty: issue.difficulty ?? null, tags: issue.tags };
+};
+
+export const getTier = (issue: TieredIssue, rules: ScoringRules): DifficultyTier | undefined => {
+  const tierId = issue.difficulty || getLegacyDifficulty(issue, rules);
+  return rules.tiers.find(tier => tier.id === tierId);
+};
+
+/** First tier listing one of the labels (case-insensitive) in its githubLabels */
+export const getTierForLabels = (labels: string[], rules: ScoringRules): DifficultyTier | undefined => {
+  const wanted = labels.map(label => label.toLowerCase());
+  return rules.tiers.find(tier =>
+    (tier.githubLabels ?? []).some(label => wanted.includes(label.toLowerCase()))
+  );
+};
+
+/** Slug of the tier name, suffixed if another tier already uses it */
+export const createTierId = (name: string, tiers: DifficultyTier[]): string => {
+  const base = name.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'tier';
+  let id = base;
+  for (let n = 2; tiers.some(tier => tier.id === id); n++) {
+    id = `${base}-${n}`;
+  }
+  return id;
+};
+
+/** The tier's time limit plus any extension granted on the current occupation */
+export const getTimeLimitMs = (issue: TimedIssue, rules: ScoringRules): number => {
+  const tier = getTier(issue, rules);
+  const limit = tier ? tier.timeLimitMinutes * 60 * 1000 : FALLBACK_TIME_LIMIT_MS;
+  return limit + (issue.extensionMinutes ?? 0) * 60 * 1000;
+};
+
+export const getIssuePoints = (issue: TieredIssue, rules: ScoringRules): number =>
+  getTier(issue, rules)?.points ?? 0;
+
+export const getExpiryPenalty = (issue: TieredIssue, rules: ScoringRules): number =>
+  getTier(issue, rules)?.penalty ?? 0;
+
+/**
+ * The penalty for releasing an occupied issue after `elapsedMs` of its time
+ * limit; see ReleasePenaltyRule.
+ */
+export const getReleasePenalty = (issue: TimedIssue, rules: ScoringRules, elapsedMs: number): number => {
+  const { graceMinutes, minPercent, maxPercent } = rules.releasePenalty;
+  if (elapsedMs < graceMinutes * 60 * 1000) return 0;
+  const progress = Math.min(1, elapsedMs / getTimeLimitMs(issue, rules));
+  const percent = minPercent + (maxPercent - minPercent) * progress;
+  return Math.round((getExpiryPenalty(issue, rules) * percent) / 100);
+};
+
+export const isIssueExpired = (issue: Issue, rules: ScoringRules, now: number = Date.now()): boolean =>
+  issue.status === 'occupied' &&
+  !!issue.occupiedAt &&
+  now - issue.occupiedAt >= getTimeLimitMs(issue, rules);
+
+/** Milliseconds left on an occupied issue (0 once expired), or null if not occupied */
+export const getTimeRemainingMs = (issue: Issue, rules: ScoringRules, now: number = Date.now()): number | null => {
+  if (!issue.occupiedAt) return null;
+  return Math.max(0, getTimeLimitMs(issue, rules) - (now - issue.occupiedAt));
+};
+
+export const formatDuration = (ms: number): string => {
+  const minutes = Math.floor(ms / 60000);
+  const seconds = Math.floor((ms % 60000) / 1000);
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+};
+
+export const getOccupyLimitError = (maxConcurrentIssues: number): string =>
+  `Your team has already occupied ${maxConcurrentIssues} issues. Please close an issue before occupying a new one.`;
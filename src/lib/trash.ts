@@ -0,0 +1,48 @@
+import type { Issue, Repository } from '@/types';
+
+// Deleting from the admin panel moves issues and repositories to the trash
+// (deletedAt is set) so they can be restored as they were. Only emptying the
+// trash removes the documents. Shared by both data stores and the trash view.
+
+export const REMOVED_ISSUE_ERROR = 'This issue has been removed. Please choose another issue.';
+
+export const isTrashed = (item: { deletedAt?: number | null }): boolean => item.deletedAt != null;
+
+/** Most recently trashed first */
+export const sortByDeletedAt = <T extends { deletedAt?: number | null }>(items: T[]): T[] =>
+  [...items].sort((a, b) => (b.deletedAt ?? 0) - (a.deletedAt ?? 0));
+
+/** Why the issue cannot go to the trash, or null if it can */
+export const getTrashIssueBlocker = (issue: Issue): string | null =>
+  // Its timer would keep running, and its team would lose it without notice
+  issue.status === 'occupied'
+    ? `${issue.assignedTo ?? 'A team'} is working on "${issue.title}". Move or reassign it first.`
+    : null;
+
+/** The repository's issues that go to the trash along with it */
+export const getCascadedIssues = (repo: Repository, issues: Issue[]): Issue[] =>
+  issues.filter(issue => issue.repo === repo.name && !isTrashed(issue));
+
+/** Why the repository cannot go to the trash, or null if it can */
+export const getTrashRepositoryBlocker = (repo: Repository, issues: Issue[]): string | null => {
+  const occupied = getCascadedIssues(repo, issues).filter(issue => issue.status === 'occupied');
+  return occupied.length > 0
+    ? `${occupied.length} issue(s) in ${repo.name} are being worked on. Move or reassign them first.`
+    : null;
+};
+
+/** Issues that went to the trash with the repository and come back with it */
+export const getIssuesTrashedWith = (repoId: string, issues: Issue[]): Issue[] =>
+  issues.filter(issue => issue.trashedWithRepo === repoId);
+
+/** Why the issue cannot be restored on its own, or null if it can */
+export const getRestoreIssueBlocker = (issue: Issue, repositories: Repository[]): string | null =>
+  repositories.some(repo => repo.name === issue.repo && !isTrashed(repo))
+    ? null
+    : `Its repository ${issue.repo} is in the trash or gone. Restore the repository first.`;
+
+/** Why the repository cannot be restored, or null if it can */
+export const getRestoreRepositoryBlocker = (repo: Repository, repositories: Repository[]): string | null =>
+  repositories.some(other => other.id !== repo.id && other.name === repo.name && !isTrashed(other))
+    ? `Another repository named ${repo.name} has been added since. Remove it first.`
+    : null;
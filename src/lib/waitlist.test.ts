@@ -0,0 +1,111 @@
+import { describe, expect, it } from 'vitest';
+import type { Issue } from '@/types';
+import { DEFAULT_SCORING_RULES } from '@/lib/scoring';
+import {
+  canJoinWaitlist,
+  countHeldIssues,
+  getActiveOffer,
+  getFreedIssueFields,
+  getFullTeams,
+  getWaitlistPosition
+} from '@/lib/waitlist';
+
+const NOW = 1_000_000;
+const CLAIM_WINDOW_MS = DEFAULT_SCORING_RULES.claimWindowMinutes * 60 * 1000;
+
+const issue = (id: string, overrides: Partial<Issue> = {}): Issue => ({
+  id,
+  title: id,
+  difficulty: 'easy',
+  tags: [],
+  repo: 'app',
+  status: 'open',
+  assignedTo: null,
+  ...overrides
+});
+
+const occupiedBy = (id: string, teamName: string) => issue(id, { status: 'occupied', assignedTo: teamName, occupiedAt: NOW });
+const offeredTo = (id: string, teamName: string, offerExpiresAt = NOW + 1) => issue(id, { offeredTo: teamName, offerExpiresAt });
+
+describe('getActiveOffer', () => {
+  it('holds an open issue for its team until the claim window ends', () => {
+    expect(getActiveOffer(offeredTo('a', 'red', NOW + 1), NOW)).toBe('red');
+    expect(getActiveOffer(offeredTo('a', 'red', NOW), NOW)).toBeNull();
+    expect(getActiveOffer({ ...offeredTo('a', 'red'), status: 'occupied' }, NOW)).toBeNull();
+  });
+});
+
+describe('joining', () => {
+  it('lets teams queue for issues others hold or have under review', () => {
+    expect(canJoinWaitlist(occupiedBy('a', 'red'), 'blue')).toBe(true);
+    expect(canJoinWaitlist(occupiedBy('a', 'red'), 'red')).toBe(false);
+    expect(canJoinWaitlist(issue('a', { status: 'closed', assignedTo: 'red', prStatus: 'pending' }), 'blue')).toBe(true);
+    expect(canJoinWaitlist(issue('a', { status: 'closed', assignedTo: 'red', prStatus: 'merged' }), 'blue')).toBe(false);
+    expect(canJoinWaitlist(issue('a'), 'blue')).toBe(false);
+  });
+
+  it('reports 1-based places', () => {
+    expect(getWaitlistPosition(issue('a', { waitlist: ['red', 'blue'] }), 'blue')).toBe(2);
+    expect(getWaitlistPosition(issue('a'), 'blue')).toBeNull();
+  });
+});
+
+describe('countHeldIssues', () => {
+  const issues = [occupiedBy('a', 'red'), offeredTo('b', 'red'), offeredTo('c', 'red', NOW), occupiedBy('d', 'blue')];
+
+  it('counts occupied issues and live offers', () => {
+    expect(countHeldIssues(issues, 'red', NOW)).toBe(2);
+    expect(countHeldIssues(issues, 'blue', NOW)).toBe(1);
+  });
+
+  it('leaves out the issue being claimed', () => {
+    expect(countHeldIssues(issues, 'red', NOW, 'b')).toBe(1);
+  });
+
+  it('finds the teams at the limit', () => {
+    expect(getFullTeams(issues, ['red', 'blue', 'green'], 2, NOW)).toEqual(new Set(['red']));
+  });
+});
+
+describe('getFreedIssueFields', () => {
+  it('reopens the issue for everyone when nobody waits', () => {
+    expect(getFreedIssueFields(issue('a'), DEFAULT_SCORING_RULES, NOW)).toMatchObject({
+      status: 'open',
+      assignedTo: null,
+      waitlist: [],
+      offeredTo: null,
+      offerExpiresAt: null
+    });
+  });
+
+  it('holds the issue for the first team in line', () => {
+    expect(getFreedIssueFields(issue('a', { waitlist: ['red', 'blue'] }), DEFAULT_SCORING_RULES, NOW)).toMatchObject({
+      waitlist: ['blue'],
+      offeredTo: 'red',
+      offerExpiresAt: NOW + CLAIM_WINDOW_MS
+    });
+  });
+
+  it('passes over teams at their limit, who keep their place', () => {
+    const freed = getFreedIssueFields(
+      issue('a', { waitlist: ['red', 'blue', 'green'] }),
+      DEFAULT_SCORING_RULES,
+      NOW,
+      new Set(['red'])
+    );
+    expect(freed).toMatchObject({ waitlist: ['red', 'green'], offeredTo: 'blue' });
+  });
+
+  it('reopens the issue when everyone waiting is at the limit', () => {
+    const freed = getFreedIssueFields(issue('a', { waitlist: ['red'] }), DEFAULT_SCORING_RULES, NOW, new Set(['red']));
+    expect(freed).toMatchObject({ waitlist: ['red'], offeredTo: null, offerExpiresAt: null });
+  });
+
+  it('clears the previous occupation and its PR', () => {
+    expect(getFreedIssueFields(issue('a'), DEFAULT_SCORING_RULES, NOW)).toMatchObject({
+      prUrl: null,
+      prStatus: null,
+      prVerification: null
+    });
+  });
+});
@@ -0,0 +1,73 @@
+import type { Issue, ScoringRules } from '@/types';
+
+// Teams queue for an issue someone else holds. When it is freed (expired,
+// released or its PR rejected) it is held for the first team in line for
+// the claim window, then falls back to open for everyone. The functions
+// mirror getFreedIssueFields in functions/src/waitlist.ts.
+
+type OfferedIssue = Pick<Issue, 'status' | 'offeredTo' | 'offerExpiresAt'>;
+
+/** The team an open issue is held for while its claim window lasts, or null */
+export const getActiveOffer = (issue: OfferedIssue, now: number = Date.now()): string | null =>
+  issue.status === 'open' && issue.offeredTo && (issue.offerExpiresAt ?? 0) > now ? issue.offeredTo : null;
+
+export const getOfferHeldError = (teamName: string): string =>
+  `This issue is held for ${teamName}, next on its waitlist, for a few more minutes.`;
+
+/** 1-based place in the issue's waitlist, or null if the team is not on it */
+export const getWaitlistPosition = (issue: Pick<Issue, 'waitlist'>, teamName: string): number | null => {
+  const index = (issue.waitlist ?? []).indexOf(teamName);
+  return index === -1 ? null : index + 1;
+};
+
+/** Teams can queue for issues held by others, including PRs still under review */
+export const canJoinWaitlist = (issue: Pick<Issue, 'status' | 'assignedTo' | 'prStatus'>, teamName: string): boolean =>
+  issue.assignedTo !== teamName &&
+  (issue.status === 'occupied' || (issue.status === 'closed' && issue.prStatus === 'pending'));
+
+/**
+ * What counts against maxConcurrentIssues: issues the team occupies plus
+ * open ones held for it, except `claimingId`, the one it is about to take.
+ */
+export const countHeldIssues = (issues: Issue[], teamName: string, now: number, claimingId?: string): number =>
+  issues.filter(issue =>
+    issue.id !== claimingId &&
+    ((issue.status === 'occupied' && issue.assignedTo === teamName) || getActiveOffer(issue, now) === teamName)
+  ).length;
+
+export const getWaitlistLimitError = (maxConcurrentIssues: number): string =>
+  `Your team already holds ${maxConcurrentIssues} issues. Close or release one before joining a waitlist.`;
+
+/** Teams among `teamNames` already holding maxConcurrentIssues, who could not claim an offer */
+export const getFullTeams = (issues: Issue[], teamNames: string[], maxConcurrentIssues: number, now: number): Set<string> =>
+  new Set(teamNames.filter(teamName => countHeldIssues(issues, teamName, now) >= maxConcurrentIssues));
+
+/**
+ * The fields that end an occupation: the issue goes to the first team on
+ * its waitlist that is not in `fullTeams` for the claim window, or straight
+ * back to open. Teams passed over keep their place. A rejected PR is
+ * cleared so the next team starts afresh.
+ */
+export const getFreedIssueFields = (
+  issue: Pick<Issue, 'waitlist'>,
+  rules: ScoringRules,
+  now: number,
+  fullTeams: ReadonlySet<string> = new Set()
+): Partial<Issue> => {
+  const waitlist = issue.waitlist ?? [];
+  const next = waitlist.find(teamName => !fullTeams.has(teamName));
+  return {
+    status: 'open',
+    assignedTo: null,
+    occupiedAt: null,
+    closedAt: null,
+    occupationId: null,
+    extensionMinutes: null,
+    prUrl: null,
+    prStatus: null,
+    prVerification: null,
+    waitlist: waitlist.filter(teamName => teamName !== next),
+    offeredTo: next ?? null,
+    offerExpiresAt: next ? now + rules.claimWindowMinutes * 60 * 1000 : null
+  };
+};
@@ -1,68 +1,108 @@
 import { useState } from 'react';
-import { useNavigate } from 'react-router-dom';
+import { Link, Navigate, useNavigate, useParams } from 'react-router-dom';
 import { useApp } from '@/contexts/AppContext';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Label } from '@/components/ui/label';
-import { Shield, ArrowLeft, Plus, ExternalLink, Trophy, GitBranch } from 'lucide-react';
+import { Shield, ArrowLeft, Plus, ExternalLink, Trophy, GitBranch, RefreshCw, CalendarDays, Trash2 } from 'lucide-react';
 import { toast } from 'sonner';
 import { Badge } from '@/components/ui/badge';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger
+} from '@/components/ui/alert-dialog';
+import TeamCredentialsCard from '@/components/admin/TeamCredentialsCard';
+import ScoringRulesCard from '@/components/admin/ScoringRulesCard';
+import GitHubImportCard from '@/components/admin/GitHubImportCard';
+import IssueFileCard from '@/components/admin/IssueFileCard';
+import PointsLedgerCard from '@/components/admin/PointsLedgerCard';
+import AuditLogCard from '@/components/admin/AuditLogCard';
+import TrashCard from '@/components/admin/TrashCard';
+import IssueDetailsDialog from '@/components/admin/IssueDetailsDialog';
+import IssueHintsDialog from '@/components/admin/IssueHintsDialog';
+import HintUnlocksCard from '@/components/admin/HintUnlocksCard';
+import ExtensionRequestsCard from '@/components/admin/ExtensionRequestsCard';
+import ResultsExportCard from '@/components/admin/ResultsExportCard';
+import EventSettingsCard from '@/components/admin/EventSettingsCard';
+import EventLifecycleCard from '@/components/admin/EventLifecycleCard';
+import LeaderboardFreezeCard from '@/components/admin/LeaderboardFreezeCard';
+import CreateEventCard from '@/components/admin/CreateEventCard';
+import { getEventPath } from '@/lib/event';
+import { getTrashIssueBlocker } from '@/lib/trash';
+import { getIssuePath, isHttpUrl } from '@/lib/issueDetails';
+import { formatDuration, getIssuePoints, getTier, getTimeRemainingMs, migrateIssueDifficulty } from '@/lib/scoring';
+import DifficultyBadge from '@/components/DifficultyBadge';
+import PrVerificationChecks from '@/components/PrVerificationChecks';
 
 const AdminPanel = () => {
   const navigate = useNavigate();
-  const { isAdmin, loginAdmin, logoutAdmin, issues, teams, addIssue, moveIssue, assignIssue, awardPoints, repositories, updatePrStatus } = useApp();
+  // Absent on /admin, which forwards to an event's admin panel
+  const { eventSlug } = useParams();
+  const { events, eventsLoaded, currentEvent } = useApp();
+  const { isAdmin, authReady, loginAdmin, logoutAdmin, issues, teams, addIssue, moveIssue, assignIssue, deleteIssue, deleteRepository, adjustPoints, repositories, updatePrStatus, reverifyPullRequest, scoringRules } = useApp();
   
-  const [username, setUsername] = useState('');
+  const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
   
   const [newIssueTitle, setNewIssueTitle] = useState('');
-  const [newIssueTags, setNewIssueTags] = useState<string[]>([]);
+  const [newIssueDifficulty, setNewIssueDifficulty] = useState('');
+  const [newIssueTags, setNewIssueTags] = useState('');
   const [newIssueRepo, setNewIssueRepo] = useState('');
   
   const [pointsTeam, setPointsTeam] = useState('');
   const [pointsAmount, setPointsAmount] = useState('');
+  const [pointsNote, setPointsNote] = useState('');
   
   const [selectedRepo, setSelectedRepo] = useState<string>('all');
 
-  const handleLogin = (e: React.FormEvent) => {
+  const handleLogin = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (loginAdmin(username, password)) {
+    const result = await loginAdmin(email, password);
+    if (result.success) {
       toast.success('Admin login successful!');
     } else {
-      toast.error('Invalid credentials');
+      toast.error(result.error || 'Invalid credentials');
     }
   };
 
   const handleAddIssue = () => {
-    if (!newIssueTitle || !newIssueRepo || newIssueTags.length === 0) {
+    if (!newIssueTitle || !newIssueRepo || !newIssueDifficulty) {
       toast.error('Please fill all fields');
       return;
     }
-    addIssue({ title: newIssueTitle, tags: newIssueTags, repo: newIssueRepo });
-    toast.success('Issue added successfully!');
+    const tags = [...new Set(newIssueTags.split(',').map(tag => tag.trim()).filter(Boolean))];
+    addIssue({ title: newIssueTitle, difficulty: newIssueDifficulty, tags, repo: newIssueRepo });
     setNewIssueTitle('');
-    setNewIssueTags([]);
+    setNewIssueDifficulty('');
+    setNewIssueTags('');
     setNewIssueRepo('');
   };
 
-  const handleAwardPoints = () => {
-    if (!pointsTeam || !pointsAmount) {
-      toast.error('Please select team and enter points');
+  const handleAwardPoints = async () => {
+    const delta = parseInt(pointsAmount);
+    if (!pointsTeam || !delta || !pointsNote.trim()) {
+      toast.error('Please select team, enter points and give a reason');
       return;
     }
-    awardPoints(pointsTeam, parseInt(pointsAmount));
-    toast.success(`Awarded ${pointsAmount} points to ${pointsTeam}!`);
-    setPointsTeam('');
-    setPointsAmount('');
+    if (await adjustPoints(pointsTeam, delta, pointsNote.trim())) {
+      setPointsTeam('');
+      setPointsAmount('');
+      setPointsNote('');
+    }
   };
 
-  const toggleTag = (tag: string) => {
-    setNewIssueTags(prev =>
-      prev.includes(tag) ? prev.filter(t => t !== tag) : [...prev, tag]
-    );
-  };
+  if (!authReady) {
+    return null;
+  }
 
   if (!isAdmin) {
     return (
@@ -86,12 +126,12 @@ const AdminPanel = () => {
           <CardContent className="px-8 pb-8">
             <form onSubmit={handleLogin} className="space-y-5">
               <div className="space-y-2">
-                <label className="text-sm font-medium text-muted-foreground">Username</label>
+                <label className="text-sm font-medium text-muted-foreground">Email</label>
                 <Input
-                  type="text"
-                  placeholder="Enter admin username"
-                  value={username}
-                  onChange={(e) => setUsername(e.target.value)}
+                  type="email"
+                  placeholder="Enter admin email"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
                   className="h-14 text-base border-slate-200 dark:border-slate-700"
                   required
                 />
@@ -118,7 +158,7 @@ const AdminPanel = () => {
             <div className="mt-8 pt-6 border-t text-center">
               <Button
                 variant="ghost"
-                onClick={() => navigate('/')}
+                onClick={() => navigate(eventSlug ? getEventPath(eventSlug) : '/')}
                 className="text-sm hover:bg-slate-100 dark:hover:bg-slate-800"
               >
                 ← Back to Team Portal
@@ -130,6 +170,34 @@ const AdminPanel = () => {
     );
   }
 
+  if (!eventSlug || !currentEvent) {
+    if (!eventsLoaded) {
+      return null;
+    }
+    const target = currentEvent ?? events[0];
+    if (target) {
+      return <Navigate to={getEventPath(target.slug, '/admin')} replace />;
+    }
+
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-slate-50 via-white to-red-50 dark:from-slate-950 dark:via-slate-900 dark:to-slate-950">
+        <main className="container mx-auto px-6 py-10 space-y-6 max-w-3xl">
+          <div className="flex justify-between items-center">
+            <div>
+              <h1 className="text-2xl font-bold">Welcome to ContribX</h1>
+              <p className="text-sm text-muted-foreground">Create your first event to get started</p>
+            </div>
+            <Button variant="ghost" onClick={logoutAdmin}>
+              <ArrowLeft className="w-4 h-4 mr-2" />
+              Logout
+            </Button>
+          </div>
+          <CreateEventCard />
+        </main>
+      </div>
+    );
+  }
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-slate-50 via-white to-red-50 dark:from-slate-950 dark:via-slate-900 dark:to-slate-950">
       {/* Modern Admin Header */}
@@ -144,13 +212,24 @@ const AdminPanel = () => {
                 <h1 className="text-2xl font-bold bg-gradient-to-r from-slate-900 to-slate-700 dark:from-white dark:to-slate-300 bg-clip-text text-transparent">
                   Admin Control Center
                 </h1>
-                <p className="text-sm text-muted-foreground">Manage issues, teams & awards</p>
+                <p className="text-sm text-muted-foreground">{currentEvent.name} · Manage issues, teams & awards</p>
               </div>
             </div>
             <div className="flex gap-3">
+              <Select value={currentEvent.slug} onValueChange={(slug) => navigate(getEventPath(slug, '/admin'))}>
+                <SelectTrigger className="w-56 shadow-sm">
+                  <CalendarDays className="w-4 h-4 mr-2 shrink-0" />
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {events.map(event => (
+                    <SelectItem key={event.slug} value={event.slug}>{event.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
               <Button 
                 variant="outline" 
-                onClick={() => navigate('/rankings')}
+                onClick={() => navigate(getEventPath(currentEvent.slug, '/rankings'))}
                 className="shadow-sm hover:shadow-md transition-all"
               >
                 <Trophy className="w-4 h-4 mr-2" />
@@ -158,7 +237,7 @@ const AdminPanel = () => {
               </Button>
               <Button 
                 variant="ghost" 
-                onClick={() => { logoutAdmin(); navigate('/'); }}
+                onClick={async () => { await logoutAdmin(); navigate(getEventPath(currentEvent.slug)); }}
                 className="hover:bg-red-50 dark:hover:bg-red-950 hover:text-red-600"
               >
                 <ArrowLeft className="w-4 h-4 mr-2" />
@@ -244,25 +323,29 @@ const AdminPanel = () => {
               </div>
               <div className="space-y-2">
                 <Label className="text-sm font-medium">Difficulty</Label>
-                <div className="flex gap-2">
-                  {['easy', 'medium', 'hard'].map(tag => (
-                    <Badge
-                      key={tag}
-                      variant={newIssueTags.includes(tag) ? 'default' : 'outline'}
-                      className={`cursor-pointer px-4 py-2 text-sm transition-all ${
-                        newIssueTags.includes(tag)
-                          ? tag === 'easy' ? 'bg-green-500 hover:bg-green-600' :
-                            tag === 'medium' ? 'bg-amber-500 hover:bg-amber-600' :
-                            'bg-red-500 hover:bg-red-600'
-                          : 'hover:bg-slate-100 dark:hover:bg-slate-700'
-                      }`}
-                      onClick={() => toggleTag(tag)}
-                    >
-                      {tag.charAt(0).toUpperCase() + tag.slice(1)}
-                    </Badge>
+                <div className="flex flex-wrap gap-2">
+                  {scoringRules.tiers.map(tier => (
+                    <button key={tier.id} type="button" onClick={() => setNewIssueDifficulty(tier.id)}>
+                      <DifficultyBadge
+                        tier={tier}
+                        variant={newIssueDifficulty === tier.id ? 'solid' : 'subtle'}
+                        className="cursor-pointer px-4 py-2 text-sm transition-all"
+                      >
+                        {tier.name} · {tier.points} pts
+                      </DifficultyBadge>
+                    </button>
                   ))}
                 </div>
               </div>
+              <div className="space-y-2">
+                <Label className="text-sm font-medium">Tags</Label>
+                <Input
+                  value={newIssueTags}
+                  onChange={(e) => setNewIssueTags(e.target.value)}
+                  placeholder="e.g., frontend, docs"
+                  className="h-11"
+                />
+              </div>
               <Button 
                 onClick={handleAddIssue} 
                 className="w-full h-11 bg-gradient-to-r from-blue-600 to-indigo-600 hover:from-blue-700 hover:to-indigo-700 shadow-md"
@@ -282,7 +365,7 @@ const AdminPanel = () => {
                 </div>
                 <div>
                   <CardTitle className="text-lg">Award Points</CardTitle>
-                  <CardDescription>Reward teams for exceptional work</CardDescription>
+                  <CardDescription>Reward or deduct points; every change is logged</CardDescription>
                 </div>
               </div>
             </CardHeader>
@@ -308,7 +391,16 @@ const AdminPanel = () => {
                   type="number"
                   value={pointsAmount}
                   onChange={(e) => setPointsAmount(e.target.value)}
-                  placeholder="e.g., 50"
+                  placeholder="e.g., 50, or -10 to deduct"
+                  className="h-11"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label className="text-sm font-medium">Reason</Label>
+                <Input
+                  value={pointsNote}
+                  onChange={(e) => setPointsNote(e.target.value)}
+                  placeholder="e.g., Best demo"
                   className="h-11"
                 />
               </div>
@@ -322,24 +414,58 @@ const AdminPanel = () => {
               <div className="p-4 bg-gradient-to-r from-amber-50 to-orange-50 dark:from-amber-950/20 dark:to-orange-950/20 rounded-lg border border-amber-200 dark:border-amber-800">
                 <p className="font-semibold text-sm mb-2 text-amber-900 dark:text-amber-100">⏱️ Auto Penalty System</p>
                 <ul className="space-y-1 text-xs text-amber-800 dark:text-amber-200">
-                  <li className="flex items-center gap-2">
-                    <span className="w-1.5 h-1.5 rounded-full bg-green-500"></span>
-                    Easy (20 min): <strong>-5 pts</strong> if expired
-                  </li>
-                  <li className="flex items-center gap-2">
-                    <span className="w-1.5 h-1.5 rounded-full bg-amber-500"></span>
-                    Medium (40 min): <strong>-10 pts</strong> if expired
-                  </li>
-                  <li className="flex items-center gap-2">
-                    <span className="w-1.5 h-1.5 rounded-full bg-red-500"></span>
-                    Hard (60 min): <strong>-15 pts</strong> if expired
-                  </li>
+                  {scoringRules.tiers.map(tier => (
+                    <li key={tier.id} className="flex items-center gap-2">
+                      <span className="w-1.5 h-1.5 rounded-full bg-amber-500"></span>
+                      {tier.name} ({tier.timeLimitMinutes} min): <strong>-{tier.penalty} pts</strong> if expired
+                    </li>
+                  ))}
                 </ul>
               </div>
             </CardContent>
           </Card>
         </div>
 
+        {/* Event Status */}
+        <EventLifecycleCard />
+
+        {/* Time Extensions */}
+        <ExtensionRequestsCard />
+
+        {/* Event */}
+        <EventSettingsCard />
+
+        {/* Leaderboard Freeze */}
+        <LeaderboardFreezeCard />
+
+        {/* Points Ledger */}
+        <PointsLedgerCard />
+        <AuditLogCard />
+
+        {/* Hints */}
+        <HintUnlocksCard />
+
+        {/* Final Results */}
+        <ResultsExportCard />
+
+        {/* Trash */}
+        <TrashCard />
+
+        {/* GitHub Import */}
+        <GitHubImportCard />
+
+        {/* Issue Files */}
+        <IssueFileCard />
+
+        {/* Scoring Rules */}
+        <ScoringRulesCard />
+
+        {/* Team Logins */}
+        <TeamCredentialsCard />
+
+        {/* New Event */}
+        <CreateEventCard />
+
         {/* Manage Issues Section */}
         <Card className="border-0 shadow-xl bg-white dark:bg-slate-800">
           <CardHeader className="border-b bg-gradient-to-r from-slate-50 to-gray-50 dark:from-slate-800 dark:to-slate-900">
@@ -415,14 +541,36 @@ const AdminPanel = () => {
                             {' '}{repoIssues.filter(i => i.status === 'closed').length} closed
                           </p>
                         </div>
-                        <a
-                          href={repositories.find(r => r.name === repoName)?.url}
-                          target="_blank"
-                          rel="noopener noreferrer"
-                          className="text-sm text-primary hover:underline flex items-center gap-1"
-                        >
-                          View on GitHub <ExternalLink className="w-4 h-4" />
-                        </a>
+                        <div className="flex items-center gap-3">
+                          <a
+                            href={repositories.find(r => r.name === repoName)?.url}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="text-sm text-primary hover:underline flex items-center gap-1"
+                          >
+                            View on GitHub <ExternalLink className="w-4 h-4" />
+                          </a>
+                          <AlertDialog>
+                            <AlertDialogTrigger asChild>
+                              <Button size="sm" variant="ghost" className="text-destructive hover:text-destructive">
+                                <Trash2 className="w-4 h-4" />
+                              </Button>
+                            </AlertDialogTrigger>
+                            <AlertDialogContent>
+                              <AlertDialogHeader>
+                                <AlertDialogTitle>Move {repoName} to the trash?</AlertDialogTitle>
+                                <AlertDialogDescription>
+                                  Its {repoIssues.length} issue(s) go to the trash with it and are hidden from teams.
+                                  Restoring the repository brings them back.
+                                </AlertDialogDescription>
+                              </AlertDialogHeader>
+                              <AlertDialogFooter>
+                                <AlertDialogCancel>Cancel</AlertDialogCancel>
+                                <AlertDialogAction onClick={() => deleteRepository(repoName)}>Move to Trash</AlertDialogAction>
+                              </AlertDialogFooter>
+                            </AlertDialogContent>
+                          </AlertDialog>
+                        </div>
                       </div>
 
                       {/* Issues for this repository */}
@@ -430,21 +578,13 @@ const AdminPanel = () => {
                         {repoIssues.map(issue => {
                   const getTimeRemaining = () => {
                     if (issue.status !== 'occupied' || !issue.occupiedAt) return null;
-                    const duration = issue.tags.includes('easy') ? 20 * 60 * 1000 :
-                                    issue.tags.includes('medium') ? 40 * 60 * 1000 :
-                                    60 * 60 * 1000;
-                    const elapsed = Date.now() - issue.occupiedAt;
-                    const remaining = duration - elapsed;
+                    const remaining = getTimeRemainingMs(issue, scoringRules);
                     if (remaining <= 0) return 'EXPIRED';
-                    const minutes = Math.floor(remaining / 60000);
-                    const seconds = Math.floor((remaining % 60000) / 1000);
-                    return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+                    return formatDuration(remaining);
                   };
 
                   const timeRemaining = getTimeRemaining();
-                  const pointsMap = { easy: 10, medium: 20, hard: 30 };
-                  const tag = issue.tags[0] as keyof typeof pointsMap;
-                  const potentialPoints = pointsMap[tag] || 0;
+                  const potentialPoints = getIssuePoints(issue, scoringRules);
 
                   return (
                     <div key={issue.id} className={`border rounded-lg overflow-hidden ${
@@ -458,23 +598,36 @@ const AdminPanel = () => {
                           <div className="flex-1">
                             <div className="flex items-center gap-2 mb-2">
                               <span className="text-xs font-mono text-muted-foreground">#{issue.id}</span>
-                              <h3 className="font-semibold text-lg">{issue.title}</h3>
+                              <h3 className="font-semibold text-lg">
+                                <Link to={getEventPath(currentEvent.slug, getIssuePath(issue))} className="hover:underline" title="Open issue page">
+                                  {issue.title}
+                                </Link>
+                              </h3>
+                              {issue.githubUrl && isHttpUrl(issue.githubUrl) && (
+                                <a
+                                  href={issue.githubUrl}
+                                  target="_blank"
+                                  rel="noopener noreferrer"
+                                  className="text-xs text-primary hover:underline flex items-center gap-1"
+                                >
+                                  {issue.githubNumber != null ? `GitHub #${issue.githubNumber}` : 'GitHub'}
+                                  <ExternalLink className="w-3 h-3" />
+                                </a>
+                              )}
+                              {issue.githubState === 'closed' && (
+                                <Badge variant="destructive" className="text-xs">closed on GitHub</Badge>
+                              )}
                             </div>
                             <div className="flex gap-2 items-center flex-wrap">
                               <Badge variant="outline" className="text-xs">
                                 {issue.repo}
                               </Badge>
-                              {issue.tags.map(tag => (
-                                <Badge 
-                                  key={tag} 
-                                  variant="outline" 
-                                  className={`text-xs ${
-                                    tag === 'easy' ? 'bg-success/10 text-success border-success' :
-                                    tag === 'medium' ? 'bg-warning/10 text-warning border-warning' :
-                                    'bg-destructive/10 text-destructive border-destructive'
-                                  }`}
-                                >
-                                  {tag} • {potentialPoints} pts
+                              <DifficultyBadge tier={getTier(issue, scoringRules)} variant="subtle" className="text-xs">
+                                {getTier(issue, scoringRules)?.name ?? 'No difficulty'} • {potentialPoints} pts
+                              </DifficultyBadge>
+                              {migrateIssueDifficulty(issue, scoringRules).tags.map(tag => (
+                                <Badge key={tag} variant="outline" className="text-xs">
+                                  {tag}
                                 </Badge>
                               ))}
                               <Badge 
@@ -509,6 +662,18 @@ const AdminPanel = () => {
                                 <SelectItem value="closed">Closed</SelectItem>
                               </SelectContent>
                             </Select>
+                            <IssueDetailsDialog issue={issue} />
+                            <IssueHintsDialog issue={issue} />
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              className="text-destructive hover:text-destructive"
+                              title={getTrashIssueBlocker(issue) ?? 'Move to trash'}
+                              disabled={getTrashIssueBlocker(issue) !== null}
+                              onClick={() => deleteIssue(issue.id)}
+                            >
+                              <Trash2 className="w-4 h-4" />
+                            </Button>
                           </div>
                         </div>
                       </div>
@@ -576,14 +741,16 @@ const AdminPanel = () => {
                               <div className="mt-3 p-4 bg-muted rounded-lg space-y-3 border-l-4 border-primary">
                                 <div className="flex items-center justify-between">
                                   <span className="text-sm font-semibold">Pull Request Submitted</span>
-                                  <a
-                                    href={issue.prUrl}
-                                    target="_blank"
-                                    rel="noopener noreferrer"
-                                    className="text-sm text-primary hover:underline flex items-center gap-1 font-medium"
-                                  >
-                                    View PR on GitHub <ExternalLink className="w-4 h-4" />
-                                  </a>
+                                  {isHttpUrl(issue.prUrl) && (
+                                    <a
+                                      href={issue.prUrl}
+                                      target="_blank"
+                                      rel="noopener noreferrer"
+                                      className="text-sm text-primary hover:underline flex items-center gap-1 font-medium"
+                                    >
+                                      View PR on GitHub <ExternalLink className="w-4 h-4" />
+                                    </a>
+                                  )}
                                 </div>
                                 
                                 <div className="flex items-center justify-between">
@@ -612,6 +779,36 @@ const AdminPanel = () => {
                                     {issue.prUrl}
                                   </code>
                                 </div>
+
+                                {/* GitHub verification from submission time */}
+                                <div className="pt-2 space-y-2">
+                                  <div className="flex items-center justify-between">
+                                    <div className="flex items-center gap-2">
+                                      <span className="text-sm text-muted-foreground">Verification:</span>
+                                      <Badge variant="outline" className={
+                                        issue.prVerification?.status === 'passed' ? 'bg-success/10 text-success border-success' :
+                                        issue.prVerification?.status === 'failed' ? 'bg-destructive/10 text-destructive border-destructive' :
+                                        'bg-warning/10 text-warning border-warning'
+                                      }>
+                                        {issue.prVerification?.status === 'error' || !issue.prVerification
+                                          ? 'unverified'
+                                          : issue.prVerification.status}
+                                      </Badge>
+                                      {issue.prVerification && (
+                                        <span className="text-xs text-muted-foreground">
+                                          checked {new Date(issue.prVerification.checkedAt).toLocaleString()}
+                                        </span>
+                                      )}
+                                    </div>
+                                    <Button size="sm" variant="ghost" onClick={() => reverifyPullRequest(issue.id)}>
+                                      <RefreshCw className="w-4 h-4 mr-1" />
+                                      Re-verify
+                                    </Button>
+                                  </div>
+                                  {issue.prVerification && (
+                                    <PrVerificationChecks verification={issue.prVerification} />
+                                  )}
+                                </div>
                                 
                                 {/* Admin Actions */}
                                 {issue.prStatus === 'pending' && (
@@ -619,10 +816,7 @@ const AdminPanel = () => {
                                     <Button
                                       size="sm"
                                       variant="outline"
-                                      onClick={() => {
-                                        updatePrStatus(issue.id, 'approved');
-                                        toast.success('PR approved! ✅');
-                                      }}
+                                      onClick={() => updatePrStatus(issue.id, 'approved')}
                                       className="flex-1"
                                     >
                                       👍 Approve
@@ -630,12 +824,7 @@ const AdminPanel = () => {
                                     <Button
                                       size="sm"
                                       variant="default"
-                                      onClick={() => {
-                                        updatePrStatus(issue.id, 'merged');
-                                        toast.success(`🎉 PR merged! ${issue.assignedTo} awarded ${potentialPoints} points!`, {
-                                          description: `${issue.assignedTo} earned ${potentialPoints} points for completing "${issue.title}"`
-                                        });
-                                      }}
+                                      onClick={() => updatePrStatus(issue.id, 'merged')}
                                       className="flex-1 bg-success hover:bg-success/90"
                                     >
                                       ✅ Merge & Award {potentialPoints} pts
@@ -643,12 +832,7 @@ const AdminPanel = () => {
                                     <Button
                                       size="sm"
                                       variant="destructive"
-                                      onClick={() => {
-                                        updatePrStatus(issue.id, 'rejected');
-                                        toast.error(`PR rejected for "${issue.title}"`, {
-                                          description: 'Team will not receive points.'
-                                        });
-                                      }}
+                                      onClick={() => updatePrStatus(issue.id, 'rejected')}
                                       className="flex-1"
                                     >
                                       ❌ Reject
@@ -667,7 +851,7 @@ const AdminPanel = () => {
                                 {issue.prStatus === 'approved' && (
                                   <div className="p-3 bg-blue-50 dark:bg-blue-950 border border-blue-200 dark:border-blue-800 rounded-md">
                                     <p className="text-sm text-blue-700 dark:text-blue-300 font-semibold flex items-center gap-2">
-                                      👍 PR Approved - Waiting for merge
+                                      👍 PR Approved - Waiting for merge on GitHub
                                     </p>
                                   </div>
                                 )}
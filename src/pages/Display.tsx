@@ -0,0 +1,213 @@
+import { useEffect, useState } from 'react';
+import { useApp, useCurrentEvent } from '@/contexts/AppContext';
+import { Progress } from '@/components/ui/progress';
+import { Trophy, Medal, GitMerge, Flag, TimerOff, Clock, Snowflake, Pause } from 'lucide-react';
+import { formatCountdown, getEventCountdownTarget, getEventPhase } from '@/lib/event';
+import { getRecentActivity, type ActivityItem } from '@/lib/activity';
+import { getPublicIssues, getPublicLedger, getPublicTeams } from '@/lib/leaderboard';
+
+// Projector screen: no login, no navigation, readable from the back of the room.
+// Rotates between views; everything updates live from the shared subscriptions.
+
+type DisplayView = 'leaderboard' | 'repositories' | 'solved';
+
+const VIEWS: { id: DisplayView; title: string }[] = [
+  { id: 'leaderboard', title: 'Leaderboard' },
+  { id: 'repositories', title: 'Repository Progress' },
+  { id: 'solved', title: 'Recently Solved' }
+];
+
+const ROTATE_INTERVAL_MS = 20000;
+const LEADERBOARD_SIZE = 10;
+const ROW_HEIGHT_PX = 84;
+
+const timeAgo = (time: number, now: number) => {
+  const minutes = Math.max(0, Math.floor((now - time) / 60000));
+  if (minutes < 1) return 'just now';
+  if (minutes < 60) return `${minutes} min ago`;
+  return `${Math.floor(minutes / 60)} h ago`;
+};
+
+const tickerText = (item: ActivityItem) => {
+  switch (item.kind) {
+    case 'claim': return <><Flag className="w-6 h-6 text-sky-400" /> {item.teamName} claimed “{item.issueTitle}”</>;
+    case 'merge': return <><GitMerge className="w-6 h-6 text-emerald-400" /> {item.teamName} merged “{item.issueTitle}” +{item.delta}</>;
+    case 'expiry': return <><TimerOff className="w-6 h-6 text-red-400" /> {item.teamName} ran out of time on “{item.issueTitle}” {item.delta}</>;
+  }
+};
+
+const Display = () => {
+  const { teams: liveTeams, issues: liveIssues, repositories, ledger: liveLedger } = useApp();
+  const event = useCurrentEvent();
+  const teams = getPublicTeams(liveTeams, event.freeze);
+  const ledger = getPublicLedger(liveLedger, event.freeze);
+  const issues = getPublicIssues(liveIssues, liveLedger, event.freeze);
+  const [viewIndex, setViewIndex] = useState(0);
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    const clock = setInterval(() => setNow(Date.now()), 1000);
+    const rotation = setInterval(() => setViewIndex(index => (index + 1) % VIEWS.length), ROTATE_INTERVAL_MS);
+    return () => {
+      clearInterval(clock);
+      clearInterval(rotation);
+    };
+  }, []);
+
+  const view = VIEWS[viewIndex];
+  const phase = getEventPhase(event, now);
+  const countdown = getEventCountdownTarget(event, now);
+
+  // Rows stay in a fixed DOM order (by name) and are moved with transforms,
+  // so a change of rank slides the row to its new place.
+  const ranked = [...teams].sort((a, b) => b.points - a.points).slice(0, LEADERBOARD_SIZE);
+  const rankOf = new Map(ranked.map((team, index) => [team.name, index]));
+  const rows = [...ranked].sort((a, b) => a.name.localeCompare(b.name));
+
+  const repoProgress = repositories.map(repo => {
+    const repoIssues = issues.filter(issue => issue.repo === repo.name);
+    return {
+      name: repo.name,
+      total: repoIssues.length,
+      merged: repoIssues.filter(issue => issue.prStatus === 'merged').length,
+      inReview: repoIssues.filter(issue => issue.status === 'closed' && issue.prStatus !== 'merged').length,
+      inProgress: repoIssues.filter(issue => issue.status === 'occupied').length
+    };
+  });
+
+  const recentlySolved = ledger.filter(entry => entry.reason === 'merge').slice(0, 8);
+  const activity = getRecentActivity(issues, ledger);
+
+  return (
+    <div className="h-screen overflow-hidden flex flex-col bg-gradient-to-br from-slate-950 via-slate-900 to-indigo-950 text-white">
+      <header className="flex items-center justify-between px-12 py-8">
+        <div>
+          <h1 className="text-5xl font-black tracking-tight">{event.name}</h1>
+          <p className="text-2xl text-slate-400 mt-2 flex items-center gap-3">
+            {view.title}
+            {event.freeze && (
+              <span className="flex items-center gap-2 text-cyan-300">
+                <Snowflake className="w-6 h-6" /> Scoreboard frozen
+              </span>
+            )}
+          </p>
+        </div>
+        <div className="text-right">
+          {countdown ? (
+            <>
+              <p className="text-xl uppercase tracking-widest text-slate-400">{countdown.label}</p>
+              <p className="text-7xl font-mono font-bold tabular-nums">{formatCountdown(countdown.target, now)}</p>
+            </>
+          ) : phase === 'paused' ? (
+            <p className="text-6xl font-bold text-amber-400 flex items-center gap-4">
+              <Pause className="w-12 h-12" /> Paused
+            </p>
+          ) : phase === 'ended' ? (
+            <p className="text-6xl font-bold text-amber-400">Time's up!</p>
+          ) : (
+            <p className="text-6xl font-mono font-bold flex items-center gap-4">
+              <Clock className="w-12 h-12 text-slate-400" />
+              {new Date(now).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+            </p>
+          )}
+        </div>
+      </header>
+
+      <main className="flex-1 px-12 min-h-0">
+        {view.id === 'leaderboard' && (
+          ranked.length === 0 ? (
+            <p className="text-4xl text-slate-400 text-center mt-24">Waiting for teams…</p>
+          ) : (
+            <div className="relative max-w-5xl mx-auto" style={{ height: ranked.length * ROW_HEIGHT_PX }}>
+              {rows.map(team => {
+                const rank = rankOf.get(team.name) ?? 0;
+                return (
+                  <div
+                    key={team.name}
+                    className="absolute inset-x-0 flex items-center gap-8 px-8 rounded-2xl bg-white/5 border border-white/10 transition-transform duration-700 ease-in-out"
+                    style={{ height: ROW_HEIGHT_PX - 12, transform: `translateY(${rank * ROW_HEIGHT_PX}px)` }}
+                  >
+                    <span className="w-16 flex justify-center text-4xl font-black text-slate-400">
+                      {rank === 0 ? <Trophy className="w-12 h-12 text-amber-400" /> :
+                        rank === 1 ? <Medal className="w-12 h-12 text-slate-300" /> :
+                        rank === 2 ? <Medal className="w-12 h-12 text-amber-700" /> :
+                        rank + 1}
+                    </span>
+                    <span className="flex-1 text-4xl font-bold truncate">{team.name}</span>
+                    <span className="text-5xl font-black tabular-nums text-indigo-300">{team.points}</span>
+                  </div>
+                );
+              })}
+            </div>
+          )
+        )}
+
+        {view.id === 'repositories' && (
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-8 max-w-6xl mx-auto">
+            {repoProgress.map(repo => (
+              <div key={repo.name} className="p-8 rounded-2xl bg-white/5 border border-white/10 space-y-4">
+                <div className="flex items-baseline justify-between">
+                  <span className="text-4xl font-bold truncate">{repo.name}</span>
+                  <span className="text-3xl font-mono text-slate-300">{repo.merged}/{repo.total}</span>
+                </div>
+                <Progress value={repo.total ? (repo.merged / repo.total) * 100 : 0} className="h-6 bg-white/10" />
+                <p className="text-2xl text-slate-400">
+                  {repo.inProgress} in progress · {repo.inReview} in review
+                </p>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {view.id === 'solved' && (
+          recentlySolved.length === 0 ? (
+            <p className="text-4xl text-slate-400 text-center mt-24">No merged PRs yet — who will be first?</p>
+          ) : (
+            <div className="max-w-5xl mx-auto space-y-4">
+              {recentlySolved.map(entry => (
+                <div key={entry.id} className="flex items-center gap-6 px-8 py-5 rounded-2xl bg-white/5 border border-white/10">
+                  <GitMerge className="w-10 h-10 text-emerald-400 shrink-0" />
+                  <div className="flex-1 min-w-0">
+                    <p className="text-3xl font-bold truncate">{entry.issueTitle}</p>
+                    <p className="text-2xl text-slate-400">{entry.teamName} · {timeAgo(entry.createdAt, now)}</p>
+                  </div>
+                  <span className="text-4xl font-black text-emerald-400">+{entry.delta}</span>
+                </div>
+              ))}
+            </div>
+          )
+        )}
+      </main>
+
+      <div className="flex justify-center gap-3 py-4">
+        {VIEWS.map((v, index) => (
+          <span key={v.id} className={`h-2 rounded-full transition-all ${index === viewIndex ? 'w-10 bg-white' : 'w-2 bg-white/30'}`} />
+        ))}
+      </div>
+
+      <footer className="border-t border-white/10 bg-black/30 py-5 overflow-hidden">
+        {activity.length === 0 ? (
+          <p className="text-2xl text-slate-400 text-center">Live activity will appear here</p>
+        ) : (
+          // Two copies side by side scroll as one seamless loop
+          <div
+            className="flex w-max animate-marquee"
+            style={{ '--marquee-duration': `${Math.max(20, activity.length * 6)}s` } as React.CSSProperties}
+          >
+            {[0, 1].map(copy => (
+              <div key={copy} className="flex gap-16 pr-16" aria-hidden={copy === 1}>
+                {activity.map(item => (
+                  <span key={item.id} className="flex items-center gap-3 text-2xl whitespace-nowrap">
+                    {tickerText(item)}
+                  </span>
+                ))}
+              </div>
+            ))}
+          </div>
+        )}
+      </footer>
+    </div>
+  );
+};
+
+export default Display;
@@ -0,0 +1,79 @@
+import { Navigate, useNavigate } from 'react-router-dom';
+import { useApp } from '@/contexts/AppContext';
+import { formatEventDates, getEventPath } from '@/lib/event';
+import { Button } from '@/components/ui/button';
+import { Card, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { ArrowRight, CalendarDays, Sparkles } from 'lucide-react';
+
+// Landing page: pick an event. With a single event there is nothing to pick,
+// so teams go straight to its login page.
+const Events = () => {
+  const { events, eventsLoaded } = useApp();
+  const navigate = useNavigate();
+
+  if (!eventsLoaded) {
+    return null;
+  }
+
+  if (events.length === 1) {
+    return <Navigate to={getEventPath(events[0].slug)} replace />;
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 via-cyan-50 to-teal-50 dark:from-slate-950 dark:via-slate-900 dark:to-slate-950 p-4">
+      <main className="container mx-auto max-w-3xl py-16 space-y-10">
+        <div className="text-center space-y-4">
+          <div className="inline-flex items-center gap-2 px-4 py-2 bg-cyan-500/10 rounded-full border border-cyan-500/20">
+            <Sparkles className="w-4 h-4 text-cyan-600 dark:text-cyan-400" />
+            <span className="text-sm font-medium text-cyan-700 dark:text-cyan-400">Welcome to ContribX</span>
+          </div>
+          <h1 className="text-4xl font-bold">Choose your event</h1>
+        </div>
+
+        {events.length === 0 ? (
+          <p className="text-center text-muted-foreground">No events yet. Check back soon!</p>
+        ) : (
+          <div className="space-y-4">
+            {events.map(event => {
+              const dates = formatEventDates(event);
+              return (
+                <Card
+                  key={event.slug}
+                  className="border-0 shadow-lg hover:shadow-xl transition-all cursor-pointer bg-white/80 dark:bg-slate-900/80"
+                  onClick={() => navigate(getEventPath(event.slug))}
+                >
+                  <CardHeader className="flex flex-row items-center gap-4 space-y-0">
+                    {event.logoUrl && (
+                      <img src={event.logoUrl} alt="" className="w-14 h-14 rounded-xl object-cover shadow" />
+                    )}
+                    <div className="flex-1 min-w-0 space-y-1">
+                      <CardTitle className="text-xl">{event.name}</CardTitle>
+                      <CardDescription className="flex flex-wrap items-center gap-x-3">
+                        {event.organizer && <span>{event.organizer}</span>}
+                        {dates && (
+                          <span className="flex items-center gap-1.5">
+                            <CalendarDays className="w-4 h-4" />
+                            {dates}
+                          </span>
+                        )}
+                      </CardDescription>
+                    </div>
+                    <ArrowRight className="w-5 h-5 text-muted-foreground shrink-0" />
+                  </CardHeader>
+                </Card>
+              );
+            })}
+          </div>
+        )}
+
+        <div className="text-center">
+          <Button variant="ghost" onClick={() => navigate('/admin')} className="text-sm">
+            Access Admin Panel →
+          </Button>
+        </div>
+      </main>
+    </div>
+  );
+};
+
+export default Events;
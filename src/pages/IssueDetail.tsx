@@ -0,0 +1,207 @@
+import { useMemo } from 'react';
+import { Navigate, useNavigate, useParams } from 'react-router-dom';
+import { useApp, useCurrentEvent } from '@/contexts/AppContext';
+import { useEventPath } from '@/hooks/use-event-path';
+import { useIssueActivity } from '@/hooks/use-issue-activity';
+import { getIssuePath, isHttpUrl } from '@/lib/issueDetails';
+import { getIssueHistory, type IssueHistoryTone } from '@/lib/issueHistory';
+import type { Issue } from '@/types';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import EventStatusBanner from '@/components/EventStatusBanner';
+import IssueTimer from '@/components/IssueTimer';
+import IssueHints from '@/components/IssueHints';
+import ReleaseIssueButton from '@/components/ReleaseIssueButton';
+import RequestExtensionButton from '@/components/RequestExtensionButton';
+import WaitlistButton from '@/components/WaitlistButton';
+import PrVerificationChecks from '@/components/PrVerificationChecks';
+import { IssueBadges, IssueDetailsBody } from '@/components/IssueDetailsSheet';
+import { ArrowLeft, ExternalLink, GitPullRequest, History, Link2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { cn } from '@/lib/utils';
+
+const PR_STATUS_LABELS: Record<NonNullable<Issue['prStatus']>, string> = {
+  pending: 'Awaiting review',
+  approved: 'Approved',
+  merged: 'Merged',
+  rejected: 'Rejected'
+};
+
+const TONE_CLASSES: Record<IssueHistoryTone, string> = {
+  neutral: 'bg-muted-foreground',
+  progress: 'bg-primary',
+  positive: 'bg-success',
+  negative: 'bg-destructive'
+};
+
+const IssueDetail = () => {
+  const { repo, issueId } = useParams<{ repo: string; issueId: string }>();
+  const navigate = useNavigate();
+  const eventPath = useEventPath();
+  const { issues, isAdmin, currentTeam, scoringRules } = useApp();
+  const event = useCurrentEvent();
+
+  const issue = issues.find(i => i.id === issueId);
+  const { entries, loaded } = useIssueActivity(issue?.id);
+  const history = useMemo(() => getIssueHistory(entries, isAdmin), [entries, isAdmin]);
+
+  const copyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      toast.success('Link copied!');
+    } catch {
+      toast.error('Could not copy the link');
+    }
+  };
+
+  // Links name the repository too; keep them right if it was typed wrong
+  if (issue && issue.repo !== repo) {
+    return <Navigate to={eventPath(getIssuePath(issue))} replace />;
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="border-b bg-card shadow-card">
+        <div className="container mx-auto px-4 py-4">
+          <Button variant="ghost" onClick={() => navigate(eventPath(`/issues/${repo}`))} className="mb-2">
+            <ArrowLeft className="w-4 h-4 mr-2" />
+            Back to {repo} Issues
+          </Button>
+          <div className="flex flex-col md:flex-row md:items-start md:justify-between gap-3">
+            <div className="space-y-2">
+              <h1 className="text-2xl font-bold">{issue?.title ?? 'Issue not found'}</h1>
+              {issue && <IssueBadges issue={issue} scoringRules={scoringRules} />}
+            </div>
+            {issue && (
+              <Button variant="outline" onClick={copyLink}>
+                <Link2 className="w-4 h-4 mr-2" />
+                Copy Link
+              </Button>
+            )}
+          </div>
+          {currentTeam && <p className="text-sm text-muted-foreground mt-2">Team: {currentTeam.name}</p>}
+          <div className="mt-4">
+            <EventStatusBanner />
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-8">
+        {!issue ? (
+          <Card className="shadow-card">
+            <CardContent className="py-12 text-center text-muted-foreground">
+              This issue does not exist or has been removed.
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+            <Card className="shadow-card lg:col-span-2">
+              <CardHeader>
+                <CardTitle className="text-lg">Details</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <IssueDetailsBody issue={issue} />
+              </CardContent>
+            </Card>
+
+            <div className="space-y-6">
+              <Card className="shadow-card">
+                <CardHeader>
+                  <CardTitle className="text-lg">Status</CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-4 text-sm">
+                  <div className="flex items-center gap-2 flex-wrap">
+                    <Badge
+                      variant={issue.status === 'occupied' ? 'default' : issue.status === 'closed' ? 'secondary' : 'outline'}
+                      className={issue.status === 'closed' ? 'bg-success text-white' : ''}
+                    >
+                      {issue.status.toUpperCase()}
+                    </Badge>
+                    {issue.assignedTo && (
+                      <span className="text-muted-foreground">
+                        {issue.status === 'closed' ? 'Solved by' : 'Held by'}{' '}
+                        <span className="font-medium text-foreground">{issue.assignedTo}</span>
+                      </span>
+                    )}
+                  </div>
+
+                  {issue.status === 'occupied' && issue.occupiedAt && (
+                    <IssueTimer issue={issue} scoringRules={scoringRules} event={event} className="mt-0" />
+                  )}
+
+                  <IssueHints issueId={issue.id} className="w-full" />
+                  <RequestExtensionButton issueId={issue.id} className="w-full" />
+                  <ReleaseIssueButton issueId={issue.id} className="w-full" />
+                  <WaitlistButton issueId={issue.id} />
+
+                  {issue.prUrl && (
+                    <div className="space-y-3 border-t pt-4">
+                      <div className="flex items-center justify-between gap-2">
+                        {isHttpUrl(issue.prUrl) ? (
+                          <a
+                            href={issue.prUrl}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="inline-flex items-center gap-2 font-medium text-primary hover:underline"
+                          >
+                            <GitPullRequest className="w-4 h-4" />
+                            Pull Request
+                            <ExternalLink className="w-3 h-3" />
+                          </a>
+                        ) : (
+                          // Team-written, so anything but a web page is only shown as text
+                          <span className="inline-flex items-center gap-2 min-w-0 font-medium break-all">
+                            <GitPullRequest className="w-4 h-4 shrink-0" />
+                            {issue.prUrl}
+                          </span>
+                        )}
+                        <Badge
+                          variant={issue.prStatus === 'rejected' ? 'destructive' : issue.prStatus === 'merged' ? 'default' : 'secondary'}
+                          className={issue.prStatus === 'merged' ? 'bg-success' : ''}
+                        >
+                          {PR_STATUS_LABELS[issue.prStatus ?? 'pending']}
+                        </Badge>
+                      </div>
+                      {issue.prVerification && <PrVerificationChecks verification={issue.prVerification} />}
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+
+              <Card className="shadow-card">
+                <CardHeader>
+                  <CardTitle className="text-lg flex items-center gap-2">
+                    <History className="w-5 h-5" />
+                    Activity
+                  </CardTitle>
+                </CardHeader>
+                <CardContent>
+                  {loaded && history.length === 0 && (
+                    <p className="text-sm text-muted-foreground">No recorded activity yet.</p>
+                  )}
+                  {history.length > 0 && (
+                    <ol className="relative space-y-4 border-l pl-5">
+                      {history.map(item => (
+                        <li key={item.id} className="relative">
+                          <span className={cn('absolute -left-[1.6rem] top-1.5 h-2.5 w-2.5 rounded-full ring-4 ring-card', TONE_CLASSES[item.tone])} />
+                          <p className="text-sm font-medium">{item.title}</p>
+                          {item.detail && <p className="text-xs text-muted-foreground break-all">{item.detail}</p>}
+                          <p className="text-xs text-muted-foreground">
+                            {new Date(item.time).toLocaleString()} · {item.actor}
+                          </p>
+                        </li>
+                      ))}
+                    </ol>
+                  )}
+                </CardContent>
+              </Card>
+            </div>
+          </div>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default IssueDetail;
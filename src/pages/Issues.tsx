@@ -1,11 +1,27 @@
 import { useParams, useNavigate } from 'react-router-dom';
-import { useApp } from '@/contexts/AppContext';
+import { useApp, useCurrentEvent } from '@/contexts/AppContext';
+import { useEventPath } from '@/hooks/use-event-path';
+import { useEventPhase } from '@/hooks/use-event-phase';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
-import { ArrowLeft, CheckCircle, Lock, Clock, GitPullRequest } from 'lucide-react';
+import { ArrowLeft, CheckCircle, Lock, GitPullRequest, FileText } from 'lucide-react';
 import { toast } from 'sonner';
-import { useState, useEffect, memo, useCallback, useMemo } from 'react';
+import { useState, memo, useCallback, useMemo } from 'react';
+import { getReleasePenalty, getTier, getTimeLimitMs, migrateIssueDifficulty } from '@/lib/scoring';
+import { getEventClosedError } from '@/lib/event';
+import { getIssuePath, hasIssueDetails } from '@/lib/issueDetails';
+import DifficultyBadge from '@/components/DifficultyBadge';
+import PrVerificationChecks from '@/components/PrVerificationChecks';
+import EventStatusBanner from '@/components/EventStatusBanner';
+import IssueDetailsSheet from '@/components/IssueDetailsSheet';
+import IssueTimer from '@/components/IssueTimer';
+import IssueHints from '@/components/IssueHints';
+import ReleaseIssueButton from '@/components/ReleaseIssueButton';
+import RequestExtensionButton from '@/components/RequestExtensionButton';
+import OccupyIssueButton from '@/components/OccupyIssueButton';
+import WaitlistButton from '@/components/WaitlistButton';
+import type { PrVerification } from '@/types';
 import {
   AlertDialog,
   AlertDialogAction,
@@ -20,7 +36,11 @@ import {
 const Issues = () => {
   const { repo } = useParams<{ repo: string }>();
   const navigate = useNavigate();
-  const { issues, currentTeam, occupyIssue, closeIssue } = useApp();
+  const eventPath = useEventPath();
+  const { issues, currentTeam, scoringRules, occupyIssue, closeIssue } = useApp();
+  const event = useCurrentEvent();
+  // Occupy and close are refused outside the running window
+  const closedError = getEventClosedError(useEventPhase(event));
   const [showCloseDialog, setShowCloseDialog] = useState(false);
   const [showInstructionsDialog, setShowInstructionsDialog] = useState(false);
   const [showOccupyDialog, setShowOccupyDialog] = useState(false);
@@ -28,12 +48,19 @@ const Issues = () => {
   const [selectedIssueDetails, setSelectedIssueDetails] = useState<any>(null);
   const [prUrl, setPrUrl] = useState('');
   const [prUrlError, setPrUrlError] = useState('');
+  const [prVerification, setPrVerification] = useState<PrVerification | null>(null);
+  const [isVerifying, setIsVerifying] = useState(false);
+  const [detailsIssueId, setDetailsIssueId] = useState<string | null>(null);
 
   const repoIssues = useMemo(() => issues.filter(issue => issue.repo === repo), [issues, repo]);
   const openIssues = useMemo(() => repoIssues.filter(i => i.status === 'open'), [repoIssues]);
   const occupiedIssues = useMemo(() => repoIssues.filter(i => i.status === 'occupied'), [repoIssues]);
   const closedIssues = useMemo(() => repoIssues.filter(i => i.status === 'closed'), [repoIssues]);
 
+  const selectedTier = selectedIssueDetails ? getTier(selectedIssueDetails, scoringRules) : undefined;
+  // Looked up on every render so the drawer follows live edits
+  const detailsIssue = repoIssues.find(issue => issue.id === detailsIssueId) ?? null;
+
   const confirmOccupy = useCallback((issueId: string) => {
     console.log('[DEBUG] confirmOccupy called for', issueId);
     const issue = issues.find(i => i.id === issueId);
@@ -43,6 +70,12 @@ const Issues = () => {
   }, [issues]);
 
   // Prevent double-invocation when using pointer events
+  // Toast button that opens the issue's own page
+  const viewIssueAction = useCallback((issueId: string) => ({
+    label: 'View',
+    onClick: () => navigate(eventPath(getIssuePath({ id: issueId, repo: repo ?? '' })))
+  }), [navigate, eventPath, repo]);
+
   const makeOneShot = <T extends (...args: any[]) => any>(fn: T) => {
     let called = false;
     return ((...args: Parameters<T>) => {
@@ -79,7 +112,7 @@ const Issues = () => {
     
     // Then show feedback
     if (result.success) {
-      toast.success('Issue occupied successfully!');
+      toast.success('Issue occupied successfully!', { action: viewIssueAction(selectedIssue) });
       // Delay opening the instructions dialog a tick to allow focus to restore and avoid
       // aria-hidden on focused elements in some desktop layouts.
       setTimeout(() => setShowInstructionsDialog(true), 50);
@@ -88,7 +121,7 @@ const Issues = () => {
       setSelectedIssue(null);
       setSelectedIssueDetails(null);
     }
-  }, [selectedIssue, occupyIssue]);
+  }, [selectedIssue, occupyIssue, viewIssueAction]);
 
   const validatePrUrl = (url: string): boolean => {
     // Check if it's a valid GitHub PR URL
@@ -96,7 +129,7 @@ const Issues = () => {
     return githubPrPattern.test(url);
   };
 
-  const confirmClose = useCallback(() => {
+  const confirmClose = useCallback(async () => {
     console.log('[DEBUG] confirmClose invoked for', selectedIssue);
     if (!selectedIssue) return;
     
@@ -110,106 +143,67 @@ const Issues = () => {
       return;
     }
     
-    const result = closeIssue(selectedIssue, prUrl);
+    setIsVerifying(true);
+    setPrVerification(null);
+    const result = await closeIssue(selectedIssue, prUrl);
+    setIsVerifying(false);
   console.log('[DEBUG] closeIssue result:', result);
     if (result.success) {
       toast.success('Issue marked as solved! PR submitted for review 🎉', {
-        description: 'Admin will review your PR before awarding points.'
+        description: result.verification?.status === 'error'
+          ? 'GitHub could not be reached, so the admin will verify your PR manually.'
+          : 'Admin will review your PR before awarding points.',
+        action: viewIssueAction(selectedIssue)
       });
       setShowCloseDialog(false);
       setSelectedIssue(null);
       setPrUrl('');
       setPrUrlError('');
+    } else if (result.verification?.status === 'failed') {
+      // Keep the dialog open so the team can see which checks failed
+      setPrVerification(result.verification);
     } else {
       toast.error(result.error || 'Failed to close issue');
     }
-  }, [selectedIssue, prUrl, closeIssue]);
+  }, [selectedIssue, prUrl, closeIssue, viewIssueAction]);
 
   const handleCloseClick = useCallback((issueId: string) => {
     console.log('[DEBUG] handleCloseClick for', issueId);
     setSelectedIssue(issueId);
     setPrUrl('');
     setPrUrlError('');
+    setPrVerification(null);
     setShowCloseDialog(true);
   }, []);
 
-  const getTagColor = (tag: string) => {
-    switch (tag) {
-      case 'easy': return 'bg-success text-white';
-      case 'medium': return 'bg-warning text-white';
-      case 'hard': return 'bg-destructive text-white';
-      default: return 'bg-muted';
-    }
-  };
-
-  const getTimeRemaining = (issue: any) => {
-    if (!issue.occupiedAt) return null;
-    
-    const duration = issue.tags.includes('easy') ? 20 * 60 * 1000 :
-                    issue.tags.includes('medium') ? 40 * 60 * 1000 :
-                    60 * 60 * 1000;
-    
-    const elapsed = Date.now() - issue.occupiedAt;
-    const remaining = Math.max(0, duration - elapsed);
-    
-    const minutes = Math.floor(remaining / 60000);
-    const seconds = Math.floor((remaining % 60000) / 1000);
-    
-    return `${minutes}:${seconds.toString().padStart(2, '0')}`;
-  };
-
-  // Memoized timer component to prevent unnecessary re-renders
-  const Timer = memo(({ issue }: { issue: any }) => {
-    const [time, setTime] = useState(getTimeRemaining(issue));
-
-    useEffect(() => {
-      const interval = setInterval(() => {
-        setTime(getTimeRemaining(issue));
-      }, 1000);
-      return () => clearInterval(interval);
-    }, [issue.occupiedAt, issue.tags]);
-
-    if (!time) return null;
-
-    // Calculate remaining time percentage
-    const duration = issue.tags.includes('easy') ? 20 * 60 * 1000 :
-                    issue.tags.includes('medium') ? 40 * 60 * 1000 :
-                    60 * 60 * 1000;
-    const elapsed = Date.now() - issue.occupiedAt;
-    const remaining = Math.max(0, duration - elapsed);
-    const percentRemaining = (remaining / duration) * 100;
-
-    // Color based on time remaining
-    const getTimerColor = () => {
-      if (percentRemaining > 50) return 'text-primary';
-      if (percentRemaining > 25) return 'text-warning';
-      return 'text-destructive';
-    };
-
-    return (
-      <div className={`flex items-center gap-2 mt-2 text-sm font-medium ${getTimerColor()}`}>
-        <Clock className="w-4 h-4" />
-        {time}
-        {percentRemaining <= 25 && (
-          <span className="text-xs">⚠️ Hurry!</span>
-        )}
-      </div>
-    );
-  });
-
-  Timer.displayName = 'Timer';
-
   const IssueCard = memo(
     ({ issue, actions }: { issue: any; actions: React.ReactNode }) => {
       return (
         <Card className="shadow-card hover:shadow-elevated transition-shadow duration-300 card-hover-optimized">
           <CardHeader>
-            <div className="flex justify-between items-start">
-              <CardTitle className="text-base">{issue.title}</CardTitle>
+            <div className="flex justify-between items-start gap-2">
+              <CardTitle className="text-base">
+                <button type="button" className="text-left hover:underline" onClick={() => setDetailsIssueId(issue.id)}>
+                  {issue.title}
+                </button>
+              </CardTitle>
+              {hasIssueDetails(issue) && (
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-7 w-7 shrink-0"
+                  title="Details"
+                  onClick={() => setDetailsIssueId(issue.id)}
+                >
+                  <FileText className="w-4 h-4" />
+                </Button>
+              )}
             </div>
-            <div className="flex gap-2 mt-2">
-              {issue.tags.map((tag: string) => (
-                <Badge key={tag} className={getTagColor(tag)}>
+            <div className="flex flex-wrap gap-2 mt-2">
+              <DifficultyBadge tier={getTier(issue, scoringRules)} />
+              {/* Unmigrated issues still carry their difficulty as the first tag */}
+              {migrateIssueDifficulty(issue, scoringRules).tags.map((tag: string) => (
+                <Badge key={tag} variant="outline">
                   {tag}
                 </Badge>
               ))}
@@ -220,7 +214,7 @@ const Issues = () => {
               </p>
             )}
             {issue.status === 'occupied' && issue.occupiedAt && (
-              <Timer issue={issue} />
+              <IssueTimer issue={issue} scoringRules={scoringRules} event={event} />
             )}
           </CardHeader>
           <CardContent>
@@ -235,7 +229,9 @@ const Issues = () => {
         prevProps.issue.id === nextProps.issue.id &&
         prevProps.issue.status === nextProps.issue.status &&
         prevProps.issue.assignedTo === nextProps.issue.assignedTo &&
-        prevProps.issue.occupiedAt === nextProps.issue.occupiedAt
+        prevProps.issue.occupiedAt === nextProps.issue.occupiedAt &&
+        prevProps.issue.extensionMinutes === nextProps.issue.extensionMinutes &&
+        hasIssueDetails(prevProps.issue) === hasIssueDetails(nextProps.issue)
       );
     }
   );
@@ -246,12 +242,15 @@ const Issues = () => {
     <div className="min-h-screen bg-background">
       <header className="border-b bg-card shadow-card">
         <div className="container mx-auto px-4 py-4">
-          <Button variant="ghost" onClick={() => navigate('/repositories')} className="mb-2">
+          <Button variant="ghost" onClick={() => navigate(eventPath('/repositories'))} className="mb-2">
             <ArrowLeft className="w-4 h-4 mr-2" />
             Back to Repositories
           </Button>
           <h1 className="text-2xl font-bold">{repo} - Issues</h1>
           <p className="text-sm text-muted-foreground">Team: {currentTeam?.name}</p>
+          <div className="mt-4">
+            <EventStatusBanner />
+          </div>
         </div>
       </header>
 
@@ -268,13 +267,11 @@ const Issues = () => {
                   key={issue.id}
                   issue={issue}
                   actions={
-                    <Button
-                      className="w-full"
-                      onPointerUp={() => confirmOccupy(issue.id)}
-                      onClick={(e) => e.preventDefault()}
-                    >
-                      Occupy Issue
-                    </Button>
+                    <OccupyIssueButton
+                      issueId={issue.id}
+                      disabled={!!closedError}
+                      onOccupy={() => confirmOccupy(issue.id)}
+                    />
                   }
                 />
               ))}
@@ -293,20 +290,29 @@ const Issues = () => {
                   issue={issue}
                   actions={
                     issue.assignedTo === currentTeam?.name ? (
-                      <Button 
-                        className="w-full" 
-                        variant="default"
-                        onPointerUp={() => handleCloseClick(issue.id)}
-                        onClick={(e) => e.preventDefault()}
-                      >
-                        <CheckCircle className="w-4 h-4 mr-2" />
-                        Mark as Solved
-                      </Button>
+                      <div className="space-y-2">
+                        <Button 
+                          className="w-full" 
+                          variant="default"
+                          disabled={!!closedError}
+                          onPointerUp={() => handleCloseClick(issue.id)}
+                          onClick={(e) => e.preventDefault()}
+                        >
+                          <CheckCircle className="w-4 h-4 mr-2" />
+                          Mark as Solved
+                        </Button>
+                        <IssueHints issueId={issue.id} className="w-full" />
+                        <RequestExtensionButton issueId={issue.id} className="w-full" />
+                        <ReleaseIssueButton issueId={issue.id} className="w-full" />
+                      </div>
                     ) : (
-                      <Button className="w-full" variant="ghost" disabled>
-                        <Lock className="w-4 h-4 mr-2" />
-                        Occupied by {issue.assignedTo}
-                      </Button>
+                      <div className="space-y-2">
+                        <Button className="w-full" variant="ghost" disabled>
+                          <Lock className="w-4 h-4 mr-2" />
+                          Occupied by {issue.assignedTo}
+                        </Button>
+                        <WaitlistButton issueId={issue.id} />
+                      </div>
                     )
                   }
                 />
@@ -325,9 +331,12 @@ const Issues = () => {
                   key={issue.id}
                   issue={issue}
                   actions={
-                    <div className="flex items-center justify-center text-success">
-                      <CheckCircle className="w-4 h-4 mr-2" />
-                      Completed
+                    <div className="space-y-2">
+                      <div className="flex items-center justify-center text-success">
+                        <CheckCircle className="w-4 h-4 mr-2" />
+                        Completed
+                      </div>
+                      <WaitlistButton issueId={issue.id} />
                     </div>
                   }
                 />
@@ -337,6 +346,13 @@ const Issues = () => {
         </div>
       </main>
 
+      {/* Issue Details Drawer */}
+      <IssueDetailsSheet
+        issue={detailsIssue}
+        scoringRules={scoringRules}
+        onOpenChange={(open) => !open && setDetailsIssueId(null)}
+      />
+
       {/* Occupy Confirmation Dialog - Shows before occupying */}
       <AlertDialog open={showOccupyDialog} onOpenChange={setShowOccupyDialog}>
         <AlertDialogContent>
@@ -351,14 +367,8 @@ const Issues = () => {
                     📊 Point System:
                   </p>
                   <div className="space-y-2 text-blue-800 dark:text-blue-200">
-                    {selectedIssueDetails?.tags.includes('easy') && (
-                      <p>• <strong>Easy Issue</strong> - Time limit: 20 minutes</p>
-                    )}
-                    {selectedIssueDetails?.tags.includes('medium') && (
-                      <p>• <strong>Medium Issue</strong> - Time limit: 40 minutes</p>
-                    )}
-                    {selectedIssueDetails?.tags.includes('hard') && (
-                      <p>• <strong>Hard Issue</strong> - Time limit: 60 minutes</p>
+                    {selectedTier && (
+                      <p>• <strong>{selectedTier.name} Issue</strong> - {selectedTier.points} points, time limit: {selectedTier.timeLimitMinutes} minutes</p>
                     )}
                   </div>
                 </div>
@@ -378,16 +388,23 @@ const Issues = () => {
                       ⏰ Time expires
                     </p>
                     <p className="text-xs text-red-700 dark:text-red-300">
-                      {selectedIssueDetails?.tags.includes('easy') && 'Lose 5 points'}
-                      {selectedIssueDetails?.tags.includes('medium') && 'Lose 10 points'}
-                      {selectedIssueDetails?.tags.includes('hard') && 'Lose 15 points'}
+                      {selectedTier && `Lose ${selectedTier.penalty} points`}
                     </p>
                   </div>
                 </div>
 
+                {selectedIssueDetails && (
+                  <p className="text-xs text-muted-foreground">
+                    Stuck? You can give the issue up early: free for the first {scoringRules.releasePenalty.graceMinutes} minutes,
+                    then {getReleasePenalty(selectedIssueDetails, scoringRules, scoringRules.releasePenalty.graceMinutes * 60 * 1000)}
+                    {' '}to {getReleasePenalty(selectedIssueDetails, scoringRules, getTimeLimitMs(selectedIssueDetails, scoringRules))} points
+                    depending on how long you held it.
+                  </p>
+                )}
+
                 <div className="bg-amber-50 dark:bg-amber-950 border border-amber-200 dark:border-amber-800 rounded-lg p-3">
                   <p className="text-amber-800 dark:text-amber-200 text-xs font-medium">
-                    ⚠️ You can occupy up to 3 issues at a time. Choose wisely and work efficiently!
+                    ⚠️ You can occupy up to {scoringRules.maxConcurrentIssues} issues at a time. Choose wisely and work efficiently!
                   </p>
                 </div>
               </div>
@@ -484,7 +501,8 @@ const Issues = () => {
                   <li><strong>Clone your fork</strong> and make your changes</li>
                   <li><strong>Commit</strong> all your changes with clear messages</li>
                   <li><strong>Push</strong> changes to your fork</li>
-                  <li><strong>Create a Pull Request</strong> from your fork to the original repo</li>
+                  <li><strong>Create a Pull Request</strong> from your fork to the original repo, using a GitHub account linked to your team</li>
+                  <li><strong>Reference the issue</strong> in the PR description (e.g. "Fixes #12")</li>
                   <li><strong>Copy the PR URL</strong> and paste it below</li>
                 </ol>
                 
@@ -505,6 +523,12 @@ const Issues = () => {
                   {prUrlError && (
                     <p className="text-xs text-destructive">{prUrlError}</p>
                   )}
+                  {prVerification && (
+                    <div className="p-3 rounded-lg border border-destructive/50 bg-destructive/5 space-y-2">
+                      <p className="text-sm font-semibold text-destructive">PR verification failed</p>
+                      <PrVerificationChecks verification={prVerification} />
+                    </div>
+                  )}
                   <p className="text-xs text-muted-foreground">
                     Example: https://github.com/username/contribx/pull/42
                   </p>
@@ -524,8 +548,15 @@ const Issues = () => {
             }}>
               Cancel
             </AlertDialogCancel>
-            <AlertDialogAction onClick={confirmClose}>
-              Submit PR & Mark as Solved
+            <AlertDialogAction
+              disabled={isVerifying}
+              onClick={(e) => {
+                // Stay open while verifying and when checks fail
+                e.preventDefault();
+                confirmClose();
+              }}
+            >
+              {isVerifying ? 'Verifying PR…' : 'Submit PR & Mark as Solved'}
             </AlertDialogAction>
           </AlertDialogFooter>
         </AlertDialogContent>
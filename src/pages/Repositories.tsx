@@ -1,30 +1,39 @@
 import { useNavigate } from 'react-router-dom';
 import { useEffect } from 'react';
-import { useApp } from '@/contexts/AppContext';
+import { useApp, useCurrentEvent } from '@/contexts/AppContext';
+import { useEventPath } from '@/hooks/use-event-path';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
-import { GitBranch, LogOut, Trophy, ExternalLink, Clock, CheckCircle, Award, TrendingUp, Sparkles, ArrowRight } from 'lucide-react';
+import { GitBranch, LogOut, Trophy, ExternalLink, Clock, CheckCircle, Award, TrendingUp, Sparkles, ArrowRight, Snowflake } from 'lucide-react';
+import { getPublicTeams, isTeamRevealed } from '@/lib/leaderboard';
+import EventStatusBanner from '@/components/EventStatusBanner';
 
 const Repositories = () => {
-  const { currentTeam, repositories, issues, logoutTeam } = useApp();
+  const { currentTeam, authReady, repositories, issues, logoutTeam } = useApp();
+  const { freeze, name, logoUrl } = useCurrentEvent();
+  const eventPath = useEventPath();
   const navigate = useNavigate();
 
   useEffect(() => {
-    if (!currentTeam) {
-      navigate('/');
+    if (authReady && !currentTeam) {
+      navigate(eventPath());
     }
-  }, [currentTeam, navigate]);
+  }, [authReady, currentTeam, navigate, eventPath]);
 
-  const handleLogout = () => {
-    logoutTeam();
-    navigate('/');
+  const handleLogout = async () => {
+    await logoutTeam();
+    navigate(eventPath());
   };
 
   if (!currentTeam) {
     return null;
   }
 
+  // While the leaderboard is frozen the team sees its frozen score too
+  const [publicTeam] = getPublicTeams([currentTeam], freeze);
+  const scoreFrozen = !isTeamRevealed(currentTeam.name, freeze);
+
   // Get team's issues counts
   const getTeamIssuesForRepo = (repoName: string) => {
     const repoIssues = issues.filter(issue => issue.repo === repoName && issue.assignedTo === currentTeam.name);
@@ -47,8 +56,8 @@ const Repositories = () => {
             <div className="flex items-center gap-4">
               <div className="w-12 h-12 rounded-xl overflow-hidden shadow-lg ring-2 ring-cyan-500/20">
                 <img 
-                  src="/image.png" 
-                  alt="DataVedhi Club" 
+                  src={logoUrl ?? '/image.png'} 
+                  alt={name} 
                   className="w-full h-full object-cover"
                 />
               </div>
@@ -65,7 +74,7 @@ const Repositories = () => {
             <div className="flex gap-3">
               <Button 
                 variant="outline" 
-                onClick={() => navigate('/rankings')}
+                onClick={() => navigate(eventPath('/rankings'))}
                 className="shadow-sm hover:shadow-md transition-all border-slate-200 dark:border-slate-700"
               >
                 <Trophy className="w-4 h-4 mr-2" />
@@ -85,6 +94,10 @@ const Repositories = () => {
       </header>
 
       <main className="container mx-auto px-6 py-10">
+        <div className="mb-8">
+          <EventStatusBanner />
+        </div>
+
         {/* Hero Stats Section */}
         <div className="mb-12">
           <div className="flex items-center gap-2 mb-6">
@@ -97,10 +110,10 @@ const Repositories = () => {
               <div className="absolute top-0 right-0 w-32 h-32 bg-white/10 rounded-full -mr-16 -mt-16"></div>
               <CardHeader className="pb-3 relative z-10">
                 <CardDescription className="text-blue-100 font-medium">Total Points</CardDescription>
-                <CardTitle className="text-5xl font-bold">{currentTeam.points || 0}</CardTitle>
+                <CardTitle className="text-5xl font-bold">{publicTeam.points || 0}</CardTitle>
                 <div className="flex items-center gap-1 text-blue-100 text-sm mt-2">
-                  <Award className="w-4 h-4" />
-                  <span>Keep it up!</span>
+                  {scoreFrozen ? <Snowflake className="w-4 h-4" /> : <Award className="w-4 h-4" />}
+                  <span>{scoreFrozen ? 'Scoreboard frozen' : 'Keep it up!'}</span>
                 </div>
               </CardHeader>
             </Card>
@@ -204,7 +217,7 @@ const Repositories = () => {
                   <CardContent className="relative z-10">
                     <Button
                       className="w-full h-11 bg-gradient-to-r from-blue-600 to-indigo-600 hover:from-blue-700 hover:to-indigo-700 text-white shadow-md hover:shadow-lg transition-all group/btn"
-                      onClick={() => navigate(`/issues/${repo.name}`)}
+                      onClick={() => navigate(eventPath(`/issues/${repo.name}`))}
                     >
                       <span>View Issues</span>
                       <ArrowRight className="w-4 h-4 ml-2 group-hover/btn:translate-x-1 transition-transform" />
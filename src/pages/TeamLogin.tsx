@@ -1,25 +1,40 @@
-import { useState } from 'react';
+import { useState, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { useApp } from '@/contexts/AppContext';
+import { useApp, useCurrentEvent } from '@/contexts/AppContext';
+import { useEventPath } from '@/hooks/use-event-path';
+import { formatEventDates } from '@/lib/event';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
-import { Users, Trophy, GitBranch, Lock, Sparkles } from 'lucide-react';
+import { Users, Trophy, GitBranch, Lock, Sparkles, CalendarDays } from 'lucide-react';
 import { toast } from 'sonner';
 
 const TeamLogin = () => {
   const [teamName, setTeamName] = useState('');
   const [password, setPassword] = useState('');
-  const { loginTeam } = useApp();
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const { loginTeam, currentTeam, authReady } = useApp();
+  const event = useCurrentEvent();
+  const eventPath = useEventPath();
   const navigate = useNavigate();
+  const eventDates = formatEventDates(event);
 
-  const handleLogin = (e: React.FormEvent) => {
+  // Resume a session restored from a previous visit
+  useEffect(() => {
+    if (authReady && currentTeam) {
+      navigate(eventPath('/repositories'));
+    }
+  }, [authReady, currentTeam, navigate, eventPath]);
+
+  const handleLogin = async (e: React.FormEvent) => {
     e.preventDefault();
-    const result = loginTeam(teamName, password);
+    setIsSubmitting(true);
+    const result = await loginTeam(teamName, password);
+    setIsSubmitting(false);
     
     if (result.success) {
       toast.success('🎉 Welcome back! Let\'s build something amazing!');
-      navigate('/repositories');
+      navigate(eventPath('/repositories'));
     } else {
       toast.error(result.error);
     }
@@ -39,14 +54,22 @@ const TeamLogin = () => {
         <div className="hidden lg:block space-y-8 px-8">
           {/* Logo Section */}
           <div className="flex items-center gap-4 mb-6">
-            <img 
-              src="./image.png" 
-              alt="DataVedhi Club Logo" 
-              className="w-24 h-24 rounded-2xl shadow-lg object-cover"
-            />
+            {event.logoUrl && (
+              <img 
+                src={event.logoUrl} 
+                alt={`${event.organizer || event.name} logo`} 
+                className="w-24 h-24 rounded-2xl shadow-lg object-cover"
+              />
+            )}
             <div>
-              <h2 className="text-2xl font-bold text-slate-900 dark:text-white">DataVedhi.Club</h2>
-              <p className="text-sm text-muted-foreground">Day 2 Competition</p>
+              <h2 className="text-2xl font-bold text-slate-900 dark:text-white">{event.organizer || event.name}</h2>
+              <p className="text-sm text-muted-foreground">{event.organizer ? event.name : 'ContribX'}</p>
+              {eventDates && (
+                <p className="text-sm text-muted-foreground flex items-center gap-1.5 mt-1">
+                  <CalendarDays className="w-4 h-4" />
+                  {eventDates}
+                </p>
+              )}
             </div>
           </div>
 
@@ -63,7 +86,7 @@ const TeamLogin = () => {
               One Repository at a Time
             </p>
             <p className="text-lg text-muted-foreground max-w-md">
-              Join your team, tackle exciting challenges, and climb the leaderboard. Every contribution counts!
+              {event.tagline || 'Join your team, tackle exciting challenges, and climb the leaderboard. Every contribution counts!'}
             </p>
           </div>
 
@@ -79,7 +102,7 @@ const TeamLogin = () => {
             </div>
             <div className="space-y-2">
               <CardTitle className="text-3xl font-bold">Team Portal</CardTitle>
-              <CardDescription className="text-base">Sign in to start contributing</CardDescription>
+              <CardDescription className="text-base">Sign in to {event.name}</CardDescription>
             </div>
           </CardHeader>
           <CardContent className="px-8 pb-8">
@@ -116,15 +139,16 @@ const TeamLogin = () => {
                 type="submit" 
                 className="w-full h-14 text-base font-semibold bg-gradient-to-r from-cyan-600 to-teal-600 hover:from-cyan-700 hover:to-teal-700 shadow-lg shadow-cyan-500/30 hover:shadow-xl hover:shadow-cyan-500/40 transition-all"
                 size="lg"
+                disabled={isSubmitting}
               >
-                Sign In
+                {isSubmitting ? 'Signing In...' : 'Sign In'}
               </Button>
             </form>
             <div className="mt-8 pt-6 border-t text-center">
               <p className="text-sm text-muted-foreground mb-3">Administrator?</p>
               <Button
                 variant="ghost"
-                onClick={() => navigate('/admin')}
+                onClick={() => navigate(eventPath('/admin'))}
                 className="text-sm hover:bg-cyan-50 dark:hover:bg-cyan-950 hover:text-cyan-700 dark:hover:text-cyan-300 transition-all"
               >
                 Access Admin Panel →
@@ -1,14 +1,38 @@
+import { useEffect, useState } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { useApp } from '@/contexts/AppContext';
+import { useApp, useCurrentEvent } from '@/contexts/AppContext';
+import { useEventPath } from '@/hooks/use-event-path';
 import { Button } from '@/components/ui/button';
-import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
-import { ArrowLeft, Trophy, Medal } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ArrowLeft, Trophy, Medal, ArrowUp, ArrowDown, Minus, Snowflake } from 'lucide-react';
+import { isTeamOnline } from '@/lib/presence';
+import { getRankChanges } from '@/lib/rankings';
+import { getPublicLedger, getPublicTeams } from '@/lib/leaderboard';
+import RankingsHistoryChart from '@/components/RankingsHistoryChart';
+
+const RANK_WINDOWS_MINUTES = [5, 15, 30, 60];
 
 const TeamRankings = () => {
   const navigate = useNavigate();
-  const { teams, currentTeam } = useApp();
+  const eventPath = useEventPath();
+  const { teams: liveTeams, currentTeam, ledger: liveLedger } = useApp();
+  const { freeze } = useCurrentEvent();
+  const [windowMinutes, setWindowMinutes] = useState(15);
+  const [now, setNow] = useState(Date.now());
+
+  // Keeps the rank-change window and the chart's last point moving
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 30000);
+    return () => clearInterval(interval);
+  }, []);
+
+  // Everyone, admins included, sees the public standings here
+  const teams = getPublicTeams(liveTeams, freeze);
+  const ledger = getPublicLedger(liveLedger, freeze);
 
   const sortedTeams = [...teams].sort((a, b) => b.points - a.points);
+  const rankChanges = getRankChanges(teams, ledger, now - windowMinutes * 60 * 1000);
 
   const getMedalIcon = (index: number) => {
     switch (index) {
@@ -19,11 +43,22 @@ const TeamRankings = () => {
     }
   };
 
+  const getRankChange = (teamName: string) => {
+    const change = rankChanges[teamName] ?? 0;
+    if (change > 0) {
+      return <span className="flex items-center text-xs font-semibold text-success"><ArrowUp className="w-3 h-3" />{change}</span>;
+    }
+    if (change < 0) {
+      return <span className="flex items-center text-xs font-semibold text-destructive"><ArrowDown className="w-3 h-3" />{-change}</span>;
+    }
+    return <Minus className="w-3 h-3 text-muted-foreground" />;
+  };
+
   return (
     <div className="min-h-screen bg-background">
       <header className="border-b bg-card shadow-card">
         <div className="container mx-auto px-4 py-4">
-          <Button variant="ghost" onClick={() => navigate('/repositories')} className="mb-2">
+          <Button variant="ghost" onClick={() => navigate(eventPath('/repositories'))} className="mb-2">
             <ArrowLeft className="w-4 h-4 mr-2" />
             Back to Repositories
           </Button>
@@ -36,8 +71,29 @@ const TeamRankings = () => {
 
       <main className="container mx-auto px-4 py-8">
         <Card className="max-w-2xl mx-auto shadow-elevated">
-          <CardHeader>
-            <CardTitle>Leaderboard</CardTitle>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0">
+            <div>
+              <CardTitle>Leaderboard</CardTitle>
+              {freeze && (
+                <p className="text-xs text-muted-foreground flex items-center gap-1 mt-1">
+                  <Snowflake className="w-3 h-3 text-cyan-500" />
+                  Frozen at {new Date(freeze.frozenAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                  {freeze.revealed.length > 0 && ` · ${freeze.revealed.length} revealed`}
+                </p>
+              )}
+            </div>
+            <Select value={String(windowMinutes)} onValueChange={(value) => setWindowMinutes(Number(value))}>
+              <SelectTrigger className="w-44 h-9">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {RANK_WINDOWS_MINUTES.map(minutes => (
+                  <SelectItem key={minutes} value={String(minutes)}>
+                    Change in last {minutes} min
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
           </CardHeader>
           <CardContent>
             <div className="space-y-3">
@@ -58,9 +114,12 @@ const TeamRankings = () => {
                         </span>
                       )}
                     </div>
+                    <div className="w-6 flex justify-center" title={`Rank change in the last ${windowMinutes} minutes`}>
+                      {getRankChange(team.name)}
+                    </div>
                     <div>
                       <p className="font-semibold">{team.name}</p>
-                      {team.active && (
+                      {isTeamOnline(team) && (
                         <span className="text-xs text-success">● Active</span>
                       )}
                     </div>
@@ -74,6 +133,28 @@ const TeamRankings = () => {
             </div>
           </CardContent>
         </Card>
+
+        <Card className="max-w-2xl mx-auto shadow-elevated mt-6">
+          <CardHeader>
+            <CardTitle>Score History</CardTitle>
+            <CardDescription className="flex flex-wrap items-center gap-x-4 gap-y-1">
+              <span>Each team's score over the event</span>
+              <span className="flex items-center gap-1.5">
+                <span className="w-2.5 h-2.5 rounded-full bg-[#22c55e]" /> PR merged
+              </span>
+              <span className="flex items-center gap-1.5">
+                <span className="w-2.5 h-2.5 rounded-full bg-[#ef4444]" /> Time penalty
+              </span>
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {ledger.length === 0 ? (
+              <p className="text-sm text-muted-foreground text-center py-8">No points have been scored yet.</p>
+            ) : (
+              <RankingsHistoryChart teams={teams} ledger={ledger} now={now} />
+            )}
+          </CardContent>
+        </Card>
       </main>
     </div>
   );
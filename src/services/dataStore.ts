@@ -0,0 +1,285 @@
+import type { Team, Repository, LeaderboardFreeze, Issue, IssueExpiration, AuthSession, TeamCredential, ScoringRules, PrReviewStatus, PointsEntry, ContestEvent, EventDetails, EventStatus, AuditEntry, AuditInput, IssueHint, HintUnlock, ExtensionRequest, PrVerification } from '@/types';
+import { firestoreDataStore } from '@/services/firebaseService';
+import { createMemoryDataStore } from '@/services/memoryService';
+
+export type Unsubscribe = () => void;
+
+export interface OccupyResult {
+  success: boolean;
+  error?: string;
+}
+
+export interface ActionResult {
+  success: boolean;
+  error?: string;
+}
+
+export interface ReviewResult {
+  success: boolean;
+  error?: string;
+  /** Points granted by this call; absent if it awarded nothing (not a merge, or already rewarded) */
+  awardedPoints?: number;
+  /** Set when a rejection handed the issue to the first team on its waitlist */
+  offeredTo?: string | null;
+}
+
+export interface ReleaseResult {
+  success: boolean;
+  error?: string;
+  /** Points deducted for releasing */
+  penalty?: number;
+  /** First team on the waitlist, now given the claim window */
+  offeredTo?: string | null;
+}
+
+export interface VerificationResult {
+  success: boolean;
+  error?: string;
+  /** The checks run against the pull request, when GitHub could be asked */
+  verification?: PrVerification;
+}
+
+export interface SignInResult {
+  success: boolean;
+  error?: string;
+  session?: AuthSession;
+}
+
+/**
+ * Backend used by the app for events and their teams, repositories and issues.
+ * The Firestore implementation lives in firebaseService.ts, the in-memory one
+ * in memoryService.ts. Subscriptions fire once with the current data and
+ * again after every change.
+ *
+ * Everything below the Events section reads and writes the active event
+ * (setActiveEvent); subscriptions stay bound to the event that was active
+ * when they were opened.
+ */
+export interface DataStore {
+  // Events (public so the login page and display need no login)
+  subscribeToEvents: (callback: (events: ContestEvent[]) => void) => Unsubscribe;
+  /** Admin-only; fails if the slug is already taken */
+  createEvent: (slug: string, details: EventDetails) => Promise<void>;
+  /** Admin-only; leaves a running freeze alone */
+  updateEvent: (slug: string, details: EventDetails) => Promise<void>;
+  /** Scope the methods below to one event, or to none */
+  setActiveEvent: (slug: string | null) => void;
+
+  // Teams
+  getAllTeams: () => Promise<Team[]>;
+  /**
+   * With a freeze, only the revealed teams: the rest of the standings are
+   * not public until they are revealed, and come from the freeze's scores
+   */
+  subscribeToTeams: (callback: (teams: Team[]) => void, freeze?: LeaderboardFreeze | null) => Unsubscribe;
+  createTeam: (team: Team) => Promise<void>;
+  updateTeam: (teamName: string, updates: Partial<Team>) => Promise<void>;
+  initializeTeams: (teamNames: string[]) => Promise<void>;
+
+  // Repositories
+  getAllRepositories: () => Promise<Repository[]>;
+  subscribeToRepositories: (callback: (repos: Repository[]) => void) => Unsubscribe;
+  createRepository: (repo: Repository) => Promise<void>;
+  /** Admin-only: remove for good, with the issues trashed along with it */
+  deleteRepository: (repoId: string) => Promise<void>;
+  initializeRepositories: (repos: Repository[]) => Promise<void>;
+
+  // Issues
+  getAllIssues: () => Promise<Issue[]>;
+  subscribeToIssues: (callback: (issues: Issue[]) => void) => Unsubscribe;
+  createIssue: (issue: Omit<Issue, 'id'>) => Promise<string>;
+  /** Admin-only bulk create in batched writes; resolves with the new ids in order */
+  createIssues: (issues: Omit<Issue, 'id'>[]) => Promise<string[]>;
+  updateIssue: (issueId: string, updates: Partial<Issue>) => Promise<void>;
+  /** Admin-only: remove for good */
+  deleteIssue: (issueId: string) => Promise<void>;
+  getIssuesByRepo: (repoName: string) => Promise<Issue[]>;
+  getIssuesByTeam: (teamName: string) => Promise<Issue[]>;
+
+  // Trash (admin-only; see src/lib/trash.ts for what is refused and why)
+  /** Set the issue's deletedAt. Refused while a team holds it. */
+  trashIssue: (issueId: string) => Promise<ActionResult>;
+  restoreIssue: (issueId: string) => Promise<ActionResult>;
+  /**
+   * Move the repository and its issues to the trash in one write. Refused
+   * while a team holds one of its issues.
+   */
+  trashRepository: (repoId: string) => Promise<ActionResult>;
+  /** Restore the repository and the issues that went to the trash with it */
+  restoreRepository: (repoId: string) => Promise<ActionResult>;
+
+  // Scoring rules (single document, defaults until an admin saves one)
+  getScoringRules: () => Promise<ScoringRules>;
+  subscribeToScoringRules: (callback: (rules: ScoringRules) => void) => Unsubscribe;
+  updateScoringRules: (rules: ScoringRules) => Promise<void>;
+
+  // Event lifecycle (stored on the event document)
+  /**
+   * Admin-only: move the active event to another status (see
+   * EVENT_TRANSITIONS in src/lib/event.ts). Resuming from a pause moves
+   * occupied issues' occupiedAt forward by the length of the pause.
+   */
+  changeEventStatus: (status: EventStatus) => Promise<ActionResult>;
+
+  // Leaderboard freeze (stored on the event document)
+  /** Admin-only: hold the public standings at every team's current points */
+  freezeLeaderboard: () => Promise<void>;
+  /** Admin-only: make one frozen team's live score public */
+  revealTeam: (teamName: string) => Promise<void>;
+  /** Admin-only: show live scores for everyone again */
+  unfreezeLeaderboard: () => Promise<void>;
+
+  /**
+   * Atomically assign an open issue to a team, enforcing the per-team limit
+   * from the current scoring rules (issues held for the team on a waitlist
+   * count too). Refused unless the event is running, and while the issue is
+   * held for another team. Business-rule failures are returned as
+   * `{ success: false, error }`.
+   */
+  occupyIssue: (issueId: string, teamName: string) => Promise<OccupyResult>;
+
+  /**
+   * For the signed-in team: give back an issue it holds, reopening it (or
+   * holding it for the first team on its waitlist) at once, and deduct the
+   * release penalty for the time used (see getReleasePenalty in
+   * src/lib/scoring.ts). Refused unless the event is running. Atomic with
+   * the expiry worker, so only one of them applies, and with the
+   * "issue.release" audit entry.
+   */
+  releaseIssue: (issueId: string) => Promise<ReleaseResult>;
+
+  /**
+   * For the signed-in team: submit the PR for an issue it holds. It is
+   * verified against GitHub first (see src/lib/prVerification.ts) and a PR
+   * that fails a check is refused with the checks. One GitHub could not be
+   * asked about is accepted unverified (status "error") for the admins to
+   * review. Refused unless the event is running.
+   */
+  closeIssue: (issueId: string, prUrl: string) => Promise<VerificationResult>;
+
+  /** Admin-only: check a submitted PR against GitHub again and store the result */
+  reverifyPullRequest: (issueId: string) => Promise<VerificationResult>;
+
+  /**
+   * Record an admin's review of a closed issue's PR. Marking it merged awards
+   * the tier's points to the team at most once per occupation, shared with
+   * the GitHub webhook (functions/src/review.ts). Rejecting it hands the
+   * issue to the first team on its waitlist, if there is one.
+   */
+  reviewPullRequest: (issueId: string, status: PrReviewStatus) => Promise<ReviewResult>;
+
+  /** Expirations applied by the authoritative expiry worker, newest first */
+  subscribeToExpirations: (callback: (expirations: IssueExpiration[]) => void) => Unsubscribe;
+
+  // Points ledger (append-only; Team.points changes only alongside an entry)
+  /**
+   * Every entry for every team, newest first. With a freeze, only entries
+   * from before it and those of revealed teams.
+   */
+  subscribeToLedger: (callback: (entries: PointsEntry[]) => void, freeze?: LeaderboardFreeze | null) => Unsubscribe;
+  /** Admin-only manual award (positive delta) or deduction (negative delta) */
+  adjustPoints: (teamName: string, delta: number, note: string) => Promise<ActionResult>;
+  /** Admin-only: append an entry that cancels `entryId`; each entry reverses once */
+  reversePointsEntry: (entryId: string, note: string) => Promise<ActionResult>;
+
+  // Hints (texts are admin-only; teams see the hints they paid for)
+  /** Admin-only: every issue's hints, keyed by issue id */
+  subscribeToIssueHints: (callback: (hints: Record<string, IssueHint[]>) => void) => Unsubscribe;
+  /** Admin-only: replace an issue's hints and publish their costs on the issue */
+  saveIssueHints: (issueId: string, hints: IssueHint[]) => Promise<void>;
+  /** One team's unlocks, or every team's for admins (null), newest first */
+  subscribeToHintUnlocks: (teamName: string | null, callback: (unlocks: HintUnlock[]) => void) => Unsubscribe;
+  /**
+   * For the team holding the issue while the event runs: reveal the hint at
+   * `hintIndex` and charge its cost to the ledger. Hints unlock in order,
+   * each once per team, and only if the team can pay for them.
+   */
+  unlockHint: (issueId: string, hintIndex: number) => Promise<ActionResult>;
+
+  // Waitlists (see src/lib/waitlist.ts)
+  /** For the signed-in team: queue for an issue another team holds, below its concurrent limit */
+  joinWaitlist: (issueId: string) => Promise<ActionResult>;
+  /** For the signed-in team: leave an issue's waitlist */
+  leaveWaitlist: (issueId: string) => Promise<ActionResult>;
+
+  // Time extensions (teams ask, admins decide)
+  /** One team's requests, or every team's for admins (null), newest first */
+  subscribeToExtensionRequests: (teamName: string | null, callback: (requests: ExtensionRequest[]) => void) => Unsubscribe;
+  /**
+   * For the team holding the issue while the event runs: ask the admins for
+   * more time. Refused while an earlier request for the issue is pending.
+   */
+  requestExtension: (issueId: string, reason: string) => Promise<ActionResult>;
+  /**
+   * Admin-only: grant a pending request, adding `minutes` to the issue's
+   * extensionMinutes, or deny it (null). Granting is refused once the
+   * occupation it was made for has ended.
+   */
+  resolveExtensionRequest: (requestId: string, minutes: number | null) => Promise<ActionResult>;
+
+  // Audit log (append-only; admins read all of it, teams the entries about an issue)
+  /** Record a change made by the signed-in admin or team, who becomes its actor */
+  appendAuditEntry: (entry: AuditInput) => Promise<void>;
+  /** Admin-only: every entry, newest first */
+  subscribeToAuditLog: (callback: (entries: AuditEntry[]) => void) => Unsubscribe;
+  /** The history of one issue, oldest first */
+  subscribeToIssueActivity: (issueId: string, callback: (entries: AuditEntry[]) => void) => Unsubscribe;
+
+  // Authentication
+  /** Team logins belong to the active event */
+  signInTeam: (teamName: string, password: string) => Promise<SignInResult>;
+  signInAdmin: (email: string, password: string) => Promise<SignInResult>;
+  signOut: () => Promise<void>;
+  /** Fires with the restored session (or null) and on every sign-in/out */
+  onAuthStateChanged: (callback: (session: AuthSession | null) => void) => Unsubscribe;
+
+  // Team presence
+  /**
+   * Make this browser session the team's only active session. Fails while
+   * another session is still sending heartbeats.
+   */
+  claimTeamSession: (teamName: string, sessionId: string) => Promise<ActionResult>;
+  /** Refresh lastSeen; resolves false if another session now holds the team */
+  sendHeartbeat: (teamName: string, sessionId: string) => Promise<boolean>;
+  releaseTeamSession: (teamName: string, sessionId: string) => Promise<void>;
+
+  // Team credentials (admin only)
+  createTeamCredential: (teamName: string) => Promise<TeamCredential>;
+  rotateTeamCredential: (teamName: string) => Promise<TeamCredential>;
+  revokeTeamCredential: (teamName: string) => Promise<void>;
+}
+
+export type DataStoreKind = 'firebase' | 'memory';
+
+export const dataStoreKind: DataStoreKind =
+  import.meta.env.VITE_DATA_STORE === 'memory' ? 'memory' : 'firebase';
+
+// Selected once per page load via VITE_DATA_STORE (defaults to Firestore)
+export const dataStore: DataStore =
+  dataStoreKind === 'memory'
+    ? createMemoryDataStore({
+        seed: {
+          events: [{
+            slug: 'contribx',
+            name: 'ContribX',
+            organizer: 'ContribX',
+            tagline: 'Learn, contribute and grow, one repository at a time',
+            logoUrl: null,
+            startsAt: null,
+            endsAt: null,
+            status: 'running',
+            pausedAt: null,
+            freeze: null
+          }],
+          repositories: [
+            { name: "awesome-repo", url: "https://github.com/example/awesome-repo" },
+            { name: "ui-kit", url: "https://github.com/example/ui-kit" },
+            { name: "lib-helpers", url: "https://github.com/example/lib-helpers" }
+          ]
+        },
+        admins: [{
+          email: import.meta.env.VITE_MEMORY_ADMIN_EMAIL || 'admin@localhost',
+          password: import.meta.env.VITE_MEMORY_ADMIN_PASSWORD || 'admin'
+        }]
+      })
+    : firestoreDataStore;
@@ -5,32 +5,99 @@ import {
   getDoc,
   setDoc, 
   updateDoc, 
-  deleteDoc,
   query,
   where,
   onSnapshot,
   writeBatch,
   Timestamp,
   runTransaction,
-  limit
+  limit,
+  orderBy,
+  serverTimestamp,
+  increment,
+  arrayUnion,
+  documentId,
+  type DocumentData,
+  type DocumentReference,
+  type Query,
+  type QueryDocumentSnapshot,
+  type Transaction
 } from 'firebase/firestore';
-import { db } from '@/lib/firebase';
-import type { Team, Repository, Issue } from '@/types';
+import {
+  signInWithEmailAndPassword,
+  signOut as firebaseSignOut,
+  onAuthStateChanged as onFirebaseAuthStateChanged,
+  type User
+} from 'firebase/auth';
+import { httpsCallable } from 'firebase/functions';
+import { db, getFirebaseAuth, getFirebaseFunctions } from '@/lib/firebase';
+import type { Team, Repository, LeaderboardFreeze, Issue, IssueExpiration, AuthSession, TeamCredential, ScoringRules, PrReviewStatus, PointsEntry, ContestEvent, EventDetails, EventStatus, AuditEntry, AuditInput, IssueHint, HintUnlock, ExtensionRequest, PrVerification } from '@/types';
+import type { DataStore, ActionResult, OccupyResult, ReleaseResult, ReviewResult, SignInResult, VerificationResult } from '@/services/dataStore';
+import { isSessionFresh } from '@/lib/presence';
+import { getIssuePoints, normalizeScoringRules } from '@/lib/scoring';
+import { getMergeEntryId, getReversalEntryId } from '@/lib/ledger';
+import { getEventClosedError, getEventPhase, getEventStatusUpdate, getPauseShiftMs, normalizeEvent } from '@/lib/event';
+import {
+  getCascadedIssues,
+  getRestoreIssueBlocker,
+  getRestoreRepositoryBlocker,
+  getTrashIssueBlocker,
+  getTrashRepositoryBlocker
+} from '@/lib/trash';
+import { getActiveOffer, getFreedIssueFields, getFullTeams } from '@/lib/waitlist';
 
-// Collection names
+// Collection names. Everything but EVENTS is a subcollection of events/{slug}.
 const COLLECTIONS = {
+  EVENTS: 'events',
   TEAMS: 'teams',
   REPOSITORIES: 'repositories',
-  ISSUES: 'issues'
+  ISSUES: 'issues',
+  EXPIRATIONS: 'expirations',
+  LEDGER: 'ledger',
+  AUDIT: 'audit',
+  HINTS: 'hints',
+  HINT_UNLOCKS: 'hintUnlocks',
+  EXTENSION_REQUESTS: 'extensionRequests',
+  CONFIG: 'config'
 };
 
+// Document in the event's config collection holding the ScoringRules
+const SCORING_RULES_DOC = 'scoringRules';
+
+// ============ ACTIVE EVENT ============
+
+let activeEventSlug: string | null = null;
+
+export const setActiveEvent = (slug: string | null) => {
+  activeEventSlug = slug;
+};
+
+const requireActiveEvent = (): string => {
+  if (!activeEventSlug) {
+    throw new Error('No event selected.');
+  }
+  return activeEventSlug;
+};
+
+const eventRef = () => doc(db, COLLECTIONS.EVENTS, requireActiveEvent());
+
+const eventCollection = (name: string) => collection(db, COLLECTIONS.EVENTS, requireActiveEvent(), name);
+
+const eventDoc = (name: string, id: string) => doc(db, COLLECTIONS.EVENTS, requireActiveEvent(), name, id);
+
 // ============ TEAMS ============
 
+const toTeam = (data: DocumentData): Team => ({
+  ...data,
+  lastSeen: data.lastSeen?.toMillis?.() ?? data.lastSeen,
+  credentialUpdatedAt: data.credentialUpdatedAt?.toMillis?.() ?? data.credentialUpdatedAt
+} as Team);
+
 export const getAllTeams = async (): Promise<Team[]> => {
   try {
-    const teamsCol = collection(db, COLLECTIONS.TEAMS);
+    const teamsCol = eventCollection(COLLECTIONS.TEAMS);
     const snapshot = await getDocs(teamsCol);
-    const teams = snapshot.docs.map(doc => ({ ...doc.data() } as Team));
+    const teams = snapshot.docs.map(doc => toTeam(doc.data()));
     return teams;
   } catch (error) {
     console.error('Error fetching teams:', error);
@@ -38,21 +105,45 @@ export const getAllTeams = async (): Promise<Team[]> => {
   }
 };
 
-export const subscribeToTeams = (callback: (teams: Team[]) => void) => {
-  const teamsCol = collection(db, COLLECTIONS.TEAMS);
+// "in" filters take at most 30 values, so longer lists need a query per 30
+const chunkNames = (names: string[]): string[][] =>
+  Array.from({ length: Math.ceil(names.length / 30) }, (_, index) => names.slice(index * 30, index * 30 + 30));
+
+// One listener per query, calling back with all their documents once each
+// has answered
+const subscribeToQueries = (queries: Query[], callback: (docs: QueryDocumentSnapshot[]) => void) => {
+  if (!queries.length) {
+    callback([]);
+    return () => {};
+  }
+  const results: (QueryDocumentSnapshot[] | null)[] = queries.map(() => null);
+  const unsubscribes = queries.map((q, index) => onSnapshot(q, (snapshot) => {
+    results[index] = snapshot.docs;
+    if (results.every(docs => docs !== null)) callback(results.flat() as QueryDocumentSnapshot[]);
+  }));
+  return () => unsubscribes.forEach(unsubscribe => unsubscribe());
+};
+
+export const subscribeToTeams = (callback: (teams: Team[]) => void, freeze: LeaderboardFreeze | null = null) => {
+  const teamsCol = eventCollection(COLLECTIONS.TEAMS);
+  if (freeze) {
+    // The rules let the public read only the revealed teams while frozen
+    const queries = chunkNames(freeze.revealed).map(names => query(teamsCol, where(documentId(), 'in', names)));
+    return subscribeToQueries(queries, docs => callback(docs.map(doc => toTeam(doc.data()))));
+  }
   return onSnapshot(teamsCol, (snapshot) => {
-    const teams = snapshot.docs.map(doc => ({ ...doc.data() } as Team));
+    const teams = snapshot.docs.map(doc => toTeam(doc.data()));
     callback(teams);
   });
 };
 
 export const createTeam = async (team: Team): Promise<void> => {
-  const teamDoc = doc(db, COLLECTIONS.TEAMS, team.name);
+  const teamDoc = eventDoc(COLLECTIONS.TEAMS, team.name);
   await setDoc(teamDoc, team);
 };
 
 export const updateTeam = async (teamName: string, updates: Partial<Team>): Promise<void> => {
-  const teamDoc = doc(db, COLLECTIONS.TEAMS, teamName);
+  const teamDoc = eventDoc(COLLECTIONS.TEAMS, teamName);
   await updateDoc(teamDoc, updates);
 };
 
@@ -61,7 +152,7 @@ export const initializeTeams = async (teamNames: string[]): Promise<void> => {
     const batch = writeBatch(db);
     
     for (const name of teamNames) {
-      const teamDoc = doc(db, COLLECTIONS.TEAMS, name);
+      const teamDoc = eventDoc(COLLECTIONS.TEAMS, name);
       const teamData = { name, points: 0, active: false } as Team;
       batch.set(teamDoc, teamData, { merge: true });
     }
@@ -75,34 +166,40 @@ export const initializeTeams = async (teamNames: string[]): Promise<void> => {
 
 // ============ REPOSITORIES ============
 
+const toRepository = (id: string, data: DocumentData): Repository => ({
+  ...data,
+  id,
+  deletedAt: data.deletedAt?.toMillis?.() ?? null
+} as Repository);
+
 export const getAllRepositories = async (): Promise<Repository[]> => {
-  const reposCol = collection(db, COLLECTIONS.REPOSITORIES);
+  const reposCol = eventCollection(COLLECTIONS.REPOSITORIES);
   const snapshot = await getDocs(reposCol);
-  return snapshot.docs.map(doc => ({ 
-    id: doc.id,
-    ...doc.data() 
-  } as Repository));
+  return snapshot.docs.map(doc => toRepository(doc.id, doc.data()));
 };
 
 export const subscribeToRepositories = (callback: (repos: Repository[]) => void) => {
-  const reposCol = collection(db, COLLECTIONS.REPOSITORIES);
+  const reposCol = eventCollection(COLLECTIONS.REPOSITORIES);
   return onSnapshot(reposCol, (snapshot) => {
-    const repos = snapshot.docs.map(doc => ({ 
-      id: doc.id,
-      ...doc.data() 
-    } as Repository));
+    const repos = snapshot.docs.map(doc => toRepository(doc.id, doc.data()));
     callback(repos);
   });
 };
 
 export const createRepository = async (repo: Repository): Promise<void> => {
-  const repoDoc = doc(collection(db, COLLECTIONS.REPOSITORIES));
+  const repoDoc = doc(eventCollection(COLLECTIONS.REPOSITORIES));
   await setDoc(repoDoc, repo);
 };
 
 export const deleteRepository = async (repoId: string): Promise<void> => {
-  const repoDoc = doc(db, COLLECTIONS.REPOSITORIES, repoId);
-  await deleteDoc(repoDoc);
+  const trashedIssues = await getDocs(query(eventCollection(COLLECTIONS.ISSUES), where('trashedWithRepo', '==', repoId)));
+  const batch = writeBatch(db);
+  trashedIssues.docs.forEach(issueDoc => {
+    batch.delete(issueDoc.ref);
+    batch.delete(eventDoc(COLLECTIONS.HINTS, issueDoc.id));
+  });
+  batch.delete(eventDoc(COLLECTIONS.REPOSITORIES, repoId));
+  await batch.commit();
 };
 
 export const initializeRepositories = async (repos: Repository[]): Promise<void> => {
@@ -110,7 +207,7 @@ export const initializeRepositories = async (repos: Repository[]): Promise<void>
     const batch = writeBatch(db);
     
     for (const repo of repos) {
-      const repoDoc = doc(collection(db, COLLECTIONS.REPOSITORIES));
+      const repoDoc = doc(eventCollection(COLLECTIONS.REPOSITORIES));
       batch.set(repoDoc, repo);
     }
     
@@ -124,7 +221,7 @@ export const initializeRepositories = async (repos: Repository[]): Promise<void>
 // ============ ISSUES ============
 
 export const getAllIssues = async (): Promise<Issue[]> => {
-  const issuesCol = collection(db, COLLECTIONS.ISSUES);
+  const issuesCol = eventCollection(COLLECTIONS.ISSUES);
   const snapshot = await getDocs(issuesCol);
   return snapshot.docs.map(doc => ({ 
     id: doc.id,
@@ -132,24 +229,25 @@ export const getAllIssues = async (): Promise<Issue[]> => {
   } as Issue));
 };
 
+const toIssue = (id: string, data: DocumentData): Issue => ({
+  id,
+  ...data,
+  // Convert Firestore Timestamps to numbers
+  occupiedAt: data.occupiedAt?.toMillis?.() || data.occupiedAt,
+  closedAt: data.closedAt?.toMillis?.() || data.closedAt,
+  offerExpiresAt: data.offerExpiresAt?.toMillis?.() ?? null,
+  deletedAt: data.deletedAt?.toMillis?.() ?? null
+} as Issue);
+
 export const subscribeToIssues = (callback: (issues: Issue[]) => void) => {
-  const issuesCol = collection(db, COLLECTIONS.ISSUES);
+  const issuesCol = eventCollection(COLLECTIONS.ISSUES);
   
   // Set up snapshot listener with error handling and metadata changes
   const unsubscribe = onSnapshot(
     issuesCol,
     { includeMetadataChanges: true },
     (snapshot) => {
-      const issues = snapshot.docs.map(doc => {
-        const data = doc.data();
-        return {
-          id: doc.id,
-          ...data,
-          // Convert Firestore Timestamps to numbers
-          occupiedAt: data.occupiedAt?.toMillis?.() || data.occupiedAt,
-          closedAt: data.closedAt?.toMillis?.() || data.closedAt
-        } as Issue;
-      });
+      const issues = snapshot.docs.map(doc => toIssue(doc.id, doc.data()));
       
       // Only trigger callback if this is not a local cache update
       if (!snapshot.metadata.fromCache) {
@@ -171,7 +269,7 @@ export const subscribeToIssues = (callback: (issues: Issue[]) => void) => {
 };
 
 export const createIssue = async (issue: Omit<Issue, 'id'>): Promise<string> => {
-  const issueDoc = doc(collection(db, COLLECTIONS.ISSUES));
+  const issueDoc = doc(eventCollection(COLLECTIONS.ISSUES));
   await setDoc(issueDoc, {
     ...issue,
     occupiedAt: issue.occupiedAt ? Timestamp.fromMillis(issue.occupiedAt) : null,
@@ -180,8 +278,29 @@ export const createIssue = async (issue: Omit<Issue, 'id'>): Promise<string> =>
   return issueDoc.id;
 };
 
+// Firestore allows at most 500 writes per batch
+const BATCH_LIMIT = 500;
+
+export const createIssues = async (issues: Omit<Issue, 'id'>[]): Promise<string[]> => {
+  const ids: string[] = [];
+  for (let start = 0; start < issues.length; start += BATCH_LIMIT) {
+    const batch = writeBatch(db);
+    for (const issue of issues.slice(start, start + BATCH_LIMIT)) {
+      const issueDoc = doc(eventCollection(COLLECTIONS.ISSUES));
+      batch.set(issueDoc, {
+        ...issue,
+        occupiedAt: issue.occupiedAt ? Timestamp.fromMillis(issue.occupiedAt) : null,
+        closedAt: issue.closedAt ? Timestamp.fromMillis(issue.closedAt) : null
+      });
+      ids.push(issueDoc.id);
+    }
+    await batch.commit();
+  }
+  return ids;
+};
+
 export const updateIssue = async (issueId: string, updates: Partial<Issue>): Promise<void> => {
-  const issueDoc = doc(db, COLLECTIONS.ISSUES, issueId);
+  const issueDoc = eventDoc(COLLECTIONS.ISSUES, issueId);
   const updateData: any = { ...updates };
   
   // Convert timestamps
@@ -196,12 +315,14 @@ export const updateIssue = async (issueId: string, updates: Partial<Issue>): Pro
 };
 
 export const deleteIssue = async (issueId: string): Promise<void> => {
-  const issueDoc = doc(db, COLLECTIONS.ISSUES, issueId);
-  await deleteDoc(issueDoc);
+  const batch = writeBatch(db);
+  batch.delete(eventDoc(COLLECTIONS.ISSUES, issueId));
+  batch.delete(eventDoc(COLLECTIONS.HINTS, issueId));
+  await batch.commit();
 };
 
 export const getIssuesByRepo = async (repoName: string): Promise<Issue[]> => {
-  const issuesCol = collection(db, COLLECTIONS.ISSUES);
+  const issuesCol = eventCollection(COLLECTIONS.ISSUES);
   const q = query(issuesCol, where('repo', '==', repoName));
   const snapshot = await getDocs(q);
   return snapshot.docs.map(doc => ({ 
@@ -211,7 +332,7 @@ export const getIssuesByRepo = async (repoName: string): Promise<Issue[]> => {
 };
 
 export const getIssuesByTeam = async (teamName: string): Promise<Issue[]> => {
-  const issuesCol = collection(db, COLLECTIONS.ISSUES);
+  const issuesCol = eventCollection(COLLECTIONS.ISSUES);
   const q = query(issuesCol, where('assignedTo', '==', teamName));
   const snapshot = await getDocs(q);
   return snapshot.docs.map(doc => ({ 
@@ -220,252 +341,1035 @@ export const getIssuesByTeam = async (teamName: string): Promise<Issue[]> => {
   } as Issue));
 };
 
-// ============ TRANSACTIONS ============
-
-/**
- * Atomically occupy an issue using Firestore transaction
- * This prevents race conditions when multiple teams try to occupy the same issue
- * @param issueId - The ID of the issue to occupy
- * @param teamName - The name of the team attempting to occupy the issue
- * @returns A promise that resolves to an object containing success status and optional error message
- */
-// Cache for team issue counts to avoid repeated queries
-const teamIssueCountCache = new Map<string, { count: number; timestamp: number }>();
-const CACHE_TTL = 5000; // 5 seconds TTL for cache
-
-interface TransactionError extends Error {
-  code?: string;
-  name?: string;
-}
-
-export const occupyIssueTransaction = async (
-  issueId: string, 
-  teamName: string,
-  maxRetries: number = 3
-): Promise<{ success: boolean; error?: string }> => {
-  const errors: TransactionError[] = [];
-  const startTime = Date.now();
+// ============ TRASH ============
 
-  try {
-    if (!issueId || !teamName) {
-      return { success: false, error: 'Issue ID and team name are required' };
+export const trashIssue = async (issueId: string): Promise<ActionResult> => {
+  const issueRef = eventDoc(COLLECTIONS.ISSUES, issueId);
+  return runTransaction(db, async (transaction) => {
+    const issueSnap = await transaction.get(issueRef);
+    if (!issueSnap.exists()) {
+      return { success: false, error: 'Issue not found.' };
+    }
+    // Read in the transaction so a team cannot occupy it while it goes
+    const blocker = getTrashIssueBlocker({ ...issueSnap.data(), id: issueSnap.id } as Issue);
+    if (blocker) {
+      return { success: false, error: blocker };
     }
+    transaction.update(issueRef, { deletedAt: Timestamp.now(), trashedWithRepo: null });
+    return { success: true };
+  });
+};
 
-    // Get a direct reference to the issue document first - this will be fast
-    const issueRef = doc(db, COLLECTIONS.ISSUES, issueId);
-    const issueDoc = await getDoc(issueRef);
-    
-    if (!issueDoc.exists()) {
-      return { success: false, error: 'Issue not found' };
+export const restoreIssue = async (issueId: string): Promise<ActionResult> => {
+  const issueRef = eventDoc(COLLECTIONS.ISSUES, issueId);
+  const issueSnap = await getDoc(issueRef);
+  if (!issueSnap.exists()) {
+    return { success: false, error: 'Issue not found.' };
+  }
+  const repositories = await getAllRepositories();
+  const blocker = getRestoreIssueBlocker({ ...issueSnap.data(), id: issueSnap.id } as Issue, repositories);
+  if (blocker) {
+    return { success: false, error: blocker };
+  }
+  await updateDoc(issueRef, { deletedAt: null, trashedWithRepo: null });
+  return { success: true };
+};
+
+export const trashRepository = async (repoId: string): Promise<ActionResult> => {
+  const repoRef = eventDoc(COLLECTIONS.REPOSITORIES, repoId);
+  const repoSnap = await getDoc(repoRef);
+  if (!repoSnap.exists()) {
+    return { success: false, error: 'Repository not found.' };
+  }
+  const repo = toRepository(repoId, repoSnap.data());
+  const issuesQuery = query(eventCollection(COLLECTIONS.ISSUES), where('repo', '==', repo.name));
+  const issueRefs = (await getDocs(issuesQuery)).docs.map(issueDoc => issueDoc.ref);
+
+  return runTransaction(db, async (transaction) => {
+    const snapshots = await Promise.all(issueRefs.map(ref => transaction.get(ref)));
+    const issues = snapshots
+      .filter(snapshot => snapshot.exists())
+      .map(snapshot => ({ ...snapshot.data(), id: snapshot.id } as Issue));
+    const blocker = getTrashRepositoryBlocker(repo, issues);
+    if (blocker) {
+      return { success: false, error: blocker };
+    }
+    const deletedAt = Timestamp.now();
+    for (const issue of getCascadedIssues(repo, issues)) {
+      transaction.update(eventDoc(COLLECTIONS.ISSUES, issue.id), { deletedAt, trashedWithRepo: repoId });
     }
+    transaction.update(repoRef, { deletedAt });
+    return { success: true };
+  });
+};
+
+export const restoreRepository = async (repoId: string): Promise<ActionResult> => {
+  const repoRef = eventDoc(COLLECTIONS.REPOSITORIES, repoId);
+  const repoSnap = await getDoc(repoRef);
+  if (!repoSnap.exists()) {
+    return { success: false, error: 'Repository not found.' };
+  }
+  const repositories = await getAllRepositories();
+  const blocker = getRestoreRepositoryBlocker(toRepository(repoId, repoSnap.data()), repositories);
+  if (blocker) {
+    return { success: false, error: blocker };
+  }
+
+  const trashedIssues = await getDocs(query(eventCollection(COLLECTIONS.ISSUES), where('trashedWithRepo', '==', repoId)));
+  const batch = writeBatch(db);
+  trashedIssues.docs.forEach(issueDoc => batch.update(issueDoc.ref, { deletedAt: null, trashedWithRepo: null }));
+  batch.update(repoRef, { deletedAt: null });
+  await batch.commit();
+  return { success: true };
+};
+
+// ============ SCORING RULES ============
+
+const toScoringRules = (data?: DocumentData): ScoringRules => normalizeScoringRules(data && {
+  ...data,
+  updatedAt: data.updatedAt?.toMillis?.() ?? data.updatedAt
+});
+
+export const getScoringRules = async (): Promise<ScoringRules> => {
+  const snapshot = await getDoc(eventDoc(COLLECTIONS.CONFIG, SCORING_RULES_DOC));
+  return toScoringRules(snapshot.data());
+};
 
-    const issueData = issueDoc.data() as Issue;
-    if (issueData.status !== 'open') {
-      return { success: false, error: `This issue is already ${issueData.status}. Please choose another issue.` };
+export const subscribeToScoringRules = (callback: (rules: ScoringRules) => void) => {
+  return onSnapshot(eventDoc(COLLECTIONS.CONFIG, SCORING_RULES_DOC), (snapshot) => {
+    callback(toScoringRules(snapshot.data()));
+  });
+};
+
+export const updateScoringRules = async (rules: ScoringRules): Promise<void> => {
+  await setDoc(eventDoc(COLLECTIONS.CONFIG, SCORING_RULES_DOC), {
+    tiers: rules.tiers,
+    maxConcurrentIssues: rules.maxConcurrentIssues,
+    releasePenalty: rules.releasePenalty,
+    claimWindowMinutes: rules.claimWindowMinutes,
+    updatedAt: serverTimestamp()
+  });
+};
+
+// ============ EVENTS ============
+
+const toEvent = (slug: string, data: DocumentData): ContestEvent => normalizeEvent(slug, {
+  ...data,
+  startsAt: data.startsAt?.toMillis?.() ?? data.startsAt,
+  endsAt: data.endsAt?.toMillis?.() ?? data.endsAt,
+  pausedAt: data.pausedAt?.toMillis?.() ?? data.pausedAt,
+  freeze: data.freeze && {
+    ...data.freeze,
+    frozenAt: data.freeze.frozenAt?.toMillis?.() ?? data.freeze.frozenAt
+  },
+  createdAt: data.createdAt?.toMillis?.() ?? data.createdAt,
+  updatedAt: data.updatedAt?.toMillis?.() ?? data.updatedAt
+});
+
+const toEventDetails = (details: EventDetails) => ({
+  name: details.name,
+  organizer: details.organizer,
+  tagline: details.tagline,
+  logoUrl: details.logoUrl,
+  startsAt: details.startsAt === null ? null : Timestamp.fromMillis(details.startsAt),
+  endsAt: details.endsAt === null ? null : Timestamp.fromMillis(details.endsAt),
+  updatedAt: serverTimestamp()
+});
+
+export const subscribeToEvents = (callback: (events: ContestEvent[]) => void) => {
+  return onSnapshot(collection(db, COLLECTIONS.EVENTS), (snapshot) => {
+    callback(snapshot.docs.map(doc => toEvent(doc.id, doc.data())));
+  });
+};
+
+export const createEvent = async (slug: string, details: EventDetails): Promise<void> => {
+  const ref = doc(db, COLLECTIONS.EVENTS, slug);
+  await runTransaction(db, async (transaction) => {
+    if ((await transaction.get(ref)).exists()) {
+      throw new Error(`An event at /e/${slug} already exists.`);
     }
+    transaction.set(ref, {
+      ...toEventDetails(details),
+      status: 'draft',
+      pausedAt: null,
+      freeze: null,
+      createdAt: serverTimestamp()
+    });
+  });
+};
 
-    // Fast pre-check using cache
-    const currentTime = Date.now();
-    const cachedCount = teamIssueCountCache.get(teamName);
-    
-    if (cachedCount && (currentTime - cachedCount.timestamp) < CACHE_TTL) {
-      if (cachedCount.count >= 3) {
-        return { 
-          success: false, 
-          error: 'Your team has already occupied 3 issues. Please close an issue before occupying a new one.' 
-        };
+// Merged so that editing the details leaves a running freeze alone
+export const updateEvent = async (slug: string, details: EventDetails): Promise<void> => {
+  await setDoc(doc(db, COLLECTIONS.EVENTS, slug), toEventDetails(details), { merge: true });
+};
+
+const toTimestamp = (time: number | null) => time === null ? null : Timestamp.fromMillis(time);
+
+// Resuming moves every occupied issue's occupiedAt forward by the length of
+// the pause, in the same transaction as the status change. Nothing can be
+// occupied or closed while paused, so the occupied issues found up front are
+// the ones to move.
+export const changeEventStatus = async (status: EventStatus): Promise<ActionResult> => {
+  const ref = eventRef();
+  try {
+    const occupied = await getDocs(query(eventCollection(COLLECTIONS.ISSUES), where('status', '==', 'occupied')));
+    const offered = await getDocs(query(eventCollection(COLLECTIONS.ISSUES), where('offeredTo', '!=', null)));
+    return await runTransaction(db, async (transaction) => {
+      const eventSnap = await transaction.get(ref);
+      if (!eventSnap.exists()) {
+        return { success: false, error: 'Event not found.' };
+      }
+      const issueSnaps = await Promise.all(occupied.docs.map(issueDoc => transaction.get(issueDoc.ref)));
+      const offerSnaps = await Promise.all(offered.docs.map(issueDoc => transaction.get(issueDoc.ref)));
+
+      const event = toEvent(eventSnap.id, eventSnap.data());
+      const currentTime = Date.now();
+      const update = getEventStatusUpdate(event, status, currentTime);
+      if (typeof update === 'string') {
+        return { success: false, error: update };
       }
-    }
 
-    // Attempt transaction with retries
-    for (let attempt = 0; attempt < maxRetries; attempt++) {
-      try {
-        // First, get current issue count (inside retry loop to ensure freshness)
-        if (!cachedCount || (currentTime - cachedCount.timestamp) >= CACHE_TTL) {
-          const issuesCol = collection(db, COLLECTIONS.ISSUES);
-          const teamCurrentIssues = query(
-            issuesCol,
-            where('assignedTo', '==', teamName),
-            where('status', '==', 'occupied'),
-            limit(3)
-          );
-
-          const snapshot = await getDocs(teamCurrentIssues);
-          if (snapshot.size >= 3) {
-            return { 
-              success: false, 
-              error: 'Your team has already occupied 3 issues. Please close an issue before occupying a new one.' 
-            };
-          }
-
-          // Update cache
-          teamIssueCountCache.set(teamName, {
-            count: snapshot.size,
-            timestamp: currentTime
-          });
+      const shift = status === 'running' ? getPauseShiftMs(event, currentTime) : 0;
+      issueSnaps.forEach(issueSnap => {
+        const occupiedAt = issueSnap.get('occupiedAt')?.toMillis?.();
+        if (shift > 0 && issueSnap.get('status') === 'occupied' && occupiedAt) {
+          transaction.update(issueSnap.ref, { occupiedAt: Timestamp.fromMillis(occupiedAt + shift) });
+        }
+      });
+      // Claim windows stand still too
+      offerSnaps.forEach(issueSnap => {
+        const issue = toIssue(issueSnap.id, issueSnap.data() ?? {});
+        if (shift > 0 && getActiveOffer(issue, event.pausedAt ?? currentTime)) {
+          transaction.update(issueSnap.ref, { offerExpiresAt: Timestamp.fromMillis(issue.offerExpiresAt + shift) });
         }
+      });
+
+      transaction.update(ref, {
+        status: update.status,
+        pausedAt: toTimestamp(update.pausedAt),
+        startsAt: toTimestamp(update.startsAt),
+        endsAt: toTimestamp(update.endsAt),
+        updatedAt: serverTimestamp()
+      });
+      return { success: true };
+    });
+  } catch (error) {
+    console.error('Error changing event status:', error);
+    return { success: false, error: error.message || 'Failed to change the event status' };
+  }
+};
+
+export const freezeLeaderboard = async (): Promise<void> => {
+  const teams = await getAllTeams();
+  await updateDoc(eventRef(), {
+    freeze: {
+      frozenAt: serverTimestamp(),
+      scores: Object.fromEntries(teams.map(team => [team.name, team.points])),
+      revealed: []
+    },
+    updatedAt: serverTimestamp()
+  });
+};
+
+// arrayUnion keeps reveals from two admins at once from overwriting each other
+export const revealTeam = async (teamName: string): Promise<void> => {
+  await updateDoc(eventRef(), {
+    'freeze.revealed': arrayUnion(teamName),
+    updatedAt: serverTimestamp()
+  });
+};
+
+export const unfreezeLeaderboard = async (): Promise<void> => {
+  await updateDoc(eventRef(), {
+    freeze: null,
+    updatedAt: serverTimestamp()
+  });
+};
+
+// ============ OCCUPATIONS ============
+
+/**
+ * Occupy an issue through the occupyIssue function (functions/src/occupy.ts),
+ * which checks the event, the waitlist offer and the team's limit in one
+ * transaction. The occupation's start and id key its expiry and ledger
+ * entries, so teams cannot write them themselves.
+ */
+export const occupyIssue = async (issueId: string): Promise<OccupyResult> => {
+  const callable = httpsCallable<{ eventSlug: string; issueId: string }, { occupationId: string }>(
+    getFirebaseFunctions(),
+    'occupyIssue'
+  );
+  try {
+    await callable({ eventSlug: requireActiveEvent(), issueId });
+    return { success: true };
+  } catch (error) {
+    console.error('Error occupying issue:', error);
+    return { success: false, error: error.message || 'Failed to occupy issue. Please try again.' };
+  }
+};
+
+/**
+ * Give back an occupied issue through the releaseIssue function
+ * (functions/src/release.ts), which deducts the penalty in the same
+ * transaction; teams cannot write the ledger themselves.
+ */
+export const releaseIssue = async (issueId: string): Promise<ReleaseResult> => {
+  const callable = httpsCallable<{ eventSlug: string; issueId: string }, { penalty: number }>(
+    getFirebaseFunctions(),
+    'releaseIssue'
+  );
+  try {
+    const { data } = await callable({ eventSlug: requireActiveEvent(), issueId });
+    return { success: true, penalty: data.penalty };
+  } catch (error) {
+    console.error('Error releasing issue:', error);
+    return { success: false, error: error.message || 'Failed to release the issue' };
+  }
+};
+
+// ============ PR REVIEW ============
 
-        // Perform the transaction
-        const result = await runTransaction(db, async (transaction) => {
-          const latestDoc = await transaction.get(issueRef);
-          if (!latestDoc.exists()) {
-            throw new Error('Issue no longer exists');
-          }
-
-          const currentData = latestDoc.data() as Issue;
-          if (currentData.status !== 'open') {
-            throw new Error(`This issue is already ${currentData.status}. Please choose another issue.`);
-          }
-
-          if (currentData.assignedTo === teamName) {
-            throw new Error('Your team is already assigned to this issue.');
-          }
-
-          const updateTime = Date.now();
-          transaction.update(issueRef, {
-            status: 'occupied',
-            assignedTo: teamName,
-            occupiedAt: Timestamp.fromMillis(updateTime),
-            lastUpdated: Timestamp.fromMillis(updateTime)
-          });
-
-          return { success: true };
+// Pull requests are checked by the closeIssue and reverifyPullRequest
+// functions (functions/src/verification.ts): GitHub calls are authenticated
+// there, and teams cannot write an issue's prVerification themselves.
+
+export const closeIssue = async (issueId: string, prUrl: string): Promise<VerificationResult> => {
+  const callable = httpsCallable<
+    { eventSlug: string; issueId: string; prUrl: string },
+    { closed: boolean; verification: PrVerification }
+  >(getFirebaseFunctions(), 'closeIssue');
+  try {
+    const { data } = await callable({ eventSlug: requireActiveEvent(), issueId, prUrl: prUrl.trim() });
+    return data.closed
+      ? { success: true, verification: data.verification }
+      : { success: false, error: data.verification.error || 'Pull request verification failed.', verification: data.verification };
+  } catch (error) {
+    console.error('Error submitting pull request:', error);
+    return { success: false, error: error.message || 'Failed to close issue' };
+  }
+};
+
+export const reverifyPullRequest = async (issueId: string): Promise<VerificationResult> => {
+  const callable = httpsCallable<{ eventSlug: string; issueId: string }, PrVerification>(
+    getFirebaseFunctions(),
+    'reverifyPullRequest'
+  );
+  try {
+    const { data } = await callable({ eventSlug: requireActiveEvent(), issueId });
+    return { success: true, verification: data };
+  } catch (error) {
+    console.error('Error verifying pull request:', error);
+    return { success: false, error: error.message || 'Failed to verify the pull request' };
+  }
+};
+
+// Same transaction as the GitHub webhook in functions/src/review.ts: the
+// merge entry is keyed on the occupation, so a merge reported by both the
+// admin and the webhook awards points once.
+export const reviewPullRequest = async (issueId: string, status: PrReviewStatus): Promise<ReviewResult> => {
+  try {
+    const rules = await getScoringRules();
+    const issueRef = eventDoc(COLLECTIONS.ISSUES, issueId);
+    const fullTeams = status === 'rejected'
+      ? await getFullWaitlistTeams(issueRef, rules.maxConcurrentIssues)
+      : new Set<string>();
+
+    return await runTransaction(db, async (transaction) => {
+      const issueSnap = await transaction.get(issueRef);
+      if (!issueSnap.exists()) {
+        return { success: false, error: 'Issue not found' };
+      }
+      const data = issueSnap.data();
+      const issue = {
+        ...data,
+        id: issueSnap.id,
+        closedAt: data.closedAt?.toMillis?.() ?? data.closedAt
+      } as Issue;
+
+      // A rejected PR hands the issue to the next team waiting for it
+      if (status === 'rejected' && issue.waitlist?.length) {
+        const freed = getFreedIssueFields(issue, rules, Date.now(), fullTeams);
+        transaction.update(issueRef, {
+          ...freed,
+          offerExpiresAt: toTimestamp(freed.offerExpiresAt),
+          lastUpdated: serverTimestamp()
         });
+        return { success: true, offeredTo: freed.offeredTo };
+      }
 
-        // On success, update cache
-        const updatedCache = teamIssueCountCache.get(teamName);
-        if (updatedCache) {
-          teamIssueCountCache.set(teamName, {
-            count: updatedCache.count + 1,
-            timestamp: currentTime
-          });
-        }
+      if (status !== 'merged' || !issue.assignedTo) {
+        transaction.update(issueRef, { prStatus: status });
+        return { success: true };
+      }
 
-        return result;
+      const entryRef = eventDoc(COLLECTIONS.LEDGER, getMergeEntryId(issue));
+      const entrySnap = await transaction.get(entryRef);
+      transaction.update(issueRef, { prStatus: status });
+      if (entrySnap.exists()) {
+        return { success: true };
+      }
 
-      } catch (error: any) {
-        lastError = error;
-        
-        // Don't retry for business logic errors
-        if (error.message.includes('already')) {
-          return { success: false, error: error.message };
-        }
+      const points = getIssuePoints(issue, rules);
+      appendEntry(transaction, entryRef, {
+        teamName: issue.assignedTo,
+        delta: points,
+        reason: 'merge',
+        issueId,
+        issueTitle: issue.title
+      });
+      return { success: true, awardedPoints: points };
+    });
+  } catch (error) {
+    console.error('Error reviewing pull request:', error);
+    return { success: false, error: error.message || 'Failed to update PR status' };
+  }
+};
 
-        // For transient errors, wait and retry
-        if (i < maxRetries - 1) {
-          await new Promise(resolve => 
-            setTimeout(resolve, Math.min(1000 * (i + 1), 3000))
-          );
-          continue;
-        }
+// ============ EXPIRATIONS ============
+
+// Written only by the expiry worker in functions/src/expiry.ts
+export const subscribeToExpirations = (callback: (expirations: IssueExpiration[]) => void) => {
+  const expirationsQuery = query(
+    eventCollection(COLLECTIONS.EXPIRATIONS),
+    orderBy('expiredAt', 'desc'),
+    limit(50)
+  );
+  return onSnapshot(expirationsQuery, (snapshot) => {
+    const expirations = snapshot.docs.map(doc => {
+      const data = doc.data();
+      return {
+        ...data,
+        occupiedAt: data.occupiedAt?.toMillis?.() ?? data.occupiedAt,
+        expiredAt: data.expiredAt?.toMillis?.() ?? data.expiredAt
+      } as IssueExpiration;
+    });
+    callback(expirations);
+  });
+};
+
+// ============ POINTS LEDGER ============
+
+type NewEntry = Omit<PointsEntry, 'id' | 'actor' | 'createdAt'>;
+
+// Writes the entry and applies its delta to the team in the same
+// transaction, so Team.points always equals the sum of the team's entries.
+const appendEntry = (transaction: Transaction, entryRef: DocumentReference, entry: NewEntry) => {
+  transaction.set(entryRef, {
+    ...entry,
+    actor: getFirebaseAuth().currentUser?.email ?? 'admin',
+    createdAt: serverTimestamp()
+  });
+  transaction.update(eventDoc(COLLECTIONS.TEAMS, entry.teamName), { points: increment(entry.delta) });
+};
+
+const toPointsEntry = (doc: QueryDocumentSnapshot): PointsEntry => {
+  const data = doc.data();
+  return {
+    ...data,
+    id: doc.id,
+    // Pending server timestamps read as null until the write lands
+    createdAt: data.createdAt?.toMillis?.() ?? Date.now()
+  } as PointsEntry;
+};
+
+export const subscribeToLedger = (callback: (entries: PointsEntry[]) => void, freeze: LeaderboardFreeze | null = null) => {
+  const ledgerCol = eventCollection(COLLECTIONS.LEDGER);
+  if (freeze) {
+    // The rules let the public read entries from before the freeze and
+    // those of revealed teams while frozen. Without an orderBy the queries
+    // need no composite index; the merged entries are sorted here.
+    const queries = [
+      query(ledgerCol, where('createdAt', '<=', Timestamp.fromMillis(freeze.frozenAt))),
+      ...chunkNames(freeze.revealed).map(names => query(ledgerCol, where('teamName', 'in', names)))
+    ];
+    return subscribeToQueries(queries, (docs) => {
+      const entries = new Map(docs.map(doc => [doc.id, toPointsEntry(doc)]));
+      callback([...entries.values()].sort((a, b) => b.createdAt - a.createdAt));
+    });
+  }
+  const ledgerQuery = query(ledgerCol, orderBy('createdAt', 'desc'));
+  return onSnapshot(ledgerQuery, (snapshot) => {
+    callback(snapshot.docs.map(toPointsEntry));
+  });
+};
+
+export const adjustPoints = async (teamName: string, delta: number, note: string): Promise<ActionResult> => {
+  const teamRef = eventDoc(COLLECTIONS.TEAMS, teamName);
+  try {
+    return await runTransaction(db, async (transaction) => {
+      const teamSnap = await transaction.get(teamRef);
+      if (!teamSnap.exists()) {
+        return { success: false, error: 'Team not found.' };
       }
-    }
 
-    // All retries exhausted
-    return { 
-      success: false, 
-      error: lastError?.message || 'Failed to occupy issue after multiple attempts. Please try again.'
-    };
+      appendEntry(transaction, doc(eventCollection(COLLECTIONS.LEDGER)), {
+        teamName,
+        delta,
+        reason: 'manual',
+        issueId: null,
+        note
+      });
+      return { success: true };
+    });
+  } catch (error) {
+    console.error('Error adjusting points:', error);
+    return { success: false, error: error.message || 'Failed to adjust points' };
+  }
+};
 
-    const teamIssuesSnapshot = await getDocs(teamIssuesQuery);
+// The reversal id is derived from the original, so two admins reversing the
+// same entry at once cannot both succeed.
+export const reversePointsEntry = async (entryId: string, note: string): Promise<ActionResult> => {
+  const entryRef = eventDoc(COLLECTIONS.LEDGER, entryId);
+  const reversalRef = eventDoc(COLLECTIONS.LEDGER, getReversalEntryId(entryId));
+  try {
+    return await runTransaction(db, async (transaction) => {
+      const entrySnap = await transaction.get(entryRef);
+      if (!entrySnap.exists()) {
+        return { success: false, error: 'Ledger entry not found.' };
+      }
+      const entry = entrySnap.data() as PointsEntry;
+      if (entry.reason === 'reversal') {
+        return { success: false, error: 'Reversals cannot be reversed. Add a manual adjustment instead.' };
+      }
+      const reversalSnap = await transaction.get(reversalRef);
+      if (reversalSnap.exists()) {
+        return { success: false, error: 'This entry has already been reversed.' };
+      }
 
-    if (teamIssuesSnapshot.size >= 3) {
-      return { success: false, error: 'Your team has already occupied 3 issues. Please close an issue before occupying a new one.' };
+      appendEntry(transaction, reversalRef, {
+        teamName: entry.teamName,
+        delta: -entry.delta,
+        reason: 'reversal',
+        issueId: entry.issueId ?? null,
+        // Firestore rejects undefined fields; manual entries have no title
+        ...(entry.issueTitle ? { issueTitle: entry.issueTitle } : {}),
+        note,
+        reverses: entryId
+      });
+      return { success: true };
+    });
+  } catch (error) {
+    console.error('Error reversing ledger entry:', error);
+    return { success: false, error: error.message || 'Failed to reverse entry' };
+  }
+};
+
+// ============ HINTS ============
+
+// The texts live in hints/{issueId}, readable by admins only; the issue
+// carries just their costs. Teams pay for a hint through the unlockHint
+// function (functions/src/hints.ts), which copies its text into hintUnlocks.
+
+export const subscribeToIssueHints = (callback: (hints: Record<string, IssueHint[]>) => void) =>
+  onSnapshot(eventCollection(COLLECTIONS.HINTS), (snapshot) => {
+    callback(Object.fromEntries(snapshot.docs.map(doc => [doc.id, (doc.data().hints ?? []) as IssueHint[]])));
+  });
+
+export const saveIssueHints = async (issueId: string, hints: IssueHint[]): Promise<void> => {
+  const batch = writeBatch(db);
+  batch.set(eventDoc(COLLECTIONS.HINTS, issueId), { hints });
+  batch.update(eventDoc(COLLECTIONS.ISSUES, issueId), { hintCosts: hints.map(hint => hint.cost) });
+  await batch.commit();
+};
+
+// Teams may only read their own unlocks, so their query has to say so
+export const subscribeToHintUnlocks = (teamName: string | null, callback: (unlocks: HintUnlock[]) => void) => {
+  const unlocksCol = eventCollection(COLLECTIONS.HINT_UNLOCKS);
+  const unlocksQuery = teamName ? query(unlocksCol, where('teamName', '==', teamName)) : unlocksCol;
+  return onSnapshot(
+    unlocksQuery,
+    (snapshot) => {
+      callback(
+        snapshot.docs
+          .map(doc => {
+            const data = doc.data();
+            return { ...data, id: doc.id, unlockedAt: data.unlockedAt?.toMillis?.() ?? Date.now() } as HintUnlock;
+          })
+          .sort((a, b) => b.unlockedAt - a.unlockedAt)
+      );
+    },
+    (error) => {
+      console.error('Error in hint unlocks subscription:', error);
+      callback([]);
     }
+  );
+};
 
-    let lastError: Error | null = null;
-    let attempt = 0;
-
-    while (attempt < maxRetries) {
-      attempt++;
-      try {
-        // Perform a short, focused transaction
-        const result = await runTransaction(db, async (transaction) => {
-          const issueDoc = await transaction.get(issueRef);
-          const currentData = issueDoc.data() as Issue;
-
-          // Recheck status inside transaction
-          if (currentData.status !== 'open') {
-            throw new Error(`This issue is already ${currentData.status}. Please choose another issue.`);
-          }
-
-          // Check if this team is already working on this issue
-          if (currentData.assignedTo === teamName) {
-            throw new Error('Your team is already assigned to this issue.');
-          }
-
-          const now = Date.now();
-          transaction.update(issueRef, {
-            status: 'occupied',
-            assignedTo: teamName,
-            occupiedAt: Timestamp.fromMillis(now),
-            lastUpdated: Timestamp.fromMillis(now)
-          });
-
-          return { success: true };
-        });
+export const unlockHint = async (issueId: string, hintIndex: number): Promise<ActionResult> => {
+  const callable = httpsCallable<{ eventSlug: string; issueId: string; hintIndex: number }, unknown>(
+    getFirebaseFunctions(),
+    'unlockHint'
+  );
+  try {
+    await callable({ eventSlug: requireActiveEvent(), issueId, hintIndex });
+    return { success: true };
+  } catch (error) {
+    console.error('Error unlocking hint:', error);
+    return { success: false, error: error.message || 'Failed to unlock the hint' };
+  }
+};
 
-        // If we get here, transaction succeeded
-        return result;
+// ============ WAITLISTS ============
 
-      } catch (error: any) {
-        lastError = error;
-        
-        // If it's a condition error (like issue already occupied), don't retry
-        if (error.message.includes('already')) {
-          return { success: false, error: error.message };
-        }
+// Issues the given teams hold or are offered, for the concurrent limit. The
+// web SDK cannot query inside a transaction, so these are read just before
+// one. "in" filters take at most 30 values; the claim checks the rest.
+const getHeldIssues = async (teamNames: string[]): Promise<Issue[]> => {
+  const names = teamNames.slice(0, 30);
+  if (!names.length) return [];
+  const issuesCol = eventCollection(COLLECTIONS.ISSUES);
+  const [occupied, offered] = await Promise.all([
+    getDocs(query(issuesCol, where('status', '==', 'occupied'), where('assignedTo', 'in', names))),
+    getDocs(query(issuesCol, where('offeredTo', 'in', names)))
+  ]);
+  return [...occupied.docs, ...offered.docs].map(doc => toIssue(doc.id, doc.data()));
+};
 
-        // For other errors, wait before retrying
-        if (attempt < maxRetries) {
-          await new Promise(resolve => setTimeout(resolve, Math.min(1000 * attempt, 3000)));
-        }
+/** Teams waiting for the issue that could not claim it now, so are passed over */
+const getFullWaitlistTeams = async (issueRef: DocumentReference, maxConcurrentIssues: number): Promise<Set<string>> => {
+  const waitlist = ((await getDoc(issueRef)).data()?.waitlist as string[] | undefined) ?? [];
+  return getFullTeams(await getHeldIssues(waitlist), waitlist, maxConcurrentIssues, Date.now());
+};
+
+/**
+ * Queue for an issue through the joinWaitlist function
+ * (functions/src/waitlist.ts), which refuses teams already at their
+ * concurrent limit; the security rules only let teams leave a waitlist.
+ */
+export const joinWaitlist = async (issueId: string): Promise<ActionResult> => {
+  const callable = httpsCallable<{ eventSlug: string; issueId: string }, void>(getFirebaseFunctions(), 'joinWaitlist');
+  try {
+    await callable({ eventSlug: requireActiveEvent(), issueId });
+    return { success: true };
+  } catch (error) {
+    console.error('Error joining waitlist:', error);
+    return { success: false, error: error.message || 'Failed to join the waitlist' };
+  }
+};
+
+// The security rules only let a team remove its own name, so the list is
+// rewritten in a transaction
+export const leaveWaitlist = async (issueId: string): Promise<ActionResult> => {
+  const user = getFirebaseAuth().currentUser;
+  const session = user ? await toSession(user) : null;
+  if (session?.role !== 'team') {
+    return { success: false, error: 'Only teams can leave a waitlist.' };
+  }
+  const { teamName } = session;
+  const issueRef = eventDoc(COLLECTIONS.ISSUES, issueId);
+  try {
+    return await runTransaction(db, async (transaction) => {
+      const issueSnap = await transaction.get(issueRef);
+      if (!issueSnap.exists()) {
+        return { success: false, error: 'Issue not found.' };
       }
+      const waitlist = (issueSnap.data().waitlist as string[] | undefined) ?? [];
+      transaction.update(issueRef, { waitlist: waitlist.filter(name => name !== teamName) });
+      return { success: true };
+    });
+  } catch (error) {
+    console.error('Error leaving waitlist:', error);
+    return { success: false, error: error.message || 'Failed to leave the waitlist' };
+  }
+};
+
+// ============ TIME EXTENSIONS ============
+
+// Teams create requests for issues they hold; the security rules check the
+// occupation. Admins grant by adding minutes to the issue's extensionMinutes,
+// which every timer and the expiry worker add to the tier's time limit.
+
+const toExtensionRequest = (id: string, data: DocumentData): ExtensionRequest => ({
+  ...data,
+  id,
+  // Pending server timestamps read as null until the write lands
+  requestedAt: data.requestedAt?.toMillis?.() ?? Date.now(),
+  resolvedAt: data.resolvedAt?.toMillis?.() ?? null
+} as ExtensionRequest);
+
+// Teams may only read their own requests, so their query has to say so
+export const subscribeToExtensionRequests = (teamName: string | null, callback: (requests: ExtensionRequest[]) => void) => {
+  const requestsCol = eventCollection(COLLECTIONS.EXTENSION_REQUESTS);
+  const requestsQuery = teamName ? query(requestsCol, where('teamName', '==', teamName)) : requestsCol;
+  return onSnapshot(
+    requestsQuery,
+    (snapshot) => {
+      callback(
+        snapshot.docs
+          .map(doc => toExtensionRequest(doc.id, doc.data()))
+          .sort((a, b) => b.requestedAt - a.requestedAt)
+      );
+    },
+    (error) => {
+      console.error('Error in extension requests subscription:', error);
+      callback([]);
     }
+  );
+};
 
-    // If we get here, all retries failed
-    return { 
-      success: false, 
-      error: lastError?.message || 'Failed to occupy issue after multiple attempts. Please try again.'
-    };
-  } catch (error: any) {
-    console.error('Error in occupyIssueTransaction:', error);
-    
-    // Handle specific error cases
-    if (error.code === 'permission-denied') {
-      return {
-        success: false,
-        error: 'You do not have permission to occupy this issue.'
-      };
+export const requestExtension = async (issueId: string, reason: string): Promise<ActionResult> => {
+  const user = getFirebaseAuth().currentUser;
+  const session = user ? await toSession(user) : null;
+  if (session?.role !== 'team') {
+    return { success: false, error: 'Only teams can request more time.' };
+  }
+  const { teamName } = session;
+  try {
+    const eventSnap = await getDoc(eventRef());
+    const closedError = getEventClosedError(getEventPhase(toEvent(eventSnap.id, eventSnap.data() ?? {}), Date.now()));
+    if (closedError) {
+      return { success: false, error: closedError };
     }
-    
-    if (error.code === 'failed-precondition') {
-      return {
-        success: false,
-        error: 'The issue status has changed. Please refresh and try again.'
-      };
+
+    const issueSnap = await getDoc(eventDoc(COLLECTIONS.ISSUES, issueId));
+    const issue = issueSnap.data() as Issue | undefined;
+    if (!issue || issue.deletedAt) {
+      return { success: false, error: 'Issue not found.' };
     }
-    
-    if (error.code === 'unavailable' || error.code === 'deadline-exceeded') {
-      return {
-        success: false,
-        error: 'The service is temporarily unavailable. Please try again in a moment.'
-      };
+    if (issue.status !== 'occupied' || issue.assignedTo !== teamName || !issue.occupationId) {
+      return { success: false, error: 'Only the team holding this issue can ask for more time.' };
     }
 
-    return { 
-      success: false, 
-      error: error.message || 'Failed to occupy issue. Please try again.' 
-    };
+    const pending = await getDocs(query(
+      eventCollection(COLLECTIONS.EXTENSION_REQUESTS),
+      where('teamName', '==', teamName),
+      where('issueId', '==', issueId),
+      where('status', '==', 'pending')
+    ));
+    if (!pending.empty) {
+      return { success: false, error: 'Your team is already waiting for an answer on this issue.' };
+    }
+
+    await setDoc(doc(eventCollection(COLLECTIONS.EXTENSION_REQUESTS)), {
+      issueId,
+      issueTitle: issue.title,
+      occupationId: issue.occupationId,
+      teamName,
+      reason,
+      status: 'pending',
+      requestedAt: serverTimestamp()
+    });
+    return { success: true };
+  } catch (error) {
+    console.error('Error requesting extension:', error);
+    return { success: false, error: error.message || 'Failed to request more time' };
   }
+};
 
-  // Clear any expired cache entries periodically
-  if (Math.random() < 0.1) { // 10% chance to clean up on each call
-    const now = Date.now();
-    for (const [team, data] of teamIssueCountCache.entries()) {
-      if (now - data.timestamp > CACHE_TTL) {
-        teamIssueCountCache.delete(team);
+export const resolveExtensionRequest = async (requestId: string, minutes: number | null): Promise<ActionResult> => {
+  const requestRef = eventDoc(COLLECTIONS.EXTENSION_REQUESTS, requestId);
+  try {
+    return await runTransaction(db, async (transaction) => {
+      const requestSnap = await transaction.get(requestRef);
+      if (!requestSnap.exists()) {
+        return { success: false, error: 'Extension request not found.' };
+      }
+      const request = toExtensionRequest(requestSnap.id, requestSnap.data());
+      if (request.status !== 'pending') {
+        return { success: false, error: `This request was already ${request.status}.` };
+      }
+
+      if (minutes !== null) {
+        const issueRef = eventDoc(COLLECTIONS.ISSUES, request.issueId);
+        const issueSnap = await transaction.get(issueRef);
+        const issue = issueSnap.data() as Issue | undefined;
+        if (!issue || issue.status !== 'occupied' || issue.occupationId !== request.occupationId) {
+          return { success: false, error: `${request.teamName} no longer holds this issue. Deny the request instead.` };
+        }
+        transaction.update(issueRef, { extensionMinutes: increment(minutes) });
       }
+
+      transaction.update(requestRef, {
+        status: minutes === null ? 'denied' : 'granted',
+        minutes,
+        resolvedAt: serverTimestamp(),
+        resolvedBy: getFirebaseAuth().currentUser?.email ?? 'admin'
+      });
+      return { success: true };
+    });
+  } catch (error) {
+    console.error('Error resolving extension request:', error);
+    return { success: false, error: error.message || 'Failed to answer the request' };
+  }
+};
+
+// ============ PRESENCE ============
+
+// lastSeen uses the server clock so functions/src/presence.ts can time out
+// sessions whose tab was closed without logging out.
+
+export const claimTeamSession = async (teamName: string, sessionId: string): Promise<ActionResult> => {
+  const teamRef = eventDoc(COLLECTIONS.TEAMS, teamName);
+  try {
+    return await runTransaction(db, async (transaction) => {
+      const teamDoc = await transaction.get(teamRef);
+      if (!teamDoc.exists()) {
+        return { success: false, error: 'Team not found.' };
+      }
+
+      const team = toTeam(teamDoc.data());
+      if (team.activeSessionId && team.activeSessionId !== sessionId && isSessionFresh(team)) {
+        return { success: false, error: 'This team is already active. Only one active session allowed.' };
+      }
+
+      transaction.update(teamRef, {
+        active: true,
+        activeSessionId: sessionId,
+        lastSeen: serverTimestamp()
+      });
+      return { success: true };
+    });
+  } catch (error) {
+    console.error('Error claiming team session:', error);
+    return { success: false, error: error.message || 'Failed to start team session. Please try again.' };
+  }
+};
+
+export const sendHeartbeat = async (teamName: string, sessionId: string): Promise<boolean> => {
+  const teamRef = eventDoc(COLLECTIONS.TEAMS, teamName);
+  return runTransaction(db, async (transaction) => {
+    const teamDoc = await transaction.get(teamRef);
+    const activeSessionId = teamDoc.data()?.activeSessionId;
+    if (activeSessionId && activeSessionId !== sessionId) {
+      return false;
+    }
+
+    transaction.update(teamRef, {
+      active: true,
+      activeSessionId: sessionId,
+      lastSeen: serverTimestamp()
+    });
+    return true;
+  });
+};
+
+export const releaseTeamSession = async (teamName: string, sessionId: string): Promise<void> => {
+  const teamRef = eventDoc(COLLECTIONS.TEAMS, teamName);
+  await runTransaction(db, async (transaction) => {
+    const teamDoc = await transaction.get(teamRef);
+    if (teamDoc.data()?.activeSessionId === sessionId) {
+      transaction.update(teamRef, { active: false, activeSessionId: null });
+    }
+  });
+};
+
+// ============ AUDIT LOG ============
+
+// The security rules only accept entries naming the caller as the actor
+export const appendAuditEntry = async (entry: AuditInput): Promise<void> => {
+  const user = getFirebaseAuth().currentUser;
+  const session = user ? await toSession(user) : null;
+  if (!session) {
+    throw new Error('Only signed-in admins and teams can write to the audit log.');
+  }
+  await setDoc(doc(eventCollection(COLLECTIONS.AUDIT)), {
+    ...entry,
+    actor: session.role === 'admin' ? session.email : session.teamName,
+    actorRole: session.role,
+    createdAt: serverTimestamp()
+  });
+};
+
+const toAuditEntry = (id: string, data: DocumentData): AuditEntry => ({
+  ...data,
+  id,
+  // Pending server timestamps read as null until the write lands
+  createdAt: data.createdAt?.toMillis?.() ?? Date.now()
+} as AuditEntry);
+
+export const subscribeToAuditLog = (callback: (entries: AuditEntry[]) => void) => {
+  const auditQuery = query(eventCollection(COLLECTIONS.AUDIT), orderBy('createdAt', 'desc'));
+  return onSnapshot(auditQuery, (snapshot) => {
+    callback(snapshot.docs.map(doc => toAuditEntry(doc.id, doc.data())));
+  });
+};
+
+// Sorted here rather than in the query, which would need a composite index
+export const subscribeToIssueActivity = (issueId: string, callback: (entries: AuditEntry[]) => void) => {
+  const activityQuery = query(eventCollection(COLLECTIONS.AUDIT), where('issueId', '==', issueId));
+  return onSnapshot(
+    activityQuery,
+    (snapshot) => {
+      callback(
+        snapshot.docs
+          .map(doc => toAuditEntry(doc.id, doc.data()))
+          .sort((a, b) => a.createdAt - b.createdAt)
+      );
+    },
+    (error) => {
+      // Signed-out visitors may not read the log; show them no history
+      console.error('Error in issue activity subscription:', error);
+      callback([]);
+    }
+  );
+};
+
+// ============ AUTH ============
+
+// Team logins are Firebase Auth accounts created by the createTeamCredential
+// function, which derives the same email (functions/src/credentials.ts).
+// The event is part of the address, so two events can both have a "Team 1".
+const TEAM_EMAIL_DOMAIN = 'teams.contribx.app';
+
+export const teamEmail = (eventSlug: string, teamName: string): string =>
+  `${teamName.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-')}@${eventSlug}.${TEAM_EMAIL_DOMAIN}`;
+
+// Roles are custom claims, so a valid account without one is not let in
+const toSession = async (user: User): Promise<AuthSession | null> => {
+  const { claims } = await user.getIdTokenResult();
+  if (claims.role === 'admin') {
+    return { uid: user.uid, role: 'admin', email: user.email };
+  }
+  if (claims.role === 'team' && typeof claims.team === 'string' && typeof claims.event === 'string') {
+    return { uid: user.uid, role: 'team', email: user.email, teamName: claims.team, eventSlug: claims.event };
+  }
+  return null;
+};
+
+const getAuthErrorMessage = (error: { code?: string; message?: string }, invalidMessage: string): string => {
+  switch (error.code) {
+    case 'auth/invalid-credential':
+    case 'auth/invalid-email':
+    case 'auth/user-not-found':
+    case 'auth/wrong-password':
+      return invalidMessage;
+    case 'auth/user-disabled':
+      return 'This login has been revoked. Contact admin.';
+    case 'auth/too-many-requests':
+      return 'Too many attempts. Please wait a moment and try again.';
+    case 'auth/network-request-failed':
+      return 'No internet connection — please reconnect and try again.';
+    default:
+      return error.message || 'Sign in failed. Please try again.';
+  }
+};
+
+const signInWithRole = async (
+  email: string,
+  password: string,
+  role: AuthSession['role'],
+  invalidMessage: string,
+  wrongRoleMessage: string
+): Promise<SignInResult> => {
+  const auth = getFirebaseAuth();
+  try {
+    const { user } = await signInWithEmailAndPassword(auth, email, password);
+    const session = await toSession(user);
+    if (session?.role !== role) {
+      await firebaseSignOut(auth);
+      return { success: false, error: wrongRoleMessage };
     }
+    return { success: true, session };
+  } catch (error) {
+    console.error('Error signing in:', error);
+    return { success: false, error: getAuthErrorMessage(error, invalidMessage) };
   }
 };
+
+export const signInTeam = (teamName: string, password: string): Promise<SignInResult> =>
+  signInWithRole(
+    teamEmail(requireActiveEvent(), teamName),
+    password,
+    'team',
+    'Invalid team name or password. Contact admin if you need a new password.',
+    'Team not recognized. Contact admin.'
+  );
+
+export const signInAdmin = (email: string, password: string): Promise<SignInResult> =>
+  signInWithRole(email, password, 'admin', 'Invalid credentials', 'This account is not an admin.');
+
+export const signOut = async (): Promise<void> => {
+  await firebaseSignOut(getFirebaseAuth());
+};
+
+export const onAuthStateChanged = (callback: (session: AuthSession | null) => void) =>
+  onFirebaseAuthStateChanged(getFirebaseAuth(), async (user) => {
+    callback(user ? await toSession(user) : null);
+  });
+
+// Credentials are managed by callable functions; only admins may call them
+const callCredentialFunction = async <T>(name: string, teamName: string): Promise<T> => {
+  const callable = httpsCallable<{ eventSlug: string; teamName: string }, T>(getFirebaseFunctions(), name);
+  const result = await callable({ eventSlug: requireActiveEvent(), teamName });
+  return result.data;
+};
+
+export const createTeamCredential = (teamName: string) =>
+  callCredentialFunction<TeamCredential>('createTeamCredential', teamName);
+
+export const rotateTeamCredential = (teamName: string) =>
+  callCredentialFunction<TeamCredential>('rotateTeamCredential', teamName);
+
+export const revokeTeamCredential = async (teamName: string): Promise<void> => {
+  await callCredentialFunction<{ teamName: string }>('revokeTeamCredential', teamName);
+};
+
+// ============ DATA STORE ============
+
+export const firestoreDataStore: DataStore = {
+  subscribeToEvents,
+  createEvent,
+  updateEvent,
+  setActiveEvent,
+  getAllTeams,
+  subscribeToTeams,
+  createTeam,
+  updateTeam,
+  initializeTeams,
+  getAllRepositories,
+  subscribeToRepositories,
+  createRepository,
+  deleteRepository,
+  trashRepository,
+  restoreRepository,
+  initializeRepositories,
+  getAllIssues,
+  subscribeToIssues,
+  createIssue,
+  createIssues,
+  updateIssue,
+  deleteIssue,
+  trashIssue,
+  restoreIssue,
+  getIssuesByRepo,
+  getIssuesByTeam,
+  getScoringRules,
+  subscribeToScoringRules,
+  updateScoringRules,
+  changeEventStatus,
+  freezeLeaderboard,
+  revealTeam,
+  unfreezeLeaderboard,
+  occupyIssue: (issueId) => occupyIssue(issueId),
+  releaseIssue,
+  closeIssue,
+  reverifyPullRequest,
+  reviewPullRequest,
+  subscribeToExpirations,
+  subscribeToLedger,
+  adjustPoints,
+  reversePointsEntry,
+  subscribeToIssueHints,
+  saveIssueHints,
+  subscribeToHintUnlocks,
+  unlockHint,
+  joinWaitlist,
+  leaveWaitlist,
+  subscribeToExtensionRequests,
+  requestExtension,
+  resolveExtensionRequest,
+  appendAuditEntry,
+  subscribeToAuditLog,
+  subscribeToIssueActivity,
+  signInTeam,
+  signInAdmin,
+  signOut,
+  onAuthStateChanged,
+  claimTeamSession,
+  sendHeartbeat,
+  releaseTeamSession,
+  createTeamCredential,
+  rotateTeamCredential,
+  revokeTeamCredential
+};
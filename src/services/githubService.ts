@@ -0,0 +1,144 @@
+// Read-only access to the GitHub REST API. Point VITE_GITHUB_API_URL at the
+// mock server (npm run mock:github) to work offline.
+
+const GITHUB_API_URL = (import.meta.env.VITE_GITHUB_API_URL || 'https://api.github.com').replace(/\/+$/, '');
+
+// GitHub caps per_page at 100; stop after this many pages
+const PER_PAGE = 100;
+const MAX_PAGES = 5;
+
+export interface GitHubRepoRef {
+  owner: string;
+  repo: string;
+}
+
+export interface GitHubPullRequestRef extends GitHubRepoRef {
+  number: number;
+}
+
+export interface GitHubPullRequest {
+  number: number;
+  title: string;
+  body: string | null;
+  html_url: string;
+  created_at: string;
+  user: { login: string };
+  /** Repository the PR targets, e.g. "owner/repo" */
+  baseRepo: string;
+}
+
+export interface GitHubIssue {
+  number: number;
+  title: string;
+  html_url: string;
+  state: 'open' | 'closed';
+  labels: string[];
+  body: string | null;
+}
+
+interface GitHubIssueResponse {
+  number: number;
+  title: string;
+  html_url: string;
+  state: 'open' | 'closed';
+  labels: (string | { name?: string })[];
+  body?: string | null;
+  /** Present when the "issue" is actually a pull request */
+  pull_request?: unknown;
+}
+
+/**
+ * Extract owner and repo from a repository URL such as
+ * https://github.com/owner/repo or https://github.com/owner/repo.git
+ */
+export const parseRepositoryUrl = (url: string): GitHubRepoRef | null => {
+  const match = url.trim().match(/^https?:\/\/(?:www\.)?github\.com\/([\w.-]+)\/([\w.-]+?)(?:\.git)?\/?$/);
+  return match ? { owner: match[1], repo: match[2] } : null;
+};
+
+/** Parse https://github.com/owner/repo/pull/123 */
+export const parsePullRequestUrl = (url: string): GitHubPullRequestRef | null => {
+  const match = url.trim().match(/^https?:\/\/(?:www\.)?github\.com\/([\w.-]+)\/([\w.-]+)\/pull\/(\d+)\/?$/);
+  return match ? { owner: match[1], repo: match[2], number: Number(match[3]) } : null;
+};
+
+export class GitHubApiError extends Error {
+  constructor(message: string, readonly status: number) {
+    super(message);
+    this.name = 'GitHubApiError';
+  }
+}
+
+const githubFetch = async <T>(path: string): Promise<T> => {
+  const response = await fetch(`${GITHUB_API_URL}${path}`, {
+    headers: { Accept: 'application/vnd.github+json' }
+  });
+
+  if (response.status === 404) {
+    throw new GitHubApiError('Not found on GitHub. Check the URL and that the repository is public.', 404);
+  }
+  if (response.status === 403 || response.status === 429) {
+    throw new GitHubApiError('GitHub rate limit reached. Try again in a few minutes.', response.status);
+  }
+  if (!response.ok) {
+    throw new GitHubApiError(`GitHub request failed (${response.status}).`, response.status);
+  }
+  return response.json() as Promise<T>;
+};
+
+/**
+ * List a repository's issues (open and closed, pull requests excluded),
+ * optionally only those carrying the given label.
+ */
+export const listRepositoryIssues = async (repoUrl: string, label?: string): Promise<GitHubIssue[]> => {
+  const ref = parseRepositoryUrl(repoUrl);
+  if (!ref) {
+    throw new Error(`Not a GitHub repository URL: ${repoUrl}`);
+  }
+
+  const params = new URLSearchParams({ state: 'all', per_page: String(PER_PAGE) });
+  if (label?.trim()) {
+    params.set('labels', label.trim());
+  }
+
+  const issues: GitHubIssue[] = [];
+  for (let page = 1; page <= MAX_PAGES; page++) {
+    params.set('page', String(page));
+    const batch = await githubFetch<GitHubIssueResponse[]>(
+      `/repos/${ref.owner}/${ref.repo}/issues?${params.toString()}`
+    );
+
+    for (const item of batch) {
+      if (item.pull_request) continue;
+      issues.push({
+        number: item.number,
+        title: item.title,
+        html_url: item.html_url,
+        state: item.state,
+        labels: item.labels
+          .map(l => (typeof l === 'string' ? l : l.name))
+          .filter((name): name is string => !!name),
+        body: item.body ?? null
+      });
+    }
+
+    if (batch.length < PER_PAGE) break;
+  }
+
+  return issues;
+};
+
+export const getPullRequest = async (ref: GitHubPullRequestRef): Promise<GitHubPullRequest> => {
+  const pr = await githubFetch<Omit<GitHubPullRequest, 'baseRepo'> & { base: { repo: { full_name: string } } }>(
+    `/repos/${ref.owner}/${ref.repo}/pulls/${ref.number}`
+  );
+  return {
+    number: pr.number,
+    title: pr.title,
+    body: pr.body ?? null,
+    html_url: pr.html_url,
+    created_at: pr.created_at,
+    user: { login: pr.user.login },
+    baseRepo: pr.base.repo.full_name
+  };
+};
@@ -0,0 +1,326 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { ContestEvent, Issue, PointsEntry, PrVerification, Team } from '@/types';
+import { DEFAULT_SCORING_RULES } from '@/lib/scoring';
+import { normalizeEvent } from '@/lib/event';
+import { createMemoryDataStore, type MemoryDataStore } from '@/services/memoryService';
+
+const MINUTE = 60 * 1000;
+const START = 1_000_000;
+const ADMIN = { email: 'admin@example.com', password: 'secret' };
+const PR_URL = 'https://github.com/org/app/pull/7';
+
+const newIssue = (id: string, overrides: Partial<Issue> = {}): Issue => ({
+  id,
+  title: `Issue ${id}`,
+  difficulty: 'easy',
+  tags: [],
+  repo: 'app',
+  status: 'open',
+  assignedTo: null,
+  ...overrides
+});
+
+const verification = (status: PrVerification['status']): PrVerification => ({
+  status,
+  checks: [],
+  checkedAt: START,
+  ...(status === 'passed' ? {} : { error: `PR ${status}` })
+});
+
+let time: number;
+let store: MemoryDataStore;
+let passwords: Record<string, string>;
+const verifyPullRequest = vi.fn(async () => verification('passed'));
+
+const issue = (id: string) => store.getAllIssues().then(issues => issues.find(i => i.id === id)!);
+const points = (teamName: string) => store.getAllTeams().then(teams => teams.find(t => t.name === teamName)!.points);
+
+const signInAs = async (teamName: string) => {
+  await store.signOut();
+  await store.signInTeam(teamName, passwords[teamName]);
+};
+
+const signInAdmin = async () => {
+  await store.signOut();
+  await store.signInAdmin(ADMIN.email, ADMIN.password);
+};
+
+const setup = async (event: Partial<ContestEvent> = {}) => {
+  time = START;
+  verifyPullRequest.mockClear();
+  store = createMemoryDataStore({ admins: [ADMIN], sweepIntervalMs: 0, now: () => time, verifyPullRequest });
+  store.reset({
+    events: [normalizeEvent('spring', { name: 'Spring', status: 'running', ...event })],
+    teams: ['red', 'blue', 'green'].map(name => ({ name, points: 50, active: false })),
+    repositories: [{ id: 'repo-1', name: 'app', url: 'https://github.com/org/app' }],
+    issues: ['a', 'b', 'c', 'd', 'e'].map(id => newIssue(id, { difficulty: id === 'e' ? 'hard' : 'easy' })),
+    scoringRules: DEFAULT_SCORING_RULES
+  });
+  store.setActiveEvent('spring');
+  await signInAdmin();
+  passwords = {};
+  for (const name of ['red', 'blue', 'green']) {
+    passwords[name] = (await store.createTeamCredential(name)).password;
+  }
+};
+
+beforeEach(() => setup());
+
+describe('occupying', () => {
+  it('assigns the issue and starts a fresh occupation on the store clock', async () => {
+    expect(await store.occupyIssue('a', 'red')).toEqual({ success: true });
+    expect(await issue('a')).toMatchObject({
+      status: 'occupied',
+      assignedTo: 'red',
+      occupiedAt: START,
+      occupationId: `a_${START}`
+    });
+  });
+
+  it('refuses issues that are taken or in the trash', async () => {
+    await store.occupyIssue('a', 'red');
+    expect(await store.occupyIssue('a', 'blue')).toMatchObject({ success: false, error: expect.stringMatching(/already occupied/) });
+
+    await store.trashIssue('b');
+    expect(await store.occupyIssue('b', 'blue')).toMatchObject({ success: false });
+  });
+
+  it('stops at maxConcurrentIssues', async () => {
+    for (const id of ['a', 'b', 'c']) await store.occupyIssue(id, 'red');
+    expect(await store.occupyIssue('d', 'red')).toMatchObject({ success: false, error: expect.stringMatching(/3 issues/) });
+  });
+
+  it('only runs while the event does', async () => {
+    await setup({ status: 'paused', pausedAt: START });
+    expect(await store.occupyIssue('a', 'red')).toMatchObject({ success: false, error: expect.stringMatching(/paused/) });
+  });
+});
+
+describe('expiry', () => {
+  it('frees the issue and deducts the penalty once when time runs out', async () => {
+    await store.occupyIssue('a', 'red');
+
+    time = START + 20 * MINUTE - 1;
+    expect(store.sweepExpiredIssues()).toBe(0);
+
+    time = START + 20 * MINUTE;
+    expect(store.sweepExpiredIssues()).toBe(1);
+    expect(await issue('a')).toMatchObject({ status: 'open', assignedTo: null });
+    expect(await points('red')).toBe(45);
+
+    await store.updateIssue('a', { status: 'occupied', assignedTo: 'red', occupiedAt: START, occupationId: `a_${START}` });
+    expect(store.sweepExpiredIssues()).toBe(0);
+    expect(await points('red')).toBe(45);
+  });
+
+  it('records the expiry in the audit log', async () => {
+    const audit = vi.fn();
+    store.subscribeToAuditLog(audit);
+    await store.occupyIssue('a', 'red');
+    time = START + 20 * MINUTE;
+    store.sweepExpiredIssues();
+
+    expect(audit.mock.lastCall![0][0]).toMatchObject({
+      action: 'issue.expire',
+      actorRole: 'system',
+      issueId: 'a',
+      teamName: 'red',
+      after: { status: 'open', penalty: 5, offeredTo: null }
+    });
+  });
+
+  it('stands still while the event is paused', async () => {
+    await store.occupyIssue('a', 'red');
+    await signInAdmin();
+    await store.changeEventStatus('paused');
+
+    time = START + 60 * MINUTE;
+    expect(store.sweepExpiredIssues()).toBe(0);
+    expect((await issue('a')).status).toBe('occupied');
+  });
+});
+
+describe('releasing', () => {
+  it('is free within the grace period', async () => {
+    await store.occupyIssue('a', 'red');
+    await signInAs('red');
+
+    time = START + MINUTE;
+    expect(await store.releaseIssue('a')).toEqual({ success: true, penalty: 0, offeredTo: null });
+    expect(await issue('a')).toMatchObject({ status: 'open', assignedTo: null });
+    expect(await points('red')).toBe(50);
+  });
+
+  it('deducts a share of the expiry penalty and records it in the ledger and audit log', async () => {
+    await store.occupyIssue('e', 'red');
+    await signInAs('red');
+    const ledger = vi.fn();
+    const audit = vi.fn();
+    store.subscribeToLedger(ledger);
+    store.subscribeToAuditLog(audit);
+
+    time = START + 30 * MINUTE;
+    expect(await store.releaseIssue('e')).toMatchObject({ success: true, penalty: 8 });
+    expect(await points('red')).toBe(42);
+    expect(ledger.mock.lastCall![0]).toContainEqual(expect.objectContaining({ reason: 'release', delta: -8, teamName: 'red' }));
+    expect(audit.mock.lastCall![0][0]).toMatchObject({
+      action: 'issue.release',
+      actor: 'red',
+      actorRole: 'team',
+      before: { status: 'occupied', assignedTo: 'red' },
+      after: { status: 'open', assignedTo: null, penalty: 8 }
+    });
+  });
+
+  it('only lets the holding team release', async () => {
+    await store.occupyIssue('a', 'red');
+    await signInAs('blue');
+    expect(await store.releaseIssue('a')).toMatchObject({ success: false });
+  });
+});
+
+describe('waitlists and claims', () => {
+  beforeEach(async () => {
+    await store.occupyIssue('a', 'red');
+    await signInAs('blue');
+    await store.joinWaitlist('a');
+    await signInAs('green');
+    await store.joinWaitlist('a');
+  });
+
+  it('queues teams in order, once each', async () => {
+    expect((await issue('a')).waitlist).toEqual(['blue', 'green']);
+    expect(await store.joinWaitlist('a')).toMatchObject({ success: false });
+    await signInAs('red');
+    expect(await store.joinWaitlist('a')).toMatchObject({ success: false });
+  });
+
+  it('holds a released issue for the first team for the claim window', async () => {
+    await signInAs('red');
+    expect(await store.releaseIssue('a')).toMatchObject({ offeredTo: 'blue' });
+    expect(await issue('a')).toMatchObject({
+      status: 'open',
+      offeredTo: 'blue',
+      offerExpiresAt: START + DEFAULT_SCORING_RULES.claimWindowMinutes * MINUTE,
+      waitlist: ['green']
+    });
+
+    expect(await store.occupyIssue('a', 'green')).toMatchObject({ success: false, error: expect.stringMatching(/held for blue/) });
+    expect(await store.occupyIssue('a', 'blue')).toEqual({ success: true });
+    expect(await issue('a')).toMatchObject({ assignedTo: 'blue', offeredTo: null, waitlist: ['green'] });
+  });
+
+  it('opens the issue to everyone once the claim window ends', async () => {
+    await signInAs('red');
+    await store.releaseIssue('a');
+
+    time = START + DEFAULT_SCORING_RULES.claimWindowMinutes * MINUTE;
+    expect(await store.occupyIssue('a', 'green')).toEqual({ success: true });
+  });
+
+  it('counts an offer against the team\'s limit', async () => {
+    await signInAs('red');
+    await store.releaseIssue('a');
+    await store.occupyIssue('b', 'blue');
+    await store.occupyIssue('c', 'blue');
+    expect(await store.occupyIssue('d', 'blue')).toMatchObject({ success: false });
+  });
+
+  it('passes over teams at their limit, who keep their place', async () => {
+    for (const id of ['b', 'c', 'd']) await store.occupyIssue(id, 'blue');
+    await signInAs('red');
+    expect(await store.releaseIssue('a')).toMatchObject({ offeredTo: 'green' });
+    expect((await issue('a')).waitlist).toEqual(['blue']);
+  });
+
+  it('refuses to queue a team at its limit', async () => {
+    for (const id of ['b', 'c', 'd']) await store.occupyIssue(id, 'green');
+    await store.occupyIssue('e', 'red');
+    await signInAs('green');
+    expect(await store.joinWaitlist('e')).toMatchObject({ success: false, error: expect.stringMatching(/already holds 3/) });
+  });
+
+  it('offers an expired issue to the next team', async () => {
+    time = START + 20 * MINUTE;
+    store.sweepExpiredIssues();
+    expect((await issue('a')).offeredTo).toBe('blue');
+  });
+
+  it('hands the issue on when its PR is rejected', async () => {
+    await signInAs('red');
+    await store.closeIssue('a', PR_URL);
+    await signInAdmin();
+    expect(await store.reviewPullRequest('a', 'rejected')).toEqual({ success: true, offeredTo: 'blue' });
+    expect(await issue('a')).toMatchObject({ status: 'open', prUrl: null, prStatus: null, offeredTo: 'blue' });
+  });
+});
+
+describe('submitting pull requests', () => {
+  beforeEach(async () => {
+    await store.occupyIssue('a', 'red');
+    await signInAs('red');
+  });
+
+  it('closes the issue for review when the PR passes its checks', async () => {
+    expect(await store.closeIssue('a', ` ${PR_URL} `)).toMatchObject({ success: true });
+    expect(verifyPullRequest).toHaveBeenCalledWith(PR_URL, expect.objectContaining({ issue: expect.objectContaining({ id: 'a' }) }));
+    expect(await issue('a')).toMatchObject({ status: 'closed', prUrl: PR_URL, prStatus: 'pending', prVerification: { status: 'passed' } });
+  });
+
+  it('keeps the issue occupied when the PR fails its checks', async () => {
+    verifyPullRequest.mockResolvedValueOnce(verification('failed'));
+    expect(await store.closeIssue('a', PR_URL)).toMatchObject({ success: false, verification: { status: 'failed' } });
+    expect(await issue('a')).toMatchObject({ status: 'occupied', assignedTo: 'red' });
+  });
+
+  it('accepts the PR unverified when GitHub cannot be reached', async () => {
+    verifyPullRequest.mockResolvedValueOnce(verification('error'));
+    expect(await store.closeIssue('a', PR_URL)).toMatchObject({ success: true, verification: { status: 'error' } });
+    expect(await issue('a')).toMatchObject({ status: 'closed', prStatus: 'pending', prVerification: { status: 'error' } });
+  });
+
+  it('awards the merge once', async () => {
+    await store.closeIssue('a', PR_URL);
+    await signInAdmin();
+    expect(await store.reviewPullRequest('a', 'merged')).toEqual({ success: true, awardedPoints: 10 });
+    expect(await store.reviewPullRequest('a', 'merged')).toEqual({ success: true, awardedPoints: undefined });
+    expect(await points('red')).toBe(60);
+  });
+});
+
+describe('leaderboard freeze', () => {
+  const currentFreeze = () => {
+    const events = vi.fn<(events: ContestEvent[]) => void>();
+    store.subscribeToEvents(events)();
+    return events.mock.lastCall![0].find(event => event.slug === 'spring')!.freeze;
+  };
+
+  beforeEach(async () => {
+    await store.adjustPoints('red', 5, 'before');
+    await store.freezeLeaderboard();
+    time = START + MINUTE;
+    await store.adjustPoints('red', 5, 'after');
+  });
+
+  it('lets the public read only revealed teams and the ledger up to the freeze', () => {
+    const teams = vi.fn<(teams: Team[]) => void>();
+    const ledger = vi.fn<(entries: PointsEntry[]) => void>();
+    store.subscribeToTeams(teams, currentFreeze());
+    store.subscribeToLedger(ledger, currentFreeze());
+
+    expect(currentFreeze().scores).toMatchObject({ red: 55, blue: 50 });
+    expect(teams.mock.lastCall![0]).toEqual([]);
+    expect(ledger.mock.lastCall![0].map(entry => entry.note)).toEqual(['before']);
+  });
+
+  it('opens a team\'s live points and entries once it is revealed', async () => {
+    await store.revealTeam('red');
+    const teams = vi.fn<(teams: Team[]) => void>();
+    const ledger = vi.fn<(entries: PointsEntry[]) => void>();
+    store.subscribeToTeams(teams, currentFreeze());
+    store.subscribeToLedger(ledger, currentFreeze());
+
+    expect(teams.mock.lastCall![0]).toEqual([expect.objectContaining({ name: 'red', points: 60 })]);
+    expect(ledger.mock.lastCall![0].map(entry => entry.note)).toEqual(['after', 'before']);
+  });
+});
@@ -0,0 +1,1376 @@
+import type { Team, Repository, LeaderboardFreeze, Issue, IssueExpiration, AuthSession, TeamCredential, ScoringRules, PrReviewStatus, PointsEntry, ContestEvent, EventDetails, EventStatus, AuditEntry, AuditInput, IssueHint, HintUnlock, ExtensionRequest } from '@/types';
+import type { DataStore, ActionResult, OccupyResult, ReleaseResult, ReviewResult, SignInResult, Unsubscribe, VerificationResult } from '@/services/dataStore';
+import {
+  DEFAULT_SCORING_RULES,
+  getExpiryPenalty,
+  getIssuePoints,
+  getOccupyLimitError,
+  getReleasePenalty,
+  isIssueExpired,
+  normalizeScoringRules
+} from '@/lib/scoring';
+import { isSessionFresh } from '@/lib/presence';
+import { verifyPullRequest } from '@/lib/prVerification';
+import { getEventClosedError, getEventPhase, getEventStatusUpdate, getPauseShiftMs, normalizeEvent } from '@/lib/event';
+import {
+  getExpiryEntryId,
+  getHintUnlockId,
+  getMergeEntryId,
+  getReleaseEntryId,
+  getReversalBlocker,
+  getReversalEntryId
+} from '@/lib/ledger';
+import {
+  getCascadedIssues,
+  getIssuesTrashedWith,
+  getRestoreIssueBlocker,
+  getRestoreRepositoryBlocker,
+  getTrashIssueBlocker,
+  getTrashRepositoryBlocker,
+  isTrashed,
+  REMOVED_ISSUE_ERROR
+} from '@/lib/trash';
+import {
+  canJoinWaitlist,
+  countHeldIssues,
+  getActiveOffer,
+  getFreedIssueFields,
+  getFullTeams,
+  getOfferHeldError,
+  getWaitlistLimitError
+} from '@/lib/waitlist';
+import { getPublicLedger } from '@/lib/leaderboard';
+
+// In-memory DataStore used for demos, offline development and tests.
+// State lives only for the lifetime of the page; every mutation notifies
+// subscribers synchronously so behaviour is deterministic.
+
+export type MemoryCollection = 'events' | 'teams' | 'repositories' | 'issues' | 'expirations' | 'ledger' | 'hints' | 'extensions' | 'audit' | 'scoringRules' | 'auth';
+
+export interface MemorySeed {
+  /** Defaults to a single "contribx" event */
+  events?: ContestEvent[];
+  /** The remaining seed data belongs to the first event */
+  teams?: Team[];
+  repositories?: Repository[];
+  issues?: Issue[];
+  scoringRules?: ScoringRules;
+}
+
+export interface MemoryAdminAccount {
+  email: string;
+  password: string;
+}
+
+export interface MemoryDataStoreOptions {
+  seed?: MemorySeed;
+  /** Organiser logins; team logins are created through createTeamCredential */
+  admins?: MemoryAdminAccount[];
+  /** Clock used for occupiedAt and expiry; override for deterministic tests */
+  now?: () => number;
+  /** How often the built-in expiry and presence workers run; 0 disables them (default 10s) */
+  sweepIntervalMs?: number;
+  /** Checks a submitted PR; defaults to asking GitHub from the browser */
+  verifyPullRequest?: typeof verifyPullRequest;
+}
+
+export interface MemoryDataStore extends DataStore {
+  /** Listen for any change to a collection */
+  on: (collection: MemoryCollection, listener: () => void) => Unsubscribe;
+  /** Replace all state with the given seed and notify subscribers */
+  reset: (seed?: MemorySeed) => void;
+  /** Run the expiry worker once over every running event; returns the number of issues expired */
+  sweepExpiredIssues: () => number;
+  /** Mark teams (in every event) whose heartbeats stopped as inactive; returns how many */
+  sweepStaleSessions: () => number;
+}
+
+const clone = <T>(value: T): T => structuredClone(value);
+
+// Everything scoped to one event; the equivalent of events/{slug} in Firestore
+interface EventState {
+  teams: Map<string, Team>;
+  repositories: Map<string, Repository>;
+  issues: Map<string, Issue>;
+  expirations: Map<string, IssueExpiration>;
+  ledger: Map<string, PointsEntry>;
+  /** Keyed by issue id */
+  hints: Map<string, IssueHint[]>;
+  hintUnlocks: Map<string, HintUnlock>;
+  extensionRequests: Map<string, ExtensionRequest>;
+  /** Oldest first */
+  audit: AuditEntry[];
+  teamCredentials: Map<string, { password: string; revoked: boolean }>;
+  scoringRules: ScoringRules;
+}
+
+const createEventState = (): EventState => ({
+  teams: new Map(),
+  repositories: new Map(),
+  issues: new Map(),
+  expirations: new Map(),
+  ledger: new Map(),
+  hints: new Map(),
+  hintUnlocks: new Map(),
+  extensionRequests: new Map(),
+  audit: [],
+  teamCredentials: new Map(),
+  scoringRules: DEFAULT_SCORING_RULES
+});
+
+const DEFAULT_EVENT: ContestEvent = normalizeEvent('contribx', { name: 'ContribX' });
+
+const generatePassword = () => {
+  const bytes = crypto.getRandomValues(new Uint8Array(9));
+  return btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_');
+};
+
+/** Waitlisted teams of `issue` that are at their limit and so are passed over for its offer */
+const getWaitlistFullTeams = (event: EventState, issue: Issue, now: number): Set<string> =>
+  getFullTeams([...event.issues.values()], issue.waitlist ?? [], event.scoringRules.maxConcurrentIssues, now);
+
+export const createMemoryDataStore = (options: MemoryDataStoreOptions = {}): MemoryDataStore => {
+  const now = options.now ?? (() => Date.now());
+  const verify = options.verifyPullRequest ?? verifyPullRequest;
+
+  const events = new Map<string, ContestEvent>();
+  const eventStates = new Map<string, EventState>();
+  let activeEventSlug: string | null = null;
+  const admins = options.admins ?? [];
+  let session: AuthSession | null = null;
+  const listeners: Record<MemoryCollection, Set<() => void>> = {
+    events: new Set(),
+    teams: new Set(),
+    repositories: new Set(),
+    issues: new Set(),
+    expirations: new Set(),
+    ledger: new Set(),
+    hints: new Set(),
+    extensions: new Set(),
+    audit: new Set(),
+    scoringRules: new Set(),
+    auth: new Set()
+  };
+
+  let nextId = 1;
+  const generateId = (prefix: string) => `${prefix}-${nextId++}`;
+
+  const emit = (collection: MemoryCollection) => {
+    listeners[collection].forEach(listener => listener());
+  };
+
+  const on = (collection: MemoryCollection, listener: () => void): Unsubscribe => {
+    listeners[collection].add(listener);
+    return () => {
+      listeners[collection].delete(listener);
+    };
+  };
+
+  // Throws like the Firestore store does when no event is selected
+  const activeSlug = (): string => {
+    if (!activeEventSlug || !eventStates.has(activeEventSlug)) {
+      throw new Error('No event selected.');
+    }
+    return activeEventSlug;
+  };
+
+  const state = (): EventState => eventStates.get(activeSlug())!;
+
+  const loadSeed = (seed: MemorySeed = {}) => {
+    events.clear();
+    eventStates.clear();
+    activeEventSlug = null;
+    session = null;
+    nextId = 1;
+    const seedEvents = seed.events?.length ? seed.events : [DEFAULT_EVENT];
+    seedEvents.forEach(event => {
+      events.set(event.slug, normalizeEvent(event.slug, clone(event)));
+      eventStates.set(event.slug, createEventState());
+    });
+
+    const first = eventStates.get(seedEvents[0].slug)!;
+    seed.teams?.forEach(team => first.teams.set(team.name, clone(team)));
+    seed.repositories?.forEach(repo => {
+      const id = repo.id ?? generateId('repo');
+      first.repositories.set(id, { ...clone(repo), id });
+    });
+    seed.issues?.forEach(issue => first.issues.set(issue.id, clone(issue)));
+    first.scoringRules = normalizeScoringRules(clone(seed.scoringRules));
+  };
+
+  const reset = (seed?: MemorySeed) => {
+    loadSeed(seed);
+    emit('events');
+    emit('teams');
+    emit('repositories');
+    emit('issues');
+    emit('expirations');
+    emit('ledger');
+    emit('hints');
+    emit('extensions');
+    emit('audit');
+    emit('scoringRules');
+    emit('auth');
+  };
+
+  const listEvents = () => [...events.values()].map(clone);
+  const listTeams = (event = state()) => [...event.teams.values()].map(clone);
+  const listRepositories = (event = state()) => [...event.repositories.values()].map(clone);
+  const listIssues = (event = state()) => [...event.issues.values()].map(clone);
+  const listExpirations = (event = state()) => [...event.expirations.values()]
+    .sort((a, b) => b.expiredAt - a.expiredAt)
+    .map(clone);
+  const listLedger = (event = state()) => [...event.ledger.values()]
+    .sort((a, b) => b.createdAt - a.createdAt)
+    .map(clone);
+  const listAuditLog = (event = state()) => [...event.audit].reverse().map(clone);
+
+  // Bound to the event active when subscribing, like a Firestore listener
+  const subscribe = <T>(collection: MemoryCollection, list: (event: EventState) => T[], callback: (items: T[]) => void) => {
+    const event = state();
+    callback(list(event));
+    return on(collection, () => callback(list(event)));
+  };
+
+  loadSeed(options.seed);
+
+  // ============ TEAMS ============
+
+  const getAllTeams = async () => listTeams();
+
+  // With a freeze, what the Firestore rules let the public read
+  const subscribeToTeams = (callback: (teams: Team[]) => void, freeze: LeaderboardFreeze | null = null) =>
+    subscribe('teams', event => listTeams(event).filter(team => !freeze || freeze.revealed.includes(team.name)), callback);
+
+  const createTeam = async (team: Team) => {
+    state().teams.set(team.name, clone(team));
+    emit('teams');
+  };
+
+  const updateTeam = async (teamName: string, updates: Partial<Team>) => {
+    const { teams } = state();
+    const team = teams.get(teamName);
+    if (!team) {
+      throw new Error(`No team to update: ${teamName}`);
+    }
+    teams.set(teamName, { ...team, ...clone(updates) });
+    emit('teams');
+  };
+
+  const initializeTeams = async (teamNames: string[]) => {
+    const { teams } = state();
+    for (const name of teamNames) {
+      teams.set(name, { ...teams.get(name), name, points: 0, active: false });
+    }
+    emit('teams');
+  };
+
+  // ============ REPOSITORIES ============
+
+  const getAllRepositories = async () => listRepositories();
+
+  const subscribeToRepositories = (callback: (repos: Repository[]) => void) =>
+    subscribe('repositories', listRepositories, callback);
+
+  const createRepository = async (repo: Repository) => {
+    const id = generateId('repo');
+    state().repositories.set(id, { ...clone(repo), id });
+    emit('repositories');
+  };
+
+  const deleteRepository = async (repoId: string) => {
+    const { repositories, issues, hints } = state();
+    getIssuesTrashedWith(repoId, [...issues.values()]).forEach(issue => {
+      issues.delete(issue.id);
+      hints.delete(issue.id);
+    });
+    repositories.delete(repoId);
+    emit('repositories');
+    emit('issues');
+    emit('hints');
+  };
+
+  const initializeRepositories = async (repos: Repository[]) => {
+    const { repositories } = state();
+    for (const repo of repos) {
+      const id = generateId('repo');
+      repositories.set(id, { ...clone(repo), id });
+    }
+    emit('repositories');
+  };
+
+  // ============ ISSUES ============
+
+  const getAllIssues = async () => listIssues();
+
+  const subscribeToIssues = (callback: (issues: Issue[]) => void) =>
+    subscribe('issues', listIssues, callback);
+
+  const createIssue = async (issue: Omit<Issue, 'id'>) => {
+    const id = generateId('issue');
+    state().issues.set(id, { ...clone(issue), id });
+    emit('issues');
+    return id;
+  };
+
+  const createIssues = async (newIssues: Omit<Issue, 'id'>[]) => {
+    const { issues } = state();
+    const ids = newIssues.map(issue => {
+      const id = generateId('issue');
+      issues.set(id, { ...clone(issue), id });
+      return id;
+    });
+    emit('issues');
+    return ids;
+  };
+
+  const updateIssue = async (issueId: string, updates: Partial<Issue>) => {
+    const { issues } = state();
+    const issue = issues.get(issueId);
+    if (!issue) {
+      throw new Error(`No issue to update: ${issueId}`);
+    }
+    issues.set(issueId, { ...issue, ...clone(updates), id: issueId });
+    emit('issues');
+  };
+
+  const deleteIssue = async (issueId: string) => {
+    state().issues.delete(issueId);
+    state().hints.delete(issueId);
+    emit('issues');
+    emit('hints');
+  };
+
+  const getIssuesByRepo = async (repoName: string) =>
+    listIssues().filter(issue => issue.repo === repoName);
+
+  const getIssuesByTeam = async (teamName: string) =>
+    listIssues().filter(issue => issue.assignedTo === teamName);
+
+  // ============ TRASH ============
+
+  const trashIssue = async (issueId: string): Promise<ActionResult> => {
+    const { issues } = state();
+    const issue = issues.get(issueId);
+    if (!issue) {
+      return { success: false, error: 'Issue not found.' };
+    }
+    const blocker = getTrashIssueBlocker(issue);
+    if (blocker) {
+      return { success: false, error: blocker };
+    }
+    issues.set(issueId, { ...issue, deletedAt: now(), trashedWithRepo: null });
+    emit('issues');
+    return { success: true };
+  };
+
+  const restoreIssue = async (issueId: string): Promise<ActionResult> => {
+    const { issues } = state();
+    const issue = issues.get(issueId);
+    if (!issue) {
+      return { success: false, error: 'Issue not found.' };
+    }
+    const blocker = getRestoreIssueBlocker(issue, listRepositories());
+    if (blocker) {
+      return { success: false, error: blocker };
+    }
+    issues.set(issueId, { ...issue, deletedAt: null, trashedWithRepo: null });
+    emit('issues');
+    return { success: true };
+  };
+
+  const trashRepository = async (repoId: string): Promise<ActionResult> => {
+    const { repositories, issues } = state();
+    const repo = repositories.get(repoId);
+    if (!repo) {
+      return { success: false, error: 'Repository not found.' };
+    }
+    const blocker = getTrashRepositoryBlocker(repo, [...issues.values()]);
+    if (blocker) {
+      return { success: false, error: blocker };
+    }
+    const deletedAt = now();
+    for (const issue of getCascadedIssues(repo, [...issues.values()])) {
+      issues.set(issue.id, { ...issue, deletedAt, trashedWithRepo: repoId });
+    }
+    repositories.set(repoId, { ...repo, deletedAt });
+    emit('repositories');
+    emit('issues');
+    return { success: true };
+  };
+
+  const restoreRepository = async (repoId: string): Promise<ActionResult> => {
+    const { repositories, issues } = state();
+    const repo = repositories.get(repoId);
+    if (!repo) {
+      return { success: false, error: 'Repository not found.' };
+    }
+    const blocker = getRestoreRepositoryBlocker(repo, listRepositories());
+    if (blocker) {
+      return { success: false, error: blocker };
+    }
+    for (const issue of getIssuesTrashedWith(repoId, [...issues.values()])) {
+      issues.set(issue.id, { ...issue, deletedAt: null, trashedWithRepo: null });
+    }
+    repositories.set(repoId, { ...repo, deletedAt: null });
+    emit('repositories');
+    emit('issues');
+    return { success: true };
+  };
+
+  // ============ SCORING RULES ============
+
+  const getScoringRules = async () => clone(state().scoringRules);
+
+  const subscribeToScoringRules = (callback: (rules: ScoringRules) => void) => {
+    const event = state();
+    callback(clone(event.scoringRules));
+    return on('scoringRules', () => callback(clone(event.scoringRules)));
+  };
+
+  const updateScoringRules = async (rules: ScoringRules) => {
+    if (session?.role !== 'admin') {
+      throw new Error('Only admins can change the scoring rules.');
+    }
+    state().scoringRules = { ...normalizeScoringRules(clone(rules)), updatedAt: now() };
+    emit('scoringRules');
+  };
+
+  // ============ EVENTS ============
+
+  const subscribeToEvents = (callback: (events: ContestEvent[]) => void) => {
+    callback(listEvents());
+    return on('events', () => callback(listEvents()));
+  };
+
+  const assertEventAdmin = () => {
+    if (session?.role !== 'admin') {
+      throw new Error('Only admins can change events.');
+    }
+  };
+
+  const setEvent = (slug: string, updates: Partial<ContestEvent>) => {
+    const event = events.get(slug);
+    if (!event) {
+      throw new Error(`No event to update: ${slug}`);
+    }
+    events.set(slug, { ...event, ...clone(updates), updatedAt: now() });
+    emit('events');
+  };
+
+  const createEvent = async (slug: string, details: EventDetails) => {
+    assertEventAdmin();
+    if (events.has(slug)) {
+      throw new Error(`An event at /e/${slug} already exists.`);
+    }
+    events.set(slug, { ...normalizeEvent(slug, { ...clone(details), status: 'draft' }), createdAt: now() });
+    eventStates.set(slug, createEventState());
+    emit('events');
+  };
+
+  const updateEvent = async (slug: string, details: EventDetails) => {
+    assertEventAdmin();
+    const { name, organizer, tagline, logoUrl, startsAt, endsAt } = normalizeEvent(slug, details);
+    setEvent(slug, { name, organizer, tagline, logoUrl, startsAt, endsAt });
+  };
+
+  const setActiveEvent = (slug: string | null) => {
+    activeEventSlug = slug;
+  };
+
+  const changeEventStatus = async (status: EventStatus): Promise<ActionResult> => {
+    assertEventAdmin();
+    const slug = activeSlug();
+    const event = events.get(slug)!;
+    const currentTime = now();
+    const update = getEventStatusUpdate(event, status, currentTime);
+    if (typeof update === 'string') {
+      return { success: false, error: update };
+    }
+
+    const shift = status === 'running' ? getPauseShiftMs(event, currentTime) : 0;
+    if (shift > 0) {
+      const { issues } = state();
+      for (const issue of issues.values()) {
+        if (issue.status === 'occupied' && issue.occupiedAt) {
+          issues.set(issue.id, { ...issue, occupiedAt: issue.occupiedAt + shift });
+        } else if (getActiveOffer(issue, event.pausedAt ?? currentTime)) {
+          // Claim windows stand still too
+          issues.set(issue.id, { ...issue, offerExpiresAt: issue.offerExpiresAt + shift });
+        }
+      }
+      emit('issues');
+    }
+
+    setEvent(slug, update);
+    return { success: true };
+  };
+
+  const freezeLeaderboard = async () => {
+    assertEventAdmin();
+    const scores = Object.fromEntries([...state().teams.values()].map(team => [team.name, team.points]));
+    setEvent(activeSlug(), { freeze: { frozenAt: now(), scores, revealed: [] } });
+  };
+
+  const revealTeam = async (teamName: string) => {
+    assertEventAdmin();
+    const freeze = events.get(activeSlug())?.freeze;
+    if (!freeze) {
+      throw new Error('The leaderboard is not frozen.');
+    }
+    if (!freeze.revealed.includes(teamName)) {
+      setEvent(activeSlug(), { freeze: { ...freeze, revealed: [...freeze.revealed, teamName] } });
+    }
+  };
+
+  const unfreezeLeaderboard = async () => {
+    assertEventAdmin();
+    setEvent(activeSlug(), { freeze: null });
+  };
+
+  // ============ TRANSACTIONS ============
+
+  // Runs synchronously, so no other mutation can interleave between the
+  // checks and the write.
+  const occupyIssue = async (issueId: string, teamName: string): Promise<OccupyResult> => {
+    if (!issueId || !teamName) {
+      return { success: false, error: 'Issue ID and team name are required' };
+    }
+
+    const closedError = getEventClosedError(getEventPhase(events.get(activeSlug())!, now()));
+    if (closedError) {
+      return { success: false, error: closedError };
+    }
+
+    const { issues, scoringRules } = state();
+    const issue = issues.get(issueId);
+    if (!issue) {
+      return { success: false, error: 'Issue not found' };
+    }
+
+    if (isTrashed(issue)) {
+      return { success: false, error: REMOVED_ISSUE_ERROR };
+    }
+
+    if (issue.status !== 'open') {
+      return { success: false, error: `This issue is already ${issue.status}. Please choose another issue.` };
+    }
+
+    if (issue.assignedTo === teamName) {
+      return { success: false, error: 'Your team is already assigned to this issue.' };
+    }
+
+    const occupiedAt = now();
+    const heldFor = getActiveOffer(issue, occupiedAt);
+    if (heldFor && heldFor !== teamName) {
+      return { success: false, error: getOfferHeldError(heldFor) };
+    }
+
+    if (countHeldIssues([...issues.values()], teamName, occupiedAt, issueId) >= scoringRules.maxConcurrentIssues) {
+      return { success: false, error: getOccupyLimitError(scoringRules.maxConcurrentIssues) };
+    }
+
+    issues.set(issueId, {
+      ...issue,
+      status: 'occupied',
+      assignedTo: teamName,
+      occupiedAt,
+      occupationId: `${issueId}_${occupiedAt}`,
+      extensionMinutes: null,
+      offeredTo: null,
+      offerExpiresAt: null,
+      waitlist: (issue.waitlist ?? []).filter(name => name !== teamName)
+    });
+    emit('issues');
+
+    return { success: true };
+  };
+
+  // Mirrors the releaseIssue function in functions/src/release.ts
+  const releaseIssue = async (issueId: string): Promise<ReleaseResult> => {
+    const teamName = session?.role === 'team' ? session.teamName : undefined;
+    if (!teamName) {
+      return { success: false, error: 'Only teams can release issues.' };
+    }
+    const closedError = getEventClosedError(getEventPhase(events.get(activeSlug())!, now()));
+    if (closedError) {
+      return { success: false, error: closedError };
+    }
+
+    const event = state();
+    const issue = event.issues.get(issueId);
+    if (!issue || isTrashed(issue)) {
+      return { success: false, error: 'Issue not found.' };
+    }
+    if (issue.status !== 'occupied' || issue.assignedTo !== teamName) {
+      return { success: false, error: 'Your team no longer holds this issue.' };
+    }
+
+    const releasedAt = now();
+    const occupiedAt = issue.occupiedAt ?? releasedAt;
+    const occupationId = issue.occupationId || `${issueId}_${occupiedAt}`;
+    const team = event.teams.get(teamName);
+    // Scores never go below zero, so the entry records what was deducted
+    const penalty = Math.min(
+      getReleasePenalty(issue, event.scoringRules, releasedAt - occupiedAt),
+      Math.max(0, team?.points ?? 0)
+    );
+    if (team && penalty > 0) {
+      appendEntry(event, {
+        id: getReleaseEntryId(occupationId),
+        teamName,
+        delta: -penalty,
+        reason: 'release',
+        issueId,
+        issueTitle: issue.title,
+        actor: teamName,
+        createdAt: releasedAt
+      });
+      emit('teams');
+      emit('ledger');
+    }
+
+    const freed = getFreedIssueFields(issue, event.scoringRules, releasedAt, getWaitlistFullTeams(event, issue, releasedAt));
+    event.issues.set(issueId, { ...issue, ...freed });
+    event.audit.push({
+      id: generateId('audit'),
+      action: 'issue.release',
+      actor: teamName,
+      actorRole: 'team',
+      target: issue.title,
+      issueId,
+      teamName,
+      before: { status: 'occupied', assignedTo: teamName },
+      after: { status: 'open', assignedTo: null, penalty, offeredTo: freed.offeredTo },
+      createdAt: releasedAt
+    });
+    emit('issues');
+    emit('audit');
+    return { success: true, penalty, offeredTo: freed.offeredTo };
+  };
+
+  // ============ PR REVIEW ============
+
+  const getVerificationContext = (event: EventState, issue: Issue) => ({
+    issue,
+    repository: [...event.repositories.values()].find(repo => repo.name === issue.repo),
+    team: issue.assignedTo ? event.teams.get(issue.assignedTo) : undefined
+  });
+
+  const closeIssue = async (issueId: string, prUrl: string): Promise<VerificationResult> => {
+    const teamName = session?.role === 'team' ? session.teamName : undefined;
+    if (!teamName) {
+      return { success: false, error: 'Only teams can submit pull requests.' };
+    }
+    const issue = state().issues.get(issueId);
+    if (!issue || isTrashed(issue)) {
+      return { success: false, error: 'Issue not found.' };
+    }
+    if (issue.status !== 'occupied' || issue.assignedTo !== teamName) {
+      return { success: false, error: 'Your team no longer holds this issue.' };
+    }
+
+    // GitHub being unreachable does not block the submission; see closeIssue in functions/src/verification.ts
+    const verification = await verify(prUrl.trim(), getVerificationContext(state(), issue));
+    if (verification.status === 'failed') {
+      return { success: false, error: verification.error || 'Pull request verification failed.', verification };
+    }
+
+    // GitHub was asked in between, so check nothing changed meanwhile
+    const closedError = getEventClosedError(getEventPhase(events.get(activeSlug())!, now()));
+    if (closedError) {
+      return { success: false, error: closedError, verification };
+    }
+    const latest = state().issues.get(issueId);
+    if (latest?.status !== 'occupied' || latest.occupationId !== issue.occupationId) {
+      return { success: false, error: 'Your team no longer holds this issue.', verification };
+    }
+    state().issues.set(issueId, {
+      ...latest,
+      status: 'closed',
+      closedAt: now(),
+      prUrl: prUrl.trim(),
+      prStatus: 'pending',
+      prVerification: clone(verification)
+    });
+    emit('issues');
+    return { success: true, verification };
+  };
+
+  const reverifyPullRequest = async (issueId: string): Promise<VerificationResult> => {
+    if (session?.role !== 'admin') {
+      return { success: false, error: 'Only admins can verify pull requests again.' };
+    }
+    const event = state();
+    const issue = event.issues.get(issueId);
+    if (!issue?.prUrl) {
+      return { success: false, error: 'This issue has no pull request to verify.' };
+    }
+    const verification = await verify(issue.prUrl, getVerificationContext(event, issue));
+    event.issues.set(issueId, { ...event.issues.get(issueId)!, prVerification: clone(verification) });
+    emit('issues');
+    return { success: true, verification };
+  };
+
+  const reviewPullRequest = async (issueId: string, status: PrReviewStatus): Promise<ReviewResult> => {
+    const event = state();
+    const issue = event.issues.get(issueId);
+    if (!issue) {
+      return { success: false, error: 'Issue not found' };
+    }
+
+    // A rejected PR hands the issue to the next team waiting for it
+    if (status === 'rejected' && issue.waitlist?.length) {
+      const time = now();
+      const freed = getFreedIssueFields(issue, event.scoringRules, time, getWaitlistFullTeams(event, issue, time));
+      event.issues.set(issueId, { ...issue, ...freed });
+      emit('issues');
+      return { success: true, offeredTo: freed.offeredTo };
+    }
+
+    event.issues.set(issueId, { ...issue, prStatus: status });
+    let awardedPoints: number | undefined;
+
+    const entryId = getMergeEntryId(issue);
+    if (status === 'merged' && issue.assignedTo && !event.ledger.has(entryId) && event.teams.has(issue.assignedTo)) {
+      awardedPoints = getIssuePoints(issue, event.scoringRules);
+      appendEntry(event, {
+        id: entryId,
+        teamName: issue.assignedTo,
+        delta: awardedPoints,
+        reason: 'merge',
+        issueId,
+        issueTitle: issue.title,
+        actor: session?.email ?? 'admin',
+        createdAt: now()
+      });
+      emit('teams');
+      emit('ledger');
+    }
+
+    emit('issues');
+    return { success: true, awardedPoints };
+  };
+
+  // ============ EXPIRATIONS ============
+
+  // The in-memory equivalent of functions/src/expiry.ts: this store is the
+  // only place penalties are applied, keyed on the occupation id.
+  const sweepEventIssues = (event: EventState, currentTime: number) => {
+    let expired = 0;
+
+    for (const issue of event.issues.values()) {
+      if (!issue.assignedTo || !isIssueExpired(issue, event.scoringRules, currentTime)) continue;
+
+      const occupationId = issue.occupationId || `${issue.id}_${issue.occupiedAt}`;
+      if (event.expirations.has(occupationId)) continue;
+
+      const penalty = getExpiryPenalty(issue, event.scoringRules);
+      const team = event.teams.get(issue.assignedTo);
+      if (team) {
+        // Scores never go below zero, so the entry records what was deducted
+        appendEntry(event, {
+          id: getExpiryEntryId(occupationId),
+          teamName: team.name,
+          delta: -Math.min(penalty, Math.max(0, team.points)),
+          reason: 'expiry',
+          issueId: issue.id,
+          issueTitle: issue.title,
+          actor: 'system',
+          createdAt: currentTime
+        });
+      }
+
+      event.expirations.set(occupationId, {
+        occupationId,
+        issueId: issue.id,
+        issueTitle: issue.title,
+        teamName: issue.assignedTo,
+        penalty,
+        occupiedAt: issue.occupiedAt,
+        expiredAt: currentTime
+      });
+
+      const freed = getFreedIssueFields(issue, event.scoringRules, currentTime, getWaitlistFullTeams(event, issue, currentTime));
+      event.audit.push({
+        id: generateId('audit'),
+        action: 'issue.expire',
+        actor: 'system',
+        actorRole: 'system',
+        target: issue.title,
+        issueId: issue.id,
+        teamName: issue.assignedTo,
+        before: { status: 'occupied', assignedTo: issue.assignedTo },
+        after: { status: 'open', assignedTo: null, penalty, offeredTo: freed.offeredTo },
+        createdAt: currentTime
+      });
+
+      event.issues.set(issue.id, { ...issue, ...freed });
+      expired++;
+    }
+    return expired;
+  };
+
+  const sweepExpiredIssues = () => {
+    const currentTime = now();
+    let expired = 0;
+    for (const [slug, event] of eventStates) {
+      // Timers only run while the event does
+      if (getEventPhase(events.get(slug)!, currentTime) === 'running') {
+        expired += sweepEventIssues(event, currentTime);
+      }
+    }
+
+    if (expired > 0) {
+      emit('teams');
+      emit('issues');
+      emit('expirations');
+      emit('ledger');
+      emit('audit');
+    }
+    return expired;
+  };
+
+  const subscribeToExpirations = (callback: (expirations: IssueExpiration[]) => void) =>
+    subscribe('expirations', listExpirations, callback);
+
+  // ============ POINTS LEDGER ============
+
+  // Callers emit 'teams' and 'ledger' once they are done
+  const appendEntry = (event: EventState, entry: PointsEntry) => {
+    const team = event.teams.get(entry.teamName);
+    if (team) {
+      event.teams.set(team.name, { ...team, points: team.points + entry.delta });
+    }
+    event.ledger.set(entry.id, entry);
+  };
+
+  const subscribeToLedger = (callback: (entries: PointsEntry[]) => void, freeze: LeaderboardFreeze | null = null) =>
+    subscribe('ledger', event => getPublicLedger(listLedger(event), freeze), callback);
+
+  const adjustPoints = async (teamName: string, delta: number, note: string): Promise<ActionResult> => {
+    if (session?.role !== 'admin') {
+      return { success: false, error: 'Only admins can adjust points.' };
+    }
+    const event = state();
+    if (!event.teams.has(teamName)) {
+      return { success: false, error: 'Team not found.' };
+    }
+
+    appendEntry(event, {
+      id: generateId('entry'),
+      teamName,
+      delta,
+      reason: 'manual',
+      issueId: null,
+      note,
+      actor: session.email ?? 'admin',
+      createdAt: now()
+    });
+    emit('teams');
+    emit('ledger');
+    return { success: true };
+  };
+
+  const reversePointsEntry = async (entryId: string, note: string): Promise<ActionResult> => {
+    if (session?.role !== 'admin') {
+      return { success: false, error: 'Only admins can reverse ledger entries.' };
+    }
+    const event = state();
+    const entry = event.ledger.get(entryId);
+    if (!entry) {
+      return { success: false, error: 'Ledger entry not found.' };
+    }
+    const blocker = getReversalBlocker(entry, [...event.ledger.values()]);
+    if (blocker) {
+      return { success: false, error: blocker };
+    }
+
+    appendEntry(event, {
+      id: getReversalEntryId(entryId),
+      teamName: entry.teamName,
+      delta: -entry.delta,
+      reason: 'reversal',
+      issueId: entry.issueId,
+      issueTitle: entry.issueTitle,
+      note,
+      actor: session.email ?? 'admin',
+      createdAt: now(),
+      reverses: entryId
+    });
+    emit('teams');
+    emit('ledger');
+    return { success: true };
+  };
+
+  // ============ HINTS ============
+
+  const subscribeToIssueHints = (callback: (hints: Record<string, IssueHint[]>) => void) => {
+    const event = state();
+    const list = () => Object.fromEntries([...event.hints].map(([issueId, hints]) => [issueId, clone(hints)]));
+    callback(list());
+    return on('hints', () => callback(list()));
+  };
+
+  const saveIssueHints = async (issueId: string, hints: IssueHint[]) => {
+    if (session?.role !== 'admin') {
+      throw new Error('Only admins can edit hints.');
+    }
+    const event = state();
+    const issue = event.issues.get(issueId);
+    if (!issue) {
+      throw new Error(`No issue to update: ${issueId}`);
+    }
+    event.hints.set(issueId, clone(hints));
+    event.issues.set(issueId, { ...issue, hintCosts: hints.map(hint => hint.cost) });
+    emit('hints');
+    emit('issues');
+  };
+
+  const subscribeToHintUnlocks = (teamName: string | null, callback: (unlocks: HintUnlock[]) => void) =>
+    subscribe('hints', event => [...event.hintUnlocks.values()]
+      .filter(unlock => teamName === null || unlock.teamName === teamName)
+      .sort((a, b) => b.unlockedAt - a.unlockedAt)
+      .map(clone), callback);
+
+  // Mirrors the unlockHint function in functions/src/hints.ts
+  const unlockHint = async (issueId: string, hintIndex: number): Promise<ActionResult> => {
+    const teamName = session?.role === 'team' ? session.teamName : undefined;
+    if (!teamName) {
+      return { success: false, error: 'Only teams can unlock hints.' };
+    }
+    const closedError = getEventClosedError(getEventPhase(events.get(activeSlug())!, now()));
+    if (closedError) {
+      return { success: false, error: closedError };
+    }
+
+    const event = state();
+    const issue = event.issues.get(issueId);
+    if (!issue || isTrashed(issue)) {
+      return { success: false, error: 'Issue not found.' };
+    }
+    if (issue.status !== 'occupied' || issue.assignedTo !== teamName) {
+      return { success: false, error: 'Only the team holding this issue can unlock its hints.' };
+    }
+    const hint = event.hints.get(issueId)?.[hintIndex];
+    if (!hint) {
+      return { success: false, error: 'This hint does not exist.' };
+    }
+    const id = getHintUnlockId(issueId, hintIndex, teamName);
+    if (event.hintUnlocks.has(id)) {
+      return { success: false, error: 'Your team has already unlocked this hint.' };
+    }
+    if (hintIndex > 0 && !event.hintUnlocks.has(getHintUnlockId(issueId, hintIndex - 1, teamName))) {
+      return { success: false, error: 'Unlock the earlier hints first.' };
+    }
+    if ((event.teams.get(teamName)?.points ?? 0) < hint.cost) {
+      return { success: false, error: `This hint costs ${hint.cost} points, more than your team has.` };
+    }
+
+    const unlockedAt = now();
+    event.hintUnlocks.set(id, {
+      id,
+      issueId,
+      issueTitle: issue.title,
+      hintIndex,
+      text: hint.text,
+      cost: hint.cost,
+      teamName,
+      unlockedAt
+    });
+    if (hint.cost > 0) {
+      appendEntry(event, {
+        id,
+        teamName,
+        delta: -hint.cost,
+        reason: 'hint',
+        issueId,
+        issueTitle: issue.title,
+        actor: teamName,
+        createdAt: unlockedAt
+      });
+      emit('teams');
+      emit('ledger');
+    }
+    emit('hints');
+    return { success: true };
+  };
+
+  // ============ WAITLISTS ============
+
+  const joinWaitlist = async (issueId: string): Promise<ActionResult> => {
+    const teamName = session?.role === 'team' ? session.teamName : undefined;
+    if (!teamName) {
+      return { success: false, error: 'Only teams can join a waitlist.' };
+    }
+    const event = state();
+    const issue = event.issues.get(issueId);
+    if (!issue || isTrashed(issue)) {
+      return { success: false, error: 'Issue not found.' };
+    }
+    if (!canJoinWaitlist(issue, teamName)) {
+      return { success: false, error: 'Only issues another team is working on have a waitlist.' };
+    }
+    if (issue.waitlist?.includes(teamName)) {
+      return { success: false, error: 'Your team is already on the waitlist.' };
+    }
+    const { maxConcurrentIssues } = event.scoringRules;
+    if (countHeldIssues([...event.issues.values()], teamName, now()) >= maxConcurrentIssues) {
+      return { success: false, error: getWaitlistLimitError(maxConcurrentIssues) };
+    }
+    event.issues.set(issueId, { ...issue, waitlist: [...(issue.waitlist ?? []), teamName] });
+    emit('issues');
+    return { success: true };
+  };
+
+  const leaveWaitlist = async (issueId: string): Promise<ActionResult> => {
+    const teamName = session?.role === 'team' ? session.teamName : undefined;
+    if (!teamName) {
+      return { success: false, error: 'Only teams can leave a waitlist.' };
+    }
+    const event = state();
+    const issue = event.issues.get(issueId);
+    if (!issue) {
+      return { success: false, error: 'Issue not found.' };
+    }
+    event.issues.set(issueId, { ...issue, waitlist: (issue.waitlist ?? []).filter(name => name !== teamName) });
+    emit('issues');
+    return { success: true };
+  };
+
+  // ============ TIME EXTENSIONS ============
+
+  const subscribeToExtensionRequests = (teamName: string | null, callback: (requests: ExtensionRequest[]) => void) =>
+    subscribe('extensions', event => [...event.extensionRequests.values()]
+      .filter(request => teamName === null || request.teamName === teamName)
+      .sort((a, b) => b.requestedAt - a.requestedAt)
+      .map(clone), callback);
+
+  const requestExtension = async (issueId: string, reason: string): Promise<ActionResult> => {
+    const teamName = session?.role === 'team' ? session.teamName : undefined;
+    if (!teamName) {
+      return { success: false, error: 'Only teams can request more time.' };
+    }
+    const closedError = getEventClosedError(getEventPhase(events.get(activeSlug())!, now()));
+    if (closedError) {
+      return { success: false, error: closedError };
+    }
+
+    const event = state();
+    const issue = event.issues.get(issueId);
+    if (!issue || isTrashed(issue)) {
+      return { success: false, error: 'Issue not found.' };
+    }
+    if (issue.status !== 'occupied' || issue.assignedTo !== teamName || !issue.occupationId) {
+      return { success: false, error: 'Only the team holding this issue can ask for more time.' };
+    }
+    const pending = [...event.extensionRequests.values()].some(request =>
+      request.teamName === teamName && request.issueId === issueId && request.status === 'pending'
+    );
+    if (pending) {
+      return { success: false, error: 'Your team is already waiting for an answer on this issue.' };
+    }
+
+    const id = generateId('extension');
+    event.extensionRequests.set(id, {
+      id,
+      issueId,
+      issueTitle: issue.title,
+      occupationId: issue.occupationId,
+      teamName,
+      reason,
+      status: 'pending',
+      requestedAt: now()
+    });
+    emit('extensions');
+    return { success: true };
+  };
+
+  const resolveExtensionRequest = async (requestId: string, minutes: number | null): Promise<ActionResult> => {
+    if (session?.role !== 'admin') {
+      return { success: false, error: 'Only admins can answer extension requests.' };
+    }
+    const event = state();
+    const request = event.extensionRequests.get(requestId);
+    if (!request) {
+      return { success: false, error: 'Extension request not found.' };
+    }
+    if (request.status !== 'pending') {
+      return { success: false, error: `This request was already ${request.status}.` };
+    }
+
+    if (minutes !== null) {
+      const issue = event.issues.get(request.issueId);
+      if (!issue || issue.status !== 'occupied' || issue.occupationId !== request.occupationId) {
+        return { success: false, error: `${request.teamName} no longer holds this issue. Deny the request instead.` };
+      }
+      event.issues.set(issue.id, { ...issue, extensionMinutes: (issue.extensionMinutes ?? 0) + minutes });
+      emit('issues');
+    }
+
+    event.extensionRequests.set(requestId, {
+      ...request,
+      status: minutes === null ? 'denied' : 'granted',
+      minutes,
+      resolvedAt: now(),
+      resolvedBy: session.email ?? 'admin'
+    });
+    emit('extensions');
+    return { success: true };
+  };
+
+  // ============ AUDIT LOG ============
+
+  const appendAuditEntry = async (entry: AuditInput) => {
+    if (!session) {
+      throw new Error('Only signed-in admins and teams can write to the audit log.');
+    }
+    state().audit.push({
+      ...clone(entry),
+      id: generateId('audit'),
+      actor: (session.role === 'admin' ? session.email : session.teamName) ?? session.uid,
+      actorRole: session.role,
+      createdAt: now()
+    });
+    emit('audit');
+  };
+
+  const subscribeToAuditLog = (callback: (entries: AuditEntry[]) => void) =>
+    subscribe('audit', listAuditLog, callback);
+
+  const subscribeToIssueActivity = (issueId: string, callback: (entries: AuditEntry[]) => void) =>
+    subscribe('audit', event => event.audit.filter(entry => entry.issueId === issueId).map(clone), callback);
+
+  // ============ PRESENCE ============
+
+  const claimTeamSession = async (teamName: string, sessionId: string): Promise<ActionResult> => {
+    const { teams } = state();
+    const team = teams.get(teamName);
+    if (!team) {
+      return { success: false, error: 'Team not found.' };
+    }
+    if (team.activeSessionId && team.activeSessionId !== sessionId && isSessionFresh(team, now())) {
+      return { success: false, error: 'This team is already active. Only one active session allowed.' };
+    }
+
+    teams.set(teamName, { ...team, active: true, activeSessionId: sessionId, lastSeen: now() });
+    emit('teams');
+    return { success: true };
+  };
+
+  const sendHeartbeat = async (teamName: string, sessionId: string) => {
+    const { teams } = state();
+    const team = teams.get(teamName);
+    if (!team || (team.activeSessionId && team.activeSessionId !== sessionId)) {
+      return false;
+    }
+
+    teams.set(teamName, { ...team, active: true, activeSessionId: sessionId, lastSeen: now() });
+    emit('teams');
+    return true;
+  };
+
+  const releaseTeamSession = async (teamName: string, sessionId: string) => {
+    const { teams } = state();
+    const team = teams.get(teamName);
+    if (team?.activeSessionId === sessionId) {
+      teams.set(teamName, { ...team, active: false, activeSessionId: null });
+      emit('teams');
+    }
+  };
+
+  // The in-memory equivalent of functions/src/presence.ts
+  const sweepStaleSessions = () => {
+    const currentTime = now();
+    let released = 0;
+
+    for (const { teams } of eventStates.values()) {
+      for (const team of teams.values()) {
+        if (team.active && !isSessionFresh(team, currentTime)) {
+          teams.set(team.name, { ...team, active: false, activeSessionId: null });
+          released++;
+        }
+      }
+    }
+
+    if (released > 0) {
+      emit('teams');
+    }
+    return released;
+  };
+
+  const sweepIntervalMs = options.sweepIntervalMs ?? 10000;
+  if (sweepIntervalMs > 0) {
+    setInterval(() => {
+      sweepExpiredIssues();
+      sweepStaleSessions();
+    }, sweepIntervalMs);
+  }
+
+  // ============ AUTH ============
+
+  const setSession = (next: AuthSession | null) => {
+    session = next;
+    emit('auth');
+  };
+
+  const signInTeam = async (teamName: string, password: string): Promise<SignInResult> => {
+    const eventSlug = activeSlug();
+    const credential = state().teamCredentials.get(teamName);
+    if (!credential || credential.password !== password) {
+      return { success: false, error: 'Invalid team name or password. Contact admin if you need a new password.' };
+    }
+    if (credential.revoked) {
+      return { success: false, error: 'This login has been revoked. Contact admin.' };
+    }
+    const next: AuthSession = { uid: `team:${eventSlug}/${teamName}`, role: 'team', email: null, teamName, eventSlug };
+    setSession(next);
+    return { success: true, session: clone(next) };
+  };
+
+  const signInAdmin = async (email: string, password: string): Promise<SignInResult> => {
+    const admin = admins.find(a => a.email === email && a.password === password);
+    if (!admin) {
+      return { success: false, error: 'Invalid credentials' };
+    }
+    const next: AuthSession = { uid: `admin:${email}`, role: 'admin', email };
+    setSession(next);
+    return { success: true, session: clone(next) };
+  };
+
+  const signOut = async () => {
+    setSession(null);
+  };
+
+  const onAuthStateChanged = (callback: (session: AuthSession | null) => void) => {
+    callback(clone(session));
+    return on('auth', () => callback(clone(session)));
+  };
+
+  const assertAdmin = () => {
+    if (session?.role !== 'admin') {
+      throw new Error('Only admins can manage team credentials.');
+    }
+  };
+
+  const createTeamCredential = async (teamName: string): Promise<TeamCredential> => {
+    assertAdmin();
+    const name = teamName.trim();
+    if (!name) {
+      throw new Error('Team name is required.');
+    }
+    const { teams, teamCredentials } = state();
+    if (teamCredentials.has(name)) {
+      throw new Error(`${name} already has a login. Rotate it instead.`);
+    }
+
+    const password = generatePassword();
+    teamCredentials.set(name, { password, revoked: false });
+    teams.set(name, {
+      name,
+      points: 0,
+      active: false,
+      ...teams.get(name),
+      credentialStatus: 'active',
+      credentialUpdatedAt: now()
+    });
+    emit('teams');
+
+    return { teamName: name, email: `${name}@memory`, password };
+  };
+
+  const rotateTeamCredential = async (teamName: string): Promise<TeamCredential> => {
+    assertAdmin();
+    if (!state().teamCredentials.has(teamName)) {
+      throw new Error(`${teamName} has no login yet.`);
+    }
+
+    const password = generatePassword();
+    state().teamCredentials.set(teamName, { password, revoked: false });
+    await updateTeam(teamName, { credentialStatus: 'active', credentialUpdatedAt: now() });
+
+    return { teamName, email: `${teamName}@memory`, password };
+  };
+
+  const revokeTeamCredential = async (teamName: string) => {
+    assertAdmin();
+    const credential = state().teamCredentials.get(teamName);
+    if (!credential) {
+      throw new Error(`${teamName} has no login yet.`);
+    }
+
+    state().teamCredentials.set(teamName, { ...credential, revoked: true });
+    await updateTeam(teamName, { credentialStatus: 'revoked', credentialUpdatedAt: now() });
+  };
+
+  return {
+    on,
+    reset,
+    sweepExpiredIssues,
+    sweepStaleSessions,
+    subscribeToEvents,
+    createEvent,
+    updateEvent,
+    setActiveEvent,
+    getAllTeams,
+    subscribeToTeams,
+    createTeam,
+    updateTeam,
+    initializeTeams,
+    getAllRepositories,
+    subscribeToRepositories,
+    createRepository,
+    deleteRepository,
+    trashRepository,
+    restoreRepository,
+    initializeRepositories,
+    getAllIssues,
+    subscribeToIssues,
+    createIssue,
+    createIssues,
+    updateIssue,
+    deleteIssue,
+    trashIssue,
+    restoreIssue,
+    getIssuesByRepo,
+    getIssuesByTeam,
+    getScoringRules,
+    subscribeToScoringRules,
+    updateScoringRules,
+    changeEventStatus,
+    freezeLeaderboard,
+    revealTeam,
+    unfreezeLeaderboard,
+    occupyIssue,
+    releaseIssue,
+    closeIssue,
+    reverifyPullRequest,
+    reviewPullRequest,
+    subscribeToExpirations,
+    subscribeToLedger,
+    adjustPoints,
+    reversePointsEntry,
+    subscribeToIssueHints,
+    saveIssueHints,
+    subscribeToHintUnlocks,
+    unlockHint,
+    joinWaitlist,
+    leaveWaitlist,
+    subscribeToExtensionRequests,
+    requestExtension,
+    resolveExtensionRequest,
+    appendAuditEntry,
+    subscribeToAuditLog,
+    subscribeToIssueActivity,
+    signInTeam,
+    signInAdmin,
+    signOut,
+    onAuthStateChanged,
+    claimTeamSession,
+    sendHeartbeat,
+    releaseTeamSession,
+    createTeamCredential,
+    rotateTeamCredential,
+    revokeTeamCredential
+  };
+};
@@ -2,23 +2,321 @@ export interface Team {
   name: string;
   points: number;
   active: boolean;
+  /** Browser session currently holding the team login */
+  activeSessionId?: string | null;
+  /** Last heartbeat from the active session */
+  lastSeen?: number | null;
+  credentialStatus?: 'active' | 'revoked';
+  credentialUpdatedAt?: number;
+  /** GitHub logins allowed to author this team's pull requests */
+  githubUsernames?: string[];
 }
 
 export interface Issue {
   id: string;
   title: string;
+  /** Id of a DifficultyTier in the scoring rules */
+  difficulty?: string | null;
+  /** Free-form labels, e.g. "frontend" or "docs" */
   tags: string[];
+  /** Markdown, rendered in the issue drawer */
+  description?: string;
+  /** Checklist a PR has to satisfy; each item is one line of Markdown */
+  acceptanceCriteria?: string[];
+  /** Paths in the repository where the work is likely to happen */
+  fileHints?: string[];
+  /** Extra reading for the team, e.g. docs or related discussions */
+  links?: string[];
+  /**
+   * The cost of each of the issue's hints, in order. The hint texts are
+   * kept apart (IssueHint) so teams see only the ones they unlocked.
+   */
+  hintCosts?: number[];
   status: "open" | "occupied" | "closed";
   assignedTo: string | null;
   repo: string;
   occupiedAt?: number;
+  /** Unique per occupation; lets the expiry worker apply a penalty once */
+  occupationId?: string | null;
+  /**
+   * Minutes admins added to this occupation's deadline by granting
+   * extension requests; cleared when the issue is next occupied
+   */
+  extensionMinutes?: number | null;
+  /** Teams waiting to take the issue over, first in line first */
+  waitlist?: string[];
+  /**
+   * Set when the issue is freed with teams waiting: it stays open but only
+   * this team may occupy it until offerExpiresAt, then anyone may
+   */
+  offeredTo?: string | null;
+  offerExpiresAt?: number | null;
   closedAt?: number;
   prUrl?: string;
-  prStatus?: "pending" | "approved" | "merged" | "rejected";
+  prStatus?: "pending" | PrReviewStatus;
+  /** Result of checking prUrl against GitHub when the issue was closed */
+  prVerification?: PrVerification;
+  /** Set for issues imported from GitHub */
+  githubNumber?: number;
+  githubUrl?: string;
+  githubState?: "open" | "closed";
+  /** Set while the issue is in the trash */
+  deletedAt?: number | null;
+  /** Id of the repository it went to the trash with; restored along with it */
+  trashedWithRepo?: string | null;
+}
+
+export type PrReviewStatus = "approved" | "merged" | "rejected";
+
+export type PointsReason = 'merge' | 'expiry' | 'release' | 'hint' | 'manual' | 'reversal';
+
+/**
+ * One change to a team's score. The ledger is append-only: Team.points is
+ * updated atomically with each entry, and mistakes are undone by appending
+ * a reversal rather than editing history.
+ */
+export interface PointsEntry {
+  id: string;
+  teamName: string;
+  delta: number;
+  reason: PointsReason;
+  issueId: string | null;
+  issueTitle?: string;
+  /** Admin's note for manual adjustments and reversals */
+  note?: string;
+  /** Admin email, team name, "github" for the webhook or "system" for the expiry worker */
+  actor: string;
+  createdAt: number;
+  /** For reversals, the id of the entry being undone */
+  reverses?: string;
+}
+
+/**
+ * What an audited change did. The part before the dot groups actions in
+ * the audit view.
+ */
+export type AuditAction =
+  | 'issue.create' | 'issue.import' | 'issue.migrate' | 'issue.occupy' | 'issue.close' | 'issue.reverify'
+  | 'issue.move' | 'issue.assign' | 'issue.edit' | 'issue.delete' | 'issue.restore' | 'issue.purge' | 'issue.expire'
+  | 'issue.release'
+  | 'pr.review'
+  | 'hint.update' | 'hint.unlock'
+  | 'extension.request' | 'extension.grant' | 'extension.deny'
+  | 'waitlist.join' | 'waitlist.leave'
+  | 'points.adjust' | 'points.reverse'
+  | 'repository.create' | 'repository.delete' | 'repository.restore' | 'repository.purge'
+  | 'credential.create' | 'credential.rotate' | 'credential.revoke'
+  | 'team.github'
+  | 'event.update' | 'event.status'
+  | 'leaderboard.freeze' | 'leaderboard.reveal' | 'leaderboard.unfreeze'
+  | 'scoring.update';
+
+export type AuditValues = Record<string, unknown>;
+
+/**
+ * One change made by an admin, a team or a worker. Append-only, so it can
+ * settle disputes about who did what and when.
+ */
+export interface AuditEntry {
+  id: string;
+  action: AuditAction;
+  /** Admin email, team name, "github" for the webhook or "system" for the expiry worker */
+  actor: string;
+  actorRole: AuthRole | 'system';
+  /** What was changed: an issue title, team, repository or event name */
+  target: string;
+  issueId: string | null;
+  teamName: string | null;
+  /** The changed fields before the change; null when something was created */
+  before: AuditValues | null;
+  /** The changed fields after the change; null when something was deleted */
+  after: AuditValues | null;
+  createdAt: number;
+}
+
+/** An audit entry as recorded by the app; the store adds the actor and time */
+export type AuditInput = Omit<AuditEntry, 'id' | 'actor' | 'actorRole' | 'createdAt'>;
+
+export type PrCheckId = 'repository' | 'openedAfterOccupy' | 'referencesIssue' | 'author';
+
+export interface PrVerificationCheck {
+  id: PrCheckId;
+  label: string;
+  status: 'passed' | 'failed' | 'skipped';
+  detail: string;
+}
+
+export interface PrVerification {
+  /** "error" means GitHub could not be reached and the PR is unverified */
+  status: 'passed' | 'failed' | 'error';
+  checks: PrVerificationCheck[];
+  error?: string;
+  prNumber?: number;
+  author?: string;
+  checkedAt: number;
+}
+
+/** Guidance an admin attaches to an issue; teams unlock hints in order */
+export interface IssueHint {
+  text: string;
+  /** Points deducted from the team that unlocks it */
+  cost: number;
+}
+
+/** A hint a team paid for; readable by that team and the admins only */
+export interface HintUnlock {
+  /** Also the id of the ledger entry that charged for it */
+  id: string;
+  issueId: string;
+  issueTitle: string;
+  /** 0-based position in the issue's hints */
+  hintIndex: number;
+  text: string;
+  cost: number;
+  teamName: string;
+  unlockedAt: number;
+}
+
+export type ExtensionRequestStatus = 'pending' | 'granted' | 'denied';
+
+/** A team asking for more time on an issue it holds; admins grant or deny it */
+export interface ExtensionRequest {
+  id: string;
+  issueId: string;
+  issueTitle: string;
+  /** A grant only applies while this occupation lasts */
+  occupationId: string;
+  teamName: string;
+  reason: string;
+  status: ExtensionRequestStatus;
+  /** Minutes added to the deadline, once granted */
+  minutes?: number | null;
+  requestedAt: number;
+  resolvedAt?: number | null;
+  /** Email of the admin who granted or denied it */
+  resolvedBy?: string | null;
 }
 
 export interface Repository {
   id?: string; // Firestore document ID
   name: string;
   url: string;
+  /** Set while the repository and its issues are in the trash */
+  deletedAt?: number | null;
+}
+
+export interface IssueExpiration {
+  occupationId: string;
+  issueId: string;
+  issueTitle: string;
+  teamName: string;
+  penalty: number;
+  occupiedAt: number;
+  expiredAt: number;
+}
+
+export interface DifficultyTier {
+  /** Stored on Issue.difficulty; derived from the name and never changed */
+  id: string;
+  name: string;
+  /** Badge colour as a hex string, e.g. "#22c55e" */
+  color: string;
+  /** GitHub labels mapped to this tier by the issue importer */
+  githubLabels?: string[];
+  /** Awarded when the PR is merged */
+  points: number;
+  /** Deducted when the time limit runs out */
+  penalty: number;
+  timeLimitMinutes: number;
+}
+
+/**
+ * What a team pays for giving an issue back before its time runs out: a
+ * share of the tier's expiry penalty that grows with the time used, from
+ * minPercent right after occupying to maxPercent at the time limit. Equal
+ * percentages give a flat share.
+ */
+export interface ReleasePenaltyRule {
+  /** Releasing within this many minutes of occupying is free */
+  graceMinutes: number;
+  minPercent: number;
+  maxPercent: number;
+}
+
+export interface ScoringRules {
+  tiers: DifficultyTier[];
+  /** How many issues a team may hold at once */
+  maxConcurrentIssues: number;
+  releasePenalty: ReleasePenaltyRule;
+  /** How long the first team on an issue's waitlist has to claim it once it is freed */
+  claimWindowMinutes: number;
+  updatedAt?: number;
+}
+
+/**
+ * A competition (e.g. one day of a hackathon). Teams, repositories, issues,
+ * the points ledger and the scoring rules all live under its document
+ * (events/{slug}), so several events can run side by side.
+ */
+export interface ContestEvent {
+  /** URL segment and document id, e.g. "day-2"; fixed once created */
+  slug: string;
+  name: string;
+  /** Branding shown on the login page */
+  organizer: string;
+  tagline: string;
+  logoUrl: string | null;
+  /** A scheduled event opens by itself at this time */
+  startsAt: number | null;
+  /** When the event ends; drives the countdowns on the team and display screens */
+  endsAt: number | null;
+  /** As set by admins; see getEventPhase in src/lib/event.ts for the effective state */
+  status: EventStatus;
+  /** Set while paused; issue timers stand still from this moment */
+  pausedAt: number | null;
+  /** Set while the public leaderboard is frozen */
+  freeze: LeaderboardFreeze | null;
+  createdAt?: number;
+  updatedAt?: number;
+}
+
+/**
+ * draft: being set up, closed to teams. scheduled: opens at startsAt.
+ * running: teams can occupy and close issues until endsAt. paused: nothing
+ * moves and issue timers stop. ended: closed for good.
+ */
+export type EventStatus = 'draft' | 'scheduled' | 'running' | 'paused' | 'ended';
+
+/** The fields admins edit; the freeze and the status have their own actions */
+export type EventDetails = Pick<ContestEvent, 'name' | 'organizer' | 'tagline' | 'logoUrl' | 'startsAt' | 'endsAt'>;
+
+/**
+ * Public standings held at a moment in time while scoring carries on.
+ * Admins then reveal teams one by one, from the bottom up.
+ */
+export interface LeaderboardFreeze {
+  frozenAt: number;
+  /** Each team's points when the board was frozen */
+  scores: Record<string, number>;
+  /** Teams whose live score is public again, in reveal order */
+  revealed: string[];
+}
+
+export type AuthRole = 'admin' | 'team';
+
+export interface AuthSession {
+  uid: string;
+  role: AuthRole;
+  email: string | null;
+  /** Set for team logins */
+  teamName?: string;
+  /** Set for team logins: the event the team belongs to */
+  eventSlug?: string;
+}
+
+/** Returned once when a team login is created or rotated */
+export interface TeamCredential {
+  teamName: string;
+  email: string;
+  password: string;
 }
@@ -28,6 +28,8 @@ export default defineConfig(({ mode }) => {
         'react-router-dom',
         'firebase/app',
         'firebase/firestore',
+        'firebase/auth',
+        'firebase/functions',
         'sonner'
       ],
       // Force Vite to pre-bundle these modules